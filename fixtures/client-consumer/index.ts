@@ -0,0 +1,51 @@
+import type {
+  ApiEventPanelStateChanged,
+  ApiLogger,
+  JournalEntry,
+} from 'homebridge-adt-pulse/client';
+import {
+  ADTPulse,
+  ADTPulseJournal,
+  validateFingerprint,
+} from 'homebridge-adt-pulse/client';
+
+/**
+ * Client consumer.
+ *
+ * Type-checked against the published declarations of "homebridge-adt-pulse/client" with only
+ * the Node.js types installed, the way a standalone script would use the client.
+ *
+ * @since 3.3.0
+ */
+const logger: ApiLogger = console;
+
+const fingerprint = process.env.ADT_PULSE_FINGERPRINT ?? '';
+
+if (!validateFingerprint(fingerprint).isValid) {
+  logger.warn('The fingerprint is not valid.');
+}
+
+const client = new ADTPulse({
+  fingerprint,
+  password: 'password',
+  subdomain: 'portal',
+  username: 'username',
+}, {
+  logger,
+});
+
+const journal = new ADTPulseJournal('./adt-pulse-journal.jsonl', logger);
+
+client.on('panelStateChanged', (event: ApiEventPanelStateChanged) => {
+  logger.info(`${event.networkId}: ${event.old.panelStates.join(', ')} -> ${event.new.panelStates.join(', ')}`);
+});
+
+const login = await client.login();
+
+if (login.success) {
+  const entries: JournalEntry[] = await journal.query({
+    since: Date.now() - 86400000,
+  });
+
+  logger.info(`${entries.length} journal entries in the last day.`);
+}
@@ -0,0 +1,10 @@
+/**
+ * Unavailable.
+ *
+ * Stands in for the packages a consumer of "homebridge-adt-pulse/client" is not expected to
+ * install (Homebridge and the type packages of the HTML parser and cookie jar). Any type imported
+ * from them by the published declarations fails the check with "has no exported member".
+ *
+ * @since 3.3.0
+ */
+export {};
@@ -0,0 +1,96 @@
+/**
+ * Client.
+ *
+ * The standalone entry point for using the ADT Pulse API client and the event journal outside of
+ * Homebridge. Import it through "homebridge-adt-pulse/client" instead of deep paths, which are not
+ * covered by the versioning of this package. The declarations behind it only depend on the Node.js
+ * types and the packages listed in "dependencies", so Homebridge does not need to be installed.
+ *
+ * @since 3.3.0
+ */
+export { ADTPulse } from '@/lib/api.js';
+export { generateFingerprint, validateFingerprint } from '@/lib/fingerprint.js';
+export { ADTPulseJournal } from '@/lib/journal.js';
+export type {
+  ADTPulseAcquireSiteNetworkId,
+  ADTPulseAcquireSiteReturns,
+  ADTPulseConstructorConfig,
+  ADTPulseConstructorInternalConfig,
+  ADTPulseGetGatewayInformationReturns,
+  ADTPulseGetMfaChallengeReturns,
+  ADTPulseGetOrbSecurityButtonsReturns,
+  ADTPulseGetPanelInformationReturns,
+  ADTPulseGetPanelStatusReturns,
+  ADTPulseGetSensorsInformationReturns,
+  ADTPulseGetSensorsStatusReturns,
+  ADTPulseGetSummarySnapshotReturns,
+  ADTPulseIsAuthenticatedReturns,
+  ADTPulseJournalConstructorFilePath,
+  ADTPulseJournalConstructorLog,
+  ADTPulseJournalGetFilePathReturns,
+  ADTPulseJournalGetZoneOpeningsReturns,
+  ADTPulseJournalGetZoneOpeningsSince,
+  ADTPulseJournalGetZoneOpeningsZone,
+  ADTPulseJournalQueryFilter,
+  ADTPulseJournalQueryReturns,
+  ADTPulseJournalRecordEvent,
+  ADTPulseJournalRecordReturns,
+  ADTPulseLoginReturns,
+  ADTPulseLogoutReturns,
+  ADTPulseOffListener,
+  ADTPulseOffName,
+  ADTPulseOnListener,
+  ADTPulseOnName,
+  ADTPulseOnceListener,
+  ADTPulseOnceName,
+  ADTPulsePerformKeepAliveReturns,
+  ADTPulsePerformSyncCheckReturns,
+  ADTPulseReleaseSiteReturns,
+  ADTPulseRequestMfaCodeMethodId,
+  ADTPulseRequestMfaCodeReturns,
+  ADTPulseResetSessionReturns,
+  ADTPulseSetPanelStatusArmFrom,
+  ADTPulseSetPanelStatusArmTo,
+  ADTPulseSetPanelStatusIsAlarmActive,
+  ADTPulseSetPanelStatusReturns,
+  ADTPulseStoreAccessCodesAccessCodes,
+  ADTPulseStoreAccessCodesReturns,
+  ADTPulseSubmitMfaCodeCode,
+  ADTPulseSubmitMfaCodeReturns,
+  ADTPulseSwitchSiteNetworkId,
+  ADTPulseSwitchSiteReturns,
+  GenerateFingerprintComponents,
+  GenerateFingerprintReturns,
+  ValidateFingerprintFingerprint,
+  ValidateFingerprintReturns,
+} from '@/types/client.d.ts';
+export type {
+  ApiEventGatewayStatusChanged,
+  ApiEventListener,
+  ApiEventLoginFailed,
+  ApiEventName,
+  ApiEventPanelStateChanged,
+  ApiEventParserAnomaly,
+  ApiEventSensorStatusChanged,
+  ApiEventSessionReset,
+  ApiEventSyncCodeChanged,
+  ApiEvents,
+  ApiLogger,
+  ApiResponse,
+  ApiResponseAction,
+  ApiResponseFail,
+  ApiResponseFailInfo,
+  ApiResponseSuccess,
+  FingerprintComponents,
+  FingerprintReport,
+  GatewayInformation,
+  InternalConfig,
+  JournalEntry,
+  JournalEvent,
+  MfaFormMethod,
+  OrbSecurityButtons,
+  PanelInformation,
+  PanelStatus,
+  SensorInformation,
+  SensorStatus,
+} from '@/types/shared.d.ts';
@@ -1,16 +1,21 @@
 import chalk from 'chalk';
 
 import { itemCondensedSensorTypes } from '@/lib/items.js';
+import { textCellularSignalStrength } from '@/lib/regex.js';
 import {
   condensePanelStates,
   convertPanelCharacteristicValue,
+  findHomeKitArmMode,
+  isGatewayOnCellularBackup,
   isPanelAlarmActive,
+  setPanelArmMode,
   stackTracer,
 } from '@/lib/utility.js';
 import type {
   ADTPulseAccessoryAccessory,
   ADTPulseAccessoryActivity,
   ADTPulseAccessoryApi,
+  ADTPulseAccessoryArmMode,
   ADTPulseAccessoryCharacteristic,
   ADTPulseAccessoryConfig,
   ADTPulseAccessoryConstructorAccessory,
@@ -18,18 +23,30 @@ import type {
   ADTPulseAccessoryConstructorCharacteristic,
   ADTPulseAccessoryConstructorConfig,
   ADTPulseAccessoryConstructorInstance,
+  ADTPulseAccessoryConstructorJournal,
   ADTPulseAccessoryConstructorLog,
   ADTPulseAccessoryConstructorService,
   ADTPulseAccessoryConstructorState,
+  ADTPulseAccessoryGetArmModesReturns,
+  ADTPulseAccessoryGetArmModeValueArmValue,
+  ADTPulseAccessoryGetArmModeValueMode,
+  ADTPulseAccessoryGetArmModeValueReturns,
+  ADTPulseAccessoryGetGatewayStatusMode,
+  ADTPulseAccessoryGetGatewayStatusReturns,
+  ADTPulseAccessoryGetHomeKitArmModeReturns,
+  ADTPulseAccessoryGetHomeKitArmModeValue,
   ADTPulseAccessoryGetPanelStatusMode,
   ADTPulseAccessoryGetPanelStatusReturns,
   ADTPulseAccessoryGetPanelSwitchStatusReturns,
   ADTPulseAccessoryGetSensorStatusMode,
   ADTPulseAccessoryGetSensorStatusReturns,
   ADTPulseAccessoryInstance,
+  ADTPulseAccessoryJournal,
   ADTPulseAccessoryLog,
   ADTPulseAccessoryServices,
   ADTPulseAccessorySetPanelStatusArm,
+  ADTPulseAccessorySetPanelStatusArmTo,
+  ADTPulseAccessorySetPanelStatusResult,
   ADTPulseAccessorySetPanelStatusReturns,
   ADTPulseAccessorySetPanelSwitchStatusOn,
   ADTPulseAccessorySetPanelSwitchStatusReturns,
@@ -70,6 +87,15 @@ export class ADTPulseAccessory {
    */
   #api: ADTPulseAccessoryApi;
 
+  /**
+   * ADT Pulse Accessory - Arm mode.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #armMode: ADTPulseAccessoryArmMode;
+
   /**
    * ADT Pulse Accessory - Characteristic.
    *
@@ -97,6 +123,15 @@ export class ADTPulseAccessory {
    */
   #instance: ADTPulseAccessoryInstance;
 
+  /**
+   * ADT Pulse Accessory - Journal.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #journal: ADTPulseAccessoryJournal;
+
   /**
    * ADT Pulse Accessory - Log.
    *
@@ -135,21 +170,23 @@ export class ADTPulseAccessory {
    * @param {ADTPulseAccessoryConstructorCharacteristic} characteristic - Characteristic.
    * @param {ADTPulseAccessoryConstructorApi}            api            - Api.
    * @param {ADTPulseAccessoryConstructorLog}            log            - Log.
+   * @param {ADTPulseAccessoryConstructorJournal}        journal        - Journal.
    *
    * @since 1.0.0
    */
-  public constructor(accessory: ADTPulseAccessoryConstructorAccessory, state: ADTPulseAccessoryConstructorState, config: ADTPulseAccessoryConstructorConfig, instance: ADTPulseAccessoryConstructorInstance, service: ADTPulseAccessoryConstructorService, characteristic: ADTPulseAccessoryConstructorCharacteristic, api: ADTPulseAccessoryConstructorApi, log: ADTPulseAccessoryConstructorLog) {
+  public constructor(accessory: ADTPulseAccessoryConstructorAccessory, state: ADTPulseAccessoryConstructorState, config: ADTPulseAccessoryConstructorConfig, instance: ADTPulseAccessoryConstructorInstance, service: ADTPulseAccessoryConstructorService, characteristic: ADTPulseAccessoryConstructorCharacteristic, api: ADTPulseAccessoryConstructorApi, log: ADTPulseAccessoryConstructorLog, journal: ADTPulseAccessoryConstructorJournal) {
     this.#accessory = accessory;
     this.#activity = {
       isBusy: false,
-      setCurrentValue: null,
       setTargetValue: null,
       setValue: null,
     };
     this.#api = api;
+    this.#armMode = null;
     this.#characteristic = characteristic;
     this.#config = config;
     this.#instance = instance;
+    this.#journal = journal;
     this.#log = log;
     this.#services = {};
     this.#state = state;
@@ -183,10 +220,61 @@ export class ADTPulseAccessory {
     // Set the service associated with the gateway/panel.
     switch (type) {
       case 'gateway':
-        // No supported service available.
+        this.#services.Primary = this.#accessory.getServiceById(service.OccupancySensor, 'broadband') ?? this.#accessory.addService(service.OccupancySensor, 'Broadband Online', 'broadband');
+        this.#services.Cellular = this.#accessory.getServiceById(service.OccupancySensor, 'cellular') ?? this.#accessory.addService(service.OccupancySensor, 'Cellular Backup Active', 'cellular');
         break;
       case 'panel':
         this.#services.Primary = this.#accessory.getService(service.SecuritySystem) ?? this.#accessory.addService(service.SecuritySystem);
+
+        // Only show the modes in the Home app that are not disabled in the arm mode mapping.
+        this.#services.Primary.getCharacteristic(this.#characteristic.SecuritySystemTargetState).setProps({
+          validValues: [
+            this.#characteristic.SecuritySystemTargetState.STAY_ARM,
+            this.#characteristic.SecuritySystemTargetState.AWAY_ARM,
+            this.#characteristic.SecuritySystemTargetState.NIGHT_ARM,
+            this.#characteristic.SecuritySystemTargetState.DISARM,
+          ].filter((value) => {
+            const homeKitArmMode = this.getHomeKitArmMode(value);
+
+            return homeKitArmMode === null || this.getArmModes()[homeKitArmMode] !== 'disabled';
+          }),
+        });
+
+        // Separate sensors for each kind of alarm, so automations can treat a fire alarm differently from a burglary.
+        if (this.#config?.options.includes('disableAlarmTypeSensors') !== true) {
+          this.#services.BurglaryAlarm = this.#accessory.getServiceById(service.OccupancySensor, 'burglaryAlarm') ?? this.#accessory.addService(service.OccupancySensor, 'Burglary Alarm', 'burglaryAlarm');
+          this.#services.CarbonMonoxideAlarm = this.#accessory.getServiceById(service.CarbonMonoxideSensor, 'carbonMonoxideAlarm') ?? this.#accessory.addService(service.CarbonMonoxideSensor, 'Carbon Monoxide Alarm', 'carbonMonoxideAlarm');
+          this.#services.FireAlarm = this.#accessory.getServiceById(service.SmokeSensor, 'fireAlarm') ?? this.#accessory.addService(service.SmokeSensor, 'Fire Alarm', 'fireAlarm');
+          this.#services.WaterAlarm = this.#accessory.getServiceById(service.LeakSensor, 'waterAlarm') ?? this.#accessory.addService(service.LeakSensor, 'Water Alarm', 'waterAlarm');
+        } else {
+          const alarmTypeServices = [
+            this.#accessory.getServiceById(service.OccupancySensor, 'burglaryAlarm'),
+            this.#accessory.getServiceById(service.CarbonMonoxideSensor, 'carbonMonoxideAlarm'),
+            this.#accessory.getServiceById(service.SmokeSensor, 'fireAlarm'),
+            this.#accessory.getServiceById(service.LeakSensor, 'waterAlarm'),
+          ];
+
+          // Remove the alarm type sensors added before the user turned them off.
+          for (let i = 0; i < alarmTypeServices.length; i += 1) {
+            const alarmTypeService = alarmTypeServices[i];
+
+            if (alarmTypeService !== undefined) {
+              this.#accessory.removeService(alarmTypeService);
+            }
+          }
+        }
+
+        // HomeKit has no "pending" state, so the entry delay is shown as a separate sensor.
+        if ((this.#config?.entryDelay ?? 0) > 0) {
+          this.#services.EntryDelay = this.#accessory.getServiceById(service.OccupancySensor, 'entryDelay') ?? this.#accessory.addService(service.OccupancySensor, 'Entry Delay', 'entryDelay');
+        } else {
+          const entryDelayService = this.#accessory.getServiceById(service.OccupancySensor, 'entryDelay');
+
+          // Remove the entry delay sensor added before the user removed the entry delay.
+          if (entryDelayService !== undefined) {
+            this.#accessory.removeService(entryDelayService);
+          }
+        }
         break;
       case 'panelSwitch':
         this.#services.Primary = this.#accessory.getService(service.Switch) ?? this.#accessory.addService(service.Switch);
@@ -247,10 +335,7 @@ export class ADTPulseAccessory {
 
     // Check for missing services.
     if (this.#services.Primary === undefined) {
-      // The "gateway" accessory does not need to be initialized further.
-      if (type !== 'gateway') {
-        this.#log.error(`Failed to update ${chalk.underline(name)} (id: ${id}, uuid: ${uuid}) accessory because the primary service does not exist ...`);
-      }
+      this.#log.error(`Failed to update ${chalk.underline(name)} (id: ${id}, uuid: ${uuid}) accessory because the primary service does not exist ...`);
 
       return;
     }
@@ -258,7 +343,11 @@ export class ADTPulseAccessory {
     // Set the characteristics associated with the gateway/panel (required).
     switch (type) {
       case 'gateway':
-        // No supported service available.
+        this.#services.Primary.getCharacteristic(this.#characteristic.OccupancyDetected)
+          .updateValue(this.getGatewayStatus('broadband'));
+
+        this.#services.Cellular?.getCharacteristic(this.#characteristic.OccupancyDetected)
+          .updateValue(this.getGatewayStatus('cellular'));
         break;
       case 'panel':
         this.#services.Primary.getCharacteristic(this.#characteristic.SecuritySystemCurrentState)
@@ -269,6 +358,21 @@ export class ADTPulseAccessory {
 
         this.#services.Primary.getCharacteristic(this.#characteristic.SecuritySystemTargetState)
           .onSet(async (value) => this.setPanelStatus(value));
+
+        this.#services.BurglaryAlarm?.getCharacteristic(this.#characteristic.OccupancyDetected)
+          .updateValue(this.getPanelStatus('burglaryAlarm'));
+
+        this.#services.CarbonMonoxideAlarm?.getCharacteristic(this.#characteristic.CarbonMonoxideDetected)
+          .updateValue(this.getPanelStatus('carbonMonoxideAlarm'));
+
+        this.#services.FireAlarm?.getCharacteristic(this.#characteristic.SmokeDetected)
+          .updateValue(this.getPanelStatus('fireAlarm'));
+
+        this.#services.WaterAlarm?.getCharacteristic(this.#characteristic.LeakDetected)
+          .updateValue(this.getPanelStatus('waterAlarm'));
+
+        this.#services.EntryDelay?.getCharacteristic(this.#characteristic.OccupancyDetected)
+          .updateValue(this.getPanelStatus('entryDelay'));
         break;
       case 'panelSwitch':
         this.#services.Primary.getCharacteristic(this.#characteristic.On)
@@ -284,7 +388,17 @@ export class ADTPulseAccessory {
     // Set the characteristics associated with the gateway/panel (optional).
     switch (type) {
       case 'gateway':
-        // No supported service available.
+        this.#services.Primary.getCharacteristic(this.#characteristic.StatusActive)
+          .updateValue(this.getGatewayStatus('active'));
+
+        this.#services.Primary.getCharacteristic(this.#characteristic.StatusFault)
+          .updateValue(this.getGatewayStatus('fault'));
+
+        this.#services.Cellular?.getCharacteristic(this.#characteristic.StatusActive)
+          .updateValue(this.getGatewayStatus('active'));
+
+        this.#services.Cellular?.getCharacteristic(this.#characteristic.StatusFault)
+          .updateValue(this.getGatewayStatus('cellularFault'));
         break;
       case 'panel':
         this.#services.Primary.getCharacteristic(this.#characteristic.SecuritySystemAlarmType)
@@ -373,6 +487,123 @@ export class ADTPulseAccessory {
     }
   }
 
+  /**
+   * ADT Pulse Accessory - Get gateway status.
+   *
+   * @param {ADTPulseAccessoryGetGatewayStatusMode} mode - Mode.
+   *
+   * @private
+   *
+   * @returns {ADTPulseAccessoryGetGatewayStatusReturns}
+   *
+   * @since 3.3.0
+   */
+  private getGatewayStatus(mode: ADTPulseAccessoryGetGatewayStatusMode): ADTPulseAccessoryGetGatewayStatusReturns {
+    const { context } = this.#accessory;
+    const {
+      id,
+      name,
+      type,
+      uuid,
+    } = context;
+
+    let hapStatus;
+
+    // If device is not a gateway.
+    if (type !== 'gateway') {
+      hapStatus = new this.#api.hap.HapStatusError(this.#api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST);
+
+      this.#log.error(`Attempted to get gateway status on ${chalk.underline(name)} (id: ${id}, uuid: ${uuid}) accessory but device is not a gateway.`);
+
+      return hapStatus;
+    }
+
+    // If gateway information has not been retrieved yet.
+    if (this.#state.data.gatewayInfo === null) {
+      hapStatus = new this.#api.hap.HapStatusError(this.#api.hap.HAPStatus.RESOURCE_BUSY);
+
+      this.#log.debug(`Attempted to get gateway status on ${chalk.underline(name)} (id: ${id}, uuid: ${uuid}) accessory but gateway information has not been retrieved yet.`);
+
+      return hapStatus;
+    }
+
+    const { gatewayAlerts } = this.#state.data;
+    const { communication, status } = this.#state.data.gatewayInfo;
+    const {
+      broadbandConnectionStatus,
+      cellularConnectionStatus,
+      cellularSignalStrength,
+    } = communication;
+    const isBroadbandOnline = broadbandConnectionStatus === 'Active';
+    const isCellularBackupActive = isGatewayOnCellularBackup(communication);
+    const isGatewayOnline = status === 'Online';
+
+    // Find the state for "Status Active" (optional characteristic).
+    if (mode === 'active') {
+      return isGatewayOnline;
+    }
+
+    // Find the state for "Occupancy Detected" on the "Broadband Online" service (required characteristic).
+    if (mode === 'broadband') {
+      if (isBroadbandOnline) {
+        return this.#characteristic.OccupancyDetected.OCCUPANCY_DETECTED;
+      }
+
+      return this.#characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+    }
+
+    // Find the state for "Occupancy Detected" on the "Cellular Backup Active" service (required characteristic).
+    if (mode === 'cellular') {
+      if (isCellularBackupActive) {
+        return this.#characteristic.OccupancyDetected.OCCUPANCY_DETECTED;
+      }
+
+      return this.#characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+    }
+
+    // Find the state for "Status Fault" on the "Broadband Online" service (optional characteristic). Active gateway alerts count as a fault if the user wants them to.
+    if (mode === 'fault') {
+      if (
+        !isGatewayOnline
+        || (this.#config?.gatewayAlerts?.homeKitFault === true && gatewayAlerts.length > 0)
+      ) {
+        return this.#characteristic.StatusFault.GENERAL_FAULT;
+      }
+
+      return this.#characteristic.StatusFault.NO_FAULT;
+    }
+
+    /**
+     * Find the state for "Status Fault" on the "Cellular Backup Active" service (optional characteristic).
+     *
+     * Notes:
+     * - Gateways without a cellular module do not report a cellular connection status, so they are not treated as faulted.
+     * - A cellular connection with no signal bars cannot be relied on as a backup, so it is treated as faulted.
+     *
+     * @since 3.3.0
+     */
+    if (mode === 'cellularFault') {
+      const signalStrength = (cellularSignalStrength !== null) ? cellularSignalStrength.match(textCellularSignalStrength) : null;
+
+      if (
+        !isGatewayOnline
+        || (cellularConnectionStatus !== null && cellularConnectionStatus !== 'Active')
+        || (signalStrength !== null && Number(signalStrength[1]) === 0)
+      ) {
+        return this.#characteristic.StatusFault.GENERAL_FAULT;
+      }
+
+      return this.#characteristic.StatusFault.NO_FAULT;
+    }
+
+    // Attempted to get gateway status, but actions have not been implemented yet.
+    hapStatus = new this.#api.hap.HapStatusError(this.#api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+
+    this.#log.warn(`Attempted to get gateway status on ${chalk.underline(name)} (id: ${id}, uuid: ${uuid}) accessory but actions have not been implemented yet.`);
+
+    return hapStatus;
+  }
+
   /**
    * ADT Pulse Accessory - Get sensor status.
    *
@@ -626,8 +857,35 @@ export class ADTPulseAccessory {
       return hapStatus;
     }
 
+    const { panelAlarms, panelTransition } = this.#state.data;
     const { panelStates, panelStatuses } = this.#state.data.panelStatus;
 
+    // Find the state for the alarm type sensors (required characteristic).
+    switch (true) {
+      case mode === 'burglaryAlarm' && panelAlarms.includes('burglary'):
+        return this.#characteristic.OccupancyDetected.OCCUPANCY_DETECTED;
+      case mode === 'burglaryAlarm':
+        return this.#characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+      case mode === 'carbonMonoxideAlarm' && panelAlarms.includes('carbonMonoxide'):
+        return this.#characteristic.CarbonMonoxideDetected.CO_LEVELS_ABNORMAL;
+      case mode === 'carbonMonoxideAlarm':
+        return this.#characteristic.CarbonMonoxideDetected.CO_LEVELS_NORMAL;
+      case mode === 'fireAlarm' && panelAlarms.includes('fire'):
+        return this.#characteristic.SmokeDetected.SMOKE_DETECTED;
+      case mode === 'fireAlarm':
+        return this.#characteristic.SmokeDetected.SMOKE_NOT_DETECTED;
+      case mode === 'waterAlarm' && panelAlarms.includes('water'):
+        return this.#characteristic.LeakDetected.LEAK_DETECTED;
+      case mode === 'waterAlarm':
+        return this.#characteristic.LeakDetected.LEAK_NOT_DETECTED;
+      case mode === 'entryDelay' && panelTransition !== null && panelTransition.type === 'pending':
+        return this.#characteristic.OccupancyDetected.OCCUPANCY_DETECTED;
+      case mode === 'entryDelay':
+        return this.#characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+      default:
+        break;
+    }
+
     // Find the state for "Security System Alarm Type" (optional characteristic).
     if (mode === 'alarmType') {
       if (isPanelAlarmActive(
@@ -659,29 +917,33 @@ export class ADTPulseAccessory {
       return this.#characteristic.StatusTampered.NOT_TAMPERED;
     }
 
+    // The state the panel is arming from, while the exit delay counts down.
+    const condensedPreviousPanelStates = (panelTransition !== null && panelTransition.type === 'arming') ? condensePanelStates(this.#characteristic, panelTransition.previousPanelStates) : undefined;
+
     /**
      * Find the current state for the panel (required characteristic).
      *
      * Notes:
-     * - If system is busy setting the state, HomeKit will receive the state user has set to before it becomes officially "set".
+     * - While the exit delay counts down, HomeKit keeps receiving the state the panel is arming from, so automations do not treat the house as armed too early.
+     * - The arm mode mapping decides which Home app mode is shown for the mode the panel is armed in.
      *
      * @since 1.0.0
      */
     switch (true) {
-      case mode === 'current' && this.#activity.isBusy && this.#activity.setCurrentValue !== null:
-        return this.#activity.setCurrentValue;
       case mode === 'current' && isPanelAlarmActive(
         panelStatuses,
         this.#state.data.orbSecurityButtons,
         this.#config?.options.includes('ignoreSensorProblemStatus') ?? false,
       ):
         return this.#characteristic.SecuritySystemCurrentState.ALARM_TRIGGERED;
+      case mode === 'current' && condensedPreviousPanelStates !== undefined:
+        return this.getArmModeValue('current', condensedPreviousPanelStates.armValue);
       case mode === 'current' && panelStates.includes('Armed Stay'):
-        return this.#characteristic.SecuritySystemCurrentState.STAY_ARM;
+        return this.getArmModeValue('current', 'stay');
       case mode === 'current' && panelStates.includes('Armed Away'):
-        return this.#characteristic.SecuritySystemCurrentState.AWAY_ARM;
+        return this.getArmModeValue('current', 'away');
       case mode === 'current' && panelStates.includes('Armed Night'):
-        return this.#characteristic.SecuritySystemCurrentState.NIGHT_ARM;
+        return this.getArmModeValue('current', 'night');
       case mode === 'current' && panelStates.includes('Disarmed'):
         return this.#characteristic.SecuritySystemCurrentState.DISARMED;
       default:
@@ -693,6 +955,7 @@ export class ADTPulseAccessory {
      *
      * Notes:
      * - If system is busy setting the state, HomeKit will receive the state user has set to before it becomes officially "set".
+     * - The arm mode mapping decides which Home app mode is shown for the mode the panel is armed in.
      *
      * @since 1.0.0
      */
@@ -700,11 +963,11 @@ export class ADTPulseAccessory {
       case mode === 'target' && this.#activity.isBusy && this.#activity.setTargetValue !== null:
         return this.#activity.setTargetValue;
       case mode === 'target' && panelStates.includes('Armed Stay'):
-        return this.#characteristic.SecuritySystemTargetState.STAY_ARM;
+        return this.getArmModeValue('target', 'stay');
       case mode === 'target' && panelStates.includes('Armed Away'):
-        return this.#characteristic.SecuritySystemTargetState.AWAY_ARM;
+        return this.getArmModeValue('target', 'away');
       case mode === 'target' && panelStates.includes('Armed Night'):
-        return this.#characteristic.SecuritySystemTargetState.NIGHT_ARM;
+        return this.getArmModeValue('target', 'night');
       case mode === 'target' && panelStates.includes('Disarmed'):
         return this.#characteristic.SecuritySystemTargetState.DISARM;
       default:
@@ -787,9 +1050,12 @@ export class ADTPulseAccessory {
       uuid,
     } = context;
 
+    let armTo: ADTPulseAccessorySetPanelStatusArmTo = null;
     let hapStatus;
-    let result = {
+    let result: ADTPulseAccessorySetPanelStatusResult = {
+      action: 'SET_PANEL_STATUS',
       success: false,
+      info: {},
     };
     let unknownArmValue = false;
 
@@ -829,14 +1095,15 @@ export class ADTPulseAccessory {
       throw hapStatus;
     }
 
+    // The Home app mode that was requested, the arm mode mapping is applied when the panel status is set.
+    const homeKitArmMode = this.getHomeKitArmMode(arm);
+
     if (
       !this.#activity.isBusy // The system isn't busy setting a state.
-      && condensedPanelStates.characteristicValue.target !== arm // If user is not setting to the current arm state (e.g. off to off).
+      && this.getArmModeValue('target', condensedPanelStates.armValue) !== arm // If user is not setting to the current arm state (e.g. off to off).
     ) {
-      const setCurrentValue = convertPanelCharacteristicValue('target-to-current', this.#characteristic, arm);
-
       // If attempt to convert characteristic value "target" to "current" failed.
-      if (setCurrentValue === undefined) {
+      if (convertPanelCharacteristicValue('target-to-current', this.#characteristic, arm) === undefined) {
         hapStatus = new this.#api.hap.HapStatusError(this.#api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST);
 
         this.#log.error(`Attempted to set panel status on ${chalk.underline(name)} (id: ${id}, uuid: ${uuid}) accessory but current characteristic value does not exist.`);
@@ -847,34 +1114,25 @@ export class ADTPulseAccessory {
       // Set accessory activity to "busy" before arming.
       this.#activity = {
         isBusy: true,
-        setCurrentValue,
         setTargetValue: arm,
         setValue: null,
       };
 
       // Set the panel status.
-      switch (arm) {
-        case this.#characteristic.SecuritySystemTargetState.STAY_ARM:
-          result = await this.#instance.setPanelStatus(condensedPanelStates.armValue, 'stay', isAlarmActive);
-          break;
-        case this.#characteristic.SecuritySystemTargetState.AWAY_ARM:
-          result = await this.#instance.setPanelStatus(condensedPanelStates.armValue, 'away', isAlarmActive);
-          break;
-        case this.#characteristic.SecuritySystemTargetState.NIGHT_ARM:
-          result = await this.#instance.setPanelStatus(condensedPanelStates.armValue, 'night', isAlarmActive);
-          break;
-        case this.#characteristic.SecuritySystemTargetState.DISARM:
-          result = await this.#instance.setPanelStatus(condensedPanelStates.armValue, 'off', isAlarmActive);
-          break;
-        default:
-          unknownArmValue = true;
-          break;
+      if (homeKitArmMode !== null) {
+        // Remember the mode before arming, so the status updates during arming already show it in the Home app.
+        this.#armMode = homeKitArmMode;
+
+        ({ armTo, result } = await setPanelArmMode(this.#instance, context.networkId ?? null, this.getArmModes(), condensedPanelStates.armValue, homeKitArmMode, isAlarmActive));
+      } else if (arm === this.#characteristic.SecuritySystemTargetState.DISARM) {
+        ({ armTo, result } = await setPanelArmMode(this.#instance, context.networkId ?? null, this.getArmModes(), condensedPanelStates.armValue, 'off', isAlarmActive));
+      } else {
+        unknownArmValue = true;
       }
 
       // Set accessory activity to "not busy" after arming.
       this.#activity = {
         isBusy: false,
-        setCurrentValue: null,
         setTargetValue: null,
         setValue: null,
       };
@@ -888,11 +1146,22 @@ export class ADTPulseAccessory {
         throw hapStatus;
       }
 
+      // Record the arm request and its result in the event journal.
+      if (armTo !== null) {
+        await this.#journal.record({
+          type: 'armRequest',
+          source: 'homekit',
+          armFrom: condensedPanelStates.armValue,
+          armTo,
+          success: result.success,
+        });
+      }
+
       // If request was not successful.
       if (!result.success) {
         hapStatus = new this.#api.hap.HapStatusError(this.#api.hap.HAPStatus.OPERATION_TIMED_OUT);
 
-        this.#log.error(`Attempted to set panel status on ${chalk.underline(name)} (id: ${id}, uuid: ${uuid}) accessory but request was not successful.`);
+        this.#log.error(`Attempted to set panel status on ${chalk.underline(name)} (id: ${id}, uuid: ${uuid}) accessory but request was not successful${(result.info.message !== undefined) ? ` (${result.info.message})` : ''}.`);
 
         stackTracer('api-response', result);
 
@@ -979,7 +1248,6 @@ export class ADTPulseAccessory {
       // Set accessory activity to "busy" before arming.
       this.#activity = {
         isBusy: true,
-        setCurrentValue: null,
         setTargetValue: null,
         setValue: false,
       };
@@ -987,7 +1255,7 @@ export class ADTPulseAccessory {
       // Set the panel status.
       switch (on) {
         case false:
-          result = await this.#instance.setPanelStatus(condensedPanelStates.armValue, 'off', isAlarmActive);
+          ({ result } = await setPanelArmMode(this.#instance, context.networkId ?? null, this.getArmModes(), condensedPanelStates.armValue, 'off', isAlarmActive));
           break;
         default:
           unknownArmValue = true;
@@ -997,7 +1265,6 @@ export class ADTPulseAccessory {
       // Set accessory activity to "not busy" after arming.
       this.#activity = {
         isBusy: false,
-        setCurrentValue: null,
         setTargetValue: null,
         setValue: null,
       };
@@ -1011,6 +1278,15 @@ export class ADTPulseAccessory {
         throw hapStatus;
       }
 
+      // Record the disarm request and its result in the event journal.
+      await this.#journal.record({
+        type: 'armRequest',
+        source: 'homekit',
+        armFrom: condensedPanelStates.armValue,
+        armTo: 'off',
+        success: result.success,
+      });
+
       // If request was not successful.
       if (!result.success) {
         hapStatus = new this.#api.hap.HapStatusError(this.#api.hap.HAPStatus.OPERATION_TIMED_OUT);
@@ -1023,4 +1299,73 @@ export class ADTPulseAccessory {
       }
     }
   }
+
+  /**
+   * ADT Pulse Accessory - Get arm modes.
+   *
+   * @private
+   *
+   * @returns {ADTPulseAccessoryGetArmModesReturns}
+   *
+   * @since 3.3.0
+   */
+  private getArmModes(): ADTPulseAccessoryGetArmModesReturns {
+    return this.#config?.armModes ?? {
+      stay: 'stay',
+      away: 'away',
+      night: 'night',
+    };
+  }
+
+  /**
+   * ADT Pulse Accessory - Get home kit arm mode.
+   *
+   * @param {ADTPulseAccessoryGetHomeKitArmModeValue} value - Value.
+   *
+   * @private
+   *
+   * @returns {ADTPulseAccessoryGetHomeKitArmModeReturns}
+   *
+   * @since 3.3.0
+   */
+  private getHomeKitArmMode(value: ADTPulseAccessoryGetHomeKitArmModeValue): ADTPulseAccessoryGetHomeKitArmModeReturns {
+    switch (value) {
+      case this.#characteristic.SecuritySystemTargetState.STAY_ARM:
+        return 'stay';
+      case this.#characteristic.SecuritySystemTargetState.AWAY_ARM:
+        return 'away';
+      case this.#characteristic.SecuritySystemTargetState.NIGHT_ARM:
+        return 'night';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * ADT Pulse Accessory - Get arm mode value.
+   *
+   * @param {ADTPulseAccessoryGetArmModeValueMode}     mode     - Mode.
+   * @param {ADTPulseAccessoryGetArmModeValueArmValue} armValue - Arm value.
+   *
+   * @private
+   *
+   * @returns {ADTPulseAccessoryGetArmModeValueReturns}
+   *
+   * @since 3.3.0
+   */
+  private getArmModeValue(mode: ADTPulseAccessoryGetArmModeValueMode, armValue: ADTPulseAccessoryGetArmModeValueArmValue): ADTPulseAccessoryGetArmModeValueReturns {
+    if (armValue === 'off') {
+      return (mode === 'current') ? this.#characteristic.SecuritySystemCurrentState.DISARMED : this.#characteristic.SecuritySystemTargetState.DISARM;
+    }
+
+    switch (findHomeKitArmMode(this.getArmModes(), armValue, this.#armMode)) {
+      case 'stay':
+        return (mode === 'current') ? this.#characteristic.SecuritySystemCurrentState.STAY_ARM : this.#characteristic.SecuritySystemTargetState.STAY_ARM;
+      case 'away':
+        return (mode === 'current') ? this.#characteristic.SecuritySystemCurrentState.AWAY_ARM : this.#characteristic.SecuritySystemTargetState.AWAY_ARM;
+      case 'night':
+      default:
+        return (mode === 'current') ? this.#characteristic.SecuritySystemCurrentState.NIGHT_ARM : this.#characteristic.SecuritySystemTargetState.NIGHT_ARM;
+    }
+  }
 }
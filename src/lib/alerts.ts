@@ -0,0 +1,232 @@
+import { isGatewayOnCellularBackup, parsePortalDateTime } from '@/lib/utility.js';
+import type {
+  ADTPulseAlertsActiveAlerts,
+  ADTPulseAlertsConfig,
+  ADTPulseAlertsConstructorConfig,
+  ADTPulseAlertsConstructorLog,
+  ADTPulseAlertsConstructorName,
+  ADTPulseAlertsDispatchGatewayInfo,
+  ADTPulseAlertsDispatchReturns,
+  ADTPulseAlertsDispatchState,
+  ADTPulseAlertsDispatchType,
+  ADTPulseAlertsEvaluateChanges,
+  ADTPulseAlertsEvaluateConditions,
+  ADTPulseAlertsEvaluateGatewayInfo,
+  ADTPulseAlertsEvaluateReturns,
+  ADTPulseAlertsEvaluateTypes,
+  ADTPulseAlertsGetActiveAlertsReturns,
+  ADTPulseAlertsGetMessageGatewayInfo,
+  ADTPulseAlertsGetMessageReturns,
+  ADTPulseAlertsGetMessageState,
+  ADTPulseAlertsGetMessageType,
+  ADTPulseAlertsIsCheckInOverdueGatewayInfo,
+  ADTPulseAlertsIsCheckInOverdueReturns,
+  ADTPulseAlertsLog,
+  ADTPulseAlertsName,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Alerts.
+ *
+ * Watches the gateway information across syncs and raises an alert when the
+ * gateway switches to cellular backup, goes offline, or misses its scheduled
+ * check-in. Alerts are written to the Homebridge log and returned as changes,
+ * so the platform can forward them to the webhooks. Each alert is raised once,
+ * and cleared once the condition is over.
+ *
+ * @since 3.3.0
+ */
+export class ADTPulseAlerts {
+  /**
+   * ADT Pulse Alerts - Active alerts.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #activeAlerts: ADTPulseAlertsActiveAlerts;
+
+  /**
+   * ADT Pulse Alerts - Config.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #config: ADTPulseAlertsConfig;
+
+  /**
+   * ADT Pulse Alerts - Log.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #log: ADTPulseAlertsLog;
+
+  /**
+   * ADT Pulse Alerts - Name.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #name: ADTPulseAlertsName;
+
+  /**
+   * ADT Pulse Alerts - Constructor.
+   *
+   * @param {ADTPulseAlertsConstructorConfig} config - Config.
+   * @param {ADTPulseAlertsConstructorName}   name   - Name.
+   * @param {ADTPulseAlertsConstructorLog}    log    - Log.
+   *
+   * @since 3.3.0
+   */
+  public constructor(config: ADTPulseAlertsConstructorConfig, name: ADTPulseAlertsConstructorName, log: ADTPulseAlertsConstructorLog) {
+    this.#activeAlerts = [];
+    this.#config = config;
+    this.#log = log;
+    this.#name = name;
+  }
+
+  /**
+   * ADT Pulse Alerts - Evaluate.
+   *
+   * @param {ADTPulseAlertsEvaluateGatewayInfo} gatewayInfo - Gateway info.
+   *
+   * @returns {ADTPulseAlertsEvaluateReturns}
+   *
+   * @since 3.3.0
+   */
+  public evaluate(gatewayInfo: ADTPulseAlertsEvaluateGatewayInfo): ADTPulseAlertsEvaluateReturns {
+    const changes: ADTPulseAlertsEvaluateChanges = [];
+    const conditions: ADTPulseAlertsEvaluateConditions = {
+      cellularBackup: isGatewayOnCellularBackup(gatewayInfo.communication),
+      checkInMissed: this.isCheckInOverdue(gatewayInfo),
+      gatewayOffline: gatewayInfo.status === 'Offline',
+    };
+    const types: ADTPulseAlertsEvaluateTypes = ['cellularBackup', 'checkInMissed', 'gatewayOffline'];
+
+    for (let i = 0; i < types.length; i += 1) {
+      const type = types[i];
+      const isActive = this.#activeAlerts.includes(type);
+
+      // Raise the alert when the condition starts.
+      if (conditions[type] && !isActive) {
+        this.#activeAlerts.push(type);
+
+        changes.push(this.dispatch(type, 'raised', gatewayInfo));
+      }
+
+      // Clear the alert when the condition is over.
+      if (!conditions[type] && isActive) {
+        this.#activeAlerts = this.#activeAlerts.filter((activeAlert) => activeAlert !== type);
+
+        changes.push(this.dispatch(type, 'cleared', gatewayInfo));
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * ADT Pulse Alerts - Get active alerts.
+   *
+   * @returns {ADTPulseAlertsGetActiveAlertsReturns}
+   *
+   * @since 3.3.0
+   */
+  public getActiveAlerts(): ADTPulseAlertsGetActiveAlertsReturns {
+    return [...this.#activeAlerts];
+  }
+
+  /**
+   * ADT Pulse Alerts - Is check in overdue.
+   *
+   * @param {ADTPulseAlertsIsCheckInOverdueGatewayInfo} gatewayInfo - Gateway info.
+   *
+   * @returns {ADTPulseAlertsIsCheckInOverdueReturns}
+   *
+   * @since 3.3.0
+   */
+  public isCheckInOverdue(gatewayInfo: ADTPulseAlertsIsCheckInOverdueGatewayInfo): ADTPulseAlertsIsCheckInOverdueReturns {
+    const { next } = gatewayInfo.update;
+    const gracePeriod = (this.#config.gatewayAlerts?.checkInGracePeriod ?? 30) * 60 * 1000;
+
+    if (next === null) {
+      return false;
+    }
+
+    const nextCheckIn = parsePortalDateTime(next);
+
+    // Check-in times the portal shows in an unrecognized format cannot be tracked.
+    if (nextCheckIn === null) {
+      return false;
+    }
+
+    return Date.now() > nextCheckIn + gracePeriod;
+  }
+
+  /**
+   * ADT Pulse Alerts - Dispatch.
+   *
+   * @param {ADTPulseAlertsDispatchType}        type        - Type.
+   * @param {ADTPulseAlertsDispatchState}       state       - State.
+   * @param {ADTPulseAlertsDispatchGatewayInfo} gatewayInfo - Gateway info.
+   *
+   * @private
+   *
+   * @returns {ADTPulseAlertsDispatchReturns}
+   *
+   * @since 3.3.0
+   */
+  private dispatch(type: ADTPulseAlertsDispatchType, state: ADTPulseAlertsDispatchState, gatewayInfo: ADTPulseAlertsDispatchGatewayInfo): ADTPulseAlertsDispatchReturns {
+    const message = ADTPulseAlerts.getMessage(type, state, gatewayInfo);
+    const siteLabel = (this.#name !== null) ? `[${this.#name}] ` : '';
+
+    if (state === 'raised') {
+      this.#log.warn(`${siteLabel}${message}`);
+    } else {
+      this.#log.info(`${siteLabel}${message}`);
+    }
+
+    return {
+      type,
+      state,
+      message,
+    };
+  }
+
+  /**
+   * ADT Pulse Alerts - Get message.
+   *
+   * @param {ADTPulseAlertsGetMessageType}        type        - Type.
+   * @param {ADTPulseAlertsGetMessageState}       state       - State.
+   * @param {ADTPulseAlertsGetMessageGatewayInfo} gatewayInfo - Gateway info.
+   *
+   * @private
+   *
+   * @returns {ADTPulseAlertsGetMessageReturns}
+   *
+   * @since 3.3.0
+   */
+  private static getMessage(type: ADTPulseAlertsGetMessageType, state: ADTPulseAlertsGetMessageState, gatewayInfo: ADTPulseAlertsGetMessageGatewayInfo): ADTPulseAlertsGetMessageReturns {
+    const { communication, update } = gatewayInfo;
+
+    switch (true) {
+      case type === 'cellularBackup' && state === 'raised':
+        return `ADT Pulse Gateway has switched to cellular backup (broadband: "${communication.broadbandConnectionStatus}", cellular: "${communication.cellularConnectionStatus}", signal: "${communication.cellularSignalStrength}").`;
+      case type === 'cellularBackup' && state === 'cleared':
+        return 'ADT Pulse Gateway is back on broadband.';
+      case type === 'checkInMissed' && state === 'raised':
+        return `ADT Pulse Gateway has missed its scheduled check-in (expected: "${update.next}").`;
+      case type === 'checkInMissed' && state === 'cleared':
+        return `ADT Pulse Gateway has checked in again (next check-in: "${update.next}").`;
+      case type === 'gatewayOffline' && state === 'raised':
+        return 'ADT Pulse Gateway has gone offline.';
+      case type === 'gatewayOffline' && state === 'cleared':
+      default:
+        return 'ADT Pulse Gateway is back online.';
+    }
+  }
+}
@@ -2,6 +2,7 @@ import axios from 'axios';
 import { wrapper } from 'axios-cookiejar-support';
 import { JSDOM } from 'jsdom';
 import _ from 'lodash';
+import { EventEmitter } from 'node:events';
 import { serializeError } from 'serialize-error';
 import { CookieJar } from 'tough-cookie';
 
@@ -28,6 +29,7 @@ import {
   requestPathQuickControlArmDisarm,
   requestPathQuickControlServRunRraCommand,
   requestPathSummarySummary,
+  requestPathSummarySummaryNetworkIdXx,
   requestPathSystemDeviceId1,
   requestPathSystemGateway,
   requestPathSystemSystem,
@@ -47,8 +49,11 @@ import {
   generateHash,
   isPortalSyncCode,
   isSessionCleanState,
+  isUnknownAccessCodeForm,
+  parseAccessCodeForm,
   parseArmDisarmMessage,
   parseDoSubmitHandlers,
+  parseMfaForm,
   parseOrbSecurityButtons,
   parseOrbSensors,
   parseOrbTextSummary,
@@ -56,61 +61,125 @@ import {
   sleep,
   stackTracer,
 } from '@/lib/utility.js';
+import { ADTPulseVault } from '@/lib/vault.js';
 import type {
+  ADTPulseAcquireSiteNetworkId,
+  ADTPulseAcquireSiteReturns,
+  ADTPulseConstructorConfig,
+  ADTPulseConstructorInternalConfig,
+  ADTPulseGetGatewayInformationReturns,
+  ADTPulseGetGatewayInformationReturnsStatus,
+  ADTPulseGetMfaChallengeReturns,
+  ADTPulseGetOrbSecurityButtonsReturns,
+  ADTPulseGetPanelInformationReturns,
+  ADTPulseGetPanelInformationReturnsStatus,
+  ADTPulseGetPanelStatusReturns,
+  ADTPulseGetSensorsInformationReturns,
+  ADTPulseGetSensorsStatusReturns,
+  ADTPulseGetSummarySnapshotReturns,
+  ADTPulseIsAuthenticatedReturns,
+  ADTPulseLoginPortalVersion,
+  ADTPulseLoginReturns,
+  ADTPulseLogoutReturns,
+  ADTPulseOffListener,
+  ADTPulseOffName,
+  ADTPulseOnListener,
+  ADTPulseOnName,
+  ADTPulseOnceListener,
+  ADTPulseOnceName,
+  ADTPulsePerformKeepAliveReturns,
+  ADTPulsePerformSyncCheckReturns,
+  ADTPulseReleaseSiteReturns,
+  ADTPulseRequestMfaCodeMethodId,
+  ADTPulseRequestMfaCodeReturns,
+  ADTPulseResetSessionReturns,
+  ADTPulseSetPanelStatusArmFrom,
+  ADTPulseSetPanelStatusArmTo,
+  ADTPulseSetPanelStatusBypassedZones,
+  ADTPulseSetPanelStatusIsAlarmActive,
+  ADTPulseSetPanelStatusReadyButton,
+  ADTPulseSetPanelStatusReturns,
+  ADTPulseStoreAccessCodesAccessCodes,
+  ADTPulseStoreAccessCodesReturns,
+  ADTPulseSubmitMfaCodeCode,
+  ADTPulseSubmitMfaCodeReturns,
+  ADTPulseSwitchSiteNetworkId,
+  ADTPulseSwitchSiteReturns,
+} from '@/types/client.d.ts';
+import type {
+  ADTPulseAccessCodeHandlerRelativeUrl,
+  ADTPulseAccessCodeHandlerResponse,
+  ADTPulseAccessCodeHandlerReturns,
+  ADTPulseAccessCodeHandlerSessions,
+  ADTPulseAccessCodeVault,
+  ADTPulseAccessCodes,
+  ADTPulseArmDisarmHandlerBypassedZones,
   ADTPulseArmDisarmHandlerIsAlarmActive,
   ADTPulseArmDisarmHandlerOptions,
   ADTPulseArmDisarmHandlerReadyButton,
   ADTPulseArmDisarmHandlerReturns,
   ADTPulseArmDisarmHandlerSessions,
-  ADTPulseConstructorConfig,
-  ADTPulseConstructorInternalConfig,
   ADTPulseCredentials,
+  ADTPulseEmitEvent,
+  ADTPulseEmitter,
+  ADTPulseEmitName,
+  ADTPulseEmitReturns,
+  ADTPulseEmitStatusChangesNetworkId,
+  ADTPulseEmitStatusChangesObservation,
+  ADTPulseEmitStatusChangesReturns,
+  ADTPulseForceArmHandlerCancelMessage,
   ADTPulseForceArmHandlerRelativeUrl,
   ADTPulseForceArmHandlerResponse,
   ADTPulseForceArmHandlerReturns,
   ADTPulseForceArmHandlerSessions,
   ADTPulseForceArmHandlerTracker,
-  ADTPulseGetGatewayInformationReturns,
-  ADTPulseGetGatewayInformationReturnsStatus,
+  ADTPulseGetAccessCodeReturns,
+  ADTPulseGetAccessCodeUser,
   ADTPulseGetGatewayInformationSessions,
-  ADTPulseGetOrbSecurityButtonsReturns,
+  ADTPulseGetOpenZonesReturns,
   ADTPulseGetOrbSecurityButtonsSessions,
-  ADTPulseGetPanelInformationReturns,
-  ADTPulseGetPanelInformationReturnsStatus,
   ADTPulseGetPanelInformationSessions,
-  ADTPulseGetPanelStatusReturns,
   ADTPulseGetPanelStatusSessions,
   ADTPulseGetRequestConfigDefaultConfig,
   ADTPulseGetRequestConfigExtraConfig,
   ADTPulseGetRequestConfigReturns,
-  ADTPulseGetSensorsInformationReturns,
   ADTPulseGetSensorsInformationSessions,
-  ADTPulseGetSensorsStatusReturns,
   ADTPulseGetSensorsStatusSessions,
+  ADTPulseGetSiteConfigReturns,
+  ADTPulseGetSummarySnapshotSessions,
   ADTPulseHandleLoginFailureRequestPath,
   ADTPulseHandleLoginFailureReturns,
   ADTPulseHandleLoginFailureSession,
   ADTPulseInternal,
-  ADTPulseIsAuthenticatedReturns,
-  ADTPulseLoginPortalVersion,
-  ADTPulseLoginReturns,
   ADTPulseLoginSessions,
-  ADTPulseLogoutReturns,
   ADTPulseLogoutSessions,
   ADTPulseNewInformationDispatcherData,
   ADTPulseNewInformationDispatcherReturns,
   ADTPulseNewInformationDispatcherType,
-  ADTPulsePerformKeepAliveReturns,
+  ADTPulseObserved,
   ADTPulsePerformKeepAliveSessions,
-  ADTPulsePerformSyncCheckReturns,
   ADTPulsePerformSyncCheckSessions,
-  ADTPulseResetSessionReturns,
+  ADTPulseProcessOrbSecurityButtonsJsdomSummary,
+  ADTPulseProcessOrbSecurityButtonsRawHtml,
+  ADTPulseProcessOrbSecurityButtonsReturns,
+  ADTPulseProcessPanelStatusJsdomSummary,
+  ADTPulseProcessPanelStatusRawHtml,
+  ADTPulseProcessPanelStatusReturns,
+  ADTPulseProcessSensorsStatusJsdomSummary,
+  ADTPulseProcessSensorsStatusRawHtml,
+  ADTPulseProcessSensorsStatusReturns,
+  ADTPulseRequestMfaCodeSessions,
+  ADTPulseResumeSessionReturns,
+  ADTPulseResumeSessionSessions,
+  ADTPulseSaveSessionReturns,
+  ADTPulseSensors,
   ADTPulseSession,
-  ADTPulseSetPanelStatusArmFrom,
-  ADTPulseSetPanelStatusArmTo,
-  ADTPulseSetPanelStatusIsAlarmActive,
-  ADTPulseSetPanelStatusReadyButton,
-  ADTPulseSetPanelStatusReturns,
+  ADTPulseSessionVault,
+  ADTPulseSiteLock,
+  ADTPulseSiteLockRelease,
+  ADTPulseSites,
+  ADTPulseSubmitMfaCodeSessions,
+  ADTPulseSwitchSiteSessions,
 } from '@/types/index.d.ts';
 
 /**
@@ -119,6 +188,24 @@ import type {
  * @since 1.0.0
  */
 export class ADTPulse {
+  /**
+   * ADT Pulse - Access code vault.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #accessCodeVault: ADTPulseAccessCodeVault;
+
+  /**
+   * ADT Pulse - Access codes.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #accessCodes: ADTPulseAccessCodes;
+
   /**
    * ADT Pulse - Credentials.
    *
@@ -128,6 +215,15 @@ export class ADTPulse {
    */
   #credentials: ADTPulseCredentials;
 
+  /**
+   * ADT Pulse - Emitter.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #emitter: ADTPulseEmitter;
+
   /**
    * ADT Pulse - Internal.
    *
@@ -137,6 +233,24 @@ export class ADTPulse {
    */
   #internal: ADTPulseInternal;
 
+  /**
+   * ADT Pulse - Observed.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #observed: ADTPulseObserved;
+
+  /**
+   * ADT Pulse - Sensors.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #sensors: ADTPulseSensors;
+
   /**
    * ADT Pulse - Session.
    *
@@ -146,6 +260,33 @@ export class ADTPulse {
    */
   #session: ADTPulseSession;
 
+  /**
+   * ADT Pulse - Session vault.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #sessionVault: ADTPulseSessionVault;
+
+  /**
+   * ADT Pulse - Site lock.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #siteLock: ADTPulseSiteLock;
+
+  /**
+   * ADT Pulse - Sites.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #sites: ADTPulseSites;
+
   /**
    * ADT Pulse - Constructor.
    *
@@ -155,8 +296,18 @@ export class ADTPulse {
    * @since 1.0.0
    */
   public constructor(config: ADTPulseConstructorConfig, internalConfig: ADTPulseConstructorInternalConfig) {
+    // Plain "http://" is only accepted for the simulator, which listens on the loopback interface.
+    if (
+      internalConfig.baseUrl !== undefined
+      && internalConfig.baseUrl.startsWith('http://')
+      && (internalConfig.isSimulator !== true || !['127.0.0.1', '[::1]', 'localhost'].includes(new URL(internalConfig.baseUrl).hostname))
+    ) {
+      throw new Error('A "http://" base URL is only accepted for the simulator on the loopback interface');
+    }
+
     // Set config options.
     this.#credentials = {
+      accessCodeUser: config.accessCodeUser ?? null,
       fingerprint: config.fingerprint,
       password: config.password,
       subdomain: config.subdomain,
@@ -167,7 +318,11 @@ export class ADTPulse {
     this.#internal = {
       baseUrl: internalConfig.baseUrl ?? `https://${this.#credentials.subdomain}.adtpulse.com`,
       debug: internalConfig.debug ?? false,
+      isSessionResumable: internalConfig.sessionFilePath !== undefined,
+      isSimulator: internalConfig.isSimulator ?? false,
       logger: internalConfig.logger ?? null,
+      mfaChallengeLifetime: 900000, // 15 minutes.
+      networkId: internalConfig.networkId ?? null,
       reportedHashes: [],
       testMode: {
         enabled: internalConfig.testMode?.enabled ?? false,
@@ -176,27 +331,67 @@ export class ADTPulse {
       waitTimeAfterArm: 5000, // 5 seconds.
     };
 
+    // Set the event emitter, used to let listeners know about status changes, login failures, session resets, and parser anomalies.
+    this.#emitter = new EventEmitter();
+
+    // Set the observed status of each site, used to let listeners know what has changed since the last retrieval.
+    this.#observed = {};
+
+    // Set the sensors, used to look up the bypass policy of open zones when force arming.
+    this.#sensors = config.sensors ?? [];
+
+    // Set the additional sites, used to look up the sensors and the access code user of the site "this instance" has switched to.
+    this.#sites = config.sites ?? [];
+
+    // Sites share the same login session, so only one of them may be used at a time.
+    this.#siteLock = {
+      queue: Promise.resolve(),
+      release: null,
+    };
+
     // Set session information to defaults.
     this.#session = {
       backupSatCode: null,
+      homeNetworkId: null,
       httpClient: wrapper(axios.create({
         jar: new CookieJar(),
         validateStatus: () => true,
       })),
       isAuthenticated: false,
       isCleanState: true,
+      lastLoginOn: null,
+      mfaChallenge: null,
       networkId: null,
       portalVersion: null,
     };
 
+    // The vault keys are derived from a random key file, the portal, and the credentials, so changing any of them discards what was saved.
+    const vaultSecret = [
+      this.#internal.baseUrl,
+      this.#credentials.username,
+      this.#credentials.password,
+    ].join('\n');
+
+    // Set the session vault, used to resume the session after a restart.
+    this.#sessionVault = (internalConfig.sessionFilePath !== undefined) ? new ADTPulseVault(internalConfig.sessionFilePath, vaultSecret) : null;
+
+    // Set the access code vault, used to keep the access codes of the security panel users out of the config.
+    this.#accessCodeVault = (internalConfig.accessCodesFilePath !== undefined) ? new ADTPulseVault(internalConfig.accessCodesFilePath, vaultSecret) : null;
+
+    // The access codes are read from the vault the first time the portal asks for one.
+    this.#accessCodes = null;
+
+    // Library consumers may omit the speed, which defaults to normal operational speed.
+    const speed = config.speed ?? 1;
+
     // If the config specifies that plugin should run under reduced speed mode.
-    if (config.speed !== 1) {
+    if (speed !== 1) {
       if (this.#internal.debug) {
-        debugLog(this.#internal.logger, 'api.ts / ADTPulse.constructor()', 'warn', `Plugin is now running under ${config.speed}x operational speed. You may see slower device updates`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.constructor()', 'warn', `Plugin is now running under ${speed}x operational speed. You may see slower device updates`);
       }
 
       // Should be statically calculated to prevent excessive waiting.
-      switch (config.speed) {
+      switch (speed) {
         case 0.75:
           this.#internal.waitTimeAfterArm = 6000; // 6 seconds.
           break;
@@ -256,12 +451,59 @@ export class ADTPulse {
           success: true,
           info: {
             backupSatCode: this.#session.backupSatCode,
+            lastLoginOn: this.#session.lastLoginOn,
             networkId: this.#session.networkId,
             portalVersion: this.#session.portalVersion,
           },
         };
       }
 
+      // Resume the session saved before a restart, instead of signing in again. Only attempted once, so a reset session is not brought back.
+      if (this.#internal.isSessionResumable) {
+        this.#internal.isSessionResumable = false;
+
+        if (await this.resumeSession()) {
+          return {
+            action: 'LOGIN',
+            success: true,
+            info: {
+              backupSatCode: this.#session.backupSatCode,
+              lastLoginOn: this.#session.lastLoginOn,
+              networkId: this.#session.networkId,
+              portalVersion: this.#session.portalVersion,
+            },
+          };
+        }
+      }
+
+      // A code was already sent for the pending challenge, and signing in again would only send another one. Wait for it until the challenge expires.
+      if (this.#session.mfaChallenge !== null) {
+        if (
+          this.#session.mfaChallenge.verifyForm !== null
+          && Date.now() - this.#session.mfaChallenge.createdOn < this.#internal.mfaChallengeLifetime
+        ) {
+          if (this.#internal.debug) {
+            debugLog(this.#internal.logger, 'api.ts / ADTPulse.login()', 'warn', 'Waiting for the verification code of the pending multi-factor authentication challenge');
+          }
+
+          this.emit('loginFailed', {
+            info: {
+              message: 'Waiting for the verification code of the pending multi-factor authentication challenge',
+            },
+          });
+
+          return {
+            action: 'LOGIN',
+            success: false,
+            info: {
+              message: 'Waiting for the verification code of the pending multi-factor authentication challenge',
+            },
+          };
+        }
+
+        this.resetSession();
+      }
+
       // sessions.axiosIndex: Load the homepage.
       sessions.axiosIndex = await this.#session.httpClient.get<unknown>(
         `${this.#internal.baseUrl}/`,
@@ -274,6 +516,12 @@ export class ADTPulse {
           debugLog(this.#internal.logger, 'api.ts / ADTPulse.login()', 'error', 'The HTTP client responded without the "request" object');
         }
 
+        this.emit('loginFailed', {
+          info: {
+            message: 'The HTTP client responded without the "request" object',
+          },
+        });
+
         return {
           action: 'LOGIN',
           success: false,
@@ -300,6 +548,12 @@ export class ADTPulse {
         // Check if "this instance" was not signed in during this time.
         this.handleLoginFailure(axiosIndexRequestPath, sessions.axiosIndex);
 
+        this.emit('loginFailed', {
+          info: {
+            message: `"${axiosIndexRequestPath} is not the sign-in page`,
+          },
+        });
+
         return {
           action: 'LOGIN',
           success: false,
@@ -380,6 +634,12 @@ export class ADTPulse {
           debugLog(this.#internal.logger, 'api.ts / ADTPulse.login()', 'error', 'The HTTP client responded without the "request" object');
         }
 
+        this.emit('loginFailed', {
+          info: {
+            message: 'The HTTP client responded without the "request" object',
+          },
+        });
+
         return {
           action: 'LOGIN',
           success: false,
@@ -403,9 +663,46 @@ export class ADTPulse {
           debugLog(this.#internal.logger, 'api.ts / ADTPulse.login()', 'error', `"${axiosSigninRequestPath}" is not the summary page`);
         }
 
+        // If the fingerprint is not trusted, the portal asks for a verification code before signing in.
+        if (requestPathMfaMfaSignInWorkflowChallenge.test(axiosSigninRequestPath) && typeof sessions.axiosSignin.data === 'string') {
+          const requestForm = parseMfaForm(sessions.axiosSignin.data, `${this.#internal.baseUrl}${axiosSigninRequestPath}`);
+
+          if (requestForm !== null && requestForm.methods.length > 0) {
+            this.#session.mfaChallenge = {
+              createdOn: Date.now(),
+              requestForm,
+              verifyForm: null,
+            };
+
+            if (this.#internal.debug) {
+              debugLog(this.#internal.logger, 'api.ts / ADTPulse.login()', 'warn', `Multi-factor authentication is required. Available delivery methods ➜ ${requestForm.methods.map((method) => `${method.id} (${method.label})`).join(', ')}`);
+            }
+
+            this.emit('loginFailed', {
+              info: {
+                message: 'Multi-factor authentication is required. Request a verification code with "requestMfaCode()", then submit it with "submitMfaCode()"',
+              },
+            });
+
+            return {
+              action: 'LOGIN',
+              success: false,
+              info: {
+                message: 'Multi-factor authentication is required. Request a verification code with "requestMfaCode()", then submit it with "submitMfaCode()"',
+              },
+            };
+          }
+        }
+
         // Check if "this instance" was not signed in during this time.
         this.handleLoginFailure(axiosSigninRequestPath, sessions.axiosSignin);
 
+        this.emit('loginFailed', {
+          info: {
+            message: `"${axiosSigninRequestPath}" is not the summary page`,
+          },
+        });
+
         return {
           action: 'LOGIN',
           success: false,
@@ -421,6 +718,12 @@ export class ADTPulse {
           debugLog(this.#internal.logger, 'api.ts / ADTPulse.login()', 'error', 'The response body of the summary page is not of type "string"');
         }
 
+        this.emit('loginFailed', {
+          info: {
+            message: 'The response body of the summary page is not of type "string"',
+          },
+        });
+
         return {
           action: 'LOGIN',
           success: false,
@@ -445,6 +748,9 @@ export class ADTPulse {
       const matchNetworkId = sessions.axiosSignin.data.match(paramNetworkId);
       this.#session.networkId = (matchNetworkId !== null && matchNetworkId.length >= 2) ? matchNetworkId[1] : null;
 
+      // Requests for the "null" site return to the site "this instance" belongs to.
+      this.#session.homeNetworkId = this.#internal.networkId ?? this.#session.networkId;
+
       /**
        * Original matches for the sat code.
        *
@@ -469,8 +775,33 @@ export class ADTPulse {
         debugLog(this.#internal.logger, 'api.ts / ADTPulse.login()', 'warn', 'Unable to backup sat code, will try again when system becomes available');
       }
 
+      // Accounts with multiple sites sign in to the default site, so switch over if "this instance" belongs to another one.
+      if (this.#internal.networkId !== null && this.#internal.networkId !== this.#session.networkId) {
+        const switchSite = await this.switchSite(this.#internal.networkId);
+
+        if (!switchSite.success) {
+          this.emit('loginFailed', {
+            info: {
+              message: `Unable to switch to site "${this.#internal.networkId}" after signing in`,
+            },
+          });
+
+          return {
+            action: 'LOGIN',
+            success: false,
+            info: {
+              message: `Unable to switch to site "${this.#internal.networkId}" after signing in`,
+            },
+          };
+        }
+      }
+
       // Mark the session for "this instance" as authenticated.
       this.#session.isAuthenticated = true;
+      this.#session.lastLoginOn = Date.now();
+
+      // Save the session, so it can be resumed after a restart.
+      await this.saveSession();
 
       if (this.#internal.debug) {
         debugLog(
@@ -497,6 +828,7 @@ export class ADTPulse {
         success: true,
         info: {
           backupSatCode: this.#session.backupSatCode,
+          lastLoginOn: this.#session.lastLoginOn,
           networkId: this.#session.networkId,
           portalVersion: this.#session.portalVersion,
         },
@@ -510,6 +842,12 @@ export class ADTPulse {
       stackTracer('serialize-error', errorObject);
     }
 
+    this.emit('loginFailed', {
+      info: {
+        error: errorObject,
+      },
+    });
+
     return {
       action: 'LOGIN',
       success: false,
@@ -621,8 +959,9 @@ export class ADTPulse {
         };
       }
 
-      // Reset the session state for "this instance".
+      // Reset the session state for "this instance", and forget the saved session since it has been signed out.
       this.resetSession();
+      await this.#sessionVault?.clear();
 
       if (this.#internal.debug) {
         debugLog(
@@ -672,42 +1011,83 @@ export class ADTPulse {
   }
 
   /**
-   * ADT Pulse - Get gateway information.
+   * ADT Pulse - Request mfa code.
    *
-   * @returns {ADTPulseGetGatewayInformationReturns}
+   * @param {ADTPulseRequestMfaCodeMethodId} methodId - Method id.
    *
-   * @since 1.0.0
+   * @returns {ADTPulseRequestMfaCodeReturns}
+   *
+   * @since 3.3.0
    */
-  public async getGatewayInformation(): ADTPulseGetGatewayInformationReturns {
+  public async requestMfaCode(methodId?: ADTPulseRequestMfaCodeMethodId): ADTPulseRequestMfaCodeReturns {
     let errorObject;
 
     if (this.#internal.debug) {
-      debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'info', `Attempting to retrieve gateway information from "${this.#internal.baseUrl}"`);
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.requestMfaCode()', 'info', `Attempting to request a verification code from "${this.#internal.baseUrl}"`);
     }
 
     try {
-      const sessions: ADTPulseGetGatewayInformationSessions = {};
+      const sessions: ADTPulseRequestMfaCodeSessions = {};
+      const { mfaChallenge } = this.#session;
 
-      // sessions.axiosSystemGateway: Load the system gateway page.
-      sessions.axiosSystemGateway = await this.#session.httpClient.get<unknown>(
-        `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/system/gateway.jsp`,
+      if (mfaChallenge === null) {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.requestMfaCode()', 'error', 'There is no multi-factor authentication challenge to request a verification code for');
+        }
+
+        return {
+          action: 'REQUEST_MFA_CODE',
+          success: false,
+          info: {
+            message: 'There is no multi-factor authentication challenge to request a verification code for',
+          },
+        };
+      }
+
+      const { requestForm } = mfaChallenge;
+      const method = (methodId !== undefined) ? requestForm.methods.find((requestFormMethod) => requestFormMethod.id === methodId) : requestForm.methods[0];
+
+      if (method === undefined || requestForm.methodField === null) {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.requestMfaCode()', 'error', `Delivery method "${methodId}" is not available`);
+        }
+
+        return {
+          action: 'REQUEST_MFA_CODE',
+          success: false,
+          info: {
+            message: `Delivery method "${methodId}" is not available`,
+          },
+        };
+      }
+
+      // Build an "application/x-www-form-urlencoded" form for use with requesting the code.
+      const requestCodeForm = new URLSearchParams(requestForm.fields);
+      requestCodeForm.append(requestForm.methodField, method.id);
+
+      // sessions.axiosRequest: Ask the portal to send the verification code.
+      sessions.axiosRequest = await this.#session.httpClient.post<unknown>(
+        requestForm.action,
+        requestCodeForm,
         this.getRequestConfig({
           headers: {
-            Referer: `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/system/system.jsp`,
+            'Cache-Control': 'max-age=0',
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Origin: this.#internal.baseUrl,
+            Referer: requestForm.action,
             'Sec-Fetch-Site': 'same-origin',
-            'Sec-Fetch-User': undefined,
           },
         }),
       );
 
       // If the "ClientRequest" object does not exist in the Axios response.
-      if (typeof sessions.axiosSystemGateway?.request === 'undefined') {
+      if (typeof sessions.axiosRequest?.request === 'undefined') {
         if (this.#internal.debug) {
-          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'error', 'The HTTP client responded without the "request" object');
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.requestMfaCode()', 'error', 'The HTTP client responded without the "request" object');
         }
 
         return {
-          action: 'GET_GATEWAY_INFORMATION',
+          action: 'REQUEST_MFA_CODE',
           success: false,
           info: {
             message: 'The HTTP client responded without the "request" object',
@@ -715,54 +1095,578 @@ export class ADTPulse {
         };
       }
 
-      const axiosSystemGatewayRequestPath = sessions.axiosSystemGateway.request.path;
-      const axiosSystemGatewayRequestPathValid = requestPathSystemGateway.test(axiosSystemGatewayRequestPath);
+      const axiosRequestRequestPath = sessions.axiosRequest.request.path;
+      const verifyForm = (typeof sessions.axiosRequest.data === 'string') ? parseMfaForm(sessions.axiosRequest.data, `${this.#internal.baseUrl}${axiosRequestRequestPath}`) : null;
 
       if (this.#internal.debug) {
-        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'info', `Request path ➜ ${axiosSystemGatewayRequestPath}`);
-        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'info', `Request path valid ➜ ${axiosSystemGatewayRequestPathValid}`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.requestMfaCode()', 'info', `Request path ➜ ${axiosRequestRequestPath}`);
       }
 
-      // If the final URL of sessions.axiosSystemGateway is not the system gateway page.
-      if (!axiosSystemGatewayRequestPathValid) {
+      // Once the code is sent, the portal asks for it on the verify form.
+      if (verifyForm === null || verifyForm.codeField === null) {
         if (this.#internal.debug) {
-          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'error', `"${axiosSystemGatewayRequestPath}" is not the system gateway page`);
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.requestMfaCode()', 'error', `"${axiosRequestRequestPath}" is not the verification code page`);
         }
 
-        // Check if "this instance" was not signed in during this time.
-        this.handleLoginFailure(axiosSystemGatewayRequestPath, sessions.axiosSystemGateway);
-
         return {
-          action: 'GET_GATEWAY_INFORMATION',
+          action: 'REQUEST_MFA_CODE',
           success: false,
           info: {
-            message: `"${axiosSystemGatewayRequestPath}" is not the system gateway page`,
+            message: `"${axiosRequestRequestPath}" is not the verification code page`,
           },
         };
       }
 
-      // Make sure we are able to use JSDOM on the response data.
-      if (typeof sessions.axiosSystemGateway.data !== 'string') {
-        if (this.#internal.debug) {
-          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'error', 'The response body of the system gateway page is not of type "string"');
-        }
+      this.#session.mfaChallenge = {
+        ...mfaChallenge,
+        verifyForm,
+      };
 
-        return {
-          action: 'GET_GATEWAY_INFORMATION',
-          success: false,
-          info: {
-            message: 'The response body of the system gateway page is not of type "string"',
-          },
-        };
+      // Save the challenge, so the code can still be submitted after a restart.
+      await this.saveSession();
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.requestMfaCode()', 'success', `Verification code was sent to ${method.label}`);
       }
 
-      // sessions.jsdomSystemGateway: Parse the system gateway page.
-      sessions.jsdomSystemGateway = new JSDOM(
-        sessions.axiosSystemGateway.data,
-        {
-          url: sessions.axiosSystemGateway.config.url,
-          referrer: sessions.axiosSystemGateway.config.headers.Referer,
-          contentType: 'text/html',
+      return {
+        action: 'REQUEST_MFA_CODE',
+        success: true,
+        info: {
+          method,
+        },
+      };
+    } catch (error) {
+      errorObject = serializeError(error);
+    }
+
+    if (this.#internal.debug) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.requestMfaCode()', 'error', 'Method encountered an error during execution');
+      stackTracer('serialize-error', errorObject);
+    }
+
+    return {
+      action: 'REQUEST_MFA_CODE',
+      success: false,
+      info: {
+        error: errorObject,
+      },
+    };
+  }
+
+  /**
+   * ADT Pulse - Submit mfa code.
+   *
+   * @param {ADTPulseSubmitMfaCodeCode} code - Code.
+   *
+   * @returns {ADTPulseSubmitMfaCodeReturns}
+   *
+   * @since 3.3.0
+   */
+  public async submitMfaCode(code: ADTPulseSubmitMfaCodeCode): ADTPulseSubmitMfaCodeReturns {
+    let errorObject;
+
+    if (this.#internal.debug) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.submitMfaCode()', 'info', `Attempting to submit the verification code to "${this.#internal.baseUrl}"`);
+    }
+
+    try {
+      const sessions: ADTPulseSubmitMfaCodeSessions = {};
+      const { mfaChallenge } = this.#session;
+      const verifyForm = mfaChallenge?.verifyForm ?? null;
+
+      if (mfaChallenge === null || verifyForm === null || verifyForm.codeField === null) {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.submitMfaCode()', 'error', 'There is no verification code to submit, request one first');
+        }
+
+        return {
+          action: 'SUBMIT_MFA_CODE',
+          success: false,
+          info: {
+            message: 'There is no verification code to submit, request one first',
+          },
+        };
+      }
+
+      // Build an "application/x-www-form-urlencoded" form for use with submitting the code.
+      const submitCodeForm = new URLSearchParams(verifyForm.fields);
+      submitCodeForm.append(verifyForm.codeField, code.trim());
+
+      // Select "Trust this device", so the fingerprint is not challenged on the next sign-in.
+      if (verifyForm.trustField !== null) {
+        submitCodeForm.append(verifyForm.trustField.name, verifyForm.trustField.value);
+      }
+
+      // sessions.axiosVerify: Submit the verification code.
+      sessions.axiosVerify = await this.#session.httpClient.post<unknown>(
+        verifyForm.action,
+        submitCodeForm,
+        this.getRequestConfig({
+          headers: {
+            'Cache-Control': 'max-age=0',
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Origin: this.#internal.baseUrl,
+            Referer: verifyForm.action,
+            'Sec-Fetch-Site': 'same-origin',
+          },
+        }),
+      );
+
+      // If the "ClientRequest" object does not exist in the Axios response.
+      if (typeof sessions.axiosVerify?.request === 'undefined') {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.submitMfaCode()', 'error', 'The HTTP client responded without the "request" object');
+        }
+
+        return {
+          action: 'SUBMIT_MFA_CODE',
+          success: false,
+          info: {
+            message: 'The HTTP client responded without the "request" object',
+          },
+        };
+      }
+
+      const axiosVerifyRequestPath = sessions.axiosVerify.request.path;
+      const axiosVerifyRequestPathValid = requestPathSummarySummary.test(axiosVerifyRequestPath);
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.submitMfaCode()', 'info', `Request path ➜ ${axiosVerifyRequestPath}`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.submitMfaCode()', 'info', `Request path valid ➜ ${axiosVerifyRequestPathValid}`);
+      }
+
+      // If the final URL of sessions.axiosVerify is not the summary page.
+      if (!axiosVerifyRequestPathValid) {
+        const errorMessage = fetchErrorMessage(sessions.axiosVerify);
+        const retryForm = (typeof sessions.axiosVerify.data === 'string') ? parseMfaForm(sessions.axiosVerify.data, `${this.#internal.baseUrl}${axiosVerifyRequestPath}`) : null;
+
+        // An incorrect code shows the verify form again, which is used for the next attempt. Otherwise, the challenge is over and has to start with a new sign-in.
+        if (retryForm !== null && retryForm.codeField !== null) {
+          this.#session.mfaChallenge = {
+            ...mfaChallenge,
+            verifyForm: retryForm,
+          };
+        } else {
+          this.resetSession();
+        }
+
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.submitMfaCode()', 'error', 'The verification code was not accepted');
+
+          // Show the portal error message if it exists.
+          if (errorMessage !== null) {
+            debugLog(this.#internal.logger, 'api.ts / ADTPulse.submitMfaCode()', 'warn', `Portal message ➜ "${errorMessage}"`);
+          }
+        }
+
+        return {
+          action: 'SUBMIT_MFA_CODE',
+          success: false,
+          info: {
+            message: errorMessage ?? 'The verification code was not accepted',
+          },
+        };
+      }
+
+      // The fingerprint is trusted now. Start over with a new sign-in, which also confirms the portal no longer challenges it.
+      this.resetSession();
+
+      const login = await this.login();
+
+      if (!login.success) {
+        return {
+          action: 'SUBMIT_MFA_CODE',
+          success: false,
+          info: login.info,
+        };
+      }
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.submitMfaCode()', 'success', 'Verification code was accepted and the fingerprint is now trusted');
+      }
+
+      return {
+        action: 'SUBMIT_MFA_CODE',
+        success: true,
+        info: {
+          ...login.info,
+          fingerprint: this.#credentials.fingerprint,
+        },
+      };
+    } catch (error) {
+      errorObject = serializeError(error);
+    }
+
+    if (this.#internal.debug) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.submitMfaCode()', 'error', 'Method encountered an error during execution');
+      stackTracer('serialize-error', errorObject);
+    }
+
+    return {
+      action: 'SUBMIT_MFA_CODE',
+      success: false,
+      info: {
+        error: errorObject,
+      },
+    };
+  }
+
+  /**
+   * ADT Pulse - Store access codes.
+   *
+   * @param {ADTPulseStoreAccessCodesAccessCodes} accessCodes - Access codes.
+   *
+   * @returns {ADTPulseStoreAccessCodesReturns}
+   *
+   * @since 3.3.0
+   */
+  public async storeAccessCodes(accessCodes: ADTPulseStoreAccessCodesAccessCodes): ADTPulseStoreAccessCodesReturns {
+    const users = this.#accessCodes ?? (await this.#accessCodeVault?.load())?.users ?? [];
+
+    // Each user has one entry, so a user without an access code is removed from the vault.
+    accessCodes.forEach((accessCode) => {
+      const index = users.findIndex((user) => user.name === accessCode.user);
+
+      if (index !== -1) {
+        users.splice(index, 1);
+      }
+
+      if (accessCode.accessCode !== undefined) {
+        users.push({
+          accessCode: accessCode.accessCode,
+          name: accessCode.user,
+        });
+      }
+    });
+
+    this.#accessCodes = users;
+
+    if (this.#accessCodeVault === null) {
+      return false;
+    }
+
+    const saved = await this.#accessCodeVault.save({ users });
+
+    if (this.#internal.debug) {
+      if (saved) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.storeAccessCodes()', 'success', `Stored the access codes of ${users.length} user(s) in the vault`);
+      } else {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.storeAccessCodes()', 'warn', 'Unable to store the access codes in the vault, they will only be kept until a restart');
+      }
+    }
+
+    return saved;
+  }
+
+  /**
+   * ADT Pulse - Switch site.
+   *
+   * @param {ADTPulseSwitchSiteNetworkId} networkId - Network id.
+   *
+   * @returns {ADTPulseSwitchSiteReturns}
+   *
+   * @since 3.3.0
+   */
+  public async switchSite(networkId: ADTPulseSwitchSiteNetworkId): ADTPulseSwitchSiteReturns {
+    let errorObject;
+
+    if (this.#internal.debug) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.switchSite()', 'info', `Attempting to switch to site "${networkId}" on "${this.#internal.baseUrl}"`);
+    }
+
+    try {
+      const sessions: ADTPulseSwitchSiteSessions = {};
+
+      // sessions.axiosSummary: Load the summary page of the requested site.
+      sessions.axiosSummary = await this.#session.httpClient.get<unknown>(
+        `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/summary/summary.jsp?networkid=${encodeURIComponent(networkId)}`,
+        this.getRequestConfig({
+          headers: {
+            Referer: `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/summary/summary.jsp`,
+            'Sec-Fetch-Site': 'same-origin',
+          },
+        }),
+      );
+
+      // If the "ClientRequest" object does not exist in the Axios response.
+      if (typeof sessions.axiosSummary?.request === 'undefined') {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.switchSite()', 'error', 'The HTTP client responded without the "request" object');
+        }
+
+        return {
+          action: 'SWITCH_SITE',
+          success: false,
+          info: {
+            message: 'The HTTP client responded without the "request" object',
+          },
+        };
+      }
+
+      const axiosSummaryRequestPath = sessions.axiosSummary.request.path;
+      const axiosSummaryRequestPathValid = requestPathSummarySummary.test(axiosSummaryRequestPath) || requestPathSummarySummaryNetworkIdXx.test(axiosSummaryRequestPath);
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.switchSite()', 'info', `Request path ➜ ${axiosSummaryRequestPath}`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.switchSite()', 'info', `Request path valid ➜ ${axiosSummaryRequestPathValid}`);
+      }
+
+      // If the final URL of sessions.axiosSummary is not the summary page.
+      if (!axiosSummaryRequestPathValid) {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.switchSite()', 'error', `"${axiosSummaryRequestPath}" is not the summary page`);
+        }
+
+        // Check if "this instance" was not signed in during this time.
+        this.handleLoginFailure(axiosSummaryRequestPath, sessions.axiosSummary);
+
+        return {
+          action: 'SWITCH_SITE',
+          success: false,
+          info: {
+            message: `"${axiosSummaryRequestPath}" is not the summary page`,
+          },
+        };
+      }
+
+      // Make sure we are able to use the "String.prototype.match()" method on the response data.
+      if (typeof sessions.axiosSummary.data !== 'string') {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.switchSite()', 'error', 'The response body of the summary page is not of type "string"');
+        }
+
+        return {
+          action: 'SWITCH_SITE',
+          success: false,
+          info: {
+            message: 'The response body of the summary page is not of type "string"',
+          },
+        };
+      }
+
+      // The portal ignores network ids that do not belong to the account, so confirm the summary page is for the requested site.
+      const matchNetworkId = sessions.axiosSummary.data.match(paramNetworkId);
+      const currentNetworkId = (matchNetworkId !== null && matchNetworkId.length >= 2) ? matchNetworkId[1] : null;
+
+      if (currentNetworkId !== networkId) {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.switchSite()', 'error', `Site "${networkId}" is not available on this account (currently on site "${currentNetworkId}")`);
+        }
+
+        return {
+          action: 'SWITCH_SITE',
+          success: false,
+          info: {
+            message: `Site "${networkId}" is not available on this account`,
+          },
+        };
+      }
+
+      this.#session.networkId = currentNetworkId;
+
+      // The sat code belongs to the site, so the one from the previous site can no longer be used.
+      this.#session.backupSatCode = fetchMissingSatCode(sessions.axiosSummary);
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.switchSite()', 'success', `Successfully switched to site "${networkId}" on "${this.#internal.baseUrl}"`);
+      }
+
+      return {
+        action: 'SWITCH_SITE',
+        success: true,
+        info: {
+          networkId: currentNetworkId,
+        },
+      };
+    } catch (error) {
+      errorObject = serializeError(error);
+    }
+
+    if (this.#internal.debug) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.switchSite()', 'error', 'Method encountered an error during execution');
+      stackTracer('serialize-error', errorObject);
+    }
+
+    return {
+      action: 'SWITCH_SITE',
+      success: false,
+      info: {
+        error: errorObject,
+      },
+    };
+  }
+
+  /**
+   * ADT Pulse - Acquire site.
+   *
+   * @param {ADTPulseAcquireSiteNetworkId} networkId - Network id.
+   *
+   * @returns {ADTPulseAcquireSiteReturns}
+   *
+   * @since 3.3.0
+   */
+  public async acquireSite(networkId: ADTPulseAcquireSiteNetworkId): ADTPulseAcquireSiteReturns {
+    const previousQueue = this.#siteLock.queue;
+    let release: ADTPulseSiteLockRelease = null;
+
+    // Wait for the site that is currently in use to be released.
+    this.#siteLock.queue = new Promise((resolve) => {
+      release = resolve;
+    });
+
+    await previousQueue;
+
+    this.#siteLock.release = release;
+
+    // A "null" network id stands for the site "this instance" belongs to.
+    const requestedNetworkId = networkId ?? this.#session.homeNetworkId;
+
+    // Before signing in, there is no site to switch to. The portal signs in to the default site.
+    if (
+      !this.#session.isAuthenticated
+      || requestedNetworkId === null
+      || requestedNetworkId === this.#session.networkId
+    ) {
+      return {
+        action: 'ACQUIRE_SITE',
+        success: true,
+        info: {
+          networkId: this.#session.networkId,
+        },
+      };
+    }
+
+    const switchSite = await this.switchSite(requestedNetworkId);
+
+    // The site stays in use until it is released, even if switching has failed.
+    if (!switchSite.success) {
+      return {
+        action: 'ACQUIRE_SITE',
+        success: false,
+        info: switchSite.info,
+      };
+    }
+
+    return {
+      action: 'ACQUIRE_SITE',
+      success: true,
+      info: {
+        networkId: switchSite.info.networkId,
+      },
+    };
+  }
+
+  /**
+   * ADT Pulse - Release site.
+   *
+   * @returns {ADTPulseReleaseSiteReturns}
+   *
+   * @since 3.3.0
+   */
+  public releaseSite(): ADTPulseReleaseSiteReturns {
+    const { release } = this.#siteLock;
+
+    this.#siteLock.release = null;
+
+    // Let the next site waiting in line switch over.
+    if (release !== null) {
+      release();
+    }
+  }
+
+  /**
+   * ADT Pulse - Get gateway information.
+   *
+   * @returns {ADTPulseGetGatewayInformationReturns}
+   *
+   * @since 1.0.0
+   */
+  public async getGatewayInformation(): ADTPulseGetGatewayInformationReturns {
+    let errorObject;
+
+    if (this.#internal.debug) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'info', `Attempting to retrieve gateway information from "${this.#internal.baseUrl}"`);
+    }
+
+    try {
+      const sessions: ADTPulseGetGatewayInformationSessions = {};
+
+      // sessions.axiosSystemGateway: Load the system gateway page.
+      sessions.axiosSystemGateway = await this.#session.httpClient.get<unknown>(
+        `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/system/gateway.jsp`,
+        this.getRequestConfig({
+          headers: {
+            Referer: `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/system/system.jsp`,
+            'Sec-Fetch-Site': 'same-origin',
+            'Sec-Fetch-User': undefined,
+          },
+        }),
+      );
+
+      // If the "ClientRequest" object does not exist in the Axios response.
+      if (typeof sessions.axiosSystemGateway?.request === 'undefined') {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'error', 'The HTTP client responded without the "request" object');
+        }
+
+        return {
+          action: 'GET_GATEWAY_INFORMATION',
+          success: false,
+          info: {
+            message: 'The HTTP client responded without the "request" object',
+          },
+        };
+      }
+
+      const axiosSystemGatewayRequestPath = sessions.axiosSystemGateway.request.path;
+      const axiosSystemGatewayRequestPathValid = requestPathSystemGateway.test(axiosSystemGatewayRequestPath);
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'info', `Request path ➜ ${axiosSystemGatewayRequestPath}`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'info', `Request path valid ➜ ${axiosSystemGatewayRequestPathValid}`);
+      }
+
+      // If the final URL of sessions.axiosSystemGateway is not the system gateway page.
+      if (!axiosSystemGatewayRequestPathValid) {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'error', `"${axiosSystemGatewayRequestPath}" is not the system gateway page`);
+        }
+
+        // Check if "this instance" was not signed in during this time.
+        this.handleLoginFailure(axiosSystemGatewayRequestPath, sessions.axiosSystemGateway);
+
+        return {
+          action: 'GET_GATEWAY_INFORMATION',
+          success: false,
+          info: {
+            message: `"${axiosSystemGatewayRequestPath}" is not the system gateway page`,
+          },
+        };
+      }
+
+      // Make sure we are able to use JSDOM on the response data.
+      if (typeof sessions.axiosSystemGateway.data !== 'string') {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'error', 'The response body of the system gateway page is not of type "string"');
+        }
+
+        return {
+          action: 'GET_GATEWAY_INFORMATION',
+          success: false,
+          info: {
+            message: 'The response body of the system gateway page is not of type "string"',
+          },
+        };
+      }
+
+      // sessions.jsdomSystemGateway: Parse the system gateway page.
+      sessions.jsdomSystemGateway = new JSDOM(
+        sessions.axiosSystemGateway.data,
+        {
+          url: sessions.axiosSystemGateway.config.url,
+          referrer: sessions.axiosSystemGateway.config.headers.Referer,
+          contentType: 'text/html',
           pretendToBeVisual: true,
         },
       );
@@ -881,6 +1785,11 @@ export class ADTPulse {
         rawHtml: sessions.axiosSystemGateway.data,
       });
 
+      // Let listeners know if the gateway status has changed since the last retrieval.
+      this.emitStatusChanges(this.#session.networkId, {
+        gatewayInfo: gatewayInformation,
+      });
+
       if (this.#internal.debug) {
         debugLog(this.#internal.logger, 'api.ts / ADTPulse.getGatewayInformation()', 'success', `Successfully retrieved gateway information from "${this.#internal.baseUrl}"`);
       }
@@ -1220,92 +2129,7 @@ export class ADTPulse {
         },
       );
 
-      /**
-       * Detailed parsing information for "panelStatus".
-       *
-       * NOTICE: Responses may be inaccurate or missing.
-       * PATENT: https://patents.google.com/patent/US20170070361A1/en
-       *
-       * How the data may be displayed:
-       * ➜ "Disarmed. All Quiet."
-       * ➜ "Status Unavailable. "
-       * ➜ "All Quiet."
-       * ➜ "Armed Stay. All Quiet. This may take several minutes."
-       * ➜ "Armed Stay, No Entry Delay. All Quiet."
-       *
-       * Example data after being processed by "parseOrbTextSummary()" function/method (excluding "rawData"):
-       * ➜ {
-       *     panelStates: ['Disarmed'],
-       *     panelStatuses: ['All Quiet'],
-       *     panelNotes: [],
-       *   }
-       * ➜ {
-       *     panelStates: ['Status Unavailable'],
-       *     panelStatuses: [],
-       *     panelNotes: [],
-       *   }
-       * ➜ {
-       *     panelStates: [],
-       *     panelStatuses: ['All Quiet'],
-       *     panelNotes: [],
-       *   }
-       * ➜ {
-       *     panelStates: ['Armed Stay'],
-       *     panelStatuses: ['All Quiet'],
-       *     panelNotes: ['This may take several minutes'],
-       *   }
-       * ➜ {
-       *     panelStates: ['Armed Stay', 'No Entry Delay'],
-       *     panelStatuses: ['All Quiet'],
-       *     panelNotes: [],
-       *   }
-       *
-       * @since 1.0.0
-       */
-      const jsdomSummaryOrbTextSummary = sessions.jsdomSummary.window.document.querySelector('#divOrbTextSummary');
-      const parsedOrbTextSummary = parseOrbTextSummary(jsdomSummaryOrbTextSummary);
-
-      /**
-       * Check if "panelStatus" needs documenting or testing.
-       *
-       * NOTICE: Parts NOT SHOWN below will NOT be tracked, documented, or tested.
-       * PATENT: https://patents.google.com/patent/US20170070361A1/en
-       *
-       * state: 'Armed Away'
-       *        'Armed Night'
-       *        'Armed Stay'
-       *        'Disarmed'
-       *        'No Entry Delay'
-       *        'Status Unavailable'
-       *
-       * status: '1 Sensor Open'
-       *         '[# of sensors open] Sensors Open'
-       *         'All Quiet'
-       *         'BURGLARY ALARM'
-       *         'Carbon Monoxide Alarm'
-       *         'FIRE ALARM'
-       *         'Motion'
-       *         'Sensor Bypassed'
-       *         'Sensor Problem'
-       *         'Sensor Problems'
-       *         'Sensors Bypassed'
-       *         'Sensors Tripped'
-       *         'Sensor Tripped'
-       *         'Uncleared Alarm'
-       *         'WATER ALARM'
-       *
-       * note: 'This may take several minutes'
-       *
-       * @since 1.0.0
-       */
-      await this.newInformationDispatcher('panel-status', parsedOrbTextSummary);
-
-      // Check if the parsing function is parsing data incorrectly.
-      await this.newInformationDispatcher('debug-parser', {
-        method: 'getPanelStatus',
-        response: parsedOrbTextSummary,
-        rawHtml: sessions.axiosSummary.data,
-      });
+      const parsedOrbTextSummary = await this.processPanelStatus(sessions.jsdomSummary, sessions.axiosSummary.data);
 
       if (this.#internal.debug) {
         debugLog(this.#internal.logger, 'api.ts / ADTPulse.getPanelStatus()', 'success', `Successfully retrieved panel status from "${this.#internal.baseUrl}"`);
@@ -1421,6 +2245,7 @@ export class ADTPulse {
         action: 'SET_PANEL_STATUS',
         success: true,
         info: {
+          bypassedZones: [],
           forceArmRequired: false,
         },
       };
@@ -1434,6 +2259,41 @@ export class ADTPulse {
     try {
       let isAlarmCurrentlyActive = isAlarmActive;
 
+      // Sensors with the "never" bypass policy must be closed before the portal is asked to arm. Sensors with the "fail" policy are checked on the force arm page instead.
+      const neverBypassedSensors = this.getSiteConfig().sensors.filter((sensor) => sensor.bypassPolicy === 'never');
+
+      if (armTo !== 'off' && neverBypassedSensors.length > 0) {
+        const openZones = await this.getOpenZones();
+
+        if (openZones === null) {
+          return {
+            action: 'SET_PANEL_STATUS',
+            success: false,
+            info: {
+              message: 'Arming was refused because the open zones could not be retrieved',
+            },
+          };
+        }
+
+        const neverBypassedOpenZones = openZones.filter((openZone) => neverBypassedSensors.some((sensor) => sensor.adtName === openZone.name && sensor.adtZone === openZone.zone));
+
+        if (neverBypassedOpenZones.length > 0) {
+          const neverBypassedOpenZoneNames = neverBypassedOpenZones.map((openZone) => `"${openZone.name}" (zone ${openZone.zone})`).join(', ');
+
+          if (this.#internal.debug) {
+            debugLog(this.#internal.logger, 'api.ts / ADTPulse.setPanelStatus()', 'error', `Arming was refused because ${neverBypassedOpenZoneNames} should never be bypassed`);
+          }
+
+          return {
+            action: 'SET_PANEL_STATUS',
+            success: false,
+            info: {
+              message: `Arming was refused because ${neverBypassedOpenZoneNames} ${(neverBypassedOpenZones.length === 1) ? 'is' : 'are'} open and should never be bypassed`,
+            },
+          };
+        }
+      }
+
       // Get the security buttons.
       const securityButtonsResponse = await this.getOrbSecurityButtons();
 
@@ -1536,6 +2396,7 @@ export class ADTPulse {
             armState: readyButtons[0].urlParams.armState,
             arm: 'off',
             sat: readyButtons[0].urlParams.sat,
+            changeAccessCode: readyButtons[0].changeAccessCode,
           },
         );
 
@@ -1575,7 +2436,8 @@ export class ADTPulse {
         }
       }
 
-      // Track if force arming was required.
+      // Track if force arming was required, and which open zones were bypassed.
+      let bypassedZones: ADTPulseSetPanelStatusBypassedZones = [];
       let forceArmRequired = false;
 
       // Set the arm state based on "armTo" if system is not being disarmed.
@@ -1589,6 +2451,7 @@ export class ADTPulse {
             armState: readyButtons[0].urlParams.armState, // At this point, "armState" should be "off" or "disarmed".
             arm: armTo,
             sat: readyButtons[0].urlParams.sat,
+            changeAccessCode: readyButtons[0].changeAccessCode,
           },
         );
 
@@ -1604,6 +2467,7 @@ export class ADTPulse {
           };
         }
 
+        bypassedZones = armDisarmResponse.info.bypassedZones;
         forceArmRequired = armDisarmResponse.info.forceArmRequired;
       }
 
@@ -1615,6 +2479,7 @@ export class ADTPulse {
         action: 'SET_PANEL_STATUS',
         success: true,
         info: {
+          bypassedZones,
           forceArmRequired,
         },
       };
@@ -1938,113 +2803,7 @@ export class ADTPulse {
         },
       );
 
-      /**
-       * Detailed parsing information for "sensorsStatus".
-       *
-       * NOTICE: Responses may be inaccurate or missing.
-       * PATENT: https://patents.google.com/patent/US20170070361A1/en
-       *
-       * How the data may be displayed:
-       * ➜ <tr>
-       *     <td>
-       *       <span>
-       *         <canvas icon="devStatOK"></canvas>
-       *       </span>
-       *     </td>
-       *     <td>
-       *       <img src="/myhome/16.0.0-131/images/spacer.gif">
-       *     </td>
-       *     <td>
-       *       <a class="p_deviceNameText">Sensor 1</a>
-       *       &nbsp;
-       *       <span class="p_grayNormalText">Zone&nbsp;1</div>
-       *     </td>
-       *     <td>
-       *       Closed&nbsp;
-       *     </td>
-       *   </tr>
-       * ➜ <tr>
-       *     <td>
-       *       <span>
-       *         <canvas icon="devStatMotion"></canvas>
-       *       </span>
-       *     </td>
-       *     <td>
-       *       <img src="/myhome/16.0.0-131/images/spacer.gif">
-       *     </td>
-       *     <td>
-       *       <a class="p_deviceNameText">Sensor 2</a>
-       *       &nbsp;
-       *       <div class="p_grayNormalText">Zone&nbsp;2</div>
-       *     </td>
-       *     <td>
-       *       Motion&nbsp;
-       *     </td>
-       *   </tr>
-       *
-       * Example data after being processed by "parseOrbSensors()" function/method:
-       * ➜ [
-       *     {
-       *       icon: 'devStatOK',
-       *       name: 'Sensor 1',
-       *       status: 'Closed',
-       *       zone: 1,
-       *     },
-       *   ]
-       * ➜ [
-       *     {
-       *       icon: 'devStatMotion',
-       *       name: 'Sensor 2',
-       *       status: 'Motion',
-       *       zone: 2,
-       *     },
-       *   ]
-       *
-       * @since 1.0.0
-       */
-      const jsdomSummaryOrbSensors = sessions.jsdomSummary.window.document.querySelectorAll('#orbSensorsList tr.p_listRow');
-      const parsedOrbSensors = parseOrbSensors(jsdomSummaryOrbSensors);
-
-      /**
-       * Check if "sensorsStatus" needs documenting or testing.
-       *
-       * NOTICE: Parts NOT SHOWN below will NOT be tracked, documented, or tested.
-       * PATENT: https://patents.google.com/patent/US20170070361A1/en
-       *
-       * icon: 'devStatAlarm'
-       *       'devStatInstalling'
-       *       'devStatLowBatt'
-       *       'devStatMotion'
-       *       'devStatOffline'
-       *       'devStatOK'
-       *       'devStatOpen'
-       *       'devStatTamper'
-       *       'devStatUnknown'
-       *
-       * status: 'ALARM'
-       *         'Bypassed'
-       *         'Closed'
-       *         'Installing'
-       *         'Low Battery'
-       *         'Motion'
-       *         'No Motion'
-       *         'Offline'
-       *         'Okay'
-       *         'Open'
-       *         'Tripped'
-       *         'Trouble'
-       *         'Unknown'
-       *
-       * @since 1.0.0
-       */
-      await this.newInformationDispatcher('sensors-status', parsedOrbSensors);
-
-      // Check if the parsing function is parsing data incorrectly.
-      await this.newInformationDispatcher('debug-parser', {
-        method: 'getSensorsStatus',
-        response: parsedOrbSensors,
-        rawHtml: sessions.axiosSummary.data,
-      });
+      const parsedOrbSensors = await this.processSensorsStatus(sessions.jsdomSummary, sessions.axiosSummary.data);
 
       if (this.#internal.debug) {
         debugLog(this.#internal.logger, 'api.ts / ADTPulse.getSensorsStatus()', 'success', `Successfully retrieved sensors status from "${this.#internal.baseUrl}"`);
@@ -2067,7 +2826,144 @@ export class ADTPulse {
     }
 
     return {
-      action: 'GET_SENSORS_STATUS',
+      action: 'GET_SENSORS_STATUS',
+      success: false,
+      info: {
+        error: errorObject,
+      },
+    };
+  }
+
+  /**
+   * ADT Pulse - Get orb security buttons.
+   *
+   * @returns {ADTPulseGetOrbSecurityButtonsReturns}
+   *
+   * @since 1.0.0
+   */
+  public async getOrbSecurityButtons(): ADTPulseGetOrbSecurityButtonsReturns {
+    let errorObject;
+
+    if (this.#internal.debug) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'info', `Attempting to retrieve orb security buttons from "${this.#internal.baseUrl}"`);
+    }
+
+    try {
+      const sessions: ADTPulseGetOrbSecurityButtonsSessions = {};
+
+      // sessions.axiosSummary: Load the summary page.
+      sessions.axiosSummary = await this.#session.httpClient.get<unknown>(
+        `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/summary/summary.jsp`,
+        this.getRequestConfig({
+          headers: {
+            Referer: `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/summary/summary.jsp`,
+            'Sec-Fetch-Site': 'same-origin',
+          },
+        }),
+      );
+
+      // If the "ClientRequest" object does not exist in the Axios response.
+      if (typeof sessions.axiosSummary?.request === 'undefined') {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'error', 'The HTTP client responded without the "request" object');
+        }
+
+        return {
+          action: 'GET_ORB_SECURITY_BUTTONS',
+          success: false,
+          info: {
+            message: 'The HTTP client responded without the "request" object',
+          },
+        };
+      }
+
+      const axiosSummaryRequestPath = sessions.axiosSummary.request.path;
+      const axiosSummaryRequestPathValid = requestPathSummarySummary.test(axiosSummaryRequestPath);
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'info', `Request path ➜ ${axiosSummaryRequestPath}`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'info', `Request path valid ➜ ${axiosSummaryRequestPathValid}`);
+      }
+
+      // If the final URL of sessions.axiosSummary is not the summary page.
+      if (!axiosSummaryRequestPathValid) {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'error', `"${axiosSummaryRequestPath}" is not the summary page`);
+        }
+
+        // Check if "this instance" was not signed in during this time.
+        this.handleLoginFailure(axiosSummaryRequestPath, sessions.axiosSummary);
+
+        return {
+          action: 'GET_ORB_SECURITY_BUTTONS',
+          success: false,
+          info: {
+            message: `"${axiosSummaryRequestPath}" is not the summary page`,
+          },
+        };
+      }
+
+      // Make sure we are able to use JSDOM on the response data.
+      if (typeof sessions.axiosSummary.data !== 'string') {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'error', 'The response body of the summary page is not of type "string"');
+        }
+
+        return {
+          action: 'GET_ORB_SECURITY_BUTTONS',
+          success: false,
+          info: {
+            message: 'The response body of the summary page is not of type "string"',
+          },
+        };
+      }
+
+      // Recover sat code if it was missing during login.
+      if (this.#session.backupSatCode === null) {
+        const missingSatCode = fetchMissingSatCode(sessions.axiosSummary);
+
+        if (missingSatCode !== null) {
+          if (this.#internal.debug) {
+            debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'success', 'Backup sat code was successfully recovered from previous failed retrieval');
+          }
+
+          this.#session.backupSatCode = missingSatCode;
+        }
+      }
+
+      // sessions.jsdomSummary: Parse the summary page.
+      sessions.jsdomSummary = new JSDOM(
+        sessions.axiosSummary.data,
+        {
+          url: sessions.axiosSummary.config.url,
+          referrer: sessions.axiosSummary.config.headers.Referer,
+          contentType: 'text/html',
+          pretendToBeVisual: true,
+        },
+      );
+
+      const parsedOrbSecurityButtons = await this.processOrbSecurityButtons(sessions.jsdomSummary, sessions.axiosSummary.data);
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'success', `Successfully retrieved orb security buttons from "${this.#internal.baseUrl}"`);
+      }
+
+      return {
+        action: 'GET_ORB_SECURITY_BUTTONS',
+        success: true,
+        info: parsedOrbSecurityButtons,
+      };
+    } catch (error) {
+      errorObject = serializeError(error);
+    }
+
+    if (this.#internal.debug) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'error', 'Method encountered an error during execution');
+      stackTracer('serialize-error', errorObject);
+    }
+
+    return {
+      action: 'GET_ORB_SECURITY_BUTTONS',
       success: false,
       info: {
         error: errorObject,
@@ -2076,21 +2972,24 @@ export class ADTPulse {
   }
 
   /**
-   * ADT Pulse - Get orb security buttons.
+   * ADT Pulse - Get summary snapshot.
    *
-   * @returns {ADTPulseGetOrbSecurityButtonsReturns}
+   * Retrieves the panel status, sensors status, orb security buttons, sat code, and network id from a
+   * single load of the summary page, so they all describe the same moment (e.g. during an arm transition).
    *
-   * @since 1.0.0
+   * @returns {ADTPulseGetSummarySnapshotReturns}
+   *
+   * @since 3.3.0
    */
-  public async getOrbSecurityButtons(): ADTPulseGetOrbSecurityButtonsReturns {
+  public async getSummarySnapshot(): ADTPulseGetSummarySnapshotReturns {
     let errorObject;
 
     if (this.#internal.debug) {
-      debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'info', `Attempting to retrieve orb security buttons from "${this.#internal.baseUrl}"`);
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.getSummarySnapshot()', 'info', `Attempting to retrieve summary snapshot from "${this.#internal.baseUrl}"`);
     }
 
     try {
-      const sessions: ADTPulseGetOrbSecurityButtonsSessions = {};
+      const sessions: ADTPulseGetSummarySnapshotSessions = {};
 
       // sessions.axiosSummary: Load the summary page.
       sessions.axiosSummary = await this.#session.httpClient.get<unknown>(
@@ -2103,14 +3002,17 @@ export class ADTPulse {
         }),
       );
 
+      // Every part of the snapshot shares the time the summary page was loaded.
+      const retrievedOn = Date.now();
+
       // If the "ClientRequest" object does not exist in the Axios response.
       if (typeof sessions.axiosSummary?.request === 'undefined') {
         if (this.#internal.debug) {
-          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'error', 'The HTTP client responded without the "request" object');
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getSummarySnapshot()', 'error', 'The HTTP client responded without the "request" object');
         }
 
         return {
-          action: 'GET_ORB_SECURITY_BUTTONS',
+          action: 'GET_SUMMARY_SNAPSHOT',
           success: false,
           info: {
             message: 'The HTTP client responded without the "request" object',
@@ -2122,21 +3024,21 @@ export class ADTPulse {
       const axiosSummaryRequestPathValid = requestPathSummarySummary.test(axiosSummaryRequestPath);
 
       if (this.#internal.debug) {
-        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'info', `Request path ➜ ${axiosSummaryRequestPath}`);
-        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'info', `Request path valid ➜ ${axiosSummaryRequestPathValid}`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getSummarySnapshot()', 'info', `Request path ➜ ${axiosSummaryRequestPath}`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getSummarySnapshot()', 'info', `Request path valid ➜ ${axiosSummaryRequestPathValid}`);
       }
 
       // If the final URL of sessions.axiosSummary is not the summary page.
       if (!axiosSummaryRequestPathValid) {
         if (this.#internal.debug) {
-          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'error', `"${axiosSummaryRequestPath}" is not the summary page`);
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getSummarySnapshot()', 'error', `"${axiosSummaryRequestPath}" is not the summary page`);
         }
 
         // Check if "this instance" was not signed in during this time.
         this.handleLoginFailure(axiosSummaryRequestPath, sessions.axiosSummary);
 
         return {
-          action: 'GET_ORB_SECURITY_BUTTONS',
+          action: 'GET_SUMMARY_SNAPSHOT',
           success: false,
           info: {
             message: `"${axiosSummaryRequestPath}" is not the summary page`,
@@ -2147,11 +3049,11 @@ export class ADTPulse {
       // Make sure we are able to use JSDOM on the response data.
       if (typeof sessions.axiosSummary.data !== 'string') {
         if (this.#internal.debug) {
-          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'error', 'The response body of the summary page is not of type "string"');
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.getSummarySnapshot()', 'error', 'The response body of the summary page is not of type "string"');
         }
 
         return {
-          action: 'GET_ORB_SECURITY_BUTTONS',
+          action: 'GET_SUMMARY_SNAPSHOT',
           success: false,
           info: {
             message: 'The response body of the summary page is not of type "string"',
@@ -2165,7 +3067,7 @@ export class ADTPulse {
 
         if (missingSatCode !== null) {
           if (this.#internal.debug) {
-            debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'success', 'Backup sat code was successfully recovered from previous failed retrieval');
+            debugLog(this.#internal.logger, 'api.ts / ADTPulse.getSummarySnapshot()', 'success', 'Backup sat code was successfully recovered from previous failed retrieval');
           }
 
           this.#session.backupSatCode = missingSatCode;
@@ -2183,132 +3085,48 @@ export class ADTPulse {
         },
       );
 
-      /**
-       * Detailed parsing information for "orbSecurityButtons".
-       *
-       * NOTICE: Responses may be inaccurate or missing.
-       * PATENT: https://patents.google.com/patent/US20170070361A1/en
-       *
-       * How the data may be displayed:
-       * ➜ <input id="security_button_1" value="Arm Stay" onclick="setArmState('quickcontrol/armDisarm.jsp','Arming Stay','1','2','false','href=rest/adt/ui/client/security/setArmState&amp;armstate=off&amp;arm=stay&amp;sat=21580428-e539-4075-8237-5c58b6c6fec8')">
-       * ➜ <input id="security_button_1" value="Arming Stay" disabled="">
-       *
-       * Example data after being processed by "parseOrbSecurityButtons()" function/method:
-       * ➜ [
-       *     {
-       *       buttonDisabled: false,
-       *       buttonId: 'security_button_1',
-       *       buttonIndex: 1,
-       *       buttonText: 'Arm Stay',
-       *       changeAccessCode: false,
-       *       loadingText: 'Arming Stay',
-       *       relativeUrl: 'quickcontrol/armDisarm.jsp',
-       *       totalButtons: 2,
-       *       urlParams: {
-       *         arm: 'stay',
-       *         armState: 'off',
-       *         href: 'rest/adt/ui/client/security/setArmState',
-       *         sat: '21580428-e539-4075-8237-5c58b6c6fec8',
-       *       },
-       *     },
-       *   ]
-       * ➜ [
-       *     {
-       *       buttonDisabled: true,
-       *       buttonId: 'security_button_1',
-       *       buttonText: 'Arming Stay',
-       *     },
-       *   ]
-       *
-       * Notes I've gathered during the process:
-       * - After disarming, "armState" will be set to "disarmed". It will be set to "off" after re-login.¹
-       * - After turning off siren, "armState" will be set to "disarmed+with+alarm". It will be set to "disarmed_with_alarm" after re-login.¹²
-       * - After arming night, "armState" will be set to "night+stay". It will be set to "night" after re-login.¹
-       * - The "sat" code is required for all arm/disarm actions (UUID, generated on every login).
-       * - If "armState" is not "off" or "disarmed", you must disarm first before setting to other modes.
-       *
-       * Footnotes:
-       * ¹ States are synced across an entire site (per home). If one account arms, every user signed in during that phase becomes "dirty".
-       * ² Turning off siren means system is in "Uncleared Alarm" mode, not truly "Disarmed" mode.
-       *
-       * @since 1.0.0
-       */
-      const jsdomSummaryOrbSecurityButtons = sessions.jsdomSummary.window.document.querySelectorAll('#divOrbSecurityButtons input');
-      const parsedOrbSecurityButtons = parseOrbSecurityButtons(jsdomSummaryOrbSecurityButtons);
+      const parsedOrbTextSummary = await this.processPanelStatus(sessions.jsdomSummary, sessions.axiosSummary.data);
+      const parsedOrbSensors = await this.processSensorsStatus(sessions.jsdomSummary, sessions.axiosSummary.data);
+      const parsedOrbSecurityButtons = await this.processOrbSecurityButtons(sessions.jsdomSummary, sessions.axiosSummary.data);
 
-      /**
-       * Check if "orbSecurityButtons" needs documenting or testing.
-       *
-       * NOTICE: Parts NOT SHOWN below will NOT be tracked, documented, or tested.
-       * PATENT: https://patents.google.com/patent/US20170070361A1/en
-       *
-       * buttonText: 'Arm Away'
-       *             'Arm Night'
-       *             'Arm Stay'
-       *             'Clear Alarm'
-       *             'Disarm'
-       *
-       * loadingText: 'Arming Away'
-       *              'Arming Night'
-       *              'Arming Stay'
-       *              'Disarming'
-       *
-       * relativeUrl: 'quickcontrol/armDisarm.jsp'
-       *
-       * urlParams.arm: 'away'
-       *                'night'
-       *                'off'
-       *                'stay'
-       *
-       * urlParams.armState: 'away'
-       *                     'disarmed'
-       *                     'disarmed_with_alarm'
-       *                     'disarmed+with+alarm'
-       *                     'night'
-       *                     'night+stay'
-       *                     'off'
-       *                     'stay'
-       *
-       * urlParams.href: 'rest/adt/ui/client/security/setArmState'
-       *
-       * Notes I've gathered during the process:
-       * - When a button is in pending (disabled) state, the "buttonText" will be the "loadingText".
-       * - Currently, "disarmed+with+alarm" and "night+stay" are considered dirty states.
-       *
-       * @since 1.0.0
-       */
-      await this.newInformationDispatcher('orb-security-buttons', parsedOrbSecurityButtons);
+      // Unlike the backup sat code of the session, these are always taken from this summary page.
+      const satCode = fetchMissingSatCode(sessions.axiosSummary);
+      const matchNetworkId = sessions.axiosSummary.data.match(paramNetworkId);
+      const networkId = (matchNetworkId !== null && matchNetworkId.length >= 2) ? matchNetworkId[1] : this.#session.networkId;
 
-      // Check if the parsing function is parsing data incorrectly.
-      await this.newInformationDispatcher('debug-parser', {
-        method: 'getOrbSecurityButtons',
-        response: parsedOrbSecurityButtons,
-        rawHtml: sessions.axiosSummary.data,
+      // Let listeners know if the panel or the sensors have changed since the last snapshot.
+      this.emitStatusChanges(networkId, {
+        panelStatus: parsedOrbTextSummary,
+        sensorsStatus: parsedOrbSensors,
       });
 
-      // "armState" can be dirty without the plugin changing the state itself. Most likely when multiple users are logged in.
-      this.#session.isCleanState = isSessionCleanState(parsedOrbSecurityButtons);
-
       if (this.#internal.debug) {
-        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'success', `Successfully retrieved orb security buttons from "${this.#internal.baseUrl}"`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getSummarySnapshot()', 'success', `Successfully retrieved summary snapshot from "${this.#internal.baseUrl}"`);
       }
 
       return {
-        action: 'GET_ORB_SECURITY_BUTTONS',
+        action: 'GET_SUMMARY_SNAPSHOT',
         success: true,
-        info: parsedOrbSecurityButtons,
+        info: {
+          networkId,
+          orbSecurityButtons: parsedOrbSecurityButtons,
+          panelStatus: parsedOrbTextSummary,
+          retrievedOn,
+          satCode,
+          sensorsStatus: parsedOrbSensors,
+        },
       };
     } catch (error) {
       errorObject = serializeError(error);
     }
 
     if (this.#internal.debug) {
-      debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOrbSecurityButtons()', 'error', 'Method encountered an error during execution');
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.getSummarySnapshot()', 'error', 'Method encountered an error during execution');
       stackTracer('serialize-error', errorObject);
     }
 
     return {
-      action: 'GET_ORB_SECURITY_BUTTONS',
+      action: 'GET_SUMMARY_SNAPSHOT',
       success: false,
       info: {
         error: errorObject,
@@ -2420,6 +3238,11 @@ export class ADTPulse {
         };
       }
 
+      // Let listeners know if the sync code has changed since the last sync check.
+      this.emitStatusChanges(this.#session.networkId, {
+        syncCode: sessions.axiosSyncCheck.data,
+      });
+
       if (this.#internal.debug) {
         debugLog(this.#internal.logger, 'api.ts / ADTPulse.performSyncCheck()', 'success', `Successfully performed a sync check from "${this.#internal.baseUrl}"`);
       }
@@ -2544,6 +3367,9 @@ export class ADTPulse {
         debugLog(this.#internal.logger, 'api.ts / ADTPulse.performKeepAlive()', 'success', `Successfully performed a keep alive from "${this.#internal.baseUrl}"`);
       }
 
+      // Save the session again, in case the portal has refreshed the cookies.
+      await this.saveSession();
+
       return {
         action: 'PERFORM_KEEP_ALIVE',
         success: true,
@@ -2578,6 +3404,24 @@ export class ADTPulse {
     return this.#session.isAuthenticated;
   }
 
+  /**
+   * ADT Pulse - Get mfa challenge.
+   *
+   * @returns {ADTPulseGetMfaChallengeReturns}
+   *
+   * @since 3.3.0
+   */
+  public getMfaChallenge(): ADTPulseGetMfaChallengeReturns {
+    if (this.#session.mfaChallenge === null) {
+      return null;
+    }
+
+    return {
+      isCodeRequested: this.#session.mfaChallenge.verifyForm !== null,
+      methods: this.#session.mfaChallenge.requestForm.methods,
+    };
+  }
+
   /**
    * ADT Pulse - Reset session.
    *
@@ -2585,18 +3429,351 @@ export class ADTPulse {
    *
    * @since 1.0.0
    */
-  public resetSession(): ADTPulseResetSessionReturns {
-    this.#session = {
-      backupSatCode: null,
-      httpClient: wrapper(axios.create({
-        jar: new CookieJar(),
-        validateStatus: () => true,
-      })),
-      isAuthenticated: false,
-      isCleanState: true,
-      networkId: null,
-      portalVersion: null,
-    };
+  public resetSession(): ADTPulseResetSessionReturns {
+    const wasAuthenticated = this.#session.isAuthenticated;
+
+    this.#session = {
+      backupSatCode: null,
+      homeNetworkId: null,
+      httpClient: wrapper(axios.create({
+        jar: new CookieJar(),
+        validateStatus: () => true,
+      })),
+      isAuthenticated: false,
+      isCleanState: true,
+      lastLoginOn: null,
+      mfaChallenge: null,
+      networkId: null,
+      portalVersion: null,
+    };
+
+    this.emit('sessionReset', {
+      wasAuthenticated,
+    });
+  }
+
+  /**
+   * ADT Pulse - On.
+   *
+   * @param {ADTPulseOnName}     name     - Name.
+   * @param {ADTPulseOnListener} listener - Listener.
+   *
+   * @returns {this}
+   *
+   * @since 3.3.0
+   */
+  public on<Name extends ADTPulseOnName>(name: Name, listener: ADTPulseOnListener<Name>): this {
+    this.#emitter.on(name, listener);
+
+    return this;
+  }
+
+  /**
+   * ADT Pulse - Once.
+   *
+   * @param {ADTPulseOnceName}     name     - Name.
+   * @param {ADTPulseOnceListener} listener - Listener.
+   *
+   * @returns {this}
+   *
+   * @since 3.3.0
+   */
+  public once<Name extends ADTPulseOnceName>(name: Name, listener: ADTPulseOnceListener<Name>): this {
+    this.#emitter.once(name, listener);
+
+    return this;
+  }
+
+  /**
+   * ADT Pulse - Off.
+   *
+   * @param {ADTPulseOffName}     name     - Name.
+   * @param {ADTPulseOffListener} listener - Listener.
+   *
+   * @returns {this}
+   *
+   * @since 3.3.0
+   */
+  public off<Name extends ADTPulseOffName>(name: Name, listener: ADTPulseOffListener<Name>): this {
+    this.#emitter.off(name, listener);
+
+    return this;
+  }
+
+  /**
+   * ADT Pulse - Emit.
+   *
+   * @param {ADTPulseEmitName}  name  - Name.
+   * @param {ADTPulseEmitEvent} event - Event.
+   *
+   * @private
+   *
+   * @returns {ADTPulseEmitReturns}
+   *
+   * @since 3.3.0
+   */
+  private emit<Name extends ADTPulseEmitName>(name: Name, event: ADTPulseEmitEvent<Name>): ADTPulseEmitReturns {
+    return this.#emitter.emit(name, event);
+  }
+
+  /**
+   * ADT Pulse - Emit status changes.
+   *
+   * @param {ADTPulseEmitStatusChangesNetworkId}   networkId   - Network id.
+   * @param {ADTPulseEmitStatusChangesObservation} observation - Observation.
+   *
+   * @private
+   *
+   * @returns {ADTPulseEmitStatusChangesReturns}
+   *
+   * @since 3.3.0
+   */
+  private emitStatusChanges(networkId: ADTPulseEmitStatusChangesNetworkId, observation: ADTPulseEmitStatusChangesObservation): ADTPulseEmitStatusChangesReturns {
+    // Sites share "this instance", so a status is only compared with the last one retrieved for the same site.
+    if (networkId === null) {
+      return;
+    }
+
+    const observed = this.#observed[networkId] ?? {
+      gatewayInfo: null,
+      panelStatus: null,
+      sensorsStatus: null,
+      syncCode: null,
+    };
+
+    // Nothing is emitted for the first retrieval, since there is nothing to compare with yet.
+    if (observation.gatewayInfo !== undefined) {
+      if (
+        observed.gatewayInfo !== null
+        && (
+          observed.gatewayInfo.status !== observation.gatewayInfo.status
+          || !_.isEqual(observed.gatewayInfo.communication, observation.gatewayInfo.communication)
+        )
+      ) {
+        this.emit('gatewayStatusChanged', {
+          networkId,
+          old: observed.gatewayInfo,
+          new: observation.gatewayInfo,
+        });
+      }
+
+      observed.gatewayInfo = observation.gatewayInfo;
+    }
+
+    if (observation.panelStatus !== undefined) {
+      if (observed.panelStatus !== null && observed.panelStatus.rawData.node !== observation.panelStatus.rawData.node) {
+        this.emit('panelStateChanged', {
+          networkId,
+          old: observed.panelStatus,
+          new: observation.panelStatus,
+        });
+      }
+
+      observed.panelStatus = observation.panelStatus;
+    }
+
+    if (observation.sensorsStatus !== undefined) {
+      const observedSensorsStatus = observed.sensorsStatus;
+
+      if (observedSensorsStatus !== null) {
+        observation.sensorsStatus.forEach((sensorStatus) => {
+          const observedSensorStatus = observedSensorsStatus.find((observedSensor) => observedSensor.name === sensorStatus.name && observedSensor.zone === sensorStatus.zone);
+
+          if (
+            observedSensorStatus !== undefined
+            && (
+              observedSensorStatus.icon !== sensorStatus.icon
+              || !_.isEqual(observedSensorStatus.statuses, sensorStatus.statuses)
+            )
+          ) {
+            this.emit('sensorStatusChanged', {
+              networkId,
+              old: observedSensorStatus,
+              new: sensorStatus,
+            });
+          }
+        });
+      }
+
+      observed.sensorsStatus = observation.sensorsStatus;
+    }
+
+    if (observation.syncCode !== undefined) {
+      if (observed.syncCode !== null && observed.syncCode !== observation.syncCode) {
+        this.emit('syncCodeChanged', {
+          networkId,
+          old: observed.syncCode,
+          new: observation.syncCode,
+        });
+      }
+
+      observed.syncCode = observation.syncCode;
+    }
+
+    this.#observed[networkId] = observed;
+  }
+
+  /**
+   * ADT Pulse - Resume session.
+   *
+   * @private
+   *
+   * @returns {ADTPulseResumeSessionReturns}
+   *
+   * @since 3.3.0
+   */
+  private async resumeSession(): ADTPulseResumeSessionReturns {
+    if (this.#sessionVault === null) {
+      return false;
+    }
+
+    const savedSession = await this.#sessionVault.load();
+
+    if (savedSession === null || savedSession.portalVersion === null) {
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.resumeSession()', 'info', 'No saved session to resume');
+      }
+
+      return false;
+    }
+
+    // A verification code was requested before the restart, so bring back the challenge it belongs to instead.
+    if (savedSession.mfaChallenge !== null) {
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.resumeSession()', 'info', 'Restoring the pending multi-factor authentication challenge');
+      }
+
+      this.#session.httpClient = wrapper(axios.create({
+        jar: await CookieJar.deserialize(savedSession.cookies),
+        validateStatus: () => true,
+      }));
+      this.#session.mfaChallenge = savedSession.mfaChallenge;
+      this.#session.portalVersion = savedSession.portalVersion;
+
+      return false;
+    }
+
+    if (savedSession.lastLoginOn === null) {
+      return false;
+    }
+
+    if (this.#internal.debug) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.resumeSession()', 'info', `Attempting to resume the session saved on ${new Date(savedSession.lastLoginOn).toISOString()}`);
+    }
+
+    try {
+      const sessions: ADTPulseResumeSessionSessions = {};
+
+      this.#session.httpClient = wrapper(axios.create({
+        jar: await CookieJar.deserialize(savedSession.cookies),
+        validateStatus: () => true,
+      }));
+      this.#session.portalVersion = savedSession.portalVersion;
+
+      // sessions.axiosSummary: Load the summary page, which redirects to the sign-in page if the session has expired.
+      sessions.axiosSummary = await this.#session.httpClient.get<unknown>(
+        `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/summary/summary.jsp`,
+        this.getRequestConfig({
+          headers: {
+            'Sec-Fetch-Site': 'same-origin',
+          },
+        }),
+      );
+
+      const axiosSummaryRequestPath = sessions.axiosSummary.request?.path;
+      const axiosSummaryRequestPathValid = typeof axiosSummaryRequestPath === 'string' && requestPathSummarySummary.test(axiosSummaryRequestPath);
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.resumeSession()', 'info', `Request path ➜ ${axiosSummaryRequestPath}`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.resumeSession()', 'info', `Request path valid ➜ ${axiosSummaryRequestPathValid}`);
+      }
+
+      // If the saved session has expired, or belongs to another site.
+      if (!axiosSummaryRequestPathValid || (this.#internal.networkId !== null && this.#internal.networkId !== savedSession.networkId)) {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.resumeSession()', 'warn', 'Saved session is no longer valid, signing in again');
+        }
+
+        this.resetSession();
+
+        return false;
+      }
+
+      // The portal remembers the last site that was switched to, which may not be the site the session belongs to.
+      const matchNetworkId = (typeof sessions.axiosSummary.data === 'string') ? sessions.axiosSummary.data.match(paramNetworkId) : null;
+
+      this.#session.backupSatCode = savedSession.backupSatCode;
+      this.#session.homeNetworkId = savedSession.networkId;
+      this.#session.isAuthenticated = true;
+      this.#session.lastLoginOn = savedSession.lastLoginOn;
+      this.#session.networkId = (matchNetworkId !== null && matchNetworkId.length >= 2) ? matchNetworkId[1] : savedSession.networkId;
+
+      if (this.#internal.debug) {
+        debugLog(
+          this.#internal.logger,
+          'api.ts / ADTPulse.resumeSession()',
+          'success',
+          [
+            'Session resumed',
+            [
+              '(',
+              [
+                `backup sat code: ${this.#session.backupSatCode}`,
+                `network id: ${this.#session.networkId}`,
+                `portal version: ${this.#session.portalVersion}`,
+              ].join(', '),
+              ')',
+            ].join(''),
+          ].join(' '),
+        );
+      }
+
+      return true;
+    } catch (error) {
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.resumeSession()', 'error', 'Method encountered an error during execution');
+        stackTracer('serialize-error', serializeError(error));
+      }
+
+      this.resetSession();
+
+      return false;
+    }
+  }
+
+  /**
+   * ADT Pulse - Save session.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSaveSessionReturns}
+   *
+   * @since 3.3.0
+   */
+  private async saveSession(): ADTPulseSaveSessionReturns {
+    const { jar } = this.#session.httpClient.defaults;
+
+    // Only signed in sessions, or sessions waiting for a verification code, are worth resuming.
+    if (
+      this.#sessionVault === null
+      || jar === undefined
+      || (this.#session.lastLoginOn === null && this.#session.mfaChallenge === null)
+    ) {
+      return;
+    }
+
+    const saved = await this.#sessionVault.save({
+      backupSatCode: this.#session.backupSatCode,
+      cookies: await jar.serialize(),
+      lastLoginOn: this.#session.lastLoginOn,
+      mfaChallenge: this.#session.mfaChallenge,
+      networkId: this.#session.homeNetworkId,
+      portalVersion: this.#session.portalVersion,
+    });
+
+    if (!saved && this.#internal.debug) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.saveSession()', 'warn', 'Unable to save the session, it will not be resumed after a restart');
+    }
   }
 
   /**
@@ -2652,12 +3829,18 @@ export class ADTPulse {
         action: 'ARM_DISARM_HANDLER',
         success: true,
         info: {
+          bypassedZones: [],
           forceArmRequired: false,
           readyButtons: [],
         },
       };
     }
 
+    // The security panel asks for an access code before the arm state is updated.
+    if (this.#internal.debug && options.changeAccessCode && await this.getAccessCode(this.getSiteConfig().accessCodeUser) === null) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.armDisarmHandler()', 'warn', 'The security panel may ask for an access code, but no access code is stored');
+    }
+
     try {
       const sessions: ADTPulseArmDisarmHandlerSessions = {};
 
@@ -2781,13 +3964,29 @@ export class ADTPulse {
         };
       }
 
-      // Track if force arming was required.
+      // Passing the access code task to the handler, the arm state is only updated after the access code is accepted.
+      const accessCodeResponse = await this.accessCodeHandler(sessions.axiosSetArmMode, options.relativeUrl);
+
+      if (!accessCodeResponse.success) {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.armDisarmHandler()', 'error', 'An error occurred in the access code handler');
+        }
+
+        return {
+          action: 'ARM_DISARM_HANDLER',
+          success: false,
+          info: accessCodeResponse.info,
+        };
+      }
+
+      // Track if force arming was required, and which open zones were bypassed.
+      let bypassedZones: ADTPulseArmDisarmHandlerBypassedZones = [];
       let forceArmRequired = false;
 
       // No need to force arm if system is not being set to arm.
       if (options.arm !== 'off') {
-        // Passing the force arming task to the handler.
-        const forceArmResponse = await this.forceArmHandler(sessions.axiosSetArmMode, options.relativeUrl);
+        // Passing the force arming task to the handler. After an access code was submitted, the force arm page is the response of that request.
+        const forceArmResponse = await this.forceArmHandler(accessCodeResponse.info.response, options.relativeUrl);
 
         if (!forceArmResponse.success) {
           if (this.#internal.debug) {
@@ -2801,6 +4000,7 @@ export class ADTPulse {
           };
         }
 
+        bypassedZones = forceArmResponse.info.bypassedZones;
         forceArmRequired = forceArmResponse.info.forceArmRequired;
       }
 
@@ -2851,6 +4051,7 @@ export class ADTPulse {
         action: 'ARM_DISARM_HANDLER',
         success: true,
         info: {
+          bypassedZones,
           forceArmRequired,
           readyButtons,
         },
@@ -2873,6 +4074,203 @@ export class ADTPulse {
     };
   }
 
+  /**
+   * ADT Pulse - Access code handler.
+   *
+   * @param {ADTPulseAccessCodeHandlerResponse}    response    - Response.
+   * @param {ADTPulseAccessCodeHandlerRelativeUrl} relativeUrl - Relative url.
+   *
+   * @private
+   *
+   * @returns {ADTPulseAccessCodeHandlerReturns}
+   *
+   * @since 3.3.0
+   */
+  private async accessCodeHandler(response: ADTPulseAccessCodeHandlerResponse, relativeUrl: ADTPulseAccessCodeHandlerRelativeUrl): ADTPulseAccessCodeHandlerReturns {
+    let errorObject;
+
+    try {
+      const sessions: ADTPulseAccessCodeHandlerSessions = {};
+
+      // Make sure we are able to parse the response data.
+      if (typeof response.data !== 'string') {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.accessCodeHandler()', 'error', 'The response body of the arm disarm page is not of type "string"');
+        }
+
+        return {
+          action: 'ACCESS_CODE_HANDLER',
+          success: false,
+          info: {
+            message: 'The response body of the arm disarm page is not of type "string"',
+          },
+        };
+      }
+
+      const accessCodeForm = parseAccessCodeForm(response.data, response.config.url ?? `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/${relativeUrl}`);
+
+      // Most security panels do not ask for an access code.
+      if (accessCodeForm === null) {
+        return {
+          action: 'ACCESS_CODE_HANDLER',
+          success: true,
+          info: {
+            accessCodeRequired: false,
+            response,
+          },
+        };
+      }
+
+      // Submitting guessed fields to a form that was never seen before could be taken as a wrong code, so stop here.
+      if (isUnknownAccessCodeForm(accessCodeForm)) {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.accessCodeHandler()', 'error', 'The portal asked for an access code, but the access code form is not recognized. No access code was submitted');
+        }
+
+        return {
+          action: 'ACCESS_CODE_HANDLER',
+          success: false,
+          info: {
+            message: 'The portal asked for an access code, but the access code form is not recognized. No access code was submitted',
+          },
+        };
+      }
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.accessCodeHandler()', 'info', `Attempting to submit the access code on "${this.#internal.baseUrl}"`);
+      }
+
+      const { accessCodeUser } = this.getSiteConfig();
+      const accessCode = await this.getAccessCode(accessCodeUser);
+
+      if (accessCode === null) {
+        const missingUser = (accessCodeUser !== null) ? ` for "${accessCodeUser}"` : '';
+
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.accessCodeHandler()', 'error', `The portal asked for an access code, but no access code is stored${missingUser}`);
+        }
+
+        return {
+          action: 'ACCESS_CODE_HANDLER',
+          success: false,
+          info: {
+            message: `The portal asked for an access code, but no access code is stored${missingUser}`,
+          },
+        };
+      }
+
+      // Build an "application/x-www-form-urlencoded" form with the hidden fields of the prompt and the access code.
+      const accessCodeRequestForm = new URLSearchParams(accessCodeForm.fields);
+      accessCodeRequestForm.append(accessCodeForm.codeField, accessCode);
+
+      // sessions.axiosAccessCode: Emulate an access code submission.
+      sessions.axiosAccessCode = await this.#session.httpClient.post<unknown>(
+        accessCodeForm.action,
+        accessCodeRequestForm,
+        this.getRequestConfig({
+          headers: {
+            'Cache-Control': 'max-age=0',
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Origin: this.#internal.baseUrl,
+            Referer: `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/${relativeUrl}`,
+            'Sec-Fetch-Dest': 'iframe',
+            'Sec-Fetch-Mode': 'navigate',
+            'Sec-Fetch-Site': 'same-origin',
+            'Sec-Fetch-User': undefined,
+          },
+        }),
+      );
+
+      // If the "ClientRequest" object does not exist in the Axios response.
+      if (typeof sessions.axiosAccessCode?.request === 'undefined') {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.accessCodeHandler()', 'error', 'The HTTP client responded without the "request" object');
+        }
+
+        return {
+          action: 'ACCESS_CODE_HANDLER',
+          success: false,
+          info: {
+            message: 'The HTTP client responded without the "request" object',
+          },
+        };
+      }
+
+      const axiosAccessCodeRequestPath = sessions.axiosAccessCode.request.path;
+      const axiosAccessCodeRequestPathValid = requestPathQuickControlArmDisarm.test(axiosAccessCodeRequestPath);
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.accessCodeHandler()', 'info', `Request path ➜ ${axiosAccessCodeRequestPath}`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.accessCodeHandler()', 'info', `Request path valid ➜ ${axiosAccessCodeRequestPathValid}`);
+      }
+
+      // If the final URL of sessions.axiosAccessCode is not the arm disarm page.
+      if (!axiosAccessCodeRequestPathValid) {
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.accessCodeHandler()', 'error', `"${axiosAccessCodeRequestPath}" is not the arm disarm page`);
+        }
+
+        // Check if "this instance" was not signed in during this time.
+        this.handleLoginFailure(axiosAccessCodeRequestPath, sessions.axiosAccessCode);
+
+        return {
+          action: 'ACCESS_CODE_HANDLER',
+          success: false,
+          info: {
+            message: `"${axiosAccessCodeRequestPath}" is not the arm disarm page`,
+          },
+        };
+      }
+
+      // If the prompt is shown again, the access code was rejected. Retrying with the same code could lock out the keypad, so stop here.
+      const rejectedAccessCodeForm = (typeof sessions.axiosAccessCode.data === 'string') ? parseAccessCodeForm(sessions.axiosAccessCode.data, accessCodeForm.action) : null;
+
+      if (rejectedAccessCodeForm !== null) {
+        const portalMessage = (rejectedAccessCodeForm.message !== null) ? ` (${rejectedAccessCodeForm.message})` : '';
+
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.accessCodeHandler()', 'error', `The portal did not accept the access code${portalMessage}`);
+        }
+
+        return {
+          action: 'ACCESS_CODE_HANDLER',
+          success: false,
+          info: {
+            message: `The portal did not accept the access code${portalMessage}`,
+          },
+        };
+      }
+
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.accessCodeHandler()', 'success', `Successfully submitted the access code on "${this.#internal.baseUrl}"`);
+      }
+
+      return {
+        action: 'ACCESS_CODE_HANDLER',
+        success: true,
+        info: {
+          accessCodeRequired: true,
+          response: sessions.axiosAccessCode,
+        },
+      };
+    } catch (error) {
+      errorObject = serializeError(error);
+    }
+
+    if (this.#internal.debug) {
+      debugLog(this.#internal.logger, 'api.ts / ADTPulse.accessCodeHandler()', 'error', 'Method encountered an error during execution');
+      stackTracer('serialize-error', errorObject);
+    }
+
+    return {
+      action: 'ACCESS_CODE_HANDLER',
+      success: false,
+      info: {
+        error: errorObject,
+      },
+    };
+  }
+
   /**
    * ADT Pulse - Force arm handler.
    *
@@ -3021,6 +4419,7 @@ export class ADTPulse {
           action: 'FORCE_ARM_HANDLER',
           success: true,
           info: {
+            bypassedZones: [],
             forceArmRequired: false,
           },
         };
@@ -3033,8 +4432,68 @@ export class ADTPulse {
         requestUrl: null,
       };
 
+      // Only the message and the buttons of the force arm page are known, so the open zones are read from the sensors list of the summary page.
+      const openZones = await this.getOpenZones();
+
       if (this.#internal.debug) {
         debugLog(this.#internal.logger, 'api.ts / ADTPulse.forceArmHandler()', 'warn', `Portal message ➜ "${parsedArmDisarmMessage}"`);
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.forceArmHandler()', 'warn', `Open zones ➜ ${(openZones !== null) ? openZones.map((openZone) => openZone.zone).join(', ') : 'unknown'}`);
+      }
+
+      // Sensors with the "fail" or "never" bypass policy cancel arming instead of being bypassed.
+      const protectedSensors = this.getSiteConfig().sensors.filter((sensor) => sensor.bypassPolicy === 'fail' || sensor.bypassPolicy === 'never');
+
+      let cancelMessage: ADTPulseForceArmHandlerCancelMessage = null;
+
+      if (openZones === null && protectedSensors.length > 0) {
+        cancelMessage = 'Arming was cancelled because the open zones could not be retrieved';
+      } else if (openZones !== null) {
+        const blockedZones = openZones.filter((openZone) => protectedSensors.some((sensor) => sensor.adtName === openZone.name && sensor.adtZone === openZone.zone));
+
+        if (blockedZones.length > 0) {
+          cancelMessage = `Arming was cancelled because ${blockedZones.map((blockedZone) => `"${blockedZone.name}" (zone ${blockedZone.zone})`).join(', ')} ${(blockedZones.length === 1) ? 'is' : 'are'} open and cannot be bypassed`;
+        }
+      }
+
+      if (cancelMessage !== null) {
+        const cancelHandler = parsedDoSubmitHandlers.find((parsedDoSubmitHandler) => parsedDoSubmitHandler.urlParams.href === 'rest/adt/ui/client/security/setCancelProtest');
+
+        if (this.#internal.debug) {
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.forceArmHandler()', 'error', cancelMessage);
+        }
+
+        // Press the "Cancel" button, so the portal does not keep waiting for the force arm to be acknowledged.
+        if (cancelHandler !== undefined) {
+          const cancelForm = new URLSearchParams();
+          cancelForm.append('sat', cancelHandler.urlParams.sat);
+          cancelForm.append('href', cancelHandler.urlParams.href);
+
+          await this.#session.httpClient.post<unknown>(
+            this.#internal.baseUrl + cancelHandler.relativeUrl,
+            cancelForm,
+            this.getRequestConfig({
+              headers: {
+                Accept: '*/*',
+                'Content-type': 'application/x-www-form-urlencoded',
+                Origin: this.#internal.baseUrl,
+                Referer: `${this.#internal.baseUrl}/myhome/${this.#session.portalVersion}/${relativeUrl}`,
+                'Sec-Fetch-Dest': 'empty',
+                'Sec-Fetch-Mode': 'cors',
+                'Sec-Fetch-Site': 'same-origin',
+                'Sec-Fetch-User': undefined,
+                'x-dtpc': generateDynatracePCHeaderValue('force-arm'),
+              },
+            }),
+          );
+        }
+
+        return {
+          action: 'FORCE_ARM_HANDLER',
+          success: false,
+          info: {
+            message: cancelMessage,
+          },
+        };
       }
 
       // Purpose of this loop is to determine the correct button position for force arming.
@@ -3215,6 +4674,7 @@ export class ADTPulse {
         action: 'FORCE_ARM_HANDLER',
         success: true,
         info: {
+          bypassedZones: openZones ?? [],
           forceArmRequired: true,
         },
       };
@@ -3236,6 +4696,427 @@ export class ADTPulse {
     };
   }
 
+  /**
+   * ADT Pulse - Get access code.
+   *
+   * @param {ADTPulseGetAccessCodeUser} user - User.
+   *
+   * @private
+   *
+   * @returns {ADTPulseGetAccessCodeReturns}
+   *
+   * @since 3.3.0
+   */
+  private async getAccessCode(user: ADTPulseGetAccessCodeUser): ADTPulseGetAccessCodeReturns {
+    if (this.#accessCodes === null) {
+      this.#accessCodes = (await this.#accessCodeVault?.load())?.users ?? [];
+    }
+
+    // Without a selected user, the first user in the vault is used.
+    const accessCode = (user !== null) ? this.#accessCodes.find((storedUser) => storedUser.name === user) : this.#accessCodes[0];
+
+    return accessCode?.accessCode ?? null;
+  }
+
+  /**
+   * ADT Pulse - Get open zones.
+   *
+   * @private
+   *
+   * @returns {ADTPulseGetOpenZonesReturns}
+   *
+   * @since 3.3.0
+   */
+  private async getOpenZones(): ADTPulseGetOpenZonesReturns {
+    const sensorsStatusResponse = await this.getSensorsStatus();
+
+    if (!sensorsStatusResponse.success) {
+      if (this.#internal.debug) {
+        debugLog(this.#internal.logger, 'api.ts / ADTPulse.getOpenZones()', 'error', 'An error occurred while retrieving sensors status');
+      }
+
+      return null;
+    }
+
+    // Sensors that are open or reporting motion are the ones the portal asks to bypass.
+    return sensorsStatusResponse.info.sensors
+      .filter((sensor) => (sensor.statuses.includes('Open') || sensor.statuses.includes('Motion')) && !sensor.statuses.includes('Bypassed'))
+      .map((sensor) => ({
+        name: sensor.name,
+        statuses: sensor.statuses,
+        zone: sensor.zone,
+      }))
+      .sort((a, b) => a.zone - b.zone);
+  }
+
+  /**
+   * ADT Pulse - Get site config.
+   *
+   * @private
+   *
+   * @returns {ADTPulseGetSiteConfigReturns}
+   *
+   * @since 3.3.0
+   */
+  private getSiteConfig(): ADTPulseGetSiteConfigReturns {
+    const site = (this.#session.networkId !== this.#session.homeNetworkId) ? this.#sites.find((configuredSite) => configuredSite.networkId === this.#session.networkId) : undefined;
+
+    // Sites without their own access code user use the one of the default site.
+    return {
+      accessCodeUser: site?.accessCodeUser ?? this.#credentials.accessCodeUser,
+      sensors: site?.sensors ?? this.#sensors,
+    };
+  }
+
+  /**
+   * ADT Pulse - Process panel status.
+   *
+   * @param {ADTPulseProcessPanelStatusJsdomSummary} jsdomSummary - Jsdom summary.
+   * @param {ADTPulseProcessPanelStatusRawHtml}      rawHtml      - Raw html.
+   *
+   * @private
+   *
+   * @returns {ADTPulseProcessPanelStatusReturns}
+   *
+   * @since 3.3.0
+   */
+  private async processPanelStatus(jsdomSummary: ADTPulseProcessPanelStatusJsdomSummary, rawHtml: ADTPulseProcessPanelStatusRawHtml): ADTPulseProcessPanelStatusReturns {
+    /**
+     * Detailed parsing information for "panelStatus".
+     *
+     * NOTICE: Responses may be inaccurate or missing.
+     * PATENT: https://patents.google.com/patent/US20170070361A1/en
+     *
+     * How the data may be displayed:
+     * ➜ "Disarmed. All Quiet."
+     * ➜ "Status Unavailable. "
+     * ➜ "All Quiet."
+     * ➜ "Armed Stay. All Quiet. This may take several minutes."
+     * ➜ "Armed Stay, No Entry Delay. All Quiet."
+     *
+     * Example data after being processed by "parseOrbTextSummary()" function/method (excluding "rawData"):
+     * ➜ {
+     *     panelStates: ['Disarmed'],
+     *     panelStatuses: ['All Quiet'],
+     *     panelNotes: [],
+     *   }
+     * ➜ {
+     *     panelStates: ['Status Unavailable'],
+     *     panelStatuses: [],
+     *     panelNotes: [],
+     *   }
+     * ➜ {
+     *     panelStates: [],
+     *     panelStatuses: ['All Quiet'],
+     *     panelNotes: [],
+     *   }
+     * ➜ {
+     *     panelStates: ['Armed Stay'],
+     *     panelStatuses: ['All Quiet'],
+     *     panelNotes: ['This may take several minutes'],
+     *   }
+     * ➜ {
+     *     panelStates: ['Armed Stay', 'No Entry Delay'],
+     *     panelStatuses: ['All Quiet'],
+     *     panelNotes: [],
+     *   }
+     *
+     * @since 1.0.0
+     */
+    const jsdomSummaryOrbTextSummary = jsdomSummary.window.document.querySelector('#divOrbTextSummary');
+    const parsedOrbTextSummary = parseOrbTextSummary(jsdomSummaryOrbTextSummary);
+
+    /**
+     * Check if "panelStatus" needs documenting or testing.
+     *
+     * NOTICE: Parts NOT SHOWN below will NOT be tracked, documented, or tested.
+     * PATENT: https://patents.google.com/patent/US20170070361A1/en
+     *
+     * state: 'Armed Away'
+     *        'Armed Night'
+     *        'Armed Stay'
+     *        'Disarmed'
+     *        'No Entry Delay'
+     *        'Status Unavailable'
+     *
+     * status: '1 Sensor Open'
+     *         '[# of sensors open] Sensors Open'
+     *         'All Quiet'
+     *         'BURGLARY ALARM'
+     *         'Carbon Monoxide Alarm'
+     *         'FIRE ALARM'
+     *         'Motion'
+     *         'Sensor Bypassed'
+     *         'Sensor Problem'
+     *         'Sensor Problems'
+     *         'Sensors Bypassed'
+     *         'Sensors Tripped'
+     *         'Sensor Tripped'
+     *         'Uncleared Alarm'
+     *         'WATER ALARM'
+     *
+     * note: 'This may take several minutes'
+     *
+     * @since 1.0.0
+     */
+    await this.newInformationDispatcher('panel-status', parsedOrbTextSummary);
+
+    // Check if the parsing function is parsing data incorrectly.
+    await this.newInformationDispatcher('debug-parser', {
+      method: 'getPanelStatus',
+      response: parsedOrbTextSummary,
+      rawHtml,
+    });
+
+    return parsedOrbTextSummary;
+  }
+
+  /**
+   * ADT Pulse - Process sensors status.
+   *
+   * @param {ADTPulseProcessSensorsStatusJsdomSummary} jsdomSummary - Jsdom summary.
+   * @param {ADTPulseProcessSensorsStatusRawHtml}      rawHtml      - Raw html.
+   *
+   * @private
+   *
+   * @returns {ADTPulseProcessSensorsStatusReturns}
+   *
+   * @since 3.3.0
+   */
+  private async processSensorsStatus(jsdomSummary: ADTPulseProcessSensorsStatusJsdomSummary, rawHtml: ADTPulseProcessSensorsStatusRawHtml): ADTPulseProcessSensorsStatusReturns {
+    /**
+     * Detailed parsing information for "sensorsStatus".
+     *
+     * NOTICE: Responses may be inaccurate or missing.
+     * PATENT: https://patents.google.com/patent/US20170070361A1/en
+     *
+     * How the data may be displayed:
+     * ➜ <tr>
+     *     <td>
+     *       <span>
+     *         <canvas icon="devStatOK"></canvas>
+     *       </span>
+     *     </td>
+     *     <td>
+     *       <img src="/myhome/16.0.0-131/images/spacer.gif">
+     *     </td>
+     *     <td>
+     *       <a class="p_deviceNameText">Sensor 1</a>
+     *       &nbsp;
+     *       <span class="p_grayNormalText">Zone&nbsp;1</div>
+     *     </td>
+     *     <td>
+     *       Closed&nbsp;
+     *     </td>
+     *   </tr>
+     * ➜ <tr>
+     *     <td>
+     *       <span>
+     *         <canvas icon="devStatMotion"></canvas>
+     *       </span>
+     *     </td>
+     *     <td>
+     *       <img src="/myhome/16.0.0-131/images/spacer.gif">
+     *     </td>
+     *     <td>
+     *       <a class="p_deviceNameText">Sensor 2</a>
+     *       &nbsp;
+     *       <div class="p_grayNormalText">Zone&nbsp;2</div>
+     *     </td>
+     *     <td>
+     *       Motion&nbsp;
+     *     </td>
+     *   </tr>
+     *
+     * Example data after being processed by "parseOrbSensors()" function/method:
+     * ➜ [
+     *     {
+     *       icon: 'devStatOK',
+     *       name: 'Sensor 1',
+     *       status: 'Closed',
+     *       zone: 1,
+     *     },
+     *   ]
+     * ➜ [
+     *     {
+     *       icon: 'devStatMotion',
+     *       name: 'Sensor 2',
+     *       status: 'Motion',
+     *       zone: 2,
+     *     },
+     *   ]
+     *
+     * @since 1.0.0
+     */
+    const jsdomSummaryOrbSensors = jsdomSummary.window.document.querySelectorAll('#orbSensorsList tr.p_listRow');
+    const parsedOrbSensors = parseOrbSensors(jsdomSummaryOrbSensors);
+
+    /**
+     * Check if "sensorsStatus" needs documenting or testing.
+     *
+     * NOTICE: Parts NOT SHOWN below will NOT be tracked, documented, or tested.
+     * PATENT: https://patents.google.com/patent/US20170070361A1/en
+     *
+     * icon: 'devStatAlarm'
+     *       'devStatInstalling'
+     *       'devStatLowBatt'
+     *       'devStatMotion'
+     *       'devStatOffline'
+     *       'devStatOK'
+     *       'devStatOpen'
+     *       'devStatTamper'
+     *       'devStatUnknown'
+     *
+     * status: 'ALARM'
+     *         'Bypassed'
+     *         'Closed'
+     *         'Installing'
+     *         'Low Battery'
+     *         'Motion'
+     *         'No Motion'
+     *         'Offline'
+     *         'Okay'
+     *         'Open'
+     *         'Tripped'
+     *         'Trouble'
+     *         'Unknown'
+     *
+     * @since 1.0.0
+     */
+    await this.newInformationDispatcher('sensors-status', parsedOrbSensors);
+
+    // Check if the parsing function is parsing data incorrectly.
+    await this.newInformationDispatcher('debug-parser', {
+      method: 'getSensorsStatus',
+      response: parsedOrbSensors,
+      rawHtml,
+    });
+
+    return parsedOrbSensors;
+  }
+
+  /**
+   * ADT Pulse - Process orb security buttons.
+   *
+   * @param {ADTPulseProcessOrbSecurityButtonsJsdomSummary} jsdomSummary - Jsdom summary.
+   * @param {ADTPulseProcessOrbSecurityButtonsRawHtml}      rawHtml      - Raw html.
+   *
+   * @private
+   *
+   * @returns {ADTPulseProcessOrbSecurityButtonsReturns}
+   *
+   * @since 3.3.0
+   */
+  private async processOrbSecurityButtons(jsdomSummary: ADTPulseProcessOrbSecurityButtonsJsdomSummary, rawHtml: ADTPulseProcessOrbSecurityButtonsRawHtml): ADTPulseProcessOrbSecurityButtonsReturns {
+    /**
+     * Detailed parsing information for "orbSecurityButtons".
+     *
+     * NOTICE: Responses may be inaccurate or missing.
+     * PATENT: https://patents.google.com/patent/US20170070361A1/en
+     *
+     * How the data may be displayed:
+     * ➜ <input id="security_button_1" value="Arm Stay" onclick="setArmState('quickcontrol/armDisarm.jsp','Arming Stay','1','2','false','href=rest/adt/ui/client/security/setArmState&amp;armstate=off&amp;arm=stay&amp;sat=21580428-e539-4075-8237-5c58b6c6fec8')">
+     * ➜ <input id="security_button_1" value="Arming Stay" disabled="">
+     *
+     * Example data after being processed by "parseOrbSecurityButtons()" function/method:
+     * ➜ [
+     *     {
+     *       buttonDisabled: false,
+     *       buttonId: 'security_button_1',
+     *       buttonIndex: 1,
+     *       buttonText: 'Arm Stay',
+     *       changeAccessCode: false,
+     *       loadingText: 'Arming Stay',
+     *       relativeUrl: 'quickcontrol/armDisarm.jsp',
+     *       totalButtons: 2,
+     *       urlParams: {
+     *         arm: 'stay',
+     *         armState: 'off',
+     *         href: 'rest/adt/ui/client/security/setArmState',
+     *         sat: '21580428-e539-4075-8237-5c58b6c6fec8',
+     *       },
+     *     },
+     *   ]
+     * ➜ [
+     *     {
+     *       buttonDisabled: true,
+     *       buttonId: 'security_button_1',
+     *       buttonText: 'Arming Stay',
+     *     },
+     *   ]
+     *
+     * Notes I've gathered during the process:
+     * - After disarming, "armState" will be set to "disarmed". It will be set to "off" after re-login.¹
+     * - After turning off siren, "armState" will be set to "disarmed+with+alarm". It will be set to "disarmed_with_alarm" after re-login.¹²
+     * - After arming night, "armState" will be set to "night+stay". It will be set to "night" after re-login.¹
+     * - The "sat" code is required for all arm/disarm actions (UUID, generated on every login).
+     * - If "armState" is not "off" or "disarmed", you must disarm first before setting to other modes.
+     *
+     * Footnotes:
+     * ¹ States are synced across an entire site (per home). If one account arms, every user signed in during that phase becomes "dirty".
+     * ² Turning off siren means system is in "Uncleared Alarm" mode, not truly "Disarmed" mode.
+     *
+     * @since 1.0.0
+     */
+    const jsdomSummaryOrbSecurityButtons = jsdomSummary.window.document.querySelectorAll('#divOrbSecurityButtons input');
+    const parsedOrbSecurityButtons = parseOrbSecurityButtons(jsdomSummaryOrbSecurityButtons);
+
+    /**
+     * Check if "orbSecurityButtons" needs documenting or testing.
+     *
+     * NOTICE: Parts NOT SHOWN below will NOT be tracked, documented, or tested.
+     * PATENT: https://patents.google.com/patent/US20170070361A1/en
+     *
+     * buttonText: 'Arm Away'
+     *             'Arm Night'
+     *             'Arm Stay'
+     *             'Clear Alarm'
+     *             'Disarm'
+     *
+     * loadingText: 'Arming Away'
+     *              'Arming Night'
+     *              'Arming Stay'
+     *              'Disarming'
+     *
+     * relativeUrl: 'quickcontrol/armDisarm.jsp'
+     *
+     * urlParams.arm: 'away'
+     *                'night'
+     *                'off'
+     *                'stay'
+     *
+     * urlParams.armState: 'away'
+     *                     'disarmed'
+     *                     'disarmed_with_alarm'
+     *                     'disarmed+with+alarm'
+     *                     'night'
+     *                     'night+stay'
+     *                     'off'
+     *                     'stay'
+     *
+     * urlParams.href: 'rest/adt/ui/client/security/setArmState'
+     *
+     * Notes I've gathered during the process:
+     * - When a button is in pending (disabled) state, the "buttonText" will be the "loadingText".
+     * - Currently, "disarmed+with+alarm" and "night+stay" are considered dirty states.
+     *
+     * @since 1.0.0
+     */
+    await this.newInformationDispatcher('orb-security-buttons', parsedOrbSecurityButtons);
+
+    // Check if the parsing function is parsing data incorrectly.
+    await this.newInformationDispatcher('debug-parser', {
+      method: 'getOrbSecurityButtons',
+      response: parsedOrbSecurityButtons,
+      rawHtml,
+    });
+
+    // "armState" can be dirty without the plugin changing the state itself. Most likely when multiple users are logged in.
+    this.#session.isCleanState = isSessionCleanState(parsedOrbSecurityButtons);
+
+    return parsedOrbSecurityButtons;
+  }
+
   /**
    * ADT Pulse - New information dispatcher.
    *
@@ -3251,6 +5132,11 @@ export class ADTPulse {
   private async newInformationDispatcher(type: ADTPulseNewInformationDispatcherType, data: ADTPulseNewInformationDispatcherData<ADTPulseNewInformationDispatcherType>): ADTPulseNewInformationDispatcherReturns {
     const dataHash = generateHash(data);
 
+    // Information from the simulator should never be reported.
+    if (this.#internal.isSimulator) {
+      return;
+    }
+
     // If the detector has not reported this event before.
     if (this.#internal.reportedHashes.find((reportedHash) => dataHash === reportedHash) === undefined) {
       let detectedNew = false;
@@ -3291,6 +5177,11 @@ export class ADTPulse {
       // Save this hash so the detector does not detect the same thing multiple times.
       if (detectedNew) {
         this.#internal.reportedHashes.push(dataHash);
+
+        this.emit('parserAnomaly', {
+          type,
+          data,
+        });
       }
     }
   }
@@ -3373,7 +5264,7 @@ export class ADTPulse {
 
         // Determine if "this instance" was redirected to the MFA challenge page.
         if (requestPathMfaMfaSignInWorkflowChallenge.test(requestPath)) {
-          debugLog(this.#internal.logger, 'api.ts / ADTPulse.handleLoginFailure()', 'error', 'Either the fingerprint expired or "Trust this device" was not selected after completing MFA challenge');
+          debugLog(this.#internal.logger, 'api.ts / ADTPulse.handleLoginFailure()', 'error', 'The fingerprint is no longer trusted. Sign in again to complete the multi-factor authentication challenge');
         }
 
         // Show the portal error message if it exists.
@@ -0,0 +1,154 @@
+import _ from 'lodash';
+
+import { itemFingerprintComponents } from '@/lib/items.js';
+import type {
+  GenerateFingerprintComponents,
+  GenerateFingerprintReturns,
+  ValidateFingerprintFingerprint,
+  ValidateFingerprintReturns,
+} from '@/types/client.d.ts';
+
+/**
+ * Generate fingerprint.
+ *
+ * Encodes the components the same way as the ADT Pulse Device Fingerprint Detector
+ * ("fingerprint/script.js"), which runs "btoa()" over the JSON string of the results.
+ *
+ * @param {GenerateFingerprintComponents} components - Components.
+ *
+ * @returns {GenerateFingerprintReturns}
+ *
+ * @since 3.3.0
+ */
+export function generateFingerprint(components: GenerateFingerprintComponents): GenerateFingerprintReturns {
+  return Buffer.from(JSON.stringify({ fingerprint: components }), 'latin1').toString('base64');
+}
+
+/**
+ * Validate fingerprint.
+ *
+ * @param {ValidateFingerprintFingerprint} fingerprint - Fingerprint.
+ *
+ * @returns {ValidateFingerprintReturns}
+ *
+ * @since 3.3.0
+ */
+export function validateFingerprint(fingerprint: ValidateFingerprintFingerprint): ValidateFingerprintReturns {
+  const errors: ValidateFingerprintReturns['errors'] = [];
+  const warnings: ValidateFingerprintReturns['warnings'] = [];
+  const report = (): ValidateFingerprintReturns => ({
+    errors,
+    isValid: errors.length === 0,
+    warnings,
+  });
+
+  // Copying the fingerprint from the detector sometimes picks up a line break.
+  if (/\s/.test(fingerprint)) {
+    errors.push({
+      field: 'encoded',
+      message: 'Contains spaces or line breaks. Copy the fingerprint again without them.',
+    });
+
+    return report();
+  }
+
+  if (fingerprint.length % 4 !== 0 || !/^[A-Za-z0-9+/]+={0,2}$/.test(fingerprint)) {
+    errors.push({
+      field: 'encoded',
+      message: 'Is not a base64 encoded string. Copy the fingerprint from the "Copy Fingerprint" button.',
+    });
+
+    return report();
+  }
+
+  let decoded: unknown;
+
+  try {
+    decoded = JSON.parse(Buffer.from(fingerprint, 'base64').toString('latin1'));
+  } catch {
+    errors.push({
+      field: 'decoded',
+      message: 'Is not valid JSON. The fingerprint may have been cut off while copying.',
+    });
+
+    return report();
+  }
+
+  if (!_.isPlainObject(decoded)) {
+    errors.push({
+      field: 'decoded',
+      message: 'Is not an object.',
+    });
+
+    return report();
+  }
+
+  const components = _.get(decoded, ['fingerprint']);
+
+  if (components === undefined) {
+    errors.push({
+      field: 'fingerprint',
+      message: 'Is missing.',
+    });
+
+    return report();
+  }
+
+  if (!_.isPlainObject(components)) {
+    errors.push({
+      field: 'fingerprint',
+      message: 'Is not an object of components.',
+    });
+
+    return report();
+  }
+
+  const componentEntries = Object.entries(components);
+
+  if (componentEntries.length === 0) {
+    errors.push({
+      field: 'fingerprint',
+      message: 'Has no components.',
+    });
+
+    return report();
+  }
+
+  const isComponentValue = (value: unknown): boolean => value === null || ['boolean', 'number', 'string'].includes(typeof value);
+
+  for (let i = 0; i < componentEntries.length; i += 1) {
+    const [componentKey, componentValue] = componentEntries[i];
+
+    if (typeof componentValue === 'object' && componentValue !== null && !Array.isArray(componentValue)) {
+      const valueEntries = Object.entries(componentValue);
+
+      for (let j = 0; j < valueEntries.length; j += 1) {
+        const [valueKey, value] = valueEntries[j];
+
+        if (!isComponentValue(value)) {
+          errors.push({
+            field: `fingerprint.${componentKey}.${valueKey}`,
+            message: 'Is not a string, number, boolean, or null.',
+          });
+        }
+      }
+    } else if (!isComponentValue(componentValue)) {
+      errors.push({
+        field: `fingerprint.${componentKey}`,
+        message: 'Is not a value or an object of values.',
+      });
+    }
+  }
+
+  // The detector always collects these components. Without them, the fingerprint may still be accepted, so only warn.
+  for (let i = 0; i < itemFingerprintComponents.length; i += 1) {
+    if (!_.has(components, [itemFingerprintComponents[i]])) {
+      warnings.push({
+        field: `fingerprint.${itemFingerprintComponents[i]}`,
+        message: 'Is missing. The portal may not recognize this device.',
+      });
+    }
+  }
+
+  return report();
+}
@@ -1,9 +1,11 @@
 import _ from 'lodash';
 
 import type {
+  CollectionAccessCodeForms,
   CollectionDoSubmitHandlers,
   CollectionOrbSecurityButtons,
   CollectionSensorActions,
+  CollectionSyncCodeSegments,
   DeviceGateways,
   DeviceSecurityPanels,
   ItemCondensedSensorTypes,
@@ -11,7 +13,9 @@ import type {
   ItemDoSubmitHandlerUrlParamsArms,
   ItemDoSubmitHandlerUrlParamsArmStates,
   ItemDoSubmitHandlerUrlParamsHrefs,
+  ItemFingerprintComponents,
   ItemGatewayInformationStatuses,
+  ItemHomeKitArmModes,
   ItemOrbSecurityButtonButtonTexts,
   ItemOrbSecurityButtonLoadingTexts,
   ItemOrbSecurityButtonRelativeUrls,
@@ -30,6 +34,18 @@ import type {
   ItemSensorStatusStatuses,
 } from '@/types/index.d.ts';
 
+/**
+ * Collection access code forms.
+ *
+ * The access code is only submitted to a form listed here. Each entry must come from an
+ * anonymized capture of the real portal, since the simulator only mirrors what the plugin
+ * expects. No capture has been provided yet, so the list is empty and access codes are never
+ * submitted.
+ *
+ * @since 3.3.0
+ */
+export const collectionAccessCodeForms: CollectionAccessCodeForms = [];
+
 /**
  * Collection do submit handlers.
  *
@@ -341,6 +357,55 @@ export const collectionSensorActions: CollectionSensorActions = [
   },
 ];
 
+/**
+ * Collection sync code segments.
+ *
+ * Which data is outdated once a segment of the "X-Y-Z" sync code changes. The first segment counts the
+ * activity on the summary page (arming, alarms, and sensor statuses). The gateway information is retrieved
+ * with it, so the gateway status and the failover alerts do not wait for the next gateway check-in. The other
+ * segments change when the devices themselves change (e.g. a sensor was added or the gateway was replaced),
+ * so everything is retrieved.
+ *
+ * The portal does not document the sync code. These meanings are inferred from how the segments moved
+ * during arming, alarms, and sensor changes, and have not been confirmed for every panel. That is why
+ * the platform still retrieves everything once an hour while the sync code keeps changing.
+ *
+ * @since 3.3.0
+ */
+export const collectionSyncCodeSegments: CollectionSyncCodeSegments = [
+  {
+    segment: 0,
+    invalidates: [
+      'gatewayInfo',
+      'orbSecurityButtons',
+      'panelStatus',
+      'sensorsStatus',
+    ],
+  },
+  {
+    segment: 1,
+    invalidates: [
+      'gatewayInfo',
+      'orbSecurityButtons',
+      'panelInfo',
+      'panelStatus',
+      'sensorsInfo',
+      'sensorsStatus',
+    ],
+  },
+  {
+    segment: 2,
+    invalidates: [
+      'gatewayInfo',
+      'orbSecurityButtons',
+      'panelInfo',
+      'panelStatus',
+      'sensorsInfo',
+      'sensorsStatus',
+    ],
+  },
+];
+
 /**
  * Device gateways.
  *
@@ -559,6 +624,19 @@ export const itemDoSubmitHandlerUrlParamsHrefs: ItemDoSubmitHandlerUrlParamsHref
   'rest/adt/ui/client/security/setCancelProtest',
 ];
 
+/**
+ * Item fingerprint components.
+ *
+ * @since 3.3.0
+ */
+export const itemFingerprintComponents: ItemFingerprintComponents = [
+  'fonts',
+  'plugins',
+  'timezone',
+  'userAgent',
+  'video',
+];
+
 /**
  * Item gateway information statuses.
  *
@@ -570,6 +648,17 @@ export const itemGatewayInformationStatuses: ItemGatewayInformationStatuses = [
   'Status Unknown',
 ];
 
+/**
+ * Item home kit arm modes.
+ *
+ * @since 3.3.0
+ */
+export const itemHomeKitArmModes: ItemHomeKitArmModes = [
+  'stay',
+  'away',
+  'night',
+];
+
 /**
  * Item orb security button button texts.
  *
@@ -0,0 +1,349 @@
+import {
+  appendFile,
+  open,
+  rename,
+  stat,
+} from 'node:fs/promises';
+import { serializeError } from 'serialize-error';
+
+import { stackTracer } from '@/lib/utility.js';
+import type {
+  ADTPulseJournalConstructorFilePath,
+  ADTPulseJournalConstructorLog,
+  ADTPulseJournalGetFilePathReturns,
+  ADTPulseJournalGetZoneOpeningsEntry,
+  ADTPulseJournalGetZoneOpeningsReturns,
+  ADTPulseJournalGetZoneOpeningsSince,
+  ADTPulseJournalGetZoneOpeningsZone,
+  ADTPulseJournalQueryEntries,
+  ADTPulseJournalQueryEntry,
+  ADTPulseJournalQueryFilter,
+  ADTPulseJournalQueryReturns,
+  ADTPulseJournalRecordEvent,
+  ADTPulseJournalRecordReturns,
+} from '@/types/client.d.ts';
+import type {
+  ADTPulseJournalFilePath,
+  ADTPulseJournalIsEntryEntry,
+  ADTPulseJournalIsEntryTypeGuard,
+  ADTPulseJournalLog,
+  ADTPulseJournalReadFromEndEntries,
+  ADTPulseJournalReadFromEndFilePath,
+  ADTPulseJournalReadFromEndReturns,
+  ADTPulseJournalReadFromEndSince,
+  ADTPulseJournalRotateReturns,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Journal.
+ *
+ * An append-only history of device status changes and arm requests, stored as
+ * one JSON object per line. Unlike the Homebridge log, entries survive log
+ * rotation and can be queried later. Once the journal reaches 5 MB, it is
+ * moved to a ".1" file (replacing the previous one), so at most two files
+ * are kept.
+ *
+ * @since 3.3.0
+ */
+export class ADTPulseJournal {
+  /**
+   * ADT Pulse Journal - File path.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #filePath: ADTPulseJournalFilePath;
+
+  /**
+   * ADT Pulse Journal - Log.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #log: ADTPulseJournalLog;
+
+  /**
+   * ADT Pulse Journal - Constructor.
+   *
+   * @param {ADTPulseJournalConstructorFilePath} filePath - File path.
+   * @param {ADTPulseJournalConstructorLog}      log      - Log.
+   *
+   * @since 3.3.0
+   */
+  public constructor(filePath: ADTPulseJournalConstructorFilePath, log: ADTPulseJournalConstructorLog = null) {
+    this.#filePath = filePath;
+    this.#log = log;
+  }
+
+  /**
+   * ADT Pulse Journal - Get file path.
+   *
+   * @returns {ADTPulseJournalGetFilePathReturns}
+   *
+   * @since 3.3.0
+   */
+  public getFilePath(): ADTPulseJournalGetFilePathReturns {
+    return this.#filePath;
+  }
+
+  /**
+   * ADT Pulse Journal - Record.
+   *
+   * @param {ADTPulseJournalRecordEvent} event - Event.
+   *
+   * @returns {ADTPulseJournalRecordReturns}
+   *
+   * @since 3.3.0
+   */
+  public async record(event: ADTPulseJournalRecordEvent): ADTPulseJournalRecordReturns {
+    try {
+      await this.rotate();
+      await appendFile(this.#filePath, `${JSON.stringify({ timestamp: Date.now(), ...event })}\n`, 'utf-8');
+    } catch (error) {
+      // A journal that cannot be written should never interrupt syncing or arming.
+      if (this.#log !== null) {
+        this.#log.error(`Unable to write to the event journal at "${this.#filePath}".`);
+        stackTracer('serialize-error', serializeError(error));
+      }
+    }
+  }
+
+  /**
+   * ADT Pulse Journal - Query.
+   *
+   * @param {ADTPulseJournalQueryFilter} filter - Filter.
+   *
+   * @returns {ADTPulseJournalQueryReturns}
+   *
+   * @since 3.3.0
+   */
+  public async query(filter: ADTPulseJournalQueryFilter = {}): ADTPulseJournalQueryReturns {
+    const entries: ADTPulseJournalQueryEntries = [];
+    const filePaths = [
+      this.#filePath,
+      `${this.#filePath}.1`,
+    ];
+
+    // Entries are read from the newest to the oldest, so a query with "since" stops reading once it gets there.
+    for (let i = 0; i < filePaths.length; i += 1) {
+      const result = await ADTPulseJournal.readFromEnd(filePaths[i], filter.since);
+
+      for (let j = 0; j < result.entries.length; j += 1) {
+        const entry: ADTPulseJournalQueryEntry = result.entries[j];
+
+        if (
+          (filter.until === undefined || entry.timestamp <= filter.until)
+          && (filter.types === undefined || filter.types.includes(entry.type))
+          && (filter.zone === undefined || ('zone' in entry && entry.zone === filter.zone))
+        ) {
+          entries.push(entry);
+        }
+      }
+
+      if (result.isComplete) {
+        break;
+      }
+    }
+
+    return entries.reverse();
+  }
+
+  /**
+   * ADT Pulse Journal - Get zone openings.
+   *
+   * @param {ADTPulseJournalGetZoneOpeningsZone}  zone  - Zone.
+   * @param {ADTPulseJournalGetZoneOpeningsSince} since - Since.
+   *
+   * @returns {ADTPulseJournalGetZoneOpeningsReturns}
+   *
+   * @since 3.3.0
+   */
+  public async getZoneOpenings(zone: ADTPulseJournalGetZoneOpeningsZone, since: ADTPulseJournalGetZoneOpeningsSince = Date.now() - 604800000): ADTPulseJournalGetZoneOpeningsReturns {
+    const entries = await this.query({
+      since,
+      types: ['sensorState'],
+      zone,
+    });
+
+    // An opening is a change into the "Open" state, not every update while it stays open.
+    return entries.filter((entry): entry is ADTPulseJournalGetZoneOpeningsEntry => (
+      entry.type === 'sensorState'
+      && entry.new.includes('Open')
+      && !entry.old.includes('Open')
+    ));
+  }
+
+  /**
+   * ADT Pulse Journal - Rotate.
+   *
+   * @private
+   *
+   * @returns {ADTPulseJournalRotateReturns}
+   *
+   * @since 3.3.0
+   */
+  private async rotate(): ADTPulseJournalRotateReturns {
+    try {
+      const { size } = await stat(this.#filePath);
+
+      if (size >= 5242880) { // 5 MB.
+        await rename(this.#filePath, `${this.#filePath}.1`);
+      }
+    } catch {
+      // Nothing has been recorded yet.
+    }
+  }
+
+  /**
+   * ADT Pulse Journal - Read from end.
+   *
+   * @param {ADTPulseJournalReadFromEndFilePath} filePath - File path.
+   * @param {ADTPulseJournalReadFromEndSince}    since    - Since.
+   *
+   * @private
+   *
+   * @returns {ADTPulseJournalReadFromEndReturns}
+   *
+   * @since 3.3.0
+   */
+  private static async readFromEnd(filePath: ADTPulseJournalReadFromEndFilePath, since: ADTPulseJournalReadFromEndSince): ADTPulseJournalReadFromEndReturns {
+    const entries: ADTPulseJournalReadFromEndEntries = [];
+
+    try {
+      const handle = await open(filePath, 'r');
+
+      try {
+        let position = (await handle.stat()).size;
+        let remainder = Buffer.alloc(0);
+
+        while (position > 0) {
+          const length = Math.min(65536, position); // 64 KB.
+
+          position -= length;
+
+          const chunk = Buffer.alloc(length);
+
+          await handle.read(chunk, 0, length, position);
+
+          // Lines are split on the newline byte, which never appears inside a multi-byte character.
+          const buffer = Buffer.concat([chunk, remainder]);
+
+          let end = buffer.length;
+
+          for (let i = buffer.length - 1; i >= -1; i -= 1) {
+            // The first line of this chunk may continue in the previous chunk.
+            if (i === -1 && position > 0) {
+              remainder = buffer.subarray(0, end);
+
+              break;
+            }
+
+            if (i === -1 || buffer[i] === 0x0a) {
+              const line = buffer.subarray(i + 1, end).toString('utf-8');
+
+              end = i;
+
+              let entry: unknown;
+
+              try {
+                entry = JSON.parse(line);
+              } catch {
+                // Skip empty lines and lines cut short by a crash.
+                continue;
+              }
+
+              if (!ADTPulseJournal.isEntry(entry)) {
+                continue;
+              }
+
+              // Entries are appended in order, so everything before this one is older too.
+              if (since !== undefined && entry.timestamp < since) {
+                return {
+                  entries,
+                  isComplete: true,
+                };
+              }
+
+              entries.push(entry);
+            }
+          }
+        }
+      } finally {
+        await handle.close();
+      }
+    } catch {
+      // Nothing has been recorded yet, or the file was rotated.
+    }
+
+    return {
+      entries,
+      isComplete: false,
+    };
+  }
+
+  /**
+   * ADT Pulse Journal - Is entry.
+   *
+   * @param {ADTPulseJournalIsEntryEntry} entry - Entry.
+   *
+   * @private
+   *
+   * @returns {boolean}
+   *
+   * @since 3.3.0
+   */
+  private static isEntry(entry: ADTPulseJournalIsEntryEntry): entry is ADTPulseJournalIsEntryTypeGuard {
+    if (
+      typeof entry !== 'object'
+      || entry === null
+      || !('timestamp' in entry)
+      || typeof entry.timestamp !== 'number'
+      || !('type' in entry)
+    ) {
+      return false;
+    }
+
+    switch (entry.type) {
+      case 'armRequest':
+        return (
+          'source' in entry
+          && typeof entry.source === 'string'
+          && 'armTo' in entry
+          && typeof entry.armTo === 'string'
+          && 'success' in entry
+          && typeof entry.success === 'boolean'
+        );
+      case 'gatewayStatus':
+      case 'panelState':
+      case 'panelStatus':
+        return (
+          'old' in entry
+          && typeof entry.old === 'string'
+          && 'new' in entry
+          && typeof entry.new === 'string'
+        );
+      case 'sensorState':
+        return (
+          'zone' in entry
+          && typeof entry.zone === 'number'
+          && 'old' in entry
+          && Array.isArray(entry.old)
+          && 'new' in entry
+          && Array.isArray(entry.new)
+        );
+      case 'sensorStatus':
+        return (
+          'zone' in entry
+          && typeof entry.zone === 'number'
+          && 'old' in entry
+          && typeof entry.old === 'string'
+          && 'new' in entry
+          && typeof entry.new === 'string'
+        );
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,582 @@
+import mqtt from 'mqtt';
+import { serializeError } from 'serialize-error';
+
+import {
+  condensePanelStates,
+  condenseSensorType,
+  debugLog,
+  isPanelAlarmActive,
+  setPanelArmMode,
+  stackTracer,
+} from '@/lib/utility.js';
+import type {
+  ADTPulseMqttCharacteristic,
+  ADTPulseMqttClient,
+  ADTPulseMqttConfig,
+  ADTPulseMqttConnectReturns,
+  ADTPulseMqttConstructorCharacteristic,
+  ADTPulseMqttConstructorConfig,
+  ADTPulseMqttConstructorDebugMode,
+  ADTPulseMqttConstructorInstance,
+  ADTPulseMqttConstructorJournal,
+  ADTPulseMqttConstructorLog,
+  ADTPulseMqttConstructorState,
+  ADTPulseMqttDebugMode,
+  ADTPulseMqttDisconnectReturns,
+  ADTPulseMqttGenerateMessagesMessages,
+  ADTPulseMqttGenerateMessagesReturns,
+  ADTPulseMqttGetDeviceClassReturns,
+  ADTPulseMqttGetDeviceClassType,
+  ADTPulseMqttHandleCommandArmTo,
+  ADTPulseMqttHandleCommandPayload,
+  ADTPulseMqttHandleCommandResult,
+  ADTPulseMqttHandleCommandReturns,
+  ADTPulseMqttInstance,
+  ADTPulseMqttIsArming,
+  ADTPulseMqttIsCommandTopicEnabledReturns,
+  ADTPulseMqttJournal,
+  ADTPulseMqttLog,
+  ADTPulseMqttPublishedMessages,
+  ADTPulseMqttPublishStateReturns,
+  ADTPulseMqttState,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Mqtt.
+ *
+ * Publishes the cached portal data held by the platform as retained MQTT
+ * topics. When "allowCommands" is enabled and the broker requires a username
+ * and password, it also listens on a command topic for arm and disarm
+ * requests. Arm requests go through "setPanelArmMode()", the same path the
+ * security panel accessory uses.
+ *
+ * @since 3.3.0
+ */
+export class ADTPulseMqtt {
+  /**
+   * ADT Pulse Mqtt - Characteristic.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #characteristic: ADTPulseMqttCharacteristic;
+
+  /**
+   * ADT Pulse Mqtt - Client.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #client: ADTPulseMqttClient;
+
+  /**
+   * ADT Pulse Mqtt - Config.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #config: ADTPulseMqttConfig;
+
+  /**
+   * ADT Pulse Mqtt - Debug mode.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #debugMode: ADTPulseMqttDebugMode;
+
+  /**
+   * ADT Pulse Mqtt - Instance.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #instance: ADTPulseMqttInstance;
+
+  /**
+   * ADT Pulse Mqtt - Is arming.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #isArming: ADTPulseMqttIsArming;
+
+  /**
+   * ADT Pulse Mqtt - Journal.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #journal: ADTPulseMqttJournal;
+
+  /**
+   * ADT Pulse Mqtt - Log.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #log: ADTPulseMqttLog;
+
+  /**
+   * ADT Pulse Mqtt - Published messages.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #publishedMessages: ADTPulseMqttPublishedMessages;
+
+  /**
+   * ADT Pulse Mqtt - State.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #state: ADTPulseMqttState;
+
+  /**
+   * ADT Pulse Mqtt - Constructor.
+   *
+   * @param {ADTPulseMqttConstructorConfig}         config         - Config.
+   * @param {ADTPulseMqttConstructorState}          state          - State.
+   * @param {ADTPulseMqttConstructorInstance}       instance       - Instance.
+   * @param {ADTPulseMqttConstructorJournal}        journal        - Journal.
+   * @param {ADTPulseMqttConstructorCharacteristic} characteristic - Characteristic.
+   * @param {ADTPulseMqttConstructorLog}            log            - Log.
+   * @param {ADTPulseMqttConstructorDebugMode}      debugMode      - Debug mode.
+   *
+   * @since 3.3.0
+   */
+  public constructor(config: ADTPulseMqttConstructorConfig, state: ADTPulseMqttConstructorState, instance: ADTPulseMqttConstructorInstance, journal: ADTPulseMqttConstructorJournal, characteristic: ADTPulseMqttConstructorCharacteristic, log: ADTPulseMqttConstructorLog, debugMode: ADTPulseMqttConstructorDebugMode) {
+    this.#characteristic = characteristic;
+    this.#client = undefined;
+    this.#config = config;
+    this.#debugMode = debugMode;
+    this.#instance = instance;
+    this.#isArming = false;
+    this.#journal = journal;
+    this.#log = log;
+    this.#publishedMessages = new Map();
+    this.#state = state;
+  }
+
+  /**
+   * ADT Pulse Mqtt - Connect.
+   *
+   * @returns {ADTPulseMqttConnectReturns}
+   *
+   * @since 3.3.0
+   */
+  public connect(): ADTPulseMqttConnectReturns {
+    const { mqtt: mqttConfig } = this.#config;
+
+    if (mqttConfig === undefined) {
+      throw new Error('The MQTT bridge is not configured');
+    }
+
+    const { brokerUrl, topicPrefix } = mqttConfig;
+
+    // The client keeps reconnecting in the background, so the platform never waits for the broker.
+    this.#client = mqtt.connect(brokerUrl, {
+      password: mqttConfig.password,
+      reconnectPeriod: 10000, // 10 seconds.
+      username: mqttConfig.username,
+      will: {
+        payload: Buffer.from('offline'),
+        qos: 1,
+        retain: true,
+        topic: `${topicPrefix}/status`,
+      },
+    });
+
+    this.#client.on('connect', async () => {
+      this.#log.info(`MQTT bridge is now connected to "${brokerUrl}".`);
+
+      // Retained messages may have been cleared while disconnected, so publish everything again.
+      this.#publishedMessages.clear();
+
+      try {
+        if (this.isCommandTopicEnabled()) {
+          await this.#client?.subscribeAsync(`${topicPrefix}/panel/set`, { qos: 1 });
+        }
+
+        await this.#client?.publishAsync(`${topicPrefix}/status`, 'online', { qos: 1, retain: true });
+        await this.publishState();
+      } catch (error) {
+        this.#log.error('MQTT bridge is unable to subscribe to the command topic or publish the current state.');
+        stackTracer('serialize-error', serializeError(error));
+      }
+    });
+
+    this.#client.on('offline', () => {
+      this.#log.warn(`MQTT bridge has lost connection to "${brokerUrl}". Reconnecting in the background ...`);
+    });
+
+    this.#client.on('error', (error) => {
+      if (this.#debugMode) {
+        debugLog(this.#log, 'mqtt.ts / ADTPulseMqtt.connect()', 'error', `Broker connection failed ➜ ${error.message}`);
+      }
+    });
+
+    this.#client.on('message', (topic, payload, packet) => {
+      if (topic !== `${topicPrefix}/panel/set`) {
+        return;
+      }
+
+      // A retained command is delivered again on every reconnect, so it would keep arming or disarming the system.
+      if (packet.retain) {
+        this.#log.warn(`MQTT bridge ignored a retained command on "${topic}". Publish commands without the retain flag, and clear the retained message from the broker.`);
+
+        return;
+      }
+
+      // Running an IIFE, to internalize async context. Errors are caught inside "handleCommand()".
+      (async () => {
+        await this.handleCommand(payload.toString('utf-8'));
+      })();
+    });
+
+    if (mqttConfig.allowCommands === true && !this.isCommandTopicEnabled()) {
+      this.#log.warn('MQTT bridge ignores arm and disarm commands until a username and password for the broker are set.');
+    }
+  }
+
+  /**
+   * ADT Pulse Mqtt - Disconnect.
+   *
+   * @returns {ADTPulseMqttDisconnectReturns}
+   *
+   * @since 3.3.0
+   */
+  public async disconnect(): ADTPulseMqttDisconnectReturns {
+    if (this.#client === undefined) {
+      return;
+    }
+
+    if (this.#client.connected && this.#config.mqtt !== undefined) {
+      await this.#client.publishAsync(`${this.#config.mqtt.topicPrefix}/status`, 'offline', { qos: 1, retain: true });
+    }
+
+    await this.#client.endAsync();
+
+    this.#client = undefined;
+  }
+
+  /**
+   * ADT Pulse Mqtt - Publish state.
+   *
+   * @returns {ADTPulseMqttPublishStateReturns}
+   *
+   * @since 3.3.0
+   */
+  public async publishState(): ADTPulseMqttPublishStateReturns {
+    if (this.#client === undefined || !this.#client.connected) {
+      return;
+    }
+
+    const messages = this.generateMessages();
+    const topics = Object.keys(messages);
+
+    for (let i = 0; i < topics.length; i += 1) {
+      const topic = topics[i];
+      const payload = messages[topic];
+
+      // Only publish topics that have changed since the last sync.
+      if (this.#publishedMessages.get(topic) === payload) {
+        continue;
+      }
+
+      await this.#client.publishAsync(topic, payload, { qos: 1, retain: true });
+
+      this.#publishedMessages.set(topic, payload);
+
+      if (this.#debugMode) {
+        debugLog(this.#log, 'mqtt.ts / ADTPulseMqtt.publishState()', 'info', `Published "${topic}" ➜ ${payload}`);
+      }
+    }
+  }
+
+  /**
+   * ADT Pulse Mqtt - Generate messages.
+   *
+   * @private
+   *
+   * @returns {ADTPulseMqttGenerateMessagesReturns}
+   *
+   * @since 3.3.0
+   */
+  private generateMessages(): ADTPulseMqttGenerateMessagesReturns {
+    const messages: ADTPulseMqttGenerateMessagesMessages = {};
+
+    if (this.#config.mqtt === undefined) {
+      return messages;
+    }
+
+    const { homeAssistantDiscovery, topicPrefix } = this.#config.mqtt;
+    const { panelInfo, panelStatus } = this.#state.data;
+    const device = {
+      identifiers: [topicPrefix],
+      manufacturer: panelInfo?.manufacturer ?? 'ADT',
+      model: panelInfo?.model ?? 'Security Panel',
+      name: this.#config.name,
+    };
+
+    // Panel arm state, using the same state names as the Home Assistant alarm control panel.
+    if (panelStatus !== null) {
+      const condensedPanelStates = condensePanelStates(this.#characteristic, panelStatus.panelStates);
+      const isAlarmActive = isPanelAlarmActive(
+        panelStatus.panelStatuses,
+        this.#state.data.orbSecurityButtons,
+        this.#config.options.includes('ignoreSensorProblemStatus'),
+      );
+
+      if (isAlarmActive) {
+        messages[`${topicPrefix}/panel/state`] = 'triggered';
+      } else if (this.#state.data.panelTransition !== null) {
+        messages[`${topicPrefix}/panel/state`] = this.#state.data.panelTransition.type;
+      } else if (condensedPanelStates !== undefined) {
+        messages[`${topicPrefix}/panel/state`] = {
+          away: 'armed_away',
+          night: 'armed_night',
+          off: 'disarmed',
+          stay: 'armed_home',
+        }[condensedPanelStates.armValue];
+      }
+
+      messages[`${topicPrefix}/panel/statuses`] = JSON.stringify(panelStatus.panelStatuses);
+    }
+
+    if (homeAssistantDiscovery) {
+      messages[`homeassistant/alarm_control_panel/${topicPrefix}/panel/config`] = JSON.stringify({
+        availability_topic: `${topicPrefix}/status`,
+        code_arm_required: false,
+        command_topic: `${topicPrefix}/panel/set`,
+        device,
+        json_attributes_template: '{{ {"statuses": value_json} | tojson }}',
+        json_attributes_topic: `${topicPrefix}/panel/statuses`,
+        name: 'Security Panel',
+        state_topic: `${topicPrefix}/panel/state`,
+        supported_features: (this.isCommandTopicEnabled()) ? ['arm_away', 'arm_home', 'arm_night'] : [],
+        unique_id: `${topicPrefix}_panel`,
+      });
+    }
+
+    // Zone statuses and flags.
+    this.#state.data.sensorsStatus.forEach((sensorStatus) => {
+      const {
+        icon,
+        name,
+        statuses,
+        zone,
+      } = sensorStatus;
+      const sensorInfo = this.#state.data.sensorsInfo.find((sensor) => sensor.name === name && sensor.zone === zone);
+      const type = (sensorInfo !== undefined) ? condenseSensorType(sensorInfo.deviceType) : undefined;
+
+      messages[`${topicPrefix}/zone/${zone}`] = JSON.stringify({
+        active: statuses.some((status) => ['ALARM', 'Motion', 'Open', 'Tripped'].includes(status)),
+        icon,
+        lowBattery: statuses.includes('Low Battery') || icon === 'devStatLowBatt',
+        name,
+        statuses,
+        tamper: statuses.includes('Tampered') || icon === 'devStatTamper',
+        type: type ?? null,
+      });
+
+      // Only announce zones that the plugin also supports as accessories.
+      if (homeAssistantDiscovery && type !== undefined) {
+        messages[`homeassistant/binary_sensor/${topicPrefix}/zone_${zone}/config`] = JSON.stringify({
+          availability_topic: `${topicPrefix}/status`,
+          device,
+          device_class: ADTPulseMqtt.getDeviceClass(type),
+          json_attributes_topic: `${topicPrefix}/zone/${zone}`,
+          name,
+          payload_off: 'OFF',
+          payload_on: 'ON',
+          state_topic: `${topicPrefix}/zone/${zone}`,
+          unique_id: `${topicPrefix}_zone_${zone}`,
+          value_template: '{{ "ON" if value_json.active else "OFF" }}',
+        });
+      }
+    });
+
+    return messages;
+  }
+
+  /**
+   * ADT Pulse Mqtt - Handle command.
+   *
+   * @param {ADTPulseMqttHandleCommandPayload} payload - Payload.
+   *
+   * @private
+   *
+   * @returns {ADTPulseMqttHandleCommandReturns}
+   *
+   * @since 3.3.0
+   */
+  private async handleCommand(payload: ADTPulseMqttHandleCommandPayload): ADTPulseMqttHandleCommandReturns {
+    let armTo: ADTPulseMqttHandleCommandArmTo;
+
+    // Accepts both Home Assistant commands and the portal arm values.
+    switch (payload) {
+      case 'ARM_AWAY':
+      case 'away':
+        armTo = 'away';
+        break;
+      case 'ARM_HOME':
+      case 'stay':
+        armTo = 'stay';
+        break;
+      case 'ARM_NIGHT':
+      case 'night':
+        armTo = 'night';
+        break;
+      case 'DISARM':
+      case 'off':
+        armTo = 'off';
+        break;
+      default:
+        armTo = undefined;
+        break;
+    }
+
+    if (armTo === undefined) {
+      this.#log.error(`MQTT bridge received an unknown command "${payload}".`);
+
+      return;
+    }
+
+    // If panel status has not been retrieved yet.
+    if (this.#state.data.panelStatus === null || this.#state.data.panelStatus.panelStates.length === 0) {
+      this.#log.warn(`MQTT bridge attempted to set panel status to "${armTo}" but panel status has not been retrieved yet.`);
+
+      return;
+    }
+
+    const condensedPanelStates = condensePanelStates(this.#characteristic, this.#state.data.panelStatus.panelStates);
+    const isAlarmActive = isPanelAlarmActive(
+      this.#state.data.panelStatus.panelStatuses,
+      this.#state.data.orbSecurityButtons,
+      this.#config.options.includes('ignoreSensorProblemStatus'),
+    );
+
+    // If panel status cannot be found or most likely "Status Unavailable".
+    if (condensedPanelStates === undefined) {
+      this.#log.warn(`MQTT bridge attempted to set panel status to "${armTo}" but panel status cannot be found or most likely "Status Unavailable".`);
+
+      return;
+    }
+
+    // Portal requests cannot overlap, so only one arm request is handled at a time.
+    if (this.#isArming) {
+      this.#log.warn(`MQTT bridge attempted to set panel status to "${armTo}" but another arm request is still in progress.`);
+
+      return;
+    }
+
+    this.#log.info(`MQTT bridge is setting panel status from "${condensedPanelStates.armValue}" to "${armTo}" ...`);
+
+    this.#isArming = true;
+
+    let result: ADTPulseMqttHandleCommandResult;
+
+    // Always allow the next arm request, even if this one has thrown an error.
+    try {
+      // The MQTT bridge only covers the default site. The arm mode mapping applies here the same way it does in the Home app.
+      const setPanelArmModeResult = await setPanelArmMode(this.#instance, null, this.#config.armModes, condensedPanelStates.armValue, armTo, isAlarmActive);
+
+      ({ result } = setPanelArmModeResult);
+
+      // Record the arm request and its result in the event journal.
+      if (setPanelArmModeResult.armTo !== null) {
+        await this.#journal.record({
+          type: 'armRequest',
+          source: 'mqtt',
+          armFrom: condensedPanelStates.armValue,
+          armTo: setPanelArmModeResult.armTo,
+          success: result.success,
+        });
+      }
+    } catch (error) {
+      this.#log.error(`MQTT bridge attempted to set panel status to "${armTo}" but an error has occurred.`);
+      stackTracer('serialize-error', serializeError(error));
+
+      return;
+    } finally {
+      this.#isArming = false;
+    }
+
+    // If request was not successful.
+    if (!result.success) {
+      this.#log.error(`MQTT bridge attempted to set panel status to "${armTo}" but request was not successful${(result.info.message !== undefined) ? ` (${result.info.message})` : ''}.`);
+
+      stackTracer('api-response', result);
+    }
+  }
+
+  /**
+   * ADT Pulse Mqtt - Is command topic enabled.
+   *
+   * @private
+   *
+   * @returns {ADTPulseMqttIsCommandTopicEnabledReturns}
+   *
+   * @since 3.3.0
+   */
+  private isCommandTopicEnabled(): ADTPulseMqttIsCommandTopicEnabledReturns {
+    const { mqtt: mqttConfig } = this.#config;
+
+    // Anyone who can publish to the broker could otherwise disarm the system.
+    return (
+      mqttConfig !== undefined
+      && mqttConfig.allowCommands === true
+      && mqttConfig.username !== undefined
+      && mqttConfig.username !== ''
+      && mqttConfig.password !== undefined
+      && mqttConfig.password !== ''
+    );
+  }
+
+  /**
+   * ADT Pulse Mqtt - Get device class.
+   *
+   * @param {ADTPulseMqttGetDeviceClassType} type - Type.
+   *
+   * @private
+   *
+   * @returns {ADTPulseMqttGetDeviceClassReturns}
+   *
+   * @since 3.3.0
+   */
+  private static getDeviceClass(type: ADTPulseMqttGetDeviceClassType): ADTPulseMqttGetDeviceClassReturns {
+    switch (type) {
+      case 'co':
+        return 'carbon_monoxide';
+      case 'doorWindow':
+        return 'door';
+      case 'fire':
+        return 'smoke';
+      case 'flood':
+        return 'moisture';
+      case 'glass':
+        return 'tamper';
+      case 'heat':
+        return 'heat';
+      case 'motion':
+        return 'motion';
+      case 'shock':
+        return 'vibration';
+      case 'temperature':
+      default:
+        return 'problem';
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import chalk from 'chalk';
 import _ from 'lodash';
+import { EventEmitter } from 'node:events';
 import {
   arch,
   argv,
@@ -9,24 +10,37 @@ import {
 import { serializeError } from 'serialize-error';
 
 import { ADTPulseAccessory } from '@/lib/accessory.js';
+import { ADTPulseAlerts } from '@/lib/alerts.js';
 import { ADTPulse } from '@/lib/api.js';
 import { detectPlatformSensorCountMismatch, detectPlatformUnknownSensorsAction } from '@/lib/detect.js';
+import { validateFingerprint } from '@/lib/fingerprint.js';
+import { ADTPulseJournal } from '@/lib/journal.js';
+import { ADTPulseMqtt } from '@/lib/mqtt.js';
 import { textOrbTextSummarySections } from '@/lib/regex.js';
+import { ADTPulseScheduler } from '@/lib/scheduler.js';
 import { platformConfig } from '@/lib/schema.js';
+import { ADTPulseServer } from '@/lib/server.js';
 import {
+  classifyPanelAlarms,
+  condensePanelStates,
   condenseSensorType,
   findIndexWithValue,
   generateHash,
   getAccessoryCategory,
   getPackageVersion,
   getPluralForm,
+  isPanelAlarmActive,
+  isPanelTransitioning,
+  planRefetch,
   sleep,
   stackTracer,
 } from '@/lib/utility.js';
+import { ADTPulseWebhooks } from '@/lib/webhooks.js';
 import type {
   ADTPulsePlatformAccessories,
   ADTPulsePlatformAddAccessoryDevice,
   ADTPulsePlatformAddAccessoryReturns,
+  ADTPulsePlatformAddAccessorySite,
   ADTPulsePlatformAddAccessoryTypedAccessory,
   ADTPulsePlatformApi,
   ADTPulsePlatformCharacteristic,
@@ -38,31 +52,96 @@ import type {
   ADTPulsePlatformConstructorConfig,
   ADTPulsePlatformConstructorLog,
   ADTPulsePlatformDebugMode,
+  ADTPulsePlatformDiscoverSensorsReturns,
+  ADTPulsePlatformDiscoverSensorsSite,
+  ADTPulsePlatformEmitEvent,
+  ADTPulsePlatformEmitName,
+  ADTPulsePlatformEmitReturns,
+  ADTPulsePlatformEmitter,
+  ADTPulsePlatformEvaluateGatewayAlertsReturns,
+  ADTPulsePlatformEvaluateGatewayAlertsSite,
+  ADTPulsePlatformExpirePanelTransitionReturns,
+  ADTPulsePlatformExpirePanelTransitionSite,
+  ADTPulsePlatformFetchUpdatedInformationRefetchPlan,
   ADTPulsePlatformFetchUpdatedInformationReturns,
+  ADTPulsePlatformFetchUpdatedInformationSite,
+  ADTPulsePlatformForwardEventsNetworkId,
+  ADTPulsePlatformForwardEventsReturns,
+  ADTPulsePlatformForwardEventsSite,
+  ADTPulsePlatformForwardEventsSource,
+  ADTPulsePlatformGetArmInitiatorArmTo,
+  ADTPulsePlatformGetArmInitiatorChangedAt,
+  ADTPulsePlatformGetArmInitiatorReturns,
+  ADTPulsePlatformGetArmInitiatorSite,
+  ADTPulsePlatformGetSiteLabelReturns,
+  ADTPulsePlatformGetSiteLabelSite,
+  ADTPulsePlatformHandleMfaChallengeReturns,
+  ADTPulsePlatformHandleMfaChallengeSite,
   ADTPulsePlatformHandlers,
   ADTPulsePlatformInstance,
+  ADTPulsePlatformIsSiteAccessoryAccessory,
+  ADTPulsePlatformIsSiteAccessoryReturns,
+  ADTPulsePlatformIsSiteAccessorySite,
+  ADTPulsePlatformJournal,
   ADTPulsePlatformLog,
+  ADTPulsePlatformLogStatusChangesCommunicationChanges,
   ADTPulsePlatformLogStatusChangesNewCache,
   ADTPulsePlatformLogStatusChangesOldCache,
   ADTPulsePlatformLogStatusChangesReturns,
+  ADTPulsePlatformLogStatusChangesSensorEvents,
+  ADTPulsePlatformLogStatusChangesSite,
+  ADTPulsePlatformMqtt,
+  ADTPulsePlatformNotifyArmWebhooksArmFrom,
+  ADTPulsePlatformNotifyArmWebhooksArmTo,
+  ADTPulsePlatformNotifyArmWebhooksReturns,
+  ADTPulsePlatformNotifyArmWebhooksSite,
+  ADTPulsePlatformNotifyWebhooksEvent,
+  ADTPulsePlatformNotifyWebhooksReturns,
+  ADTPulsePlatformNotifyWebhooksSite,
+  ADTPulsePlatformOffListener,
+  ADTPulsePlatformOffName,
+  ADTPulsePlatformOnListener,
+  ADTPulsePlatformOnName,
+  ADTPulsePlatformOnceListener,
+  ADTPulsePlatformOnceName,
   ADTPulsePlatformPlugin,
   ADTPulsePlatformPollAccessoriesDevices,
   ADTPulsePlatformPollAccessoriesReturns,
+  ADTPulsePlatformPollAccessoriesSite,
   ADTPulsePlatformPrintSystemInformationReturns,
   ADTPulsePlatformRemoveAccessoryAccessory,
   ADTPulsePlatformRemoveAccessoryReason,
   ADTPulsePlatformRemoveAccessoryReturns,
+  ADTPulsePlatformServer,
   ADTPulsePlatformService,
+  ADTPulsePlatformSites,
   ADTPulsePlatformState,
+  ADTPulsePlatformSynchronizeGatewayCheckInReturns,
+  ADTPulsePlatformSynchronizeGatewayCheckInSite,
   ADTPulsePlatformSynchronizeKeepAliveReturns,
+  ADTPulsePlatformSynchronizeKeepAliveSite,
   ADTPulsePlatformSynchronizeReturns,
+  ADTPulsePlatformSynchronizeSiteLogin,
+  ADTPulsePlatformSynchronizeSiteReturns,
+  ADTPulsePlatformSynchronizeSiteSite,
   ADTPulsePlatformSynchronizeSyncCheckReturns,
+  ADTPulsePlatformSynchronizeSyncCheckSite,
+  ADTPulsePlatformTrackPanelTransitionNewCache,
+  ADTPulsePlatformTrackPanelTransitionOldCache,
+  ADTPulsePlatformTrackPanelTransitionReturns,
+  ADTPulsePlatformTrackPanelTransitionSite,
   ADTPulsePlatformUnifyDevicesDevices,
   ADTPulsePlatformUnifyDevicesId,
+  ADTPulsePlatformUnifyDevicesIsSensorsInfoFresh,
   ADTPulsePlatformUnifyDevicesReturns,
+  ADTPulsePlatformUnifyDevicesSensors,
+  ADTPulsePlatformUnifyDevicesSite,
   ADTPulsePlatformUnknownInformationDispatcherReturns,
+  ADTPulsePlatformUnknownInformationDispatcherSite,
   ADTPulsePlatformUpdateAccessoryDevice,
   ADTPulsePlatformUpdateAccessoryReturns,
+  ADTPulsePlatformUpdateAccessorySite,
+  ADTPulsePlatformWebhooks,
 } from '@/types/index.d.ts';
 
 /**
@@ -125,6 +204,15 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
    */
   readonly #debugMode: ADTPulsePlatformDebugMode;
 
+  /**
+   * ADT Pulse Platform - Emitter.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #emitter: ADTPulsePlatformEmitter;
+
   /**
    * ADT Pulse Platform - Handlers.
    *
@@ -143,6 +231,15 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
    */
   #instance: ADTPulsePlatformInstance;
 
+  /**
+   * ADT Pulse Platform - Journal.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #journal: ADTPulsePlatformJournal;
+
   /**
    * ADT Pulse Platform - Log.
    *
@@ -152,6 +249,24 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
    */
   readonly #log: ADTPulsePlatformLog;
 
+  /**
+   * ADT Pulse Platform - Mqtt.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #mqtt: ADTPulsePlatformMqtt;
+
+  /**
+   * ADT Pulse Platform - Server.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #server: ADTPulsePlatformServer;
+
   /**
    * ADT Pulse Platform - Service.
    *
@@ -161,6 +276,15 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
    */
   readonly #service: ADTPulsePlatformService;
 
+  /**
+   * ADT Pulse Platform - Sites.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #sites: ADTPulsePlatformSites;
+
   /**
    * ADT Pulse Platform - State.
    *
@@ -170,6 +294,15 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
    */
   readonly #state: ADTPulsePlatformState;
 
+  /**
+   * ADT Pulse Platform - Webhooks.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #webhooks: ADTPulsePlatformWebhooks;
+
   /**
    * ADT Pulse Platform - Constructor.
    *
@@ -186,48 +319,64 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
     this.#config = null;
     this.#constants = {
       intervalTimestamps: {
+        adtFullRefetch: 3600000, // 1 hour.
         adtKeepAlive: 538000, // 8 minutes, 58 seconds.
         adtSessionLifespan: 19368000, // 5 hours, 22 minutes, 48 seconds.
-        adtSyncCheck: 3000, // 3 seconds.
+        gatewayCheckIn: 300000, // 5 minutes.
         suspendSyncing: 1800000, // 30 minutes.
         synchronize: 1000, // 1 second.
       },
       maxLoginRetries: 3,
+      maxMissingSensorsSyncs: 3,
     };
     this.#debugMode = argv.includes('-D') || argv.includes('--debug');
+    this.#emitter = new EventEmitter();
     this.#handlers = {};
     this.#instance = null;
+    this.#journal = new ADTPulseJournal(`${api.user.storagePath()}/adt-pulse-journal.jsonl`, log);
     this.#log = log;
+    this.#mqtt = null;
+    this.#server = null;
     this.#service = api.hap.Service;
+    this.#sites = [];
     this.#state = {
       activity: {
         isAdtKeepingAlive: false,
         isAdtSyncChecking: false,
+        isAwaitingMfaCode: false,
         isLoggingIn: false,
         isSyncing: false,
       },
       data: {
+        gatewayAlerts: [],
         gatewayInfo: null,
         orbSecurityButtons: [],
+        panelAlarms: [],
         panelInfo: null,
         panelStatus: null,
+        panelTransition: null,
         sensorsInfo: [],
         sensorsStatus: [],
         syncCode: '1-0-0',
       },
       eventCounters: {
         failedLogins: 0,
+        missingSensorsSyncs: 0,
       },
       intervals: {
         synchronize: undefined,
       },
       lastRunOn: {
+        adtFullRefetch: 0, // January 1, 1970, at 00:00:00 UTC.
         adtKeepAlive: 0, // January 1, 1970, at 00:00:00 UTC.
         adtLastLogin: 0, // January 1, 1970, at 00:00:00 UTC.
         adtSyncCheck: 0, // January 1, 1970, at 00:00:00 UTC.
+        gatewayCheckIn: 0, // January 1, 1970, at 00:00:00 UTC.
+        suspendSyncing: 0, // January 1, 1970, at 00:00:00 UTC.
       },
       reportedHashes: [],
     };
+    this.#webhooks = null;
 
     // Parsed Homebridge platform configuration.
     const parsedConfig = platformConfig.safeParse(config);
@@ -322,6 +471,23 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
         stackTracer('config-content', this.#config.options);
       }
 
+      const fingerprintReport = validateFingerprint(this.#config.fingerprint);
+
+      // Check the fingerprint before signing in, because the portal does not say why a sign-in has failed.
+      if (!fingerprintReport.isValid) {
+        this.#log.error('Plugin is unable to start because the device fingerprint is invalid. Get a new one from the ADT Pulse Device Fingerprint Detector.');
+
+        fingerprintReport.errors.forEach((error) => {
+          this.#log.error(`Fingerprint field "${error.field}": ${error.message}`);
+        });
+
+        return;
+      }
+
+      fingerprintReport.warnings.forEach((warning) => {
+        this.#log.warn(`Fingerprint field "${warning.field}": ${warning.message}`);
+      });
+
       // Initialize the API instance.
       this.#instance = new ADTPulse(
         this.#config,
@@ -329,12 +495,150 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
           // If Homebridge debug mode, set "this instance" to debug mode as well.
           debug: this.#debugMode === true,
           logger: this.#log,
+          accessCodesFilePath: `${this.#api.user.storagePath()}/adt-pulse-access-codes.json`,
+          sessionFilePath: `${this.#api.user.storagePath()}/adt-pulse-session.json`,
         },
       );
 
+      // The default site shares the platform state, which is also used by the control API and the MQTT bridge.
+      this.#sites = [
+        {
+          activity: this.#state.activity,
+          alerts: new ADTPulseAlerts(this.#config, null, this.#log),
+          config: this.#config,
+          data: this.#state.data,
+          eventCounters: this.#state.eventCounters,
+          instance: this.#instance,
+          lastRunOn: this.#state.lastRunOn,
+          name: null,
+          networkId: null,
+          scheduler: new ADTPulseScheduler(this.#config, null, this.#log),
+        },
+      ];
+
+      // Additional sites share the login session of the default site, and switch to their own network id before each of their requests.
+      for (let i = 0; i < this.#config.sites.length; i += 1) {
+        const {
+          accessCodeUser,
+          name,
+          networkId,
+          sensors,
+        } = this.#config.sites[i];
+        const siteConfig = {
+          ...this.#config,
+          accessCodeUser: accessCodeUser ?? this.#config.accessCodeUser,
+          sensors,
+        };
+
+        this.#sites.push({
+          activity: {
+            isAdtKeepingAlive: false,
+            isAdtSyncChecking: false,
+            isAwaitingMfaCode: false,
+            isLoggingIn: false,
+            isSyncing: false,
+          },
+          alerts: new ADTPulseAlerts(siteConfig, name, this.#log),
+          config: siteConfig,
+          data: {
+            gatewayAlerts: [],
+            gatewayInfo: null,
+            orbSecurityButtons: [],
+            panelAlarms: [],
+            panelInfo: null,
+            panelStatus: null,
+            panelTransition: null,
+            sensorsInfo: [],
+            sensorsStatus: [],
+            syncCode: '1-0-0',
+          },
+          eventCounters: {
+            failedLogins: 0,
+            missingSensorsSyncs: 0,
+          },
+          instance: this.#instance,
+          lastRunOn: {
+            adtFullRefetch: 0, // January 1, 1970, at 00:00:00 UTC.
+            adtKeepAlive: 0, // January 1, 1970, at 00:00:00 UTC.
+            adtLastLogin: 0, // January 1, 1970, at 00:00:00 UTC.
+            adtSyncCheck: 0, // January 1, 1970, at 00:00:00 UTC.
+            gatewayCheckIn: 0, // January 1, 1970, at 00:00:00 UTC.
+            suspendSyncing: 0, // January 1, 1970, at 00:00:00 UTC.
+          },
+          name,
+          networkId,
+          scheduler: new ADTPulseScheduler(siteConfig, name, this.#log),
+        });
+      }
+
+      // The control API, the MQTT bridge, and the event journal are not routed per site yet.
+      if (this.#config.sites.length > 0) {
+        this.#log.info('The control API, the MQTT bridge, and the event journal only cover the default site. The other sites are only available in the Home app.');
+      }
+
+      // Every site shares the login session of the default site, so its events are only forwarded once.
+      this.forwardEvents(this.#sites[0]);
+
+      // If the config specifies access codes, move them into the vault so they do not have to stay in the config.
+      if (this.#config.accessCodes.length > 0) {
+        const storedAccessCodes = await this.#instance.storeAccessCodes(this.#config.accessCodes);
+
+        if (storedAccessCodes) {
+          this.#log.info('Access codes were stored in the vault. You may remove them from the plugin settings.');
+        } else {
+          this.#log.warn('Access codes could not be stored in the vault. They will be used until Homebridge restarts, so keep them in the plugin settings.');
+        }
+      }
+
+      // If the config specifies that the control API should be started.
+      if (this.#config.controlApi !== undefined) {
+        this.#server = new ADTPulseServer(
+          this.#config,
+          this.#state,
+          this.#instance,
+          this.#journal,
+          this.#characteristic,
+          this.#log,
+          this.#debugMode === true,
+        );
+
+        try {
+          await this.#server.start();
+        } catch (error) {
+          this.#log.error('Control API is unable to start. Check if the configured host and port are available.');
+          stackTracer('serialize-error', serializeError(error));
+        }
+      }
+
+      // If the config specifies that the MQTT bridge should be started.
+      if (this.#config.mqtt !== undefined) {
+        this.#mqtt = new ADTPulseMqtt(
+          this.#config,
+          this.#state,
+          this.#instance,
+          this.#journal,
+          this.#characteristic,
+          this.#log,
+          this.#debugMode === true,
+        );
+
+        this.#mqtt.connect();
+      }
+
+      // If the config specifies webhooks to notify.
+      if (this.#config.webhooks.length > 0) {
+        this.#webhooks = new ADTPulseWebhooks(this.#config, this.#log);
+      }
+
       // Start synchronization with the portal.
       this.synchronize();
     });
+
+    // Stop the control API and the MQTT bridge before Homebridge exits.
+    api.on('shutdown', async () => {
+      await this.#server?.stop();
+      await this.#mqtt?.disconnect();
+    });
   }
 
   /**
@@ -357,12 +661,13 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
    * ADT Pulse Platform - Add accessory.
    *
    * @param {ADTPulsePlatformAddAccessoryDevice} device - Device.
+   * @param {ADTPulsePlatformAddAccessorySite}   site   - Site.
    *
    * @returns {ADTPulsePlatformAddAccessoryReturns}
    *
    * @since 1.0.0
    */
-  addAccessory(device: ADTPulsePlatformAddAccessoryDevice): ADTPulsePlatformAddAccessoryReturns {
+  addAccessory(device: ADTPulsePlatformAddAccessoryDevice, site: ADTPulsePlatformAddAccessorySite): ADTPulsePlatformAddAccessoryReturns {
     const accessoryIndex = this.#accessories.findIndex((accessory) => device.uuid === accessory.context.uuid);
 
     // Prevent adding duplicate accessory.
@@ -372,13 +677,6 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
       return;
     }
 
-    // If API instance is not available.
-    if (this.#instance === null) {
-      this.#log.error(`Attempted to add ${chalk.underline(device.name)} (id: ${device.id}, uuid: ${device.uuid}) accessory but API instance is not available.`);
-
-      return;
-    }
-
     // Create the new accessory without context.
     const newAccessory = new this.#api.platformAccessory(
       device.name,
@@ -398,13 +696,14 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
     if (this.#handlers[device.id] === undefined) {
       this.#handlers[device.id] = new ADTPulseAccessory(
         typedAccessory,
-        this.#state,
-        this.#config,
-        this.#instance,
+        site,
+        site.config,
+        site.instance,
         this.#service,
         this.#characteristic,
         this.#api,
         this.#log,
+        this.#journal,
       );
     }
 
@@ -425,12 +724,13 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
    * ADT Pulse Platform - Update accessory.
    *
    * @param {ADTPulsePlatformUpdateAccessoryDevice} device - Device.
+   * @param {ADTPulsePlatformUpdateAccessorySite}   site   - Site.
    *
    * @returns {ADTPulsePlatformUpdateAccessoryReturns}
    *
    * @since 1.0.0
    */
-  updateAccessory(device: ADTPulsePlatformUpdateAccessoryDevice): ADTPulsePlatformUpdateAccessoryReturns {
+  updateAccessory(device: ADTPulsePlatformUpdateAccessoryDevice, site: ADTPulsePlatformUpdateAccessorySite): ADTPulsePlatformUpdateAccessoryReturns {
     const { index, value } = findIndexWithValue(
       this.#accessories,
       (accessory) => device.uuid === accessory.context.uuid,
@@ -442,13 +742,6 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
       return;
     }
 
-    // If API instance is not available.
-    if (this.#instance === null) {
-      this.#log.error(`Attempted to updated ${chalk.underline(device.name)} (id: ${device.id}, uuid: ${device.uuid}) accessory but API instance is not available.`);
-
-      return;
-    }
-
     this.#log.debug(`Updating ${chalk.underline(value.context.name)} (id: ${value.context.id}, uuid: ${value.context.uuid}) accessory ...`);
 
     // Set the context into the existing accessory.
@@ -461,13 +754,14 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
     if (this.#handlers[device.id] === undefined) {
       this.#handlers[device.id] = new ADTPulseAccessory(
         value,
-        this.#state,
-        this.#config,
-        this.#instance,
+        site,
+        site.config,
+        site.instance,
         this.#service,
         this.#characteristic,
         this.#api,
         this.#log,
+        this.#journal,
       );
     }
 
@@ -508,6 +802,70 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
     );
   }
 
+  /**
+   * ADT Pulse Platform - On.
+   *
+   * @param {ADTPulsePlatformOnName}     name     - Name.
+   * @param {ADTPulsePlatformOnListener} listener - Listener.
+   *
+   * @returns {this}
+   *
+   * @since 3.3.0
+   */
+  on<Name extends ADTPulsePlatformOnName>(name: Name, listener: ADTPulsePlatformOnListener<Name>): this {
+    this.#emitter.on(name, listener);
+
+    return this;
+  }
+
+  /**
+   * ADT Pulse Platform - Once.
+   *
+   * @param {ADTPulsePlatformOnceName}     name     - Name.
+   * @param {ADTPulsePlatformOnceListener} listener - Listener.
+   *
+   * @returns {this}
+   *
+   * @since 3.3.0
+   */
+  once<Name extends ADTPulsePlatformOnceName>(name: Name, listener: ADTPulsePlatformOnceListener<Name>): this {
+    this.#emitter.once(name, listener);
+
+    return this;
+  }
+
+  /**
+   * ADT Pulse Platform - Off.
+   *
+   * @param {ADTPulsePlatformOffName}     name     - Name.
+   * @param {ADTPulsePlatformOffListener} listener - Listener.
+   *
+   * @returns {this}
+   *
+   * @since 3.3.0
+   */
+  off<Name extends ADTPulsePlatformOffName>(name: Name, listener: ADTPulsePlatformOffListener<Name>): this {
+    this.#emitter.off(name, listener);
+
+    return this;
+  }
+
+  /**
+   * ADT Pulse Platform - Emit.
+   *
+   * @param {ADTPulsePlatformEmitName}  name  - Name.
+   * @param {ADTPulsePlatformEmitEvent} event - Event.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformEmitReturns}
+   *
+   * @since 3.3.0
+   */
+  private emit<Name extends ADTPulsePlatformEmitName>(name: Name, event: ADTPulsePlatformEmitEvent<Name>): ADTPulsePlatformEmitReturns {
+    return this.#emitter.emit(name, event);
+  }
+
   /**
    * ADT Pulse Platform - Print system information.
    *
@@ -533,6 +891,37 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
     ].join(chalk.gray(' // ')));
   }
 
+  /**
+   * ADT Pulse Platform - Forward events.
+   *
+   * @param {ADTPulsePlatformForwardEventsSite} site - Site.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformForwardEventsReturns}
+   *
+   * @since 3.3.0
+   */
+  private forwardEvents(site: ADTPulsePlatformForwardEventsSite): ADTPulsePlatformForwardEventsReturns {
+    const { instance, name, networkId } = site;
+    const source: ADTPulsePlatformForwardEventsSource = {
+      site: name,
+      networkId,
+    };
+
+    instance.on('loginFailed', (event) => this.emit('loginFailed', { ...event, ...source }));
+    instance.on('parserAnomaly', (event) => this.emit('parserAnomaly', { ...event, ...source }));
+    instance.on('sessionReset', (event) => this.emit('sessionReset', { ...event, ...source }));
+
+    // Status changes carry the network id they were retrieved for, so they are matched to the site it belongs to.
+    const getSiteName = (eventNetworkId: ADTPulsePlatformForwardEventsNetworkId) => (this.#sites.find((otherSite) => otherSite.networkId === eventNetworkId) ?? site).name;
+
+    instance.on('gatewayStatusChanged', (event) => this.emit('gatewayStatusChanged', { ...event, site: getSiteName(event.networkId) }));
+    instance.on('panelStateChanged', (event) => this.emit('panelStateChanged', { ...event, site: getSiteName(event.networkId) }));
+    instance.on('sensorStatusChanged', (event) => this.emit('sensorStatusChanged', { ...event, site: getSiteName(event.networkId) }));
+    instance.on('syncCodeChanged', (event) => this.emit('syncCodeChanged', { ...event, site: getSiteName(event.networkId) }));
+  }
+
   /**
    * ADT Pulse Platform - Synchronize.
    *
@@ -558,143 +947,313 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
 
       // Attempt to synchronize.
       try {
-        let currentTimestamp = Date.now();
-
         // ACTIVITY: Start sync.
         this.#state.activity.isSyncing = true;
 
-        // If login session has become stale and not receiving the latest updates, force a session reset.
-        if (
-          currentTimestamp - this.#state.lastRunOn.adtLastLogin >= this.#constants.intervalTimestamps.adtSessionLifespan
-          && this.#state.lastRunOn.adtLastLogin !== 0
-        ) {
-          this.#log.debug('Login session requires a reset. Resetting the login session now ...');
-
-          this.#instance.resetSession();
+        // Sites are synchronized one after another, so only one of them logs in at a time.
+        for (let i = 0; i < this.#sites.length; i += 1) {
+          await this.synchronizeSite(this.#sites[i]);
         }
+      } catch (error) {
+        this.#log.error('synchronize() has unexpectedly thrown an error, will continue to sync.');
+        stackTracer('serialize-error', serializeError(error));
+      } finally {
+        // ACTIVITY: Finish sync.
+        this.#state.activity.isSyncing = false;
+      }
+    }, this.#constants.intervalTimestamps.synchronize);
+  }
 
-        // Perform login action if "this instance" is not authenticated.
-        if (!this.#instance.isAuthenticated()) {
-          // Attempt to log in if "this instance" is not currently logging in.
-          if (!this.#state.activity.isLoggingIn) {
-            // ACTIVITY: Start login.
-            this.#state.activity.isLoggingIn = true;
+  /**
+   * ADT Pulse Platform - Synchronize site.
+   *
+   * @param {ADTPulsePlatformSynchronizeSiteSite} site - Site.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformSynchronizeSiteReturns}
+   *
+   * @since 3.3.0
+   */
+  private async synchronizeSite(site: ADTPulsePlatformSynchronizeSiteSite): ADTPulsePlatformSynchronizeSiteReturns {
+    const {
+      activity,
+      alerts,
+      data,
+      eventCounters,
+      instance,
+      lastRunOn,
+      networkId,
+      scheduler,
+    } = site;
+
+    let currentTimestamp = Date.now();
+
+    // Additional sites use the login session of the default site, which signs in and keeps the session alive for all of them.
+    if (networkId !== null && !instance.isAuthenticated()) {
+      return;
+    }
 
-            const login = await this.#instance.login();
+    // If syncing was suspended after too many failed logins, wait until the suspension is over. Other sites keep syncing.
+    if (currentTimestamp - lastRunOn.suspendSyncing < this.#constants.intervalTimestamps.suspendSyncing) {
+      return;
+    }
 
-            // If login was successful.
-            if (login.success) {
-              currentTimestamp = Date.now();
+    // If the portal is waiting for a verification code, signing in again would only send another one. Wait for a restart with the code instead.
+    if (activity.isAwaitingMfaCode) {
+      return;
+    }
 
-              // Update timing for the sync protocols, so they can pace themselves.
-              this.#state.lastRunOn.adtKeepAlive = currentTimestamp;
-              this.#state.lastRunOn.adtLastLogin = currentTimestamp;
-              this.#state.lastRunOn.adtSyncCheck = currentTimestamp;
-            }
+    // If login session has become stale and not receiving the latest updates, force a session reset.
+    if (
+      currentTimestamp - lastRunOn.adtLastLogin >= this.#constants.intervalTimestamps.adtSessionLifespan
+      && lastRunOn.adtLastLogin !== 0
+    ) {
+      this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Login session requires a reset. Resetting the login session now ...`);
 
-            // If login was not successful.
-            if (!login.success) {
-              this.#state.eventCounters.failedLogins += 1;
+      instance.resetSession();
+    }
 
-              const attemptsLeft = this.#constants.maxLoginRetries - this.#state.eventCounters.failedLogins;
+    // Perform login action if "this instance" is not authenticated.
+    if (!instance.isAuthenticated()) {
+      // Attempt to log in if "this instance" is not currently logging in.
+      if (!activity.isLoggingIn) {
+        // ACTIVITY: Start login.
+        activity.isLoggingIn = true;
 
-              if (attemptsLeft > 0) {
-                this.#log.error(`Login attempt has failed. Trying ${attemptsLeft} more ${getPluralForm(attemptsLeft, 'time', 'times')} ...`);
-              } else {
-                const suspendMinutes = this.#constants.intervalTimestamps.suspendSyncing / 1000 / 60;
+        let login: ADTPulsePlatformSynchronizeSiteLogin;
 
-                this.#log.error(`Login attempt has failed for ${this.#constants.maxLoginRetries} ${getPluralForm(this.#constants.maxLoginRetries, 'time', 'times')}. Sleeping for ${suspendMinutes} ${getPluralForm(suspendMinutes, 'minute', 'minutes')} before resuming ...`);
-              }
+        // Signing in replaces the login session that every site shares, so wait until no other site is using it.
+        await instance.acquireSite(null);
 
-              stackTracer('api-response', login);
-            }
+        try {
+          login = await instance.login();
+        } finally {
+          instance.releaseSite();
+        }
 
-            // ACTIVITY: Finish login.
-            this.#state.activity.isLoggingIn = false;
-          }
+        // If login was successful.
+        if (login.success) {
+          currentTimestamp = Date.now();
 
-          // If failed logins have reached the max login retries.
-          if (this.#state.eventCounters.failedLogins >= this.#constants.maxLoginRetries) {
-            await sleep(this.#constants.intervalTimestamps.suspendSyncing);
+          // Update timing for the sync protocols, so they can pace themselves. A resumed session keeps the time it originally signed in.
+          lastRunOn.adtKeepAlive = currentTimestamp;
+          lastRunOn.adtLastLogin = login.info.lastLoginOn ?? currentTimestamp;
+          lastRunOn.adtSyncCheck = currentTimestamp;
+        }
 
-            // After sleeping, reset the failed login count.
-            this.#state.eventCounters.failedLogins = 0;
+        // If the fingerprint is not trusted, the portal asks for a verification code instead.
+        if (!login.success && instance.getMfaChallenge() !== null) {
+          await this.handleMfaChallenge(site);
+        } else if (!login.success) {
+          eventCounters.failedLogins += 1;
 
-            return;
-          }
+          const attemptsLeft = this.#constants.maxLoginRetries - eventCounters.failedLogins;
 
-          // Make sure the rest of the code does not run if user is not authenticated.
-          if (!this.#instance.isAuthenticated()) {
-            return;
+          if (attemptsLeft > 0) {
+            this.#log.error(`${ADTPulsePlatform.getSiteLabel(site)}Login attempt has failed. Trying ${attemptsLeft} more ${getPluralForm(attemptsLeft, 'time', 'times')} ...`);
+          } else {
+            const suspendMinutes = this.#constants.intervalTimestamps.suspendSyncing / 1000 / 60;
+
+            this.#log.error(`${ADTPulsePlatform.getSiteLabel(site)}Login attempt has failed for ${this.#constants.maxLoginRetries} ${getPluralForm(this.#constants.maxLoginRetries, 'time', 'times')}. Sleeping for ${suspendMinutes} ${getPluralForm(suspendMinutes, 'minute', 'minutes')} before resuming ...`);
           }
+
+          stackTracer('api-response', login);
         }
 
-        // Get the current timestamp.
-        currentTimestamp = Date.now();
+        // ACTIVITY: Finish login.
+        activity.isLoggingIn = false;
+      }
+
+      // If failed logins have reached the max login retries.
+      if (eventCounters.failedLogins >= this.#constants.maxLoginRetries) {
+        const suspendMinutes = this.#constants.intervalTimestamps.suspendSyncing / 1000 / 60;
 
-        // Run the keep alive request if time has reached. Do not await, they shall run at their own pace.
-        if (
-          currentTimestamp - this.#state.lastRunOn.adtKeepAlive >= this.#constants.intervalTimestamps.adtKeepAlive
-          && !this.#state.activity.isAdtKeepingAlive
-        ) {
-          this.#log.debug('Login session requires a keep alive ping. Initiating a keep alive request now ...');
+        lastRunOn.suspendSyncing = Date.now();
 
-          this.synchronizeKeepAlive();
-        }
+        this.notifyWebhooks(site, {
+          type: 'loginSuspended',
+          message: `Login attempt has failed for ${this.#constants.maxLoginRetries} ${getPluralForm(this.#constants.maxLoginRetries, 'time', 'times')}. Syncing is suspended for ${suspendMinutes} ${getPluralForm(suspendMinutes, 'minute', 'minutes')}.`,
+          timestamp: Date.now(),
+        });
+
+        // Start over with the failed login count once the suspension is over.
+        eventCounters.failedLogins = 0;
+
+        return;
+      }
+
+      // Make sure the rest of the code does not run if user is not authenticated.
+      if (!instance.isAuthenticated()) {
+        return;
+      }
+    }
+
+    // Get the current timestamp.
+    currentTimestamp = Date.now();
+
+    // The configured delay may end between sync code changes, so check it on every tick. Should be awaited, so it never overlaps with a sync check.
+    if (data.panelTransition !== null && !activity.isAdtSyncChecking) {
+      await this.expirePanelTransition(site);
+    }
+
+    // Run the keep alive request if time has reached. Do not await, they shall run at their own pace. The default site keeps the shared login session alive.
+    if (
+      networkId === null
+      && currentTimestamp - lastRunOn.adtKeepAlive >= this.#constants.intervalTimestamps.adtKeepAlive
+      && !activity.isAdtKeepingAlive
+    ) {
+      this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Login session requires a keep alive ping. Initiating a keep alive request now ...`);
+
+      this.synchronizeKeepAlive(site);
+    }
+
+    // Run the gateway check-in request if the gateway has missed its scheduled check-in. Should be awaited, so it never overlaps with a sync check.
+    if (
+      currentTimestamp - lastRunOn.gatewayCheckIn >= this.#constants.intervalTimestamps.gatewayCheckIn
+      && !activity.isAdtSyncChecking
+      && data.gatewayInfo !== null
+      && alerts.isCheckInOverdue(data.gatewayInfo)
+    ) {
+      this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Gateway has not checked in on time. Retrieving the latest gateway information now ...`);
+
+      await this.synchronizeGatewayCheckIn(site);
+    }
+
+    // Run the sync check request if the scheduler says it is time. Do not await, they shall run at their own pace.
+    if (
+      !activity.isAdtSyncChecking
+      && scheduler.isSyncCheckDue(lastRunOn.adtSyncCheck)
+    ) {
+      this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Login session requires a sync check. Running a sync check request now ...`);
+
+      this.synchronizeSyncCheck(site);
+    }
+  }
+
+  /**
+   * ADT Pulse Platform - Handle mfa challenge.
+   *
+   * @param {ADTPulsePlatformHandleMfaChallengeSite} site - Site.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformHandleMfaChallengeReturns}
+   *
+   * @since 3.3.0
+   */
+  private async handleMfaChallenge(site: ADTPulsePlatformHandleMfaChallengeSite): ADTPulsePlatformHandleMfaChallengeReturns {
+    const {
+      activity,
+      config,
+      eventCounters,
+      instance,
+      lastRunOn,
+    } = site;
+    const mfaChallenge = instance.getMfaChallenge();
+
+    if (mfaChallenge === null) {
+      return;
+    }
 
-        // Run the sync check request if time has reached. Do not await, they shall run at their own pace.
-        if (
-          currentTimestamp - this.#state.lastRunOn.adtSyncCheck >= this.#constants.intervalTimestamps.adtSyncCheck
-          && !this.#state.activity.isAdtSyncChecking
-        ) {
-          this.#log.debug('Login session requires a sync check. Running a sync check request now ...');
+    // A code was requested before the restart, so submit the one entered in the plugin settings.
+    if (mfaChallenge.isCodeRequested && config.mfaCode !== undefined) {
+      const submitMfaCode = await instance.submitMfaCode(config.mfaCode);
 
-          this.synchronizeSyncCheck();
+      if (submitMfaCode.success) {
+        const currentTimestamp = Date.now();
+
+        // Update timing for the sync protocols, so they can pace themselves.
+        lastRunOn.adtKeepAlive = currentTimestamp;
+        lastRunOn.adtLastLogin = submitMfaCode.info.lastLoginOn ?? currentTimestamp;
+        lastRunOn.adtSyncCheck = currentTimestamp;
+
+        // Every site signs in with the same fingerprint, so the sites waiting on this code may sign in again.
+        for (let i = 0; i < this.#sites.length; i += 1) {
+          this.#sites[i].activity.isAwaitingMfaCode = false;
         }
-      } catch (error) {
-        this.#log.error('synchronize() has unexpectedly thrown an error, will continue to sync.');
-        stackTracer('serialize-error', serializeError(error));
-      } finally {
-        // ACTIVITY: Finish sync.
-        this.#state.activity.isSyncing = false;
+
+        this.#log.info(`${ADTPulsePlatform.getSiteLabel(site)}Verification code was accepted and the fingerprint is now trusted. You may remove the verification code from the plugin settings.`);
+
+        return;
       }
-    }, this.#constants.intervalTimestamps.synchronize);
+
+      this.#log.error(`${ADTPulsePlatform.getSiteLabel(site)}Verification code in the plugin settings was not accepted.`);
+      stackTracer('api-response', submitMfaCode);
+
+      // An expired challenge starts over with a new sign-in, which sends a new code.
+      if (instance.getMfaChallenge() === null) {
+        return;
+      }
+    }
+
+    // Only one code is needed for the fingerprint, so do not request another one while a site is already waiting for it.
+    const isWaitingElsewhere = this.#sites.some((otherSite) => otherSite !== site && otherSite.activity.isAwaitingMfaCode);
+
+    if (!mfaChallenge.isCodeRequested && !isWaitingElsewhere) {
+      const configuredMethod = mfaChallenge.methods.find((method) => method.id.toLowerCase() === config.mfaMethod?.toLowerCase());
+
+      if (config.mfaMethod !== undefined && configuredMethod === undefined) {
+        this.#log.warn(`${ADTPulsePlatform.getSiteLabel(site)}Delivery method "${config.mfaMethod}" is not available. Available delivery methods are ${mfaChallenge.methods.map((method) => `"${method.id}" (${method.label})`).join(', ')}.`);
+      }
+
+      const requestMfaCode = await instance.requestMfaCode(configuredMethod?.id);
+
+      if (!requestMfaCode.success) {
+        eventCounters.failedLogins += 1;
+
+        this.#log.error(`${ADTPulsePlatform.getSiteLabel(site)}Multi-factor authentication is required, but a verification code could not be requested.`);
+        stackTracer('api-response', requestMfaCode);
+
+        return;
+      }
+
+      this.#log.warn(`${ADTPulsePlatform.getSiteLabel(site)}Multi-factor authentication is required. A verification code was sent to ${requestMfaCode.info.method.label}.`);
+    }
+
+    this.#log.warn(`${ADTPulsePlatform.getSiteLabel(site)}Enter the verification code in the plugin settings, then restart Homebridge. Syncing is paused until then.`);
+
+    activity.isAwaitingMfaCode = true;
   }
 
   /**
    * ADT Pulse Platform - Synchronize keep alive.
    *
+   * @param {ADTPulsePlatformSynchronizeKeepAliveSite} site - Site.
+   *
    * @private
    *
    * @returns {ADTPulsePlatformSynchronizeKeepAliveReturns}
    *
    * @since 1.0.0
    */
-  private synchronizeKeepAlive(): ADTPulsePlatformSynchronizeKeepAliveReturns {
+  private synchronizeKeepAlive(site: ADTPulsePlatformSynchronizeKeepAliveSite): ADTPulsePlatformSynchronizeKeepAliveReturns {
+    const {
+      activity,
+      instance,
+      lastRunOn,
+      scheduler,
+    } = site;
+
     // Running an IIFE, to internalize async context.
     (async () => {
       // If currently keeping alive.
-      if (this.#state.activity.isAdtKeepingAlive) {
-        return;
-      }
-
-      // Checks for a "null" instance. Just in case it happens.
-      if (this.#instance === null) {
-        this.#log.warn('synchronizeKeepAlive() was called but API instance is not available.');
-
+      if (activity.isAdtKeepingAlive) {
         return;
       }
 
       // Attempt to keep alive.
       try {
         // ACTIVITY: Start keeping alive.
-        this.#state.activity.isAdtKeepingAlive = true;
+        activity.isAdtKeepingAlive = true;
+
+        const keepAlive = await instance.performKeepAlive();
 
-        const keepAlive = await this.#instance.performKeepAlive();
+        scheduler.recordRequests(1);
 
         // If keeping alive was successful.
         if (keepAlive.success) {
-          this.#log.debug('Keep alive request was successful. The login session should now be extended.');
+          this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Keep alive request was successful. The login session should now be extended.`);
         }
 
         // If keeping alive was not successful.
@@ -706,76 +1265,183 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
           if (code !== undefined) {
             switch (code) {
               case 'ECONNABORTED':
-                this.#log.debug('Keeping alive attempt has failed because the connection timed out. Trying again later.');
+                this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Keeping alive attempt has failed because the connection timed out. Trying again later.`);
                 break;
               default:
-                this.#log.debug(`Keeping alive attempt has failed because the response code was "${code}". Trying again later.`);
+                this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Keeping alive attempt has failed because the response code was "${code}". Trying again later.`);
                 break;
             }
           } else {
-            this.#log.error('Keeping alive attempt has failed. Trying again later.');
+            this.#log.error(`${ADTPulsePlatform.getSiteLabel(site)}Keeping alive attempt has failed. Trying again later.`);
             stackTracer('api-response', keepAlive);
           }
         }
 
         // Update timestamp for keep alive request, even if request failed.
-        this.#state.lastRunOn.adtKeepAlive = Date.now();
+        lastRunOn.adtKeepAlive = Date.now();
       } catch (error) {
         this.#log.error('synchronizeKeepAlive() has unexpectedly thrown an error, will continue to keep alive.');
         stackTracer('serialize-error', serializeError(error));
       } finally {
         // ACTIVITY: Finish keeping alive.
-        this.#state.activity.isAdtKeepingAlive = false;
+        activity.isAdtKeepingAlive = false;
       }
     })();
   }
 
   /**
-   * ADT Pulse Platform - Synchronize sync check.
+   * ADT Pulse Platform - Synchronize gateway check in.
+   *
+   * @param {ADTPulsePlatformSynchronizeGatewayCheckInSite} site - Site.
    *
    * @private
    *
-   * @returns {ADTPulsePlatformSynchronizeSyncCheckReturns}
+   * @returns {ADTPulsePlatformSynchronizeGatewayCheckInReturns}
    *
-   * @since 1.0.0
+   * @since 3.3.0
    */
-  private synchronizeSyncCheck(): ADTPulsePlatformSynchronizeSyncCheckReturns {
-    // Running an IIFE, to internalize async context.
-    (async () => {
-      // If currently sync checking.
-      if (this.#state.activity.isAdtSyncChecking) {
+  private async synchronizeGatewayCheckIn(site: ADTPulsePlatformSynchronizeGatewayCheckInSite): ADTPulsePlatformSynchronizeGatewayCheckInReturns {
+    const {
+      data,
+      instance,
+      lastRunOn,
+      networkId,
+      scheduler,
+    } = site;
+    const cachedState = _.clone(data);
+
+    let isSiteAcquired = false;
+
+    // Attempt to check in.
+    try {
+      // Sites share the same login session, so switch to this site first.
+      const acquireSite = await instance.acquireSite(networkId);
+
+      isSiteAcquired = true;
+
+      if (!acquireSite.success) {
+        this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Unable to switch to this site for the gateway check-in. Trying again later.`);
+
         return;
       }
 
-      // Checks for a "null" instance. Just in case it happens.
-      if (this.#instance === null) {
-        this.#log.warn('synchronizeSyncCheck() was called but API instance is not available.');
+      // A missed check-in does not change the sync code, so the gateway information is retrieved on its own.
+      const gatewayInformation = await instance.getGatewayInformation();
+
+      scheduler.recordRequests(1);
+
+      // If retrieving the gateway information was successful.
+      if (gatewayInformation.success) {
+        data.gatewayInfo = gatewayInformation.info;
+
+        // Check if the gateway status has changed.
+        await this.logStatusChanges(site, cachedState, data);
+
+        // Raise or clear the gateway alerts.
+        this.evaluateGatewayAlerts(site);
+
+        // Update the gateway accessory. The sensors information was not retrieved again.
+        await this.unifyDevices(site, false);
+      }
+
+      // If retrieving the gateway information was not successful.
+      if (!gatewayInformation.success) {
+        this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Gateway check-in request has failed. Trying again later.`);
+      }
+    } catch (error) {
+      this.#log.error('synchronizeGatewayCheckIn() has unexpectedly thrown an error, will continue to check in.');
+      stackTracer('serialize-error', serializeError(error));
+    } finally {
+      // Let the other sites use the login session again.
+      if (isSiteAcquired) {
+        instance.releaseSite();
+      }
+
+      // Update timestamp for gateway check-in request, even if request failed.
+      lastRunOn.gatewayCheckIn = Date.now();
+    }
+  }
+
+  /**
+   * ADT Pulse Platform - Synchronize sync check.
+   *
+   * @param {ADTPulsePlatformSynchronizeSyncCheckSite} site - Site.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformSynchronizeSyncCheckReturns}
+   *
+   * @since 1.0.0
+   */
+  private synchronizeSyncCheck(site: ADTPulsePlatformSynchronizeSyncCheckSite): ADTPulsePlatformSynchronizeSyncCheckReturns {
+    const {
+      activity,
+      data,
+      instance,
+      lastRunOn,
+      networkId,
+      scheduler,
+    } = site;
 
+    // Running an IIFE, to internalize async context.
+    (async () => {
+      // If currently sync checking.
+      if (activity.isAdtSyncChecking) {
         return;
       }
 
+      let isSiteAcquired = false;
+
       // Attempt to sync check.
       try {
         // ACTIVITY: Start sync checking.
-        this.#state.activity.isAdtSyncChecking = true;
+        activity.isAdtSyncChecking = true;
+
+        // Sites share the same login session, so switch to this site first. The sync code and the retrieved data belong to the current site.
+        const acquireSite = await instance.acquireSite(networkId);
+
+        isSiteAcquired = true;
+
+        if (!acquireSite.success) {
+          this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Unable to switch to this site for the sync check. Trying again later.`);
+
+          return;
+        }
+
+        const syncCheck = await instance.performSyncCheck();
 
-        const syncCheck = await this.#instance.performSyncCheck();
+        scheduler.recordRequests(1);
 
         // If sync checking was successful.
         if (syncCheck.success) {
-          this.#log.debug('Sync check request was successful. Determining if panel and sensor data is outdated ...');
+          scheduler.recordConnectionSuccess();
+
+          this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Sync check request was successful. Determining if panel and sensor data is outdated ...`);
 
           // If new sync code is different from the cached sync code.
-          if (syncCheck.info.syncCode !== this.#state.data.syncCode) {
-            this.#log.debug(`Panel and sensor data is outdated (cached: ${this.#state.data.syncCode}, fetched: ${syncCheck.info.syncCode}). Retrieving the latest data ...`);
+          if (syncCheck.info.syncCode !== data.syncCode) {
+            this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Panel and sensor data is outdated (cached: ${data.syncCode}, fetched: ${syncCheck.info.syncCode}). Retrieving the latest data ...`);
+
+            // The meaning of the sync code segments is inferred, so everything is retrieved once an hour in case a change was missed.
+            const isFullRefetch = Date.now() - lastRunOn.adtFullRefetch >= this.#constants.intervalTimestamps.adtFullRefetch;
+
+            // Only retrieve the data that the changed parts of the sync code have made outdated.
+            const refetchPlan = planRefetch(data.syncCode, syncCheck.info.syncCode, isFullRefetch);
+
+            if (isFullRefetch) {
+              lastRunOn.adtFullRefetch = Date.now();
+            }
 
             // Cache the sync code.
-            this.#state.data.syncCode = syncCheck.info.syncCode;
+            data.syncCode = syncCheck.info.syncCode;
+
+            // Something has changed, so the site is no longer considered quiet.
+            scheduler.recordChange();
 
             // Request new data from the portal. Should be awaited.
-            await this.fetchUpdatedInformation();
+            await this.fetchUpdatedInformation(site, refetchPlan);
           } else {
-            this.#log.debug(`Panel and sensor data is up to date (cached: ${this.#state.data.syncCode}, fetched: ${syncCheck.info.syncCode}). No need to retrieve the latest data.`);
+            this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Panel and sensor data is up to date (cached: ${data.syncCode}, fetched: ${syncCheck.info.syncCode}). No need to retrieve the latest data.`);
           }
         }
 
@@ -788,29 +1454,38 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
           if (code !== undefined) {
             switch (code) {
               case 'ECONNABORTED':
-                this.#log.debug('Sync checking attempt has failed because the connection timed out. Trying again later.');
+                scheduler.recordConnectionFailure();
+
+                this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Sync checking attempt has failed because the connection timed out. Trying again in ${scheduler.getSyncCheckInterval() / 1000} seconds.`);
                 break;
               case 'ECONNRESET':
-                this.#log.debug('Sync checking attempt has failed because the connection was reset. Trying again later.');
+                scheduler.recordConnectionFailure();
+
+                this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Sync checking attempt has failed because the connection was reset. Trying again in ${scheduler.getSyncCheckInterval() / 1000} seconds.`);
                 break;
               default:
-                this.#log.debug(`Sync checking attempt has failed because the response code was "${code}". Trying again later.`);
+                this.#log.debug(`${ADTPulsePlatform.getSiteLabel(site)}Sync checking attempt has failed because the response code was "${code}". Trying again later.`);
                 break;
             }
           } else {
-            this.#log.error('Sync checking attempt has failed. Trying again later.');
+            this.#log.error(`${ADTPulsePlatform.getSiteLabel(site)}Sync checking attempt has failed. Trying again later.`);
             stackTracer('api-response', syncCheck);
           }
         }
 
         // Update timestamp for sync check request, even if request failed.
-        this.#state.lastRunOn.adtSyncCheck = Date.now();
+        lastRunOn.adtSyncCheck = Date.now();
       } catch (error) {
         this.#log.error('synchronizeSyncCheck() has unexpectedly thrown an error, will continue to sync check.');
         stackTracer('serialize-error', serializeError(error));
       } finally {
+        // Let the other sites use the login session again.
+        if (isSiteAcquired) {
+          instance.releaseSite();
+        }
+
         // ACTIVITY: Finish sync checking.
-        this.#state.activity.isAdtSyncChecking = false;
+        activity.isAdtSyncChecking = false;
       }
     })();
   }
@@ -818,89 +1493,139 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
   /**
    * ADT Pulse Platform - Fetch updated information.
    *
+   * @param {ADTPulsePlatformFetchUpdatedInformationSite}        site        - Site.
+   * @param {ADTPulsePlatformFetchUpdatedInformationRefetchPlan} refetchPlan - Refetch plan.
+   *
    * @private
    *
    * @returns {ADTPulsePlatformFetchUpdatedInformationReturns}
    *
    * @since 1.0.0
    */
-  private async fetchUpdatedInformation(): ADTPulsePlatformFetchUpdatedInformationReturns {
-    // Checks for a "null" instance. Just in case it happens.
-    if (this.#instance === null) {
-      this.#log.warn('fetchUpdatedInformation() was called but API instance is not available.');
-
-      return;
-    }
+  private async fetchUpdatedInformation(site: ADTPulsePlatformFetchUpdatedInformationSite, refetchPlan: ADTPulsePlatformFetchUpdatedInformationRefetchPlan): ADTPulsePlatformFetchUpdatedInformationReturns {
+    const { data, instance, scheduler } = site;
+    const cachedState = _.clone(data);
 
-    const cachedState = _.clone(this.#state.data);
+    // Only a sensor list retrieved during this run may count towards removing discovered sensors.
+    let isSensorsInfoFresh = false;
 
     try {
-      // Fetch all the panel and sensor information.
-      const requests = await Promise.all([
-        this.#instance.getGatewayInformation(),
-        this.#instance.getPanelInformation(),
-        this.#instance.getPanelStatus(),
-        this.#instance.getSensorsInformation(),
-        this.#instance.getSensorsStatus(),
-        this.#instance.getOrbSecurityButtons(),
+      const plan = [...refetchPlan];
+
+      // Data that could not be retrieved before is retrieved again, even if the sync code says it is up to date.
+      if (data.gatewayInfo === null) {
+        plan.push('gatewayInfo');
+      }
+
+      if (data.panelInfo === null) {
+        plan.push('panelInfo');
+      }
+
+      if (data.sensorsInfo.length === 0) {
+        plan.push('sensorsInfo');
+      }
+
+      // The panel status, sensors status, and orb security buttons are all parsed from one load of the summary page.
+      const isSummaryPlanned = plan.some((item) => item === 'orbSecurityButtons' || item === 'panelStatus' || item === 'sensorsStatus');
+      const [
+        gatewayInformation,
+        panelInformation,
+        sensorsInformation,
+        summary,
+      ] = await Promise.all([
+        (plan.includes('gatewayInfo')) ? instance.getGatewayInformation() : null,
+        (plan.includes('panelInfo')) ? instance.getPanelInformation() : null,
+        (plan.includes('sensorsInfo')) ? instance.getSensorsInformation() : null,
+        (isSummaryPlanned) ? instance.getSummarySnapshot() : null,
       ]);
 
+      scheduler.recordRequests([gatewayInformation, panelInformation, sensorsInformation, summary].filter((request) => request !== null).length);
+
       // Update gateway information.
-      if (requests[0].success) {
-        const { info } = requests[0];
+      if (gatewayInformation !== null && gatewayInformation.success) {
+        const { info } = gatewayInformation;
 
         // Set gateway information into memory.
-        this.#state.data.gatewayInfo = info;
+        data.gatewayInfo = info;
       }
 
       // Update panel information.
-      if (requests[1].success) {
-        const { info } = requests[1];
+      if (panelInformation !== null && panelInformation.success) {
+        const { info } = panelInformation;
 
         // Set panel information into memory.
-        this.#state.data.panelInfo = info;
-      }
-
-      // Update panel status.
-      if (requests[2].success) {
-        const { info } = requests[2];
-
-        // Set panel status into memory.
-        this.#state.data.panelStatus = info;
+        data.panelInfo = info;
       }
 
       // Update sensors information.
-      if (requests[3].success) {
-        const { sensors } = requests[3].info;
+      if (sensorsInformation !== null && sensorsInformation.success) {
+        const { sensors } = sensorsInformation.info;
 
         // Set sensors information into memory.
-        this.#state.data.sensorsInfo = sensors;
+        data.sensorsInfo = sensors;
+        isSensorsInfoFresh = true;
       }
 
-      // Update sensors status.
-      if (requests[4].success) {
-        const { sensors } = requests[4].info;
+      // Update panel status, sensors status, and orb security buttons.
+      if (summary !== null && summary.success) {
+        const { orbSecurityButtons, panelStatus, sensorsStatus } = summary.info;
 
-        // Set sensors status into memory.
-        this.#state.data.sensorsStatus = sensors;
+        // Set panel status, sensors status, and orb security buttons into memory.
+        data.panelStatus = panelStatus;
+        data.sensorsStatus = sensorsStatus;
+        data.orbSecurityButtons = orbSecurityButtons;
       }
 
-      // Cache orb security buttons.
-      if (requests[5].success) {
-        const { info } = requests[5];
+      // A sensor that was added or removed shows up on the summary page first, so retrieve the sensors information as well.
+      if (sensorsInformation === null && data.sensorsStatus.length !== data.sensorsInfo.length) {
+        const addedOrRemovedSensorsInformation = await instance.getSensorsInformation();
+
+        scheduler.recordRequests(1);
+
+        if (addedOrRemovedSensorsInformation.success) {
+          const { sensors } = addedOrRemovedSensorsInformation.info;
 
-        // Set orb security buttons into memory.
-        this.#state.data.orbSecurityButtons = info;
+          // Set sensors information into memory.
+          data.sensorsInfo = sensors;
+          isSensorsInfoFresh = true;
+        }
       }
 
+      // Classify the alarms, so accessories can tell a fire alarm apart from a burglary.
+      data.panelAlarms = (data.panelStatus !== null) ? classifyPanelAlarms(
+        data.panelStatus.panelStatuses,
+        data.orbSecurityButtons,
+        site.config.options.includes('ignoreSensorProblemStatus'),
+      ) : [];
+
       // Check if device statuses have changed.
-      await this.logStatusChanges(cachedState, this.#state.data);
+      await this.logStatusChanges(site, cachedState, data);
+
+      // Raise or clear the gateway alerts.
+      this.evaluateGatewayAlerts(site);
+
+      // Check if the panel is counting down an exit or entry delay.
+      this.trackPanelTransition(site, cachedState, data);
+
+      // Sync check faster while the panel state is changing, counting down a delay, or sounding an alarm.
+      if (
+        (cachedState.panelStatus !== null && cachedState.panelStatus.rawData.node !== data.panelStatus?.rawData.node)
+        || data.panelTransition !== null
+        || data.panelAlarms.length > 0
+      ) {
+        scheduler.recordActivity();
+      }
+
+      // Publish the changed device statuses to the MQTT broker. The bridge only covers the default site.
+      if (site.networkId === null) {
+        await this.#mqtt?.publishState();
+      }
 
       // Check for unknown sensor actions.
-      await this.unknownInformationDispatcher();
+      await this.unknownInformationDispatcher(site);
 
       // Consolidate devices first, then update them all.
-      await this.unifyDevices();
+      await this.unifyDevices(site, isSensorsInfoFresh);
     } catch (error) {
       this.#log.error('fetchUpdatedInformation() has unexpectedly thrown an error, will continue to fetch.');
       stackTracer('serialize-error', serializeError(error));
@@ -910,6 +1635,7 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
   /**
    * ADT Pulse Platform - Log status changes.
    *
+   * @param {ADTPulsePlatformLogStatusChangesSite}     site     - Site.
    * @param {ADTPulsePlatformLogStatusChangesOldCache} oldCache - Old cache.
    * @param {ADTPulsePlatformLogStatusChangesNewCache} newCache - New cache.
    *
@@ -919,14 +1645,42 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
    *
    * @since 1.0.0
    */
-  private async logStatusChanges(oldCache: ADTPulsePlatformLogStatusChangesOldCache, newCache: ADTPulsePlatformLogStatusChangesNewCache): ADTPulsePlatformLogStatusChangesReturns {
+  private async logStatusChanges(site: ADTPulsePlatformLogStatusChangesSite, oldCache: ADTPulsePlatformLogStatusChangesOldCache, newCache: ADTPulsePlatformLogStatusChangesNewCache): ADTPulsePlatformLogStatusChangesReturns {
+    const siteLabel = ADTPulsePlatform.getSiteLabel(site);
+
+    // The event journal only covers the default site, like the control API and the MQTT bridge.
+    const journal = (site.networkId === null) ? this.#journal : null;
+
     // Fetch gateway information.
     if (oldCache.gatewayInfo !== null && newCache.gatewayInfo !== null) {
       const oldStatus = oldCache.gatewayInfo.status;
       const newStatus = newCache.gatewayInfo.status;
 
       if (oldStatus !== newStatus && oldStatus !== null && newStatus !== null) {
-        this.#log.info(`${chalk.underline('ADT Pulse Gateway')} status changed (old: "${oldStatus}", new: "${newStatus}").`);
+        this.#log.info(`${siteLabel}${chalk.underline('ADT Pulse Gateway')} status changed (old: "${oldStatus}", new: "${newStatus}").`);
+
+        await journal?.record({
+          type: 'gatewayStatus',
+          old: oldStatus,
+          new: newStatus,
+        });
+      }
+
+      const oldCommunication = oldCache.gatewayInfo.communication;
+      const newCommunication = newCache.gatewayInfo.communication;
+      const communicationChanges: ADTPulsePlatformLogStatusChangesCommunicationChanges = [
+        ['primary connection type', oldCommunication.primaryConnectionType, newCommunication.primaryConnectionType],
+        ['broadband connection status', oldCommunication.broadbandConnectionStatus, newCommunication.broadbandConnectionStatus],
+        ['cellular connection status', oldCommunication.cellularConnectionStatus, newCommunication.cellularConnectionStatus],
+        ['cellular signal strength', oldCommunication.cellularSignalStrength, newCommunication.cellularSignalStrength],
+      ];
+
+      for (let i = 0; i < communicationChanges.length; i += 1) {
+        const [label, oldValue, newValue] = communicationChanges[i];
+
+        if (oldValue !== newValue && oldValue !== null && newValue !== null) {
+          this.#log.info(`${siteLabel}${chalk.underline('ADT Pulse Gateway')} ${label} changed (old: "${oldValue}", new: "${newValue}").`);
+        }
       }
     }
 
@@ -936,7 +1690,13 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
       const newStatus = newCache.panelInfo.status;
 
       if (oldStatus !== newStatus && oldStatus !== null && newStatus !== null) {
-        this.#log.info(`${chalk.underline('Security Panel')} status changed (old: "${oldStatus}", new: "${newStatus}").`);
+        this.#log.info(`${siteLabel}${chalk.underline('Security Panel')} status changed (old: "${oldStatus}", new: "${newStatus}").`);
+
+        await journal?.record({
+          type: 'panelStatus',
+          old: oldStatus,
+          new: newStatus,
+        });
       }
     }
 
@@ -948,30 +1708,70 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
       const splitNewStatus = newStatus.split(textOrbTextSummarySections).filter(Boolean).join(' / ');
 
       if (oldStatus !== newStatus) {
-        this.#log.info(`${chalk.underline('Security Panel')} state changed (old: "${splitOldStatus}", new: "${splitNewStatus}").`);
+        this.#log.info(`${siteLabel}${chalk.underline('Security Panel')} state changed (old: "${splitOldStatus}", new: "${splitNewStatus}").`);
+
+        await journal?.record({
+          type: 'panelState',
+          old: splitOldStatus,
+          new: splitNewStatus,
+        });
+      }
+
+      const oldArmValue = condensePanelStates(this.#characteristic, oldCache.panelStatus.panelStates)?.armValue;
+      const newArmValue = condensePanelStates(this.#characteristic, newCache.panelStatus.panelStates)?.armValue;
+      const startedAlarms = newCache.panelAlarms.filter((panelAlarm) => !oldCache.panelAlarms.includes(panelAlarm));
+      const clearedAlarms = oldCache.panelAlarms.filter((panelAlarm) => !newCache.panelAlarms.includes(panelAlarm));
+
+      if (oldArmValue !== undefined && newArmValue !== undefined && oldArmValue !== newArmValue) {
+        this.notifyArmWebhooks(site, oldArmValue, newArmValue);
+      }
+
+      if (startedAlarms.length > 0) {
+        this.notifyWebhooks(site, {
+          type: 'alarmStarted',
+          message: `Security Panel alarm has started (${startedAlarms.join(', ')}).`,
+          alarms: startedAlarms,
+          timestamp: Date.now(),
+        });
+      }
+
+      if (clearedAlarms.length > 0) {
+        this.notifyWebhooks(site, {
+          type: 'alarmCleared',
+          message: `Security Panel alarm has cleared (${clearedAlarms.join(', ')}).`,
+          alarms: clearedAlarms,
+          timestamp: Date.now(),
+        });
       }
     }
 
     // Fetch the sensors information.
     if (
-      this.#config !== null
-      && this.#config.sensors.length > 0 // Only show status changed if user configured sensors.
+      (site.config.sensors.length > 0 || site.config.sensorDiscovery === 'automatic') // Only show status changed if user configured or discovered sensors.
       && oldCache.sensorsInfo.length !== 0
       && newCache.sensorsInfo !== null
     ) {
       if (oldCache.sensorsInfo.length === newCache.sensorsInfo.length) {
         for (let i = 0; i < oldCache.sensorsInfo.length; i += 1) {
           const { name, zone } = oldCache.sensorsInfo[i];
-          const configuredSensor = this.#config.sensors.find((sensor) => sensor.adtName === name && sensor.adtZone === zone);
+          const configuredSensor = this.#accessories.find((accessory) => ADTPulsePlatform.isSiteAccessory(accessory, site) && accessory.context.originalName === name && accessory.context.zone === zone)?.context;
           const oldStatus = oldCache.sensorsInfo[i].status;
           const newStatus = newCache.sensorsInfo[i].status;
 
           if (configuredSensor !== undefined && oldStatus !== newStatus) {
-            this.#log.info(`${chalk.underline(configuredSensor.name)} status changed (old: "${oldStatus}", new: "${newStatus}").`);
+            this.#log.info(`${siteLabel}${chalk.underline(configuredSensor.name)} status changed (old: "${oldStatus}", new: "${newStatus}").`);
+
+            await journal?.record({
+              type: 'sensorStatus',
+              name,
+              zone,
+              old: oldStatus,
+              new: newStatus,
+            });
           }
         }
       } else {
-        this.#log.warn('Changes to sensors information cannot be determined due to length inconsistencies.');
+        this.#log.warn(`${siteLabel}Changes to sensors information cannot be determined due to length inconsistencies.`);
         stackTracer('log-status-changes', {
           old: oldCache.sensorsInfo,
           new: newCache.sensorsInfo,
@@ -979,26 +1779,58 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
       }
     }
 
+    // Sensor states that are reported to the webhooks.
+    const sensorEvents: ADTPulsePlatformLogStatusChangesSensorEvents = [
+      ['Bypassed', 'sensorBypassed', 'been bypassed'],
+      ['Low Battery', 'sensorLowBattery', 'a low battery'],
+      ['Offline', 'sensorOffline', 'gone offline'],
+      ['Tampered', 'sensorTampered', 'been tampered with'],
+    ];
+
     // Fetch the sensors status.
     if (
-      this.#config !== null
-      && this.#config.sensors.length > 0 // Only show status changed if user configured sensors.
+      (site.config.sensors.length > 0 || site.config.sensorDiscovery === 'automatic') // Only show status changed if user configured or discovered sensors.
       && oldCache.sensorsStatus.length !== 0
       && newCache.sensorsStatus !== null
     ) {
       if (oldCache.sensorsStatus.length === newCache.sensorsStatus.length) {
         for (let i = 0; i < oldCache.sensorsStatus.length; i += 1) {
           const { name, zone } = oldCache.sensorsStatus[i];
-          const configuredSensor = this.#config.sensors.find((sensor) => sensor.adtName === name && sensor.adtZone === zone);
+          const configuredSensor = this.#accessories.find((accessory) => ADTPulsePlatform.isSiteAccessory(accessory, site) && accessory.context.originalName === name && accessory.context.zone === zone)?.context;
           const oldStatus = oldCache.sensorsStatus[i].statuses.join(', ');
           const newStatus = newCache.sensorsStatus[i].statuses.join(', ');
 
           if (configuredSensor !== undefined && oldStatus !== newStatus) {
-            this.#log.info(`${chalk.underline(configuredSensor.name)} state changed (old: "${oldStatus}", new: "${newStatus}").`);
+            this.#log.info(`${siteLabel}${chalk.underline(configuredSensor.name)} state changed (old: "${oldStatus}", new: "${newStatus}").`);
+
+            await journal?.record({
+              type: 'sensorState',
+              name,
+              zone,
+              old: oldCache.sensorsStatus[i].statuses,
+              new: newCache.sensorsStatus[i].statuses,
+            });
+
+            for (let j = 0; j < sensorEvents.length; j += 1) {
+              const [statusText, eventType, description] = sensorEvents[j];
+
+              // Only notify when the sensor has just entered the state.
+              if (!oldCache.sensorsStatus[i].statuses.includes(statusText) && newCache.sensorsStatus[i].statuses.includes(statusText)) {
+                this.notifyWebhooks(site, {
+                  type: eventType,
+                  message: `${configuredSensor.name} has ${description}.`,
+                  sensor: {
+                    name: configuredSensor.name,
+                    zone,
+                  },
+                  timestamp: Date.now(),
+                });
+              }
+            }
           }
         }
       } else {
-        this.#log.warn('Changes to sensors status cannot be determined due to length inconsistencies.');
+        this.#log.warn(`${siteLabel}Changes to sensors status cannot be determined due to length inconsistencies.`);
         stackTracer('log-status-changes', {
           old: oldCache.sensorsStatus,
           new: newCache.sensorsStatus,
@@ -1007,17 +1839,304 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
     }
   }
 
+  /**
+   * ADT Pulse Platform - Notify arm webhooks.
+   *
+   * @param {ADTPulsePlatformNotifyArmWebhooksSite}    site    - Site.
+   * @param {ADTPulsePlatformNotifyArmWebhooksArmFrom} armFrom - Arm from.
+   * @param {ADTPulsePlatformNotifyArmWebhooksArmTo}   armTo   - Arm to.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformNotifyArmWebhooksReturns}
+   *
+   * @since 3.3.0
+   */
+  private notifyArmWebhooks(site: ADTPulsePlatformNotifyArmWebhooksSite, armFrom: ADTPulsePlatformNotifyArmWebhooksArmFrom, armTo: ADTPulsePlatformNotifyArmWebhooksArmTo): ADTPulsePlatformNotifyArmWebhooksReturns {
+    const timestamp = Date.now();
+
+    if (this.#webhooks === null) {
+      return;
+    }
+
+    // Running an IIFE, to internalize async context. Do not await, looking up the initiator shall run at its own pace.
+    (async () => {
+      const initiator = await this.getArmInitiator(site, armTo, timestamp);
+
+      this.notifyWebhooks(site, {
+        type: (armTo === 'off') ? 'disarmed' : 'armed',
+        message: `Security Panel has been ${(armTo === 'off') ? 'disarmed' : `armed (${armTo})`}${(initiator !== null) ? ` by ${initiator}` : ''}.`,
+        armFrom,
+        armTo,
+        initiator,
+        timestamp,
+      });
+    })();
+  }
+
+  /**
+   * ADT Pulse Platform - Get arm initiator.
+   *
+   * @param {ADTPulsePlatformGetArmInitiatorSite}      site      - Site.
+   * @param {ADTPulsePlatformGetArmInitiatorArmTo}     armTo     - Arm to.
+   * @param {ADTPulsePlatformGetArmInitiatorChangedAt} changedAt - Changed at.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformGetArmInitiatorReturns}
+   *
+   * @since 3.3.0
+   */
+  private async getArmInitiator(site: ADTPulsePlatformGetArmInitiatorSite, armTo: ADTPulsePlatformGetArmInitiatorArmTo, changedAt: ADTPulsePlatformGetArmInitiatorChangedAt): ADTPulsePlatformGetArmInitiatorReturns {
+    // The event journal only covers the default site, like the control API and the MQTT bridge.
+    if (site.networkId !== null) {
+      return null;
+    }
+
+    // Arm requests are recorded once the portal responds, which may be after the sync has already seen the change.
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      if (attempt > 0) {
+        await sleep(5000); // 5 seconds.
+      }
+
+      const entries = await this.#journal.query({
+        since: changedAt - 120000, // 2 minutes.
+        types: ['armRequest'],
+      });
+
+      // The latest request for the same arm state is the initiator.
+      for (let i = entries.length - 1; i >= 0; i -= 1) {
+        const entry = entries[i];
+
+        if (entry.type === 'armRequest' && entry.armTo === armTo) {
+          return entry.source;
+        }
+      }
+    }
+
+    // Anything else (e.g. the keypad or the ADT Pulse app) is unknown.
+    return null;
+  }
+
+  /**
+   * ADT Pulse Platform - Notify webhooks.
+   *
+   * @param {ADTPulsePlatformNotifyWebhooksSite}  site  - Site.
+   * @param {ADTPulsePlatformNotifyWebhooksEvent} event - Event.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformNotifyWebhooksReturns}
+   *
+   * @since 3.3.0
+   */
+  private notifyWebhooks(site: ADTPulsePlatformNotifyWebhooksSite, event: ADTPulsePlatformNotifyWebhooksEvent): ADTPulsePlatformNotifyWebhooksReturns {
+    const webhooks = this.#webhooks;
+
+    if (webhooks === null) {
+      return;
+    }
+
+    // Running an IIFE, to internalize async context. Do not await, retries shall run at their own pace.
+    (async () => {
+      await webhooks.notify({
+        ...event,
+        site: site.name,
+        networkId: site.networkId,
+      });
+    })();
+  }
+
+  /**
+   * ADT Pulse Platform - Evaluate gateway alerts.
+   *
+   * @param {ADTPulsePlatformEvaluateGatewayAlertsSite} site - Site.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformEvaluateGatewayAlertsReturns}
+   *
+   * @since 3.3.0
+   */
+  private evaluateGatewayAlerts(site: ADTPulsePlatformEvaluateGatewayAlertsSite): ADTPulsePlatformEvaluateGatewayAlertsReturns {
+    const { alerts, data } = site;
+
+    // If gateway information has not been retrieved yet.
+    if (data.gatewayInfo === null) {
+      return;
+    }
+
+    const { communication, status, update } = data.gatewayInfo;
+    const changes = alerts.evaluate(data.gatewayInfo);
+
+    // The active alerts are kept with the data, so the gateway accessory can report them as a fault.
+    data.gatewayAlerts = alerts.getActiveAlerts();
+
+    changes.forEach((change) => {
+      this.notifyWebhooks(site, {
+        type: (change.state === 'raised') ? 'gatewayAlertRaised' : 'gatewayAlertCleared',
+        message: change.message,
+        timestamp: Date.now(),
+        gateway: {
+          communication,
+          status,
+          update,
+        },
+        gatewayAlert: change.type,
+      });
+    });
+  }
+
+  /**
+   * ADT Pulse Platform - Expire panel transition.
+   *
+   * @param {ADTPulsePlatformExpirePanelTransitionSite} site - Site.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformExpirePanelTransitionReturns}
+   *
+   * @since 3.3.0
+   */
+  private async expirePanelTransition(site: ADTPulsePlatformExpirePanelTransitionSite): ADTPulsePlatformExpirePanelTransitionReturns {
+    const { data } = site;
+    const { panelTransition } = data;
+
+    // Transitions without a configured delay end once the portal stops reporting them.
+    if (panelTransition === null || panelTransition.endsAt === null || Date.now() < panelTransition.endsAt) {
+      return;
+    }
+
+    // The portal is still counting down the exit delay, so wait for it instead.
+    if (
+      panelTransition.type === 'arming'
+      && data.panelStatus !== null
+      && isPanelTransitioning(data.panelStatus.panelNotes, data.orbSecurityButtons)
+    ) {
+      return;
+    }
+
+    this.#log.info(`${ADTPulsePlatform.getSiteLabel(site)}${chalk.underline('Security Panel')} is no longer counting down the ${(panelTransition.type === 'arming') ? 'exit' : 'entry'} delay.`);
+
+    data.panelTransition = null;
+
+    // Publish the panel state to the MQTT broker. The bridge only covers the default site.
+    if (site.networkId === null) {
+      await this.#mqtt?.publishState();
+    }
+
+    // Push the panel state to the accessories. The sensor list was not retrieved again.
+    await this.unifyDevices(site, false);
+  }
+
+  /**
+   * ADT Pulse Platform - Track panel transition.
+   *
+   * @param {ADTPulsePlatformTrackPanelTransitionSite}     site     - Site.
+   * @param {ADTPulsePlatformTrackPanelTransitionOldCache} oldCache - Old cache.
+   * @param {ADTPulsePlatformTrackPanelTransitionNewCache} newCache - New cache.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformTrackPanelTransitionReturns}
+   *
+   * @since 3.3.0
+   */
+  private trackPanelTransition(site: ADTPulsePlatformTrackPanelTransitionSite, oldCache: ADTPulsePlatformTrackPanelTransitionOldCache, newCache: ADTPulsePlatformTrackPanelTransitionNewCache): ADTPulsePlatformTrackPanelTransitionReturns {
+    if (oldCache.panelStatus === null || newCache.panelStatus === null) {
+      return;
+    }
+
+    const { config, data } = site;
+    const { panelTransition } = data;
+    const { panelNotes, panelStates, panelStatuses } = newCache.panelStatus;
+    const exitDelay = config.exitDelay ?? 0;
+    const entryDelay = config.entryDelay ?? 0;
+    const now = Date.now();
+    const isAlarmActive = isPanelAlarmActive(
+      panelStatuses,
+      newCache.orbSecurityButtons,
+      config.options.includes('ignoreSensorProblemStatus'),
+    );
+    const isArmed = panelStates.includes('Armed Away') || panelStates.includes('Armed Night') || panelStates.includes('Armed Stay');
+    const isTransitioning = isPanelTransitioning(panelNotes, newCache.orbSecurityButtons);
+    const wasDisarmed = oldCache.panelStatus.panelStates.includes('Disarmed');
+
+    // End the transition once the portal stops reporting it and the configured delay has elapsed.
+    if (panelTransition !== null) {
+      const hasElapsed = panelTransition.endsAt === null || now >= panelTransition.endsAt;
+
+      if (
+        isAlarmActive
+        || (panelTransition.type === 'arming' && !isTransitioning && (hasElapsed || !isArmed))
+        || (panelTransition.type === 'pending' && (hasElapsed || !isArmed))
+      ) {
+        this.#log.info(`${ADTPulsePlatform.getSiteLabel(site)}${chalk.underline('Security Panel')} is no longer counting down the ${(panelTransition.type === 'arming') ? 'exit' : 'entry'} delay.`);
+
+        data.panelTransition = null;
+      }
+
+      return;
+    }
+
+    // Exit delay. Either the portal reports it, or the panel just armed while an exit delay is configured.
+    if (!isAlarmActive && (isTransitioning || (exitDelay > 0 && wasDisarmed && isArmed))) {
+      data.panelTransition = {
+        endsAt: (exitDelay > 0) ? now + (exitDelay * 1000) : null,
+        previousPanelStates: oldCache.panelStatus.panelStates,
+        type: 'arming',
+      };
+
+      this.#log.info(`${ADTPulsePlatform.getSiteLabel(site)}${chalk.underline('Security Panel')} is counting down the exit delay${(exitDelay > 0) ? ` (${exitDelay} ${getPluralForm(exitDelay, 'second', 'seconds')})` : ''}.`);
+
+      return;
+    }
+
+    // Entry delay. An entry door opened while the panel is armed, and the panel has not been armed with "No Entry Delay".
+    if (entryDelay === 0 || !isArmed || isAlarmActive || panelStates.includes('No Entry Delay')) {
+      return;
+    }
+
+    const hasOpenedEntryDoor = newCache.sensorsInfo.some((sensorInfo) => {
+      const { name, zone } = sensorInfo;
+
+      // The sensors information and status come from different pages, so they are matched by name and zone instead of position.
+      const oldSensorStatus = oldCache.sensorsStatus.find((sensorStatus) => sensorStatus.name === name && sensorStatus.zone === zone);
+      const newSensorStatus = newCache.sensorsStatus.find((sensorStatus) => sensorStatus.name === name && sensorStatus.zone === zone);
+
+      return (
+        condenseSensorType(sensorInfo.deviceType) === 'doorWindow'
+        && oldSensorStatus !== undefined
+        && newSensorStatus !== undefined
+        && !oldSensorStatus.statuses.includes('Open')
+        && newSensorStatus.statuses.includes('Open')
+      );
+    });
+
+    if (hasOpenedEntryDoor) {
+      data.panelTransition = {
+        endsAt: now + (entryDelay * 1000),
+        previousPanelStates: panelStates,
+        type: 'pending',
+      };
+
+      this.#log.info(`${ADTPulsePlatform.getSiteLabel(site)}${chalk.underline('Security Panel')} is counting down the entry delay (${entryDelay} ${getPluralForm(entryDelay, 'second', 'seconds')}).`);
+    }
+  }
+
   /**
    * ADT Pulse Platform - Unknown information dispatcher.
    *
+   * @param {ADTPulsePlatformUnknownInformationDispatcherSite} site - Site.
+   *
    * @private
    *
    * @returns {ADTPulsePlatformUnknownInformationDispatcherReturns}
    *
    * @since 1.0.0
    */
-  private async unknownInformationDispatcher(): ADTPulsePlatformUnknownInformationDispatcherReturns {
-    const { sensorsInfo, sensorsStatus } = this.#state.data;
+  private async unknownInformationDispatcher(site: ADTPulsePlatformUnknownInformationDispatcherSite): ADTPulsePlatformUnknownInformationDispatcherReturns {
+    const { sensorsInfo, sensorsStatus } = site.data;
 
     if (
       sensorsInfo.length !== sensorsStatus.length // Check if there was a mismatch between the "sensorsInfo" and "sensorsStatus" array.
@@ -1067,24 +2186,32 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
   /**
    * ADT Pulse Platform - Unify devices.
    *
+   * @param {ADTPulsePlatformUnifyDevicesSite}               site               - Site.
+   * @param {ADTPulsePlatformUnifyDevicesIsSensorsInfoFresh} isSensorsInfoFresh - Is sensors info fresh.
+   *
    * @private
    *
    * @returns {ADTPulsePlatformUnifyDevicesReturns}
    *
    * @since 1.0.0
    */
-  private async unifyDevices(): ADTPulsePlatformUnifyDevicesReturns {
-    const { gatewayInfo, panelInfo, sensorsInfo } = this.#state.data;
+  private async unifyDevices(site: ADTPulsePlatformUnifyDevicesSite, isSensorsInfoFresh: ADTPulsePlatformUnifyDevicesIsSensorsInfoFresh): ADTPulsePlatformUnifyDevicesReturns {
+    const { data, eventCounters } = site;
+    const { gatewayInfo, panelInfo, sensorsInfo } = data;
 
     const devices: ADTPulsePlatformUnifyDevicesDevices = [];
 
+    // Devices of additional sites get their own ids (and UUIDs), and their names are prefixed with the site name.
+    const idSuffix = (site.networkId !== null) ? `-site-${site.networkId}` : '';
+    const namePrefix = (site.name !== null) ? `${site.name} ` : '';
+
     // Add gateway as an accessory.
     if (gatewayInfo !== null) {
-      const id = 'adt-device-0';
+      const id = `adt-device-0${idSuffix}` as ADTPulsePlatformUnifyDevicesId;
 
       devices.push({
         id,
-        name: 'Gateway',
+        name: `${namePrefix}Gateway`,
         originalName: 'Gateway',
         type: 'gateway',
         zone: null,
@@ -1096,17 +2223,18 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
         hardware: gatewayInfo.versions.hardware,
         software: getPackageVersion(),
         uuid: this.#api.hap.uuid.generate(id),
+        networkId: site.networkId,
       });
     }
 
     // Add security panel as an accessory.
     if (panelInfo !== null) {
-      const idPanel = 'adt-device-1';
-      const idSwitch = 'adt-device-1-switch';
+      const idPanel = `adt-device-1${idSuffix}` as ADTPulsePlatformUnifyDevicesId;
+      const idSwitch = `adt-device-1-switch${idSuffix}` as ADTPulsePlatformUnifyDevicesId;
 
       devices.push({
         id: idPanel,
-        name: 'Security Panel',
+        name: `${namePrefix}Security Panel`,
         originalName: 'Security Panel',
         type: 'panel',
         zone: null,
@@ -1118,13 +2246,14 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
         hardware: null,
         software: getPackageVersion(),
         uuid: this.#api.hap.uuid.generate(idPanel),
+        networkId: site.networkId,
       });
 
       // A separate switch designed to turn off ringing alarm (originally designed to be used in "Disarmed" state).
-      if (this.#config !== null && !this.#config.options.includes('disableAlarmRingingSwitch')) {
+      if (!site.config.options.includes('disableAlarmRingingSwitch')) {
         devices.push({
           id: idSwitch,
-          name: 'Alarm Ringing',
+          name: `${namePrefix}Alarm Ringing`,
           originalName: 'Alarm Ringing',
           type: 'panelSwitch',
           zone: null,
@@ -1136,19 +2265,23 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
           hardware: null,
           software: getPackageVersion(),
           uuid: this.#api.hap.uuid.generate(idSwitch),
+          networkId: site.networkId,
         });
       }
     }
 
+    // In "automatic" discovery, every supported sensor on the portal is added.
+    const sensors: ADTPulsePlatformUnifyDevicesSensors = (site.config.sensorDiscovery === 'automatic') ? ADTPulsePlatform.discoverSensors(site) : site.config.sensors;
+
     // Add sensors as an accessory.
-    if (this.#config !== null && sensorsInfo !== null) {
-      for (let i = 0; i < this.#config.sensors.length; i += 1) {
+    if (sensorsInfo !== null) {
+      for (let i = 0; i < sensors.length; i += 1) {
         const {
           adtName,
           adtType,
           adtZone,
           name,
-        } = this.#config.sensors[i];
+        } = sensors[i];
 
         const sensor = sensorsInfo.find((sensorInfo) => {
           const sensorInfoName = sensorInfo.name;
@@ -1164,12 +2297,12 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
 
         // If sensor was not found, it could be that the config was wrong.
         if (sensor === undefined) {
-          this.#log.warn(`Attempted to add or update ${chalk.underline(name)} (adtName: ${adtName}, adtType: ${adtType}, adtZone: ${adtZone}) accessory that does not exist on the portal.`);
+          this.#log.warn(`${ADTPulsePlatform.getSiteLabel(site)}Attempted to add or update ${chalk.underline(name)} (adtName: ${adtName}, adtType: ${adtType}, adtZone: ${adtZone}) accessory that does not exist on the portal.`);
 
           continue;
         }
 
-        const id = `adt-device-${sensor.deviceId}` as ADTPulsePlatformUnifyDevicesId;
+        const id = `adt-device-${sensor.deviceId}${idSuffix}` as ADTPulsePlatformUnifyDevicesId;
 
         devices.push({
           id,
@@ -1185,42 +2318,144 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
           hardware: null,
           software: getPackageVersion(),
           uuid: this.#api.hap.uuid.generate(id),
+          networkId: site.networkId,
         });
       }
     }
 
+    // Remove accessories of sites that were removed from config. Only checked while unifying the default site.
+    if (site.networkId === null) {
+      const orphanedAccessories = this.#accessories.filter((accessory) => !this.#sites.some((existingSite) => ADTPulsePlatform.isSiteAccessory(accessory, existingSite)));
+
+      for (let i = 0; i < orphanedAccessories.length; i += 1) {
+        this.removeAccessory(orphanedAccessories[i], 'site is missing in config');
+      }
+    }
+
     // Check if accessories were removed from config.
-    if (this.#config !== null) {
-      const { options, sensors } = this.#config;
+    const { options, sensorDiscovery } = site.config;
+    const missingSensors = this.#accessories.filter((accessory) => {
+      const { originalName, type, zone } = accessory.context;
+
+      return (
+        ADTPulsePlatform.isSiteAccessory(accessory, site)
+        && type !== 'gateway'
+        && type !== 'panel'
+        && type !== 'panelSwitch'
+        && !sensors.some((sensor) => originalName === sensor.adtName && zone !== null && zone === sensor.adtZone)
+      );
+    });
 
-      for (let i = this.#accessories.length - 1; i >= 0; i -= 1) {
-        const { originalName, type, zone } = this.#accessories[i].context;
+    let isSensorRemovalAllowed = true;
 
-        // Remove the "panelSwitch" since the user disabled it.
-        if (type === 'panelSwitch' && options.includes('disableAlarmRingingSwitch')) {
-          this.removeAccessory(this.#accessories[i], 'user disabled this feature');
-        }
+    // Discovered sensors are only removed after they have been missing for several syncs in a row.
+    if (sensorDiscovery === 'automatic') {
+      if (missingSensors.length === 0) {
+        eventCounters.missingSensorsSyncs = 0;
+      } else if (sensorsInfo.length === 0) {
+        isSensorRemovalAllowed = false;
 
-        // If current accessory is a "gateway", "panel", or "panelSwitch", skip check.
-        if (type === 'gateway' || type === 'panel' || type === 'panelSwitch') {
-          continue;
-        }
+        this.#log.warn(`${ADTPulsePlatform.getSiteLabel(site)}Portal returned no sensors. Keeping ${missingSensors.length} discovered ${getPluralForm(missingSensors.length, 'sensor', 'sensors')} until the portal responds with a sensor list.`);
+      } else if (!isSensorsInfoFresh) {
+        // Gateway check-ins and summary refreshes reuse the last sensor list, so they do not count as another sync.
+        isSensorRemovalAllowed = false;
+      } else {
+        eventCounters.missingSensorsSyncs += 1;
 
-        // If current accessory is not listed in the "sensors" config, remove it.
-        if (!sensors.some((sensor) => originalName === sensor.adtName && zone !== null && zone === sensor.adtZone)) {
-          this.removeAccessory(this.#accessories[i], 'accessory is missing in config');
+        if (eventCounters.missingSensorsSyncs < this.#constants.maxMissingSensorsSyncs) {
+          const syncsLeft = this.#constants.maxMissingSensorsSyncs - eventCounters.missingSensorsSyncs;
+
+          isSensorRemovalAllowed = false;
+
+          this.#log.warn(`${ADTPulsePlatform.getSiteLabel(site)}${missingSensors.length} discovered ${getPluralForm(missingSensors.length, 'sensor is', 'sensors are')} missing from the portal. ${getPluralForm(missingSensors.length, 'It', 'They')} will be removed if still missing after ${syncsLeft} more ${getPluralForm(syncsLeft, 'sync', 'syncs')}.`);
+        } else {
+          eventCounters.missingSensorsSyncs = 0;
         }
       }
     }
 
+    for (let i = this.#accessories.length - 1; i >= 0; i -= 1) {
+      const { type } = this.#accessories[i].context;
+
+      // Accessories of other sites are checked when their own site is unified.
+      if (!ADTPulsePlatform.isSiteAccessory(this.#accessories[i], site)) {
+        continue;
+      }
+
+      // Remove the "panelSwitch" since the user disabled it.
+      if (type === 'panelSwitch' && options.includes('disableAlarmRingingSwitch')) {
+        this.removeAccessory(this.#accessories[i], 'user disabled this feature');
+      }
+
+      // If current accessory is a "gateway", "panel", or "panelSwitch", skip check.
+      if (type === 'gateway' || type === 'panel' || type === 'panelSwitch') {
+        continue;
+      }
+
+      // If current accessory is not listed in the "sensors" config (or was not discovered), remove it.
+      if (isSensorRemovalAllowed && missingSensors.includes(this.#accessories[i])) {
+        this.removeAccessory(this.#accessories[i], (sensorDiscovery === 'automatic') ? 'accessory is missing on the portal' : 'accessory is missing in config');
+      }
+    }
+
     // Now poll the accessories using the generated devices.
-    await this.pollAccessories(devices);
+    await this.pollAccessories(devices, site);
+  }
+
+  /**
+   * ADT Pulse Platform - Discover sensors.
+   *
+   * @param {ADTPulsePlatformDiscoverSensorsSite} site - Site.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformDiscoverSensorsReturns}
+   *
+   * @since 3.3.0
+   */
+  private static discoverSensors(site: ADTPulsePlatformDiscoverSensorsSite): ADTPulsePlatformDiscoverSensorsReturns {
+    const configuredSensors = site.config.sensors;
+    const discoveredSensors: ADTPulsePlatformDiscoverSensorsReturns = [];
+
+    for (let i = 0; i < site.data.sensorsInfo.length; i += 1) {
+      const { deviceType, name, zone } = site.data.sensorsInfo[i];
+      const type = condenseSensorType(deviceType);
+
+      // Unsupported device types and zones cannot be added as accessories.
+      if (type === undefined || zone < 1 || zone > 99) {
+        continue;
+      }
+
+      // Configured sensors may still provide a display name for discovered sensors.
+      const configuredSensor = configuredSensors.find((sensor) => sensor.adtName === name && sensor.adtType === type && sensor.adtZone === zone);
+
+      discoveredSensors.push({
+        name: configuredSensor?.name,
+        adtName: name,
+        adtType: type,
+        adtZone: zone,
+        bypassPolicy: configuredSensor?.bypassPolicy,
+      });
+    }
+
+    // Configured sensors not found on the portal are kept, so they are reported during unification.
+    const missingSensors = configuredSensors.filter((configuredSensor) => !discoveredSensors.some((discoveredSensor) => (
+      discoveredSensor.adtName === configuredSensor.adtName
+      && discoveredSensor.adtType === configuredSensor.adtType
+      && discoveredSensor.adtZone === configuredSensor.adtZone
+    )));
+
+    return [
+      ...discoveredSensors,
+      ...missingSensors,
+    ];
   }
 
   /**
    * ADT Pulse Platform - Poll accessories.
    *
    * @param {ADTPulsePlatformPollAccessoriesDevices} devices - Devices.
+   * @param {ADTPulsePlatformPollAccessoriesSite}    site    - Site.
    *
    * @private
    *
@@ -1228,16 +2463,48 @@ export class ADTPulsePlatform implements ADTPulsePlatformPlugin {
    *
    * @since 1.0.0
    */
-  private async pollAccessories(devices: ADTPulsePlatformPollAccessoriesDevices): ADTPulsePlatformPollAccessoriesReturns {
+  private async pollAccessories(devices: ADTPulsePlatformPollAccessoriesDevices, site: ADTPulsePlatformPollAccessoriesSite): ADTPulsePlatformPollAccessoriesReturns {
     for (let i = 0; i < devices.length; i += 1) {
       const accessoryIndex = this.#accessories.findIndex((accessory) => devices[i].uuid === accessory.context.uuid);
 
       // Update the device if accessory is cached, otherwise add it as a new device.
       if (accessoryIndex >= 0) {
-        this.updateAccessory(devices[i]);
+        this.updateAccessory(devices[i], site);
       } else {
-        this.addAccessory(devices[i]);
+        this.addAccessory(devices[i], site);
       }
     }
   }
+
+  /**
+   * ADT Pulse Platform - Is site accessory.
+   *
+   * @param {ADTPulsePlatformIsSiteAccessoryAccessory} accessory - Accessory.
+   * @param {ADTPulsePlatformIsSiteAccessorySite}      site      - Site.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformIsSiteAccessoryReturns}
+   *
+   * @since 3.3.0
+   */
+  private static isSiteAccessory(accessory: ADTPulsePlatformIsSiteAccessoryAccessory, site: ADTPulsePlatformIsSiteAccessorySite): ADTPulsePlatformIsSiteAccessoryReturns {
+    // Accessories cached before sites were supported do not have a network id, and belong to the default site.
+    return (accessory.context.networkId ?? null) === site.networkId;
+  }
+
+  /**
+   * ADT Pulse Platform - Get site label.
+   *
+   * @param {ADTPulsePlatformGetSiteLabelSite} site - Site.
+   *
+   * @private
+   *
+   * @returns {ADTPulsePlatformGetSiteLabelReturns}
+   *
+   * @since 3.3.0
+   */
+  private static getSiteLabel(site: ADTPulsePlatformGetSiteLabelSite): ADTPulsePlatformGetSiteLabelReturns {
+    return (site.name !== null) ? `[${site.name}] ` : '';
+  }
 }
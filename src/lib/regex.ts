@@ -96,6 +96,13 @@ export const requestPathKeepAlive = /^(\/myhome\/)([0-9.-]+)(\/KeepAlive)$/;
  */
 export const requestPathMfaMfaSignInWorkflowChallenge = /^(\/myhome\/)([0-9.-]+)(\/mfa\/mfaSignIn\.jsp\?workflow=challenge)$/;
 
+/**
+ * Request path portal version prefix.
+ *
+ * @since 3.3.0
+ */
+export const requestPathPortalVersionPrefix = /^\/myhome\/[0-9.-]+\//;
+
 /**
  * Request path quick control arm disarm.
  *
@@ -117,6 +124,13 @@ export const requestPathQuickControlServRunRraCommand = /^(\/myhome\/)([0-9.-]+)
  */
 export const requestPathSummarySummary = /^(\/myhome\/)([0-9.-]+)(\/summary\/summary\.jsp)$/;
 
+/**
+ * Request path summary summary network id xx.
+ *
+ * @since 3.3.0
+ */
+export const requestPathSummarySummaryNetworkIdXx = /^(\/myhome\/)([0-9.-]+)(\/summary\/summary\.jsp)(\?networkid=[a-z0-9]+)$/;
+
 /**
  * Request path system device id 1.
  *
@@ -138,6 +152,13 @@ export const requestPathSystemGateway = /^(\/myhome\/)([0-9.-]+)(\/system\/gatew
  */
 export const requestPathSystemSystem = /^(\/myhome\/)([0-9.-]+)(\/system\/system\.jsp)$/;
 
+/**
+ * Text cellular signal strength.
+ *
+ * @since 3.3.0
+ */
+export const textCellularSignalStrength = /^(\d+) Bars?$/;
+
 /**
  * Text orb sensor zone.
  *
@@ -166,9 +187,30 @@ export const textPanelEmergencyKeys = /([A-Za-z0-9]+: [A-Za-z0-9 ]+? \(Zone \d+\
  */
 export const textPanelTypeModel = /(.+) - (.+)/;
 
+/**
+ * Text portal date time numeric.
+ *
+ * @since 3.3.0
+ */
+export const textPortalDateTimeNumeric = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4}),? (\d{1,2}):(\d{2})(?::(\d{2}))? ?([AP]M)?$/i;
+
+/**
+ * Text portal date time relative.
+ *
+ * @since 3.3.0
+ */
+export const textPortalDateTimeRelative = /^(Today|Yesterday|Tomorrow),? (\d{1,2}):(\d{2})(?::(\d{2}))? ?([AP]M)?$/i;
+
 /**
  * Text sync code.
  *
  * @since 1.0.0
  */
 export const textSyncCode = /^[0-9]+-[0-9]+-[0-9]+$/;
+
+/**
+ * Text webhook placeholder.
+ *
+ * @since 3.3.0
+ */
+export const textWebhookPlaceholder = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
@@ -0,0 +1,274 @@
+import type {
+  ADTPulseSchedulerConfig,
+  ADTPulseSchedulerConstants,
+  ADTPulseSchedulerConstructorConfig,
+  ADTPulseSchedulerConstructorLog,
+  ADTPulseSchedulerConstructorName,
+  ADTPulseSchedulerGetSyncCheckIntervalReturns,
+  ADTPulseSchedulerIsSyncCheckDueLastRunOn,
+  ADTPulseSchedulerIsSyncCheckDueReturns,
+  ADTPulseSchedulerIsWithinBudgetReturns,
+  ADTPulseSchedulerLog,
+  ADTPulseSchedulerName,
+  ADTPulseSchedulerRecordActivityReturns,
+  ADTPulseSchedulerRecordChangeReturns,
+  ADTPulseSchedulerRecordConnectionFailureReturns,
+  ADTPulseSchedulerRecordConnectionSuccessReturns,
+  ADTPulseSchedulerRecordRequestsCount,
+  ADTPulseSchedulerRecordRequestsReturns,
+  ADTPulseSchedulerState,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Scheduler.
+ *
+ * Decides how often a site is sync checked. Sync checks run faster right after
+ * the panel changes or while an alarm is sounding, slow down after a long
+ * quiet period, and back off exponentially while the portal keeps timing out
+ * or resetting the connection. If a request budget is configured, sync checks
+ * are spread out and paused so the budget is never exceeded within an hour.
+ *
+ * @since 3.3.0
+ */
+export class ADTPulseScheduler {
+  /**
+   * ADT Pulse Scheduler - Config.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #config: ADTPulseSchedulerConfig;
+
+  /**
+   * ADT Pulse Scheduler - Constants.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #constants: ADTPulseSchedulerConstants;
+
+  /**
+   * ADT Pulse Scheduler - Log.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #log: ADTPulseSchedulerLog;
+
+  /**
+   * ADT Pulse Scheduler - Name.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #name: ADTPulseSchedulerName;
+
+  /**
+   * ADT Pulse Scheduler - State.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #state: ADTPulseSchedulerState;
+
+  /**
+   * ADT Pulse Scheduler - Constructor.
+   *
+   * @param {ADTPulseSchedulerConstructorConfig} config - Config.
+   * @param {ADTPulseSchedulerConstructorName}   name   - Name.
+   * @param {ADTPulseSchedulerConstructorLog}    log    - Log.
+   *
+   * @since 3.3.0
+   */
+  public constructor(config: ADTPulseSchedulerConstructorConfig, name: ADTPulseSchedulerConstructorName, log: ADTPulseSchedulerConstructorLog) {
+    this.#config = config;
+    this.#constants = {
+      activeDuration: 120000, // 2 minutes.
+      budgetWindow: 3600000, // 1 hour.
+      intervals: {
+        active: 1000, // 1 second.
+        maxBackoff: 300000, // 5 minutes.
+        normal: 3000, // 3 seconds.
+        quiet: 10000, // 10 seconds.
+      },
+      quietAfter: 900000, // 15 minutes.
+    };
+    this.#log = log;
+    this.#name = name;
+    this.#state = {
+      connectionFailures: 0,
+      isBudgetExhausted: false,
+      lastActivityOn: 0, // January 1, 1970, at 00:00:00 UTC.
+      lastChangeOn: Date.now(),
+      requests: [],
+    };
+  }
+
+  /**
+   * ADT Pulse Scheduler - Is sync check due.
+   *
+   * @param {ADTPulseSchedulerIsSyncCheckDueLastRunOn} lastRunOn - Last run on.
+   *
+   * @returns {ADTPulseSchedulerIsSyncCheckDueReturns}
+   *
+   * @since 3.3.0
+   */
+  public isSyncCheckDue(lastRunOn: ADTPulseSchedulerIsSyncCheckDueLastRunOn): ADTPulseSchedulerIsSyncCheckDueReturns {
+    if (Date.now() - lastRunOn < this.getSyncCheckInterval()) {
+      return false;
+    }
+
+    return this.isWithinBudget();
+  }
+
+  /**
+   * ADT Pulse Scheduler - Get sync check interval.
+   *
+   * @returns {ADTPulseSchedulerGetSyncCheckIntervalReturns}
+   *
+   * @since 3.3.0
+   */
+  public getSyncCheckInterval(): ADTPulseSchedulerGetSyncCheckIntervalReturns {
+    const { intervals } = this.#constants;
+    const currentTimestamp = Date.now();
+
+    let interval = intervals.normal;
+
+    if (this.#state.connectionFailures > 0) {
+      // Formula: Backoff = Normal Interval * 2 ^ Consecutive Failures.
+      interval = Math.min(intervals.normal * (2 ** this.#state.connectionFailures), intervals.maxBackoff);
+    } else if (currentTimestamp - this.#state.lastActivityOn < this.#constants.activeDuration) {
+      interval = intervals.active;
+    } else if (currentTimestamp - this.#state.lastChangeOn >= this.#constants.quietAfter) {
+      // Formula: New Time = Original Time * (1 / Speed).
+      interval = intervals.quiet * (1 / this.#config.speed);
+    } else {
+      // Formula: New Time = Original Time * (1 / Speed).
+      interval = intervals.normal * (1 / this.#config.speed);
+    }
+
+    // Spread the sync checks evenly across the hour, so the budget does not run out early.
+    if (this.#config.requestBudget !== undefined) {
+      interval = Math.max(interval, this.#constants.budgetWindow / this.#config.requestBudget);
+    }
+
+    return interval;
+  }
+
+  /**
+   * ADT Pulse Scheduler - Record activity.
+   *
+   * @returns {ADTPulseSchedulerRecordActivityReturns}
+   *
+   * @since 3.3.0
+   */
+  public recordActivity(): ADTPulseSchedulerRecordActivityReturns {
+    const currentTimestamp = Date.now();
+
+    this.#state.lastActivityOn = currentTimestamp;
+    this.#state.lastChangeOn = currentTimestamp;
+  }
+
+  /**
+   * ADT Pulse Scheduler - Record change.
+   *
+   * @returns {ADTPulseSchedulerRecordChangeReturns}
+   *
+   * @since 3.3.0
+   */
+  public recordChange(): ADTPulseSchedulerRecordChangeReturns {
+    this.#state.lastChangeOn = Date.now();
+  }
+
+  /**
+   * ADT Pulse Scheduler - Record connection failure.
+   *
+   * @returns {ADTPulseSchedulerRecordConnectionFailureReturns}
+   *
+   * @since 3.3.0
+   */
+  public recordConnectionFailure(): ADTPulseSchedulerRecordConnectionFailureReturns {
+    this.#state.connectionFailures += 1;
+  }
+
+  /**
+   * ADT Pulse Scheduler - Record connection success.
+   *
+   * @returns {ADTPulseSchedulerRecordConnectionSuccessReturns}
+   *
+   * @since 3.3.0
+   */
+  public recordConnectionSuccess(): ADTPulseSchedulerRecordConnectionSuccessReturns {
+    this.#state.connectionFailures = 0;
+  }
+
+  /**
+   * ADT Pulse Scheduler - Record requests.
+   *
+   * @param {ADTPulseSchedulerRecordRequestsCount} count - Count.
+   *
+   * @returns {ADTPulseSchedulerRecordRequestsReturns}
+   *
+   * @since 3.3.0
+   */
+  public recordRequests(count: ADTPulseSchedulerRecordRequestsCount): ADTPulseSchedulerRecordRequestsReturns {
+    // Requests are only tracked when there is a budget to respect.
+    if (this.#config.requestBudget === undefined) {
+      return;
+    }
+
+    const currentTimestamp = Date.now();
+
+    for (let i = 0; i < count; i += 1) {
+      this.#state.requests.push(currentTimestamp);
+    }
+  }
+
+  /**
+   * ADT Pulse Scheduler - Is within budget.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSchedulerIsWithinBudgetReturns}
+   *
+   * @since 3.3.0
+   */
+  private isWithinBudget(): ADTPulseSchedulerIsWithinBudgetReturns {
+    const { requestBudget } = this.#config;
+
+    if (requestBudget === undefined) {
+      return true;
+    }
+
+    const currentTimestamp = Date.now();
+    const siteLabel = (this.#name !== null) ? `[${this.#name}] ` : '';
+
+    // Forget the requests that have left the budget window.
+    this.#state.requests = this.#state.requests.filter((request) => currentTimestamp - request < this.#constants.budgetWindow);
+
+    if (this.#state.requests.length < requestBudget) {
+      if (this.#state.isBudgetExhausted) {
+        this.#log.info(`${siteLabel}Request budget is available again. Resuming sync checks.`);
+      }
+
+      this.#state.isBudgetExhausted = false;
+
+      return true;
+    }
+
+    if (!this.#state.isBudgetExhausted) {
+      const resumeMinutes = Math.ceil((this.#constants.budgetWindow - (currentTimestamp - this.#state.requests[0])) / 1000 / 60);
+
+      this.#log.warn(`${siteLabel}Request budget of ${requestBudget} requests per hour has been reached. Pausing sync checks for about ${resumeMinutes} minute(s).`);
+    }
+
+    this.#state.isBudgetExhausted = true;
+
+    return false;
+  }
+}
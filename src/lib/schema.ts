@@ -1,5 +1,44 @@
 import z from 'zod';
 
+/**
+ * Platform config sensor.
+ *
+ * @since 3.3.0
+ */
+const platformConfigSensor = z.object({
+  name: z.string().min(1).max(50).optional(),
+  adtName: z.string().min(1).max(100),
+  adtType: z.union([
+    z.literal('co'),
+    z.literal('doorWindow'),
+    z.literal('fire'),
+    z.literal('flood'),
+    z.literal('glass'),
+    z.literal('heat'),
+    z.literal('motion'),
+    z.literal('shock'),
+    z.literal('temperature'),
+  ]),
+  adtZone: z.number().min(1).max(99),
+  bypassPolicy: z.union([
+    z.literal('always'),
+    z.literal('fail'),
+    z.literal('never'),
+  ]).optional(),
+});
+
+/**
+ * Platform config arm mode.
+ *
+ * @since 3.3.0
+ */
+const platformConfigArmMode = z.union([
+  z.literal('away'),
+  z.literal('disabled'),
+  z.literal('night'),
+  z.literal('stay'),
+]);
+
 /**
  * Platform config.
  *
@@ -15,6 +54,13 @@ export const platformConfig = z.object({
   username: z.string().min(1).max(100),
   password: z.string().min(1).max(300),
   fingerprint: z.string().min(1).max(10240),
+  mfaMethod: z.string().min(1).max(50).optional(),
+  mfaCode: z.string().min(4).max(10).optional(),
+  accessCodes: z.array(z.object({
+    user: z.string().min(1).max(50),
+    accessCode: z.string().regex(/^[0-9]{4,8}$/).optional(),
+  })).max(50).optional().default([]),
+  accessCodeUser: z.string().min(1).max(50).optional(),
   mode: z.union([
     z.literal('normal'),
     z.literal('paused'),
@@ -26,24 +72,70 @@ export const platformConfig = z.object({
     z.literal(0.5),
     z.literal(0.25),
   ]),
+  requestBudget: z.number().min(60).max(7200).optional(),
   options: z.array(z.union([
     z.literal('disableAlarmRingingSwitch'),
+    z.literal('disableAlarmTypeSensors'),
     z.literal('ignoreSensorProblemStatus'),
-  ])).optional.default([]),
-  sensors: z.array(z.object({
-    name: z.string().min(1).max(50).optional(),
-    adtName: z.string().min(1).max(100),
-    adtType: z.union([
-      z.literal('co'),
-      z.literal('doorWindow'),
-      z.literal('fire'),
-      z.literal('flood'),
-      z.literal('glass'),
-      z.literal('heat'),
-      z.literal('motion'),
-      z.literal('shock'),
-      z.literal('temperature'),
+  ])).optional().default([]),
+  armModes: z.object({
+    stay: platformConfigArmMode.optional().default('stay'),
+    away: platformConfigArmMode.optional().default('away'),
+    night: platformConfigArmMode.optional().default('night'),
+  }).optional().default({}),
+  exitDelay: z.number().min(0).max(255).optional(),
+  entryDelay: z.number().min(0).max(255).optional(),
+  controlApi: z.object({
+    host: z.string().min(1).max(255),
+    port: z.number().min(1).max(65535),
+    token: z.string().min(16).max(256),
+  }).optional(),
+  mqtt: z.object({
+    brokerUrl: z.string().min(1).max(255),
+    username: z.string().max(100).optional(),
+    password: z.string().max(300).optional(),
+    topicPrefix: z.string().min(1).max(100),
+    homeAssistantDiscovery: z.boolean(),
+    allowCommands: z.boolean().optional(),
+  }).optional(),
+  gatewayAlerts: z.object({
+    homeKitFault: z.boolean().optional(),
+    checkInGracePeriod: z.number().min(5).max(1440).optional(),
+  }).optional(),
+  webhooks: z.array(z.object({
+    url: z.string().url().max(2048),
+    events: z.array(z.union([
+      z.literal('alarmCleared'),
+      z.literal('alarmStarted'),
+      z.literal('armed'),
+      z.literal('disarmed'),
+      z.literal('gatewayAlertCleared'),
+      z.literal('gatewayAlertRaised'),
+      z.literal('loginSuspended'),
+      z.literal('sensorBypassed'),
+      z.literal('sensorLowBattery'),
+      z.literal('sensorOffline'),
+      z.literal('sensorTampered'),
+    ])).min(1),
+    format: z.union([
+      z.literal('json'),
+      z.literal('form'),
     ]),
-    adtZone: z.number().min(1).max(99),
-  })).min(0).max(148),
+    payload: z.array(z.object({
+      key: z.string().min(1).max(100),
+      value: z.string().max(1024),
+    })).max(50).optional(),
+    retries: z.number().min(0).max(10).optional(),
+  })).max(10).optional().default([]),
+  sensorDiscovery: z.union([
+    z.literal('manual'),
+    z.literal('automatic'),
+  ]).optional().default('manual'),
+  sensors: z.array(platformConfigSensor).min(0).max(148),
+  sites: z.array(z.object({
+    name: z.string().min(1).max(50),
+    networkId: z.string().regex(/^[a-z0-9]+$/).max(100),
+    accessCodeUser: z.string().min(1).max(50).optional(),
+    sensors: z.array(platformConfigSensor).min(0).max(148),
+  })).optional().default([]),
 });
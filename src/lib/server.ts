@@ -0,0 +1,484 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import http from 'node:http';
+
+import {
+  condensePanelStates,
+  debugLog,
+  isPanelAlarmActive,
+  setPanelArmMode,
+  stackTracer,
+} from '@/lib/utility.js';
+import type {
+  ADTPulseServerCharacteristic,
+  ADTPulseServerConfig,
+  ADTPulseServerConstructorCharacteristic,
+  ADTPulseServerConstructorConfig,
+  ADTPulseServerConstructorDebugMode,
+  ADTPulseServerConstructorInstance,
+  ADTPulseServerConstructorJournal,
+  ADTPulseServerConstructorLog,
+  ADTPulseServerConstructorState,
+  ADTPulseServerDebugMode,
+  ADTPulseServerHandleRequestRequest,
+  ADTPulseServerHandleRequestResponse,
+  ADTPulseServerHandleRequestReturns,
+  ADTPulseServerHandleSetPanelStatusArmTo,
+  ADTPulseServerHandleSetPanelStatusRequest,
+  ADTPulseServerHandleSetPanelStatusResponse,
+  ADTPulseServerHandleSetPanelStatusResult,
+  ADTPulseServerHandleSetPanelStatusReturns,
+  ADTPulseServerInstance,
+  ADTPulseServerIsArming,
+  ADTPulseServerJournal,
+  ADTPulseServerIsAuthorizedRequest,
+  ADTPulseServerIsAuthorizedReturns,
+  ADTPulseServerLog,
+  ADTPulseServerReadJsonRequest,
+  ADTPulseServerReadJsonReturns,
+  ADTPulseServerSendJsonBody,
+  ADTPulseServerSendJsonResponse,
+  ADTPulseServerSendJsonReturns,
+  ADTPulseServerSendJsonStatusCode,
+  ADTPulseServerServer,
+  ADTPulseServerStartReturns,
+  ADTPulseServerState,
+  ADTPulseServerStopReturns,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Server.
+ *
+ * A small JSON API that shares the cached portal data held by the platform
+ * with other home automation software. Arm and disarm requests go through
+ * "setPanelArmMode()", the same path the security panel accessory uses.
+ *
+ * @since 3.3.0
+ */
+export class ADTPulseServer {
+  /**
+   * ADT Pulse Server - Characteristic.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #characteristic: ADTPulseServerCharacteristic;
+
+  /**
+   * ADT Pulse Server - Config.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #config: ADTPulseServerConfig;
+
+  /**
+   * ADT Pulse Server - Debug mode.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #debugMode: ADTPulseServerDebugMode;
+
+  /**
+   * ADT Pulse Server - Instance.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #instance: ADTPulseServerInstance;
+
+  /**
+   * ADT Pulse Server - Is arming.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #isArming: ADTPulseServerIsArming;
+
+  /**
+   * ADT Pulse Server - Journal.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #journal: ADTPulseServerJournal;
+
+  /**
+   * ADT Pulse Server - Log.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #log: ADTPulseServerLog;
+
+  /**
+   * ADT Pulse Server - Server.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #server: ADTPulseServerServer;
+
+  /**
+   * ADT Pulse Server - State.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #state: ADTPulseServerState;
+
+  /**
+   * ADT Pulse Server - Constructor.
+   *
+   * @param {ADTPulseServerConstructorConfig}         config         - Config.
+   * @param {ADTPulseServerConstructorState}          state          - State.
+   * @param {ADTPulseServerConstructorInstance}       instance       - Instance.
+   * @param {ADTPulseServerConstructorJournal}        journal        - Journal.
+   * @param {ADTPulseServerConstructorCharacteristic} characteristic - Characteristic.
+   * @param {ADTPulseServerConstructorLog}            log            - Log.
+   * @param {ADTPulseServerConstructorDebugMode}      debugMode      - Debug mode.
+   *
+   * @since 3.3.0
+   */
+  public constructor(config: ADTPulseServerConstructorConfig, state: ADTPulseServerConstructorState, instance: ADTPulseServerConstructorInstance, journal: ADTPulseServerConstructorJournal, characteristic: ADTPulseServerConstructorCharacteristic, log: ADTPulseServerConstructorLog, debugMode: ADTPulseServerConstructorDebugMode) {
+    this.#characteristic = characteristic;
+    this.#config = config;
+    this.#debugMode = debugMode;
+    this.#instance = instance;
+    this.#isArming = false;
+    this.#journal = journal;
+    this.#log = log;
+    this.#state = state;
+  }
+
+  /**
+   * ADT Pulse Server - Start.
+   *
+   * @returns {ADTPulseServerStartReturns}
+   *
+   * @since 3.3.0
+   */
+  public async start(): ADTPulseServerStartReturns {
+    const { controlApi } = this.#config;
+
+    if (controlApi === undefined) {
+      throw new Error('The control API is not configured');
+    }
+
+    this.#server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch((error) => {
+        if (this.#debugMode) {
+          debugLog(this.#log, 'server.ts / ADTPulseServer.start()', 'error', `Request failed ➜ ${error}`);
+        }
+
+        ADTPulseServer.sendJson(response, 500, {
+          success: false,
+          error: 'Internal server error',
+        });
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      if (this.#server === undefined) {
+        reject(new Error('The HTTP server was not created'));
+
+        return;
+      }
+
+      this.#server.once('error', reject);
+
+      this.#server.listen(controlApi.port, controlApi.host, () => {
+        this.#log.info(`Control API is now listening on "http://${controlApi.host}:${controlApi.port}".`);
+
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * ADT Pulse Server - Stop.
+   *
+   * @returns {ADTPulseServerStopReturns}
+   *
+   * @since 3.3.0
+   */
+  public async stop(): ADTPulseServerStopReturns {
+    return new Promise((resolve) => {
+      if (this.#server === undefined) {
+        resolve();
+
+        return;
+      }
+
+      this.#server.closeAllConnections();
+      this.#server.close(() => {
+        this.#server = undefined;
+
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * ADT Pulse Server - Handle request.
+   *
+   * @param {ADTPulseServerHandleRequestRequest}  request  - Request.
+   * @param {ADTPulseServerHandleRequestResponse} response - Response.
+   *
+   * @private
+   *
+   * @returns {ADTPulseServerHandleRequestReturns}
+   *
+   * @since 3.3.0
+   */
+  private async handleRequest(request: ADTPulseServerHandleRequestRequest, response: ADTPulseServerHandleRequestResponse): ADTPulseServerHandleRequestReturns {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+
+    if (this.#debugMode) {
+      debugLog(this.#log, 'server.ts / ADTPulseServer.handleRequest()', 'info', `${request.method} ${pathname}`);
+    }
+
+    // Every endpoint requires the token, because the data includes the panel master code.
+    if (!this.isAuthorized(request)) {
+      ADTPulseServer.sendJson(response, 401, {
+        success: false,
+        error: 'Missing or invalid bearer token',
+      });
+
+      return;
+    }
+
+    if (pathname === '/api/state' && request.method === 'GET') {
+      ADTPulseServer.sendJson(response, 200, {
+        success: true,
+        data: this.#state.data,
+      });
+
+      return;
+    }
+
+    if (pathname === '/api/panel/status' && request.method === 'POST') {
+      await this.handleSetPanelStatus(request, response);
+
+      return;
+    }
+
+    ADTPulseServer.sendJson(response, 404, {
+      success: false,
+      error: 'Not found',
+    });
+  }
+
+  /**
+   * ADT Pulse Server - Handle set panel status.
+   *
+   * @param {ADTPulseServerHandleSetPanelStatusRequest}  request  - Request.
+   * @param {ADTPulseServerHandleSetPanelStatusResponse} response - Response.
+   *
+   * @private
+   *
+   * @returns {ADTPulseServerHandleSetPanelStatusReturns}
+   *
+   * @since 3.3.0
+   */
+  private async handleSetPanelStatus(request: ADTPulseServerHandleSetPanelStatusRequest, response: ADTPulseServerHandleSetPanelStatusResponse): ADTPulseServerHandleSetPanelStatusReturns {
+    const body = await ADTPulseServer.readJson(request);
+    const arm = (typeof body === 'object' && body !== null && 'arm' in body) ? body.arm : undefined;
+
+    if (arm !== 'away' && arm !== 'night' && arm !== 'off' && arm !== 'stay') {
+      ADTPulseServer.sendJson(response, 400, {
+        success: false,
+        error: 'The "arm" value must be "away", "night", "off", or "stay"',
+      });
+
+      return;
+    }
+
+    // If panel status has not been retrieved yet.
+    if (this.#state.data.panelStatus === null || this.#state.data.panelStatus.panelStates.length === 0) {
+      ADTPulseServer.sendJson(response, 503, {
+        success: false,
+        error: 'Panel status has not been retrieved yet',
+      });
+
+      return;
+    }
+
+    const condensedPanelStates = condensePanelStates(this.#characteristic, this.#state.data.panelStatus.panelStates);
+    const isAlarmActive = isPanelAlarmActive(
+      this.#state.data.panelStatus.panelStatuses,
+      this.#state.data.orbSecurityButtons,
+      this.#config.options.includes('ignoreSensorProblemStatus'),
+    );
+
+    // If panel status cannot be found or most likely "Status Unavailable".
+    if (condensedPanelStates === undefined) {
+      ADTPulseServer.sendJson(response, 503, {
+        success: false,
+        error: 'Panel status cannot be found or is most likely "Status Unavailable"',
+      });
+
+      return;
+    }
+
+    // Portal requests cannot overlap, so only one arm request is handled at a time.
+    if (this.#isArming) {
+      ADTPulseServer.sendJson(response, 409, {
+        success: false,
+        error: 'Another arm request is still in progress',
+      });
+
+      return;
+    }
+
+    this.#log.info(`Control API is setting panel status from "${condensedPanelStates.armValue}" to "${arm}" ...`);
+
+    this.#isArming = true;
+
+    let armTo: ADTPulseServerHandleSetPanelStatusArmTo;
+    let result: ADTPulseServerHandleSetPanelStatusResult;
+
+    // Always allow the next arm request, even if this one has thrown an error.
+    try {
+      // The control API only covers the default site. The arm mode mapping applies here the same way it does in the Home app.
+      ({ armTo, result } = await setPanelArmMode(this.#instance, null, this.#config.armModes, condensedPanelStates.armValue, arm, isAlarmActive));
+
+      // Record the arm request and its result in the event journal.
+      if (armTo !== null) {
+        await this.#journal.record({
+          type: 'armRequest',
+          source: 'controlApi',
+          armFrom: condensedPanelStates.armValue,
+          armTo,
+          success: result.success,
+        });
+      }
+    } finally {
+      this.#isArming = false;
+    }
+
+    // If the requested mode is disabled in the arm mode mapping.
+    if (armTo === null) {
+      ADTPulseServer.sendJson(response, 400, {
+        success: false,
+        error: `The "${arm}" mode is disabled in the arm mode mapping`,
+      });
+
+      return;
+    }
+
+    // If request was not successful.
+    if (!result.success) {
+      this.#log.error(`Control API attempted to set panel status to "${arm}" but request was not successful${(result.info.message !== undefined) ? ` (${result.info.message})` : ''}.`);
+
+      stackTracer('api-response', result);
+
+      ADTPulseServer.sendJson(response, 502, {
+        success: false,
+        error: result.info.message ?? 'Request to the portal was not successful',
+      });
+
+      return;
+    }
+
+    ADTPulseServer.sendJson(response, 200, {
+      success: true,
+      data: {
+        armFrom: condensedPanelStates.armValue,
+        armTo,
+        bypassedZones: result.info.bypassedZones,
+      },
+    });
+  }
+
+  /**
+   * ADT Pulse Server - Is authorized.
+   *
+   * @param {ADTPulseServerIsAuthorizedRequest} request - Request.
+   *
+   * @private
+   *
+   * @returns {ADTPulseServerIsAuthorizedReturns}
+   *
+   * @since 3.3.0
+   */
+  private isAuthorized(request: ADTPulseServerIsAuthorizedRequest): ADTPulseServerIsAuthorizedReturns {
+    const { controlApi } = this.#config;
+    const { authorization } = request.headers;
+
+    if (controlApi === undefined || authorization === undefined || !authorization.startsWith('Bearer ')) {
+      return false;
+    }
+
+    // Hash both tokens, so they are compared in constant time regardless of length.
+    const expectedHash = createHash('sha256').update(controlApi.token).digest();
+    const receivedHash = createHash('sha256').update(authorization.slice('Bearer '.length)).digest();
+
+    return timingSafeEqual(expectedHash, receivedHash);
+  }
+
+  /**
+   * ADT Pulse Server - Read json.
+   *
+   * @param {ADTPulseServerReadJsonRequest} request - Request.
+   *
+   * @private
+   *
+   * @returns {ADTPulseServerReadJsonReturns}
+   *
+   * @since 3.3.0
+   */
+  private static async readJson(request: ADTPulseServerReadJsonRequest): ADTPulseServerReadJsonReturns {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let receivedBytes = 0;
+
+      request.on('data', (chunk: Buffer) => {
+        receivedBytes += chunk.length;
+
+        // Request bodies are tiny, anything larger is ignored.
+        if (receivedBytes <= 1024) {
+          chunks.push(chunk);
+        }
+      });
+      request.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+        } catch {
+          resolve(undefined);
+        }
+      });
+      request.on('error', reject);
+    });
+  }
+
+  /**
+   * ADT Pulse Server - Send json.
+   *
+   * @param {ADTPulseServerSendJsonResponse}   response   - Response.
+   * @param {ADTPulseServerSendJsonStatusCode} statusCode - Status code.
+   * @param {ADTPulseServerSendJsonBody}       body       - Body.
+   *
+   * @private
+   *
+   * @returns {ADTPulseServerSendJsonReturns}
+   *
+   * @since 3.3.0
+   */
+  private static sendJson(response: ADTPulseServerSendJsonResponse, statusCode: ADTPulseServerSendJsonStatusCode, body: ADTPulseServerSendJsonBody): ADTPulseServerSendJsonReturns {
+    response.writeHead(statusCode, {
+      'Cache-Control': 'no-cache, no-store',
+      'Content-Type': 'application/json;charset=UTF-8',
+    });
+    response.end(JSON.stringify(body));
+  }
+}
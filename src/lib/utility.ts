@@ -4,15 +4,19 @@ import { JSDOM } from 'jsdom';
 import latestVersion from 'latest-version';
 import _ from 'lodash';
 import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
 import { createRequire } from 'node:module';
 import os from 'node:os';
 import util from 'node:util';
 
 import {
+  collectionAccessCodeForms,
   collectionDoSubmitHandlers,
   collectionOrbSecurityButtons,
+  collectionSyncCodeSegments,
   deviceGateways,
   deviceSecurityPanels,
+  itemHomeKitArmModes,
   itemPanelStatusNotes,
   itemPanelStatusStates,
   itemPanelStatusStatuses,
@@ -25,11 +29,19 @@ import {
   functionGoToUrl,
   functionSetArmState,
   paramSat,
+  requestPathPortalVersionPrefix,
   textOrbSensorZone,
   textOrbTextSummarySections,
+  textPortalDateTimeNumeric,
+  textPortalDateTimeRelative,
   textSyncCode,
 } from '@/lib/regex.js';
+import { platformConfig } from '@/lib/schema.js';
 import type {
+  ClassifyPanelAlarmsIgnoreSensorProblem,
+  ClassifyPanelAlarmsOrbSecurityButtons,
+  ClassifyPanelAlarmsPanelStatuses,
+  ClassifyPanelAlarmsReturns,
   ClearHtmlLineBreakData,
   ClearHtmlLineBreakReturns,
   ClearWhitespaceData,
@@ -64,6 +76,15 @@ import type {
   FindGatewayManufacturerModelMode,
   FindGatewayManufacturerModelModel,
   FindGatewayManufacturerModelReturns,
+  FindHomeKitArmModeArmModes,
+  FindHomeKitArmModeArmValue,
+  FindHomeKitArmModePreferredMode,
+  FindHomeKitArmModeReturns,
+  FindHomebridgeConfigCaller,
+  FindHomebridgeConfigParsedFile,
+  FindHomebridgeConfigPossibleLocations,
+  FindHomebridgeConfigReturns,
+  FindHomebridgeConfigZodParseResponse,
   FindIndexWithValueArray,
   FindIndexWithValueCondition,
   FindIndexWithValueReturns,
@@ -96,16 +117,23 @@ import type {
   IsEmptyOrbTextSummaryMatch,
   IsEmptyOrbTextSummaryReturns,
   IsForwardSlashOSReturns,
+  IsGatewayOnCellularBackupCommunication,
+  IsGatewayOnCellularBackupReturns,
   IsPanelAlarmActiveIgnoreSensorProblem,
   IsPanelAlarmActiveOrbSecurityButtons,
   IsPanelAlarmActivePanelStatuses,
   IsPanelAlarmActiveReturns,
+  IsPanelTransitioningOrbSecurityButtons,
+  IsPanelTransitioningPanelNotes,
+  IsPanelTransitioningReturns,
   IsPluginOutdatedReturns,
   IsPortalSyncCodeSyncCode,
   IsPortalSyncCodeTypeGuard,
   IsSessionCleanStateOrbSecurityButtons,
   IsSessionCleanStateReadyButton,
   IsSessionCleanStateReturns,
+  IsUnknownAccessCodeFormForm,
+  IsUnknownAccessCodeFormReturns,
   IsUnknownDoSubmitHandlerCollectionHandlers,
   IsUnknownDoSubmitHandlerCollectionReturns,
   IsUnknownGatewayDeviceGateway,
@@ -114,6 +142,10 @@ import type {
   IsUnknownOrbSecurityButtonCollectionReturns,
   IsUnknownPanelDevicePanel,
   IsUnknownPanelDeviceReturns,
+  ParseAccessCodeFormData,
+  ParseAccessCodeFormPageUrl,
+  ParseAccessCodeFormParsed,
+  ParseAccessCodeFormReturns,
   ParseArmDisarmMessageElement,
   ParseArmDisarmMessageReturns,
   ParseDoSubmitHandlersElements,
@@ -123,6 +155,10 @@ import type {
   ParseDoSubmitHandlersUrlParamsArm,
   ParseDoSubmitHandlersUrlParamsArmState,
   ParseDoSubmitHandlersUrlParamsHref,
+  ParseMfaFormData,
+  ParseMfaFormPageUrl,
+  ParseMfaFormParsed,
+  ParseMfaFormReturns,
   ParseOrbSecurityButtonsArm,
   ParseOrbSecurityButtonsArmState,
   ParseOrbSecurityButtonsButtonId,
@@ -150,11 +186,28 @@ import type {
   ParseOrbTextSummaryReturns,
   ParseOrbTextSummaryStateItem,
   ParseOrbTextSummaryStatusItem,
+  ParsePortalDateTimeDate,
+  ParsePortalDateTimeDayOffsets,
+  ParsePortalDateTimeNow,
+  ParsePortalDateTimeReturns,
+  ParsePortalDateTimeTime,
+  ParsePortalDateTimeValue,
+  PlanRefetchCachedSyncCode,
+  PlanRefetchFetchedSyncCode,
+  PlanRefetchIsFullRefetch,
+  PlanRefetchReturns,
   RemovePersonalIdentifiableInformationData,
   RemovePersonalIdentifiableInformationModifiedObject,
   RemovePersonalIdentifiableInformationReplaceValueObject,
   RemovePersonalIdentifiableInformationReplaceValueReturns,
   RemovePersonalIdentifiableInformationReturns,
+  SetPanelArmModeArmFrom,
+  SetPanelArmModeArmMode,
+  SetPanelArmModeArmModes,
+  SetPanelArmModeInstance,
+  SetPanelArmModeIsAlarmActive,
+  SetPanelArmModeNetworkId,
+  SetPanelArmModeReturns,
   SleepMilliseconds,
   SleepReturns,
   StackTracerError,
@@ -162,6 +215,57 @@ import type {
   StackTracerType,
 } from '@/types/index.d.ts';
 
+/**
+ * Classify panel alarms.
+ *
+ * @param {ClassifyPanelAlarmsPanelStatuses}       panelStatuses       - Panel statuses.
+ * @param {ClassifyPanelAlarmsOrbSecurityButtons}  orbSecurityButtons  - Orb security buttons.
+ * @param {ClassifyPanelAlarmsIgnoreSensorProblem} ignoreSensorProblem - Ignore sensor problem.
+ *
+ * @returns {ClassifyPanelAlarmsReturns}
+ *
+ * @since 3.3.0
+ */
+export function classifyPanelAlarms(panelStatuses: ClassifyPanelAlarmsPanelStatuses, orbSecurityButtons: ClassifyPanelAlarmsOrbSecurityButtons, ignoreSensorProblem: ClassifyPanelAlarmsIgnoreSensorProblem): ClassifyPanelAlarmsReturns {
+  const panelAlarms: ClassifyPanelAlarmsReturns = [];
+  const hasDisarmedTroubleButtons = orbSecurityButtons.filter((orbSecurityButton) => {
+    const orbSecurityButtonButtonText = orbSecurityButton.buttonText;
+
+    return orbSecurityButtonButtonText !== null && ['Disarm', 'Arm Away', 'Arm Stay'].includes(orbSecurityButtonButtonText);
+  }).length === 3;
+
+  if (panelStatuses.includes('BURGLARY ALARM')) {
+    panelAlarms.push('burglary');
+  }
+
+  if (panelStatuses.includes('Carbon Monoxide Alarm')) {
+    panelAlarms.push('carbonMonoxide');
+  }
+
+  if (panelStatuses.includes('FIRE ALARM')) {
+    panelAlarms.push('fire');
+  }
+
+  // A sensor problem only counts as an alarm when the portal shows the disarm and arm buttons together.
+  if (
+    (panelStatuses.includes('Sensor Problem') || panelStatuses.includes('Sensor Problems'))
+    && hasDisarmedTroubleButtons
+    && !ignoreSensorProblem
+  ) {
+    panelAlarms.push('sensorProblem');
+  }
+
+  if (panelStatuses.includes('Uncleared Alarm')) {
+    panelAlarms.push('uncleared');
+  }
+
+  if (panelStatuses.includes('WATER ALARM')) {
+    panelAlarms.push('water');
+  }
+
+  return panelAlarms;
+}
+
 /**
  * Clear html line break.
  *
@@ -575,6 +679,30 @@ export function findGatewayManufacturerModel(mode: FindGatewayManufacturerModelM
   return (mode === 'manufacturer') ? newManufacturer : newModel;
 }
 
+/**
+ * Find home kit arm mode.
+ *
+ * @param {FindHomeKitArmModeArmModes}      armModes      - Arm modes.
+ * @param {FindHomeKitArmModeArmValue}      armValue      - Arm value.
+ * @param {FindHomeKitArmModePreferredMode} preferredMode - Preferred mode.
+ *
+ * @returns {FindHomeKitArmModeReturns}
+ *
+ * @since 3.3.0
+ */
+export function findHomeKitArmMode(armModes: FindHomeKitArmModeArmModes, armValue: FindHomeKitArmModeArmValue, preferredMode: FindHomeKitArmModePreferredMode): FindHomeKitArmModeReturns {
+  // The mode last set from the Home app wins, so "Night" is still shown after it armed the panel in "Stay".
+  if (preferredMode !== null && armModes[preferredMode] === armValue) {
+    return preferredMode;
+  }
+
+  // Otherwise, prefer the mode with the same name, then the first mode that arms the panel the same way.
+  const homeKitArmMode = [armValue, ...itemHomeKitArmModes].find((mode) => armModes[mode] === armValue);
+
+  // The panel was armed outside the Home app, in a mode that no Home app mode is mapped to.
+  return homeKitArmMode ?? armValue;
+}
+
 /**
  * Find index with value.
  *
@@ -972,6 +1100,26 @@ export function isForwardSlashOS(): IsForwardSlashOSReturns {
   ].includes(currentOS);
 }
 
+/**
+ * Is gateway on cellular backup.
+ *
+ * @param {IsGatewayOnCellularBackupCommunication} communication - Communication.
+ *
+ * @returns {IsGatewayOnCellularBackupReturns}
+ *
+ * @since 3.3.0
+ */
+export function isGatewayOnCellularBackup(communication: IsGatewayOnCellularBackupCommunication): IsGatewayOnCellularBackupReturns {
+  const {
+    broadbandConnectionStatus,
+    cellularConnectionStatus,
+    primaryConnectionType,
+  } = communication;
+
+  // A broadband outage while cellular is active also counts, in case the primary connection type has not been updated yet.
+  return primaryConnectionType === 'Cellular' || (broadbandConnectionStatus !== 'Active' && cellularConnectionStatus === 'Active');
+}
+
 /**
  * Is panel alarm active.
  *
@@ -984,29 +1132,32 @@ export function isForwardSlashOS(): IsForwardSlashOSReturns {
  * @since 1.0.0
  */
 export function isPanelAlarmActive(panelStatuses: IsPanelAlarmActivePanelStatuses, orbSecurityButtons: IsPanelAlarmActiveOrbSecurityButtons, ignoreSensorProblem: IsPanelAlarmActiveIgnoreSensorProblem): IsPanelAlarmActiveReturns {
-  const hasDisarmedTroubleButtons = orbSecurityButtons.filter((orbSecurityButton) => {
+  return classifyPanelAlarms(panelStatuses, orbSecurityButtons, ignoreSensorProblem).length > 0;
+}
+
+/**
+ * Is panel transitioning.
+ *
+ * @param {IsPanelTransitioningPanelNotes}         panelNotes         - Panel notes.
+ * @param {IsPanelTransitioningOrbSecurityButtons} orbSecurityButtons - Orb security buttons.
+ *
+ * @returns {IsPanelTransitioningReturns}
+ *
+ * @since 3.3.0
+ */
+export function isPanelTransitioning(panelNotes: IsPanelTransitioningPanelNotes, orbSecurityButtons: IsPanelTransitioningOrbSecurityButtons): IsPanelTransitioningReturns {
+  // While the exit delay counts down, the portal disables the arm buttons and shows the loading text instead.
+  const hasArmingButtons = orbSecurityButtons.some((orbSecurityButton) => {
     const orbSecurityButtonButtonText = orbSecurityButton.buttonText;
 
-    return orbSecurityButtonButtonText !== null && ['Disarm', 'Arm Away', 'Arm Stay'].includes(orbSecurityButtonButtonText);
-  }).length === 3;
+    return (
+      orbSecurityButton.buttonDisabled
+      && orbSecurityButtonButtonText !== null
+      && ['Arming Away', 'Arming Night', 'Arming Stay'].includes(orbSecurityButtonButtonText)
+    );
+  });
 
-  return (
-    panelStatuses.includes('BURGLARY ALARM')
-    || panelStatuses.includes('Carbon Monoxide Alarm')
-    || panelStatuses.includes('FIRE ALARM')
-    || (
-      panelStatuses.includes('Sensor Problem')
-      && hasDisarmedTroubleButtons
-      && !ignoreSensorProblem
-    )
-    || (
-      panelStatuses.includes('Sensor Problems')
-      && hasDisarmedTroubleButtons
-      && !ignoreSensorProblem
-    )
-    || panelStatuses.includes('Uncleared Alarm')
-    || panelStatuses.includes('WATER ALARM')
-  );
+  return hasArmingButtons || panelNotes.includes('This may take several minutes');
 }
 
 /**
@@ -1071,6 +1222,28 @@ export function isSessionCleanState(orbSecurityButtons: IsSessionCleanStateOrbSe
     .every((orbSecurityButton) => !['disarmed', 'disarmed+with+alarm', 'night+stay'].includes(orbSecurityButton.urlParams.armState));
 }
 
+/**
+ * Is unknown access code form.
+ *
+ * @param {IsUnknownAccessCodeFormForm} form - Form.
+ *
+ * @returns {IsUnknownAccessCodeFormReturns}
+ *
+ * @since 3.3.0
+ */
+export function isUnknownAccessCodeForm(form: IsUnknownAccessCodeFormForm): IsUnknownAccessCodeFormReturns {
+  // The portal version in the path changes with every release, so only the page after it is compared.
+  const currentForm = {
+    action: new URL(form.action).pathname.replace(requestPathPortalVersionPrefix, ''),
+    codeField: form.codeField,
+    fields: Object.keys(form.fields).sort(),
+  };
+
+  return !collectionAccessCodeForms
+    .map((collectionAccessCodeForm) => _.omit(collectionAccessCodeForm, ['description']))
+    .some((collectionAccessCodeForm) => _.isEqual(collectionAccessCodeForm, currentForm));
+}
+
 /**
  * Is unknown do submit handler collection.
  *
@@ -1154,6 +1327,69 @@ export function isUnknownPanelDevice(panel: IsUnknownPanelDevicePanel): IsUnknow
     .some((deviceSecurityPanel) => _.isEqual(deviceSecurityPanel, currentPanel));
 }
 
+/**
+ * Parse access code form.
+ *
+ * @param {ParseAccessCodeFormData}    data    - Data.
+ * @param {ParseAccessCodeFormPageUrl} pageUrl - Page url.
+ *
+ * @returns {ParseAccessCodeFormReturns}
+ *
+ * @since 3.3.0
+ */
+export function parseAccessCodeForm(data: ParseAccessCodeFormData, pageUrl: ParseAccessCodeFormPageUrl): ParseAccessCodeFormReturns {
+  const jsdom = new JSDOM(
+    data,
+    {
+      url: pageUrl,
+      contentType: 'text/html',
+      pretendToBeVisual: true,
+    },
+  );
+
+  // Panels that require an access code ask for it in a masked field, the force arm page only has buttons.
+  const form = Array.from(jsdom.window.document.querySelectorAll<HTMLFormElement>('.p_armDisarmWrapper form')).find((element) => element.querySelector('input[type="password"]') !== null);
+
+  if (form === undefined) {
+    return null;
+  }
+
+  const parsed: ParseAccessCodeFormParsed = {
+    action: form.action,
+    codeField: '',
+    fields: {},
+    message: null,
+  };
+
+  form.querySelectorAll('input').forEach((input) => {
+    const { name, type, value } = input;
+
+    if (name === '') {
+      return;
+    }
+
+    switch (type) {
+      case 'hidden':
+        parsed.fields[name] = value;
+        break;
+      case 'password':
+        parsed.codeField = name;
+        break;
+      default:
+        break;
+    }
+  });
+
+  // Same as the force arm page, the portal message is shown above the form (e.g. the reason a code was rejected).
+  const message = jsdom.window.document.querySelector('.p_armDisarmWrapper div:first-child');
+
+  if (message !== null && message.textContent !== null) {
+    parsed.message = clearWhitespace(message.textContent);
+  }
+
+  return parsed;
+}
+
 /**
  * Parse arm disarm message.
  *
@@ -1211,6 +1447,80 @@ export function parseDoSubmitHandlers(elements: ParseDoSubmitHandlersElements):
   return handlers;
 }
 
+/**
+ * Parse mfa form.
+ *
+ * @param {ParseMfaFormData}    data    - Data.
+ * @param {ParseMfaFormPageUrl} pageUrl - Page url.
+ *
+ * @returns {ParseMfaFormReturns}
+ *
+ * @since 3.3.0
+ */
+export function parseMfaForm(data: ParseMfaFormData, pageUrl: ParseMfaFormPageUrl): ParseMfaFormReturns {
+  const jsdom = new JSDOM(
+    data,
+    {
+      url: pageUrl,
+      contentType: 'text/html',
+      pretendToBeVisual: true,
+    },
+  );
+
+  // The challenge form lets the user pick a delivery method, and the verify form asks for the code that was sent.
+  const form = Array.from(jsdom.window.document.querySelectorAll('form')).find((element) => element.querySelector('input[type="radio"], input[type="number"], input[type="tel"], input[type="text"]') !== null);
+
+  if (form === undefined) {
+    return null;
+  }
+
+  const parsed: ParseMfaFormParsed = {
+    action: form.action,
+    codeField: null,
+    fields: {},
+    methodField: null,
+    methods: [],
+    trustField: null,
+  };
+
+  form.querySelectorAll('input').forEach((input) => {
+    const { name, type, value } = input;
+
+    if (name === '') {
+      return;
+    }
+
+    switch (type) {
+      case 'hidden':
+        parsed.fields[name] = value;
+        break;
+      case 'radio':
+        parsed.methodField = name;
+        parsed.methods.push({
+          id: value,
+          label: clearWhitespace(input.labels?.[0]?.textContent ?? value),
+        });
+        break;
+      case 'checkbox':
+        // The only checkbox on the verify form is "Trust this device".
+        parsed.trustField = {
+          name,
+          value,
+        };
+        break;
+      case 'number':
+      case 'tel':
+      case 'text':
+        parsed.codeField = name;
+        break;
+      default:
+        break;
+    }
+  });
+
+  return parsed;
+}
+
 /**
  * Parse orb sensors.
  *
@@ -1365,7 +1675,7 @@ export function parseOrbSecurityButtons(elements: ParseOrbSecurityButtonsElement
       const loadingText = onClick.replace(functionSetArmState, '$2') as ParseOrbSecurityButtonsLoadingText;
       const buttonIndex = Number(onClick.replace(functionSetArmState, '$3'));
       const totalButtons = Number(onClick.replace(functionSetArmState, '$4'));
-      const changeAccessCode = Boolean(onClick.replace(functionSetArmState, '$5'));
+      const changeAccessCode = onClick.replace(functionSetArmState, '$5') === 'true';
       const urlParamsHref = onClick.replace(functionSetArmState, '$6') as ParseOrbSecurityButtonsHref;
       const urlParamsArmState = onClick.replace(functionSetArmState, '$7') as ParseOrbSecurityButtonsArmState;
       const urlParamsArm = onClick.replace(functionSetArmState, '$8') as ParseOrbSecurityButtonsArm;
@@ -1393,6 +1703,57 @@ export function parseOrbSecurityButtons(elements: ParseOrbSecurityButtonsElement
   return buttons;
 }
 
+/**
+ * Parse portal date time.
+ *
+ * @param {ParsePortalDateTimeValue} value - Value.
+ * @param {ParsePortalDateTimeNow}   now   - Now.
+ *
+ * @returns {ParsePortalDateTimeReturns}
+ *
+ * @since 3.3.0
+ */
+export function parsePortalDateTime(value: ParsePortalDateTimeValue, now: ParsePortalDateTimeNow = Date.now()): ParsePortalDateTimeReturns {
+  const cleanedValue = clearWhitespace(value);
+  const relativeMatches = cleanedValue.match(textPortalDateTimeRelative);
+  const numericMatches = cleanedValue.match(textPortalDateTimeNumeric);
+  const dayOffsets: ParsePortalDateTimeDayOffsets = {
+    today: 0,
+    tomorrow: 1,
+    yesterday: -1,
+  };
+
+  let date: ParsePortalDateTimeDate;
+  let time: ParsePortalDateTimeTime;
+
+  // The portal shows times in the time zone of the account, which is assumed to be the one Homebridge runs in.
+  if (relativeMatches !== null) {
+    date = new Date(now);
+    date.setDate(date.getDate() + dayOffsets[relativeMatches[1].toLowerCase()]);
+    time = relativeMatches.slice(2);
+  } else if (numericMatches !== null) {
+    const [, month, day, year] = numericMatches;
+
+    date = new Date((year.length === 2) ? 2000 + Number(year) : Number(year), Number(month) - 1, Number(day));
+    time = numericMatches.slice(4);
+  } else {
+    const parsed = Date.parse(cleanedValue);
+
+    return (Number.isNaN(parsed)) ? null : parsed;
+  }
+
+  const [hours, minutes, seconds, meridiem] = time;
+
+  // Times without "AM" or "PM" are read as a 24-hour clock.
+  if (meridiem === undefined) {
+    date.setHours(Number(hours), Number(minutes), Number(seconds ?? 0), 0);
+  } else {
+    date.setHours((Number(hours) % 12) + ((meridiem.toUpperCase() === 'PM') ? 12 : 0), Number(minutes), Number(seconds ?? 0), 0);
+  }
+
+  return date.getTime();
+}
+
 /**
  * Parse sensors table.
  *
@@ -1481,6 +1842,33 @@ export function parseSensorsTable(elements: ParseOrbSensorsTableElements): Parse
   return sensors.sort((a, b) => a.zone - b.zone);
 }
 
+/**
+ * Plan refetch.
+ *
+ * @param {PlanRefetchCachedSyncCode}  cachedSyncCode  - Cached sync code.
+ * @param {PlanRefetchFetchedSyncCode} fetchedSyncCode - Fetched sync code.
+ * @param {PlanRefetchIsFullRefetch}   isFullRefetch   - Is full refetch.
+ *
+ * @returns {PlanRefetchReturns}
+ *
+ * @since 3.3.0
+ */
+export function planRefetch(cachedSyncCode: PlanRefetchCachedSyncCode, fetchedSyncCode: PlanRefetchFetchedSyncCode, isFullRefetch: PlanRefetchIsFullRefetch = false): PlanRefetchReturns {
+  const cachedSegments = cachedSyncCode.split('-');
+  const fetchedSegments = fetchedSyncCode.split('-');
+  const refetchPlan: PlanRefetchReturns = [];
+
+  collectionSyncCodeSegments.forEach((collectionSyncCodeSegment) => {
+    const { invalidates, segment } = collectionSyncCodeSegment;
+
+    if (isFullRefetch || cachedSegments[segment] !== fetchedSegments[segment]) {
+      refetchPlan.push(...invalidates);
+    }
+  });
+
+  return _.uniq(refetchPlan);
+}
+
 /**
  * Remove personal identifiable information.
  *
@@ -1492,6 +1880,7 @@ export function parseSensorsTable(elements: ParseOrbSensorsTableElements): Parse
  */
 export function removePersonalIdentifiableInformation(data: RemovePersonalIdentifiableInformationData): RemovePersonalIdentifiableInformationReturns {
   const redactedKeys = [
+    'accessCode',
     'Broadband LAN IP Address:',
     'Broadband LAN MAC:',
     'Device LAN IP Address:',
@@ -1561,6 +1950,64 @@ export function removePersonalIdentifiableInformation(data: RemovePersonalIdenti
   return replaceValue(data);
 }
 
+/**
+ * Set panel arm mode.
+ *
+ * @param {SetPanelArmModeInstance}      instance      - Instance.
+ * @param {SetPanelArmModeNetworkId}     networkId     - Network id.
+ * @param {SetPanelArmModeArmModes}      armModes      - Arm modes.
+ * @param {SetPanelArmModeArmFrom}       armFrom       - Arm from.
+ * @param {SetPanelArmModeArmMode}       armMode       - Arm mode.
+ * @param {SetPanelArmModeIsAlarmActive} isAlarmActive - Is alarm active.
+ *
+ * @returns {SetPanelArmModeReturns}
+ *
+ * @since 3.3.0
+ */
+export async function setPanelArmMode(instance: SetPanelArmModeInstance, networkId: SetPanelArmModeNetworkId, armModes: SetPanelArmModeArmModes, armFrom: SetPanelArmModeArmFrom, armMode: SetPanelArmModeArmMode, isAlarmActive: SetPanelArmModeIsAlarmActive): SetPanelArmModeReturns {
+  // The arm mode mapping decides how each mode arms the panel (e.g. "night" may arm the panel in "stay").
+  const armTo = (armMode !== 'off') ? armModes[armMode] : 'off';
+
+  // Disabled modes are hidden from the Home app, but other HomeKit apps, the control API, and the MQTT bridge may still request them.
+  if (armTo === 'disabled') {
+    return {
+      armTo: null,
+      result: {
+        action: 'SET_PANEL_STATUS',
+        success: false,
+        info: {
+          message: `The "${armMode}" mode is disabled in the arm mode mapping`,
+        },
+      },
+    };
+  }
+
+  // Sites share the same login session, so switch to the requested site first.
+  const acquireSite = await instance.acquireSite(networkId);
+
+  // Always let the other sites use the login session again, even if arming has thrown an error.
+  try {
+    if (!acquireSite.success) {
+      return {
+        armTo,
+        result: {
+          action: 'SET_PANEL_STATUS',
+          success: false,
+          info: acquireSite.info,
+        },
+      };
+    }
+
+    // Sensors that should never be bypassed are checked by the API before the portal is asked to arm.
+    return {
+      armTo,
+      result: await instance.setPanelStatus(armFrom, armTo, isAlarmActive),
+    };
+  } finally {
+    instance.releaseSite();
+  }
+}
+
 /**
  * Sleep.
  *
@@ -1611,3 +2058,66 @@ export function stackTracer(type: StackTracerType, error: StackTracerError<Stack
 
   console.error(chalk.yellowBright(stringError));
 }
+
+/**
+ * Find homebridge config.
+ *
+ * @param {FindHomebridgeConfigCaller} caller - Caller.
+ *
+ * @returns {FindHomebridgeConfigReturns}
+ *
+ * @since 3.3.0
+ */
+export function findHomebridgeConfig(caller: FindHomebridgeConfigCaller): FindHomebridgeConfigReturns {
+  const possibleLocations: FindHomebridgeConfigPossibleLocations = [
+    ...(isForwardSlashOS()) ? [
+      '/homebridge/config.json', // "homebridge" Docker.
+      '/var/lib/homebridge/config.json', // Debian or Raspbian.
+      `${os.homedir()}/.homebridge/config.json`, // macOS.
+    ] : [],
+    ...(!isForwardSlashOS()) ? [
+      `${os.homedir()}\\.homebridge\\config.json`, // Windows.
+    ] : [],
+  ];
+
+  let zodParseResponse: FindHomebridgeConfigZodParseResponse;
+
+  for (let i = 0; i < possibleLocations.length; i += 1) {
+    debugLog(null, caller, 'info', `Attempt ${i + 1}: Finding the Homebridge config file in "${possibleLocations[i]}"`);
+
+    try {
+      const rawFile = readFileSync(possibleLocations[i], 'utf-8');
+      const parsedFile: FindHomebridgeConfigParsedFile = JSON.parse(rawFile);
+      const platforms = _.get(parsedFile, ['platforms']);
+      const adtPlatform = _.find(platforms, (platform) => _.get(platform, ['platform']) === 'ADTPulse');
+
+      if (adtPlatform !== undefined) {
+        const validAdtPlatform = platformConfig.safeParse(adtPlatform);
+
+        // Keep this in case "zod" parse failed.
+        zodParseResponse = validAdtPlatform;
+
+        if (validAdtPlatform.success) {
+          debugLog(null, caller, 'success', `Found valid Homebridge config in "${possibleLocations[i]}"`);
+
+          return {
+            location: possibleLocations[i],
+            platform: validAdtPlatform.data,
+          };
+        }
+      }
+    } catch {
+      // Try the next location if the file is missing or unreadable.
+    }
+  }
+
+  debugLog(null, caller, 'error', 'Unable to find a parsable Homebridge config file with a validated "ADTPulse" platform');
+
+  if (zodParseResponse !== undefined) {
+    debugLog(null, caller, 'warn', 'If you just upgraded from "v2 to v3" or from "v3 to v3.1", please update your configuration');
+    debugLog(null, caller, 'warn', 'Carefully observe the error below. The answer you are looking for is there');
+    stackTracer('zod-error', zodParseResponse);
+  }
+
+  return null;
+}
@@ -0,0 +1,286 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+} from 'node:crypto';
+import {
+  chmod,
+  readFile,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+
+import type {
+  ADTPulseVaultClearReturns,
+  ADTPulseVaultConstructorFilePath,
+  ADTPulseVaultConstructorSecret,
+  ADTPulseVaultDeriveKeyKey,
+  ADTPulseVaultDeriveKeyReturns,
+  ADTPulseVaultDeriveKeySalt,
+  ADTPulseVaultDeriveKeySecret,
+  ADTPulseVaultFilePath,
+  ADTPulseVaultIsEnvelopeEnvelope,
+  ADTPulseVaultIsEnvelopeTypeGuard,
+  ADTPulseVaultKeyFilePath,
+  ADTPulseVaultLoadReturns,
+  ADTPulseVaultReadKeyCreate,
+  ADTPulseVaultReadKeyReturns,
+  ADTPulseVaultSaveContents,
+  ADTPulseVaultSaveReturns,
+  ADTPulseVaultSecret,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Vault.
+ *
+ * Keeps secrets on disk, such as a signed-in portal session that can be
+ * resumed after a restart, or the access codes of the security panel users.
+ * The contents are encrypted with AES-256-GCM, using a key derived from a
+ * random key and the account credentials. The random key is kept in its own
+ * file next to the vault (e.g. "adt-pulse-session.json.key"), so the vault
+ * cannot be decrypted with the config alone. Both files are only readable by
+ * the owner. A vault that cannot be decrypted (e.g. after the password was
+ * changed, or without its key file) is ignored.
+ *
+ * @since 3.3.0
+ */
+export class ADTPulseVault<Contents> {
+  /**
+   * ADT Pulse Vault - File path.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #filePath: ADTPulseVaultFilePath;
+
+  /**
+   * ADT Pulse Vault - Key file path.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #keyFilePath: ADTPulseVaultKeyFilePath;
+
+  /**
+   * ADT Pulse Vault - Secret.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #secret: ADTPulseVaultSecret;
+
+  /**
+   * ADT Pulse Vault - Constructor.
+   *
+   * @param {ADTPulseVaultConstructorFilePath} filePath - File path.
+   * @param {ADTPulseVaultConstructorSecret}   secret   - Secret.
+   *
+   * @since 3.3.0
+   */
+  public constructor(filePath: ADTPulseVaultConstructorFilePath, secret: ADTPulseVaultConstructorSecret) {
+    this.#filePath = filePath;
+    this.#keyFilePath = `${filePath}.key`;
+    this.#secret = secret;
+  }
+
+  /**
+   * ADT Pulse Vault - Load.
+   *
+   * @returns {ADTPulseVaultLoadReturns}
+   *
+   * @since 3.3.0
+   */
+  public async load(): ADTPulseVaultLoadReturns<Contents> {
+    try {
+      const envelope: unknown = JSON.parse(await readFile(this.#filePath, 'utf-8'));
+
+      if (!ADTPulseVault.isEnvelope(envelope)) {
+        return null;
+      }
+
+      const randomKey = await this.readKey(false);
+
+      if (randomKey === null) {
+        return null;
+      }
+
+      const key = await ADTPulseVault.deriveKey(this.#secret, randomKey, Buffer.from(envelope.salt, 'base64'));
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+
+      decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+      const decrypted = Buffer.concat([
+        decipher.update(Buffer.from(envelope.data, 'base64')),
+        decipher.final(),
+      ]);
+
+      return JSON.parse(decrypted.toString('utf-8'));
+    } catch {
+      // Nothing has been saved yet, or the vault was saved with other credentials or another key file.
+      return null;
+    }
+  }
+
+  /**
+   * ADT Pulse Vault - Save.
+   *
+   * @param {ADTPulseVaultSaveContents} contents - Contents.
+   *
+   * @returns {ADTPulseVaultSaveReturns}
+   *
+   * @since 3.3.0
+   */
+  public async save(contents: ADTPulseVaultSaveContents<Contents>): ADTPulseVaultSaveReturns {
+    try {
+      const salt = randomBytes(16);
+      const iv = randomBytes(12);
+      const randomKey = await this.readKey(true);
+
+      if (randomKey === null) {
+        return false;
+      }
+
+      const key = await ADTPulseVault.deriveKey(this.#secret, randomKey, salt);
+      const cipher = createCipheriv('aes-256-gcm', key, iv);
+      const encrypted = Buffer.concat([
+        cipher.update(JSON.stringify(contents), 'utf-8'),
+        cipher.final(),
+      ]);
+
+      await writeFile(this.#filePath, JSON.stringify({
+        version: 1,
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: encrypted.toString('base64'),
+      }), {
+        encoding: 'utf-8',
+        mode: 0o600, // Only readable by the owner.
+      });
+
+      // The mode above only applies when the file is created, so vaults written by older versions are restricted here.
+      await chmod(this.#filePath, 0o600);
+
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * ADT Pulse Vault - Clear.
+   *
+   * @returns {ADTPulseVaultClearReturns}
+   *
+   * @since 3.3.0
+   */
+  public async clear(): ADTPulseVaultClearReturns {
+    try {
+      await rm(this.#filePath, { force: true });
+    } catch {
+      // A vault that cannot be removed is overwritten on the next save.
+    }
+  }
+
+  /**
+   * ADT Pulse Vault - Read key.
+   *
+   * @param {ADTPulseVaultReadKeyCreate} create - Create.
+   *
+   * @private
+   *
+   * @returns {ADTPulseVaultReadKeyReturns}
+   *
+   * @since 3.3.0
+   */
+  private async readKey(create: ADTPulseVaultReadKeyCreate): ADTPulseVaultReadKeyReturns {
+    try {
+      const key = Buffer.from(await readFile(this.#keyFilePath, 'utf-8'), 'base64');
+
+      if (key.length === 32) {
+        return key;
+      }
+    } catch {
+      // The key file is created on the first save.
+    }
+
+    // A missing or damaged key file is replaced on save, which discards anything encrypted with the previous key.
+    if (!create) {
+      return null;
+    }
+
+    try {
+      const key = randomBytes(32);
+
+      await writeFile(this.#keyFilePath, key.toString('base64'), {
+        encoding: 'utf-8',
+        mode: 0o600, // Only readable by the owner.
+      });
+
+      await chmod(this.#keyFilePath, 0o600);
+
+      return key;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * ADT Pulse Vault - Derive key.
+   *
+   * @param {ADTPulseVaultDeriveKeySecret} secret - Secret.
+   * @param {ADTPulseVaultDeriveKeyKey}    key    - Key.
+   * @param {ADTPulseVaultDeriveKeySalt}   salt   - Salt.
+   *
+   * @private
+   *
+   * @returns {ADTPulseVaultDeriveKeyReturns}
+   *
+   * @since 3.3.0
+   */
+  private static deriveKey(secret: ADTPulseVaultDeriveKeySecret, key: ADTPulseVaultDeriveKeyKey, salt: ADTPulseVaultDeriveKeySalt): ADTPulseVaultDeriveKeyReturns {
+    return new Promise((resolve, reject) => {
+      scrypt(Buffer.concat([key, Buffer.from(secret, 'utf-8')]), salt, 32, (error, derivedKey) => {
+        if (error !== null) {
+          reject(error);
+
+          return;
+        }
+
+        resolve(derivedKey);
+      });
+    });
+  }
+
+  /**
+   * ADT Pulse Vault - Is envelope.
+   *
+   * @param {ADTPulseVaultIsEnvelopeEnvelope} envelope - Envelope.
+   *
+   * @private
+   *
+   * @returns {boolean}
+   *
+   * @since 3.3.0
+   */
+  private static isEnvelope(envelope: ADTPulseVaultIsEnvelopeEnvelope): envelope is ADTPulseVaultIsEnvelopeTypeGuard {
+    return (
+      typeof envelope === 'object'
+      && envelope !== null
+      && 'version' in envelope
+      && envelope.version === 1
+      && 'salt' in envelope
+      && typeof envelope.salt === 'string'
+      && 'iv' in envelope
+      && typeof envelope.iv === 'string'
+      && 'tag' in envelope
+      && typeof envelope.tag === 'string'
+      && 'data' in envelope
+      && typeof envelope.data === 'string'
+    );
+  }
+}
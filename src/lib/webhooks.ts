@@ -0,0 +1,217 @@
+import axios from 'axios';
+import { serializeError } from 'serialize-error';
+
+import { textWebhookPlaceholder } from '@/lib/regex.js';
+import { sleep, stackTracer } from '@/lib/utility.js';
+import type {
+  ADTPulseWebhooksConfig,
+  ADTPulseWebhooksConstructorConfig,
+  ADTPulseWebhooksConstructorLog,
+  ADTPulseWebhooksDeliverEvent,
+  ADTPulseWebhooksDeliverReturns,
+  ADTPulseWebhooksDeliverWebhook,
+  ADTPulseWebhooksFillTemplateReturns,
+  ADTPulseWebhooksFillTemplateTemplate,
+  ADTPulseWebhooksFillTemplateValues,
+  ADTPulseWebhooksGeneratePayloadEvent,
+  ADTPulseWebhooksGeneratePayloadReturns,
+  ADTPulseWebhooksGeneratePayloadValues,
+  ADTPulseWebhooksGeneratePayloadWebhook,
+  ADTPulseWebhooksGetPlaceholderValuesEvent,
+  ADTPulseWebhooksGetPlaceholderValuesReturns,
+  ADTPulseWebhooksLog,
+  ADTPulseWebhooksNotifyEvent,
+  ADTPulseWebhooksNotifyReturns,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Webhooks.
+ *
+ * Posts a payload to every configured webhook subscribed to an event. Payloads
+ * are sent as JSON or as a form, and may be shaped with "{{placeholder}}"
+ * templates. Failed deliveries are retried with an exponential backoff.
+ *
+ * @since 3.3.0
+ */
+export class ADTPulseWebhooks {
+  /**
+   * ADT Pulse Webhooks - Config.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #config: ADTPulseWebhooksConfig;
+
+  /**
+   * ADT Pulse Webhooks - Log.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  readonly #log: ADTPulseWebhooksLog;
+
+  /**
+   * ADT Pulse Webhooks - Constructor.
+   *
+   * @param {ADTPulseWebhooksConstructorConfig} config - Config.
+   * @param {ADTPulseWebhooksConstructorLog}    log    - Log.
+   *
+   * @since 3.3.0
+   */
+  public constructor(config: ADTPulseWebhooksConstructorConfig, log: ADTPulseWebhooksConstructorLog) {
+    this.#config = config;
+    this.#log = log;
+  }
+
+  /**
+   * ADT Pulse Webhooks - Notify.
+   *
+   * @param {ADTPulseWebhooksNotifyEvent} event - Event.
+   *
+   * @returns {ADTPulseWebhooksNotifyReturns}
+   *
+   * @since 3.3.0
+   */
+  public async notify(event: ADTPulseWebhooksNotifyEvent): ADTPulseWebhooksNotifyReturns {
+    const webhooks = this.#config.webhooks.filter((webhook) => webhook.events.includes(event.type));
+
+    await Promise.all(webhooks.map((webhook) => this.deliver(webhook, event)));
+  }
+
+  /**
+   * ADT Pulse Webhooks - Deliver.
+   *
+   * @param {ADTPulseWebhooksDeliverWebhook} webhook - Webhook.
+   * @param {ADTPulseWebhooksDeliverEvent}   event   - Event.
+   *
+   * @private
+   *
+   * @returns {ADTPulseWebhooksDeliverReturns}
+   *
+   * @since 3.3.0
+   */
+  private async deliver(webhook: ADTPulseWebhooksDeliverWebhook, event: ADTPulseWebhooksDeliverEvent): ADTPulseWebhooksDeliverReturns {
+    const retries = webhook.retries ?? 3;
+    const { body, contentType } = ADTPulseWebhooks.generatePayload(webhook, event);
+
+    for (let attempt = 0; attempt <= retries; attempt += 1) {
+      try {
+        await axios.post(webhook.url, body, {
+          headers: {
+            'Content-Type': contentType,
+          },
+          timeout: 10000, // 10 seconds.
+        });
+
+        return;
+      } catch (error) {
+        // A webhook that cannot be reached should never interrupt syncing.
+        if (attempt === retries) {
+          this.#log.error(`Unable to send the "${event.type}" event to the webhook after ${attempt + 1} attempt(s).`);
+          stackTracer('serialize-error', serializeError(error));
+
+          return;
+        }
+
+        const backoff = 2000 * (2 ** attempt); // 2 seconds, then doubled for every retry.
+
+        this.#log.debug(`Unable to send the "${event.type}" event to the webhook. Retrying in ${backoff / 1000} seconds ...`);
+
+        await sleep(backoff);
+      }
+    }
+  }
+
+  /**
+   * ADT Pulse Webhooks - Generate payload.
+   *
+   * @param {ADTPulseWebhooksGeneratePayloadWebhook} webhook - Webhook.
+   * @param {ADTPulseWebhooksGeneratePayloadEvent}   event   - Event.
+   *
+   * @private
+   *
+   * @returns {ADTPulseWebhooksGeneratePayloadReturns}
+   *
+   * @since 3.3.0
+   */
+  private static generatePayload(webhook: ADTPulseWebhooksGeneratePayloadWebhook, event: ADTPulseWebhooksGeneratePayloadEvent): ADTPulseWebhooksGeneratePayloadReturns {
+    const placeholderValues = ADTPulseWebhooks.getPlaceholderValues(event);
+    const values: ADTPulseWebhooksGeneratePayloadValues = {};
+
+    // Without a payload template, JSON webhooks receive the event as is, and form webhooks receive every placeholder.
+    if (webhook.payload === undefined || webhook.payload.length === 0) {
+      if (webhook.format === 'json') {
+        return {
+          body: event,
+          contentType: 'application/json',
+        };
+      }
+
+      Object.assign(values, placeholderValues);
+    } else {
+      webhook.payload.forEach(({ key, value }) => {
+        values[key] = ADTPulseWebhooks.fillTemplate(value, placeholderValues);
+      });
+    }
+
+    if (webhook.format === 'json') {
+      return {
+        body: values,
+        contentType: 'application/json',
+      };
+    }
+
+    return {
+      body: new URLSearchParams(values).toString(),
+      contentType: 'application/x-www-form-urlencoded',
+    };
+  }
+
+  /**
+   * ADT Pulse Webhooks - Get placeholder values.
+   *
+   * @param {ADTPulseWebhooksGetPlaceholderValuesEvent} event - Event.
+   *
+   * @private
+   *
+   * @returns {ADTPulseWebhooksGetPlaceholderValuesReturns}
+   *
+   * @since 3.3.0
+   */
+  private static getPlaceholderValues(event: ADTPulseWebhooksGetPlaceholderValuesEvent): ADTPulseWebhooksGetPlaceholderValuesReturns {
+    return {
+      alarms: event.alarms?.join(', ') ?? '',
+      armFrom: event.armFrom ?? '',
+      armTo: event.armTo ?? '',
+      date: new Date(event.timestamp).toISOString(),
+      event: event.type,
+      gatewayAlert: event.gatewayAlert ?? '',
+      initiator: event.initiator ?? '',
+      message: event.message,
+      networkId: event.networkId ?? '',
+      sensorName: event.sensor?.name ?? '',
+      sensorZone: (event.sensor !== undefined) ? String(event.sensor.zone) : '',
+      site: event.site ?? '',
+      timestamp: String(event.timestamp),
+    };
+  }
+
+  /**
+   * ADT Pulse Webhooks - Fill template.
+   *
+   * @param {ADTPulseWebhooksFillTemplateTemplate} template - Template.
+   * @param {ADTPulseWebhooksFillTemplateValues}   values   - Values.
+   *
+   * @private
+   *
+   * @returns {ADTPulseWebhooksFillTemplateReturns}
+   *
+   * @since 3.3.0
+   */
+  private static fillTemplate(template: ADTPulseWebhooksFillTemplateTemplate, values: ADTPulseWebhooksFillTemplateValues): ADTPulseWebhooksFillTemplateReturns {
+    // Unknown placeholders are left untouched, so a typo is easy to spot on the receiving end.
+    return template.replace(textWebhookPlaceholder, (placeholder, name: string) => values[name] ?? placeholder);
+  }
+}
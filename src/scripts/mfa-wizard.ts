@@ -0,0 +1,176 @@
+import chalk from 'chalk';
+import { exit, stdin, stdout } from 'node:process';
+import { createInterface } from 'node:readline/promises';
+import util from 'node:util';
+
+import { ADTPulse } from '@/lib/api.js';
+import { findHomebridgeConfig } from '@/lib/utility.js';
+import type {
+  ADTPulseMfaWizardApi,
+  ADTPulseMfaWizardDisplayStartupHeaderReturns,
+  ADTPulseMfaWizardPromptQuestion,
+  ADTPulseMfaWizardPromptReturns,
+  ADTPulseMfaWizardStartWizardReturns,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Mfa Wizard.
+ *
+ * @since 3.3.0
+ */
+class ADTPulseMfaWizard {
+  /**
+   * ADT Pulse Mfa Wizard - Api.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #api: ADTPulseMfaWizardApi;
+
+  /**
+   * ADT Pulse Mfa Wizard - Start wizard.
+   *
+   * @returns {ADTPulseMfaWizardStartWizardReturns}
+   *
+   * @since 3.3.0
+   */
+  public async startWizard(): ADTPulseMfaWizardStartWizardReturns {
+    ADTPulseMfaWizard.displayStartupHeader();
+
+    const foundConfig = findHomebridgeConfig('mfa-wizard.ts');
+
+    if (foundConfig === null) {
+      exit(1);
+    }
+
+    this.#api = new ADTPulse(
+      foundConfig.platform,
+      {
+        debug: false,
+      },
+    );
+
+    const login = await this.#api.login();
+
+    if (login.success) {
+      console.info(chalk.greenBright('The fingerprint in your config is already trusted. No verification code is needed.'));
+
+      await this.#api.logout();
+
+      exit(0);
+    }
+
+    const mfaChallenge = this.#api.getMfaChallenge();
+
+    if (mfaChallenge === null) {
+      console.error(chalk.redBright('Unable to login to the portal. Check the credentials and fingerprint in your config.'));
+      console.error(util.inspect(login.info, false, null, true));
+
+      exit(1);
+    }
+
+    console.info([
+      chalk.bold('The portal requires multi-factor authentication. Choose where the verification code should be sent to:'),
+      ...mfaChallenge.methods.map((method, index) => `    ${chalk.yellowBright(`${index + 1}.`)} ${method.label}`),
+      '',
+    ].join('\n'));
+
+    const choice = await ADTPulseMfaWizard.prompt(`Delivery method [1-${mfaChallenge.methods.length}]: `);
+    const method = mfaChallenge.methods[Number(choice) - 1];
+
+    if (method === undefined) {
+      console.error(chalk.redBright(`"${choice}" is not one of the listed delivery methods.`));
+
+      exit(1);
+    }
+
+    const requestMfaCode = await this.#api.requestMfaCode(method.id);
+
+    if (!requestMfaCode.success) {
+      console.error(chalk.redBright('Unable to request a verification code from the portal.'));
+      console.error(util.inspect(requestMfaCode.info, false, null, true));
+
+      exit(1);
+    }
+
+    const code = await ADTPulseMfaWizard.prompt(`Verification code sent to ${method.label}: `);
+    const submitMfaCode = await this.#api.submitMfaCode(code);
+
+    if (!submitMfaCode.success) {
+      console.error(chalk.redBright('The verification code was not accepted by the portal.'));
+      console.error(util.inspect(submitMfaCode.info, false, null, true));
+
+      exit(1);
+    }
+
+    // Signing out keeps the fingerprint trusted, and frees up the session for Homebridge.
+    await this.#api.logout();
+
+    console.info([
+      '',
+      chalk.greenBright('The verification code was accepted, and the fingerprint in your config is now trusted:'),
+      submitMfaCode.info.fingerprint,
+      '',
+      'Restart Homebridge to resume syncing.',
+      '',
+    ].join('\n'));
+
+    exit(0);
+  }
+
+  /**
+   * ADT Pulse Mfa Wizard - Prompt.
+   *
+   * @param {ADTPulseMfaWizardPromptQuestion} question - Question.
+   *
+   * @private
+   *
+   * @returns {ADTPulseMfaWizardPromptReturns}
+   *
+   * @since 3.3.0
+   */
+  private static async prompt(question: ADTPulseMfaWizardPromptQuestion): ADTPulseMfaWizardPromptReturns {
+    const readline = createInterface({
+      input: stdin,
+      output: stdout,
+    });
+
+    try {
+      return (await readline.question(question)).trim();
+    } finally {
+      readline.close();
+    }
+  }
+
+  /**
+   * ADT Pulse Mfa Wizard - Display startup header.
+   *
+   * @private
+   *
+   * @returns {ADTPulseMfaWizardDisplayStartupHeaderReturns}
+   *
+   * @since 3.3.0
+   */
+  private static displayStartupHeader(): ADTPulseMfaWizardDisplayStartupHeaderReturns {
+    console.info([
+      chalk.cyanBright('################################################################'),
+      chalk.cyanBright('####       ADT Pulse for Homebridge Plugin MFA Wizard       ####'),
+      chalk.cyanBright('####  https://github.com/mrjackyliang/homebridge-adt-pulse  ####'),
+      chalk.cyanBright('####                                                        ####'),
+      chalk.cyanBright('####             Copyright (c) 2024 Jacky Liang             ####'),
+      chalk.cyanBright('################################################################'),
+      '',
+      'This wizard signs in to the portal using your Homebridge config. If the portal asks for',
+      'multi-factor authentication, it requests a verification code and submits it with',
+      '"Trust this device" selected, so the fingerprint in your config is trusted again.',
+      '',
+      `${chalk.yellowBright('NOTICE')}: The API gathers anonymous analytics to detect potential bugs or issues.`,
+      '        All personally identifiable information will be redacted.',
+      '',
+    ].join('\n'));
+  }
+}
+
+const instance = new ADTPulseMfaWizard();
+await instance.startWizard();
@@ -158,16 +158,10 @@ class ADTPulseRepl {
 
     // If the values are valid, set a new instance.
     this.#api = new ADTPulse({
-      platform: 'ADTPulse',
-      name: 'ADT Pulse',
       subdomain,
       username,
       password,
       fingerprint,
-      mode: 'normal',
-      speed: 1,
-      options: [],
-      sensors: [],
     }, {
       debug: true,
     });
@@ -250,6 +244,9 @@ class ADTPulseRepl {
       `    {'arm' | 'night' | 'off' | 'stay'} ${chalk.magentaBright('armFrom')}       - Specify the current system arm state`,
       `    {'arm' | 'night' | 'off' | 'stay'} ${chalk.magentaBright('armTo')}         - Specify the arm state you would like to set`,
       `    {boolean}                          ${chalk.magentaBright('isAlarmActive')} - If the alarm system is ringing`,
+      `    {string}                           ${chalk.magentaBright('networkId')}     - The network id of the site you would like to switch to`,
+      `    {string}                           ${chalk.magentaBright('methodId')}      - The delivery method for the verification code (e.g. "sms" or "email")`,
+      `    {string}                           ${chalk.magentaBright('code')}          - The verification code that was sent to you`,
       '',
       chalk.bold('Before you use the API, set the instance using this command:'),
       `    ${chalk.yellowBright(`repl.setInstance(${chalk.magentaBright('subdomain')}, ${chalk.magentaBright('username')}, ${chalk.magentaBright('password')}, ${chalk.magentaBright('fingerprint')});`)}`,
@@ -257,6 +254,9 @@ class ADTPulseRepl {
       chalk.bold('Once an instance is set, interact with the portal using these methods:'),
       `    ${chalk.yellowBright('await api.login();')}`,
       `    ${chalk.yellowBright('await api.logout();')}`,
+      `    ${chalk.yellowBright(`await api.requestMfaCode(${chalk.magentaBright('methodId')});`)}`,
+      `    ${chalk.yellowBright(`await api.submitMfaCode(${chalk.magentaBright('code')});`)}`,
+      `    ${chalk.yellowBright(`await api.switchSite(${chalk.magentaBright('networkId')});`)}`,
       `    ${chalk.yellowBright('await api.getGatewayInformation();')}`,
       `    ${chalk.yellowBright('await api.getPanelInformation();')}`,
       `    ${chalk.yellowBright('await api.getPanelStatus();')}`,
@@ -264,9 +264,11 @@ class ADTPulseRepl {
       `    ${chalk.yellowBright('await api.getSensorsInformation();')}`,
       `    ${chalk.yellowBright('await api.getSensorsStatus();')}`,
       `    ${chalk.yellowBright('await api.getOrbSecurityButtons();')}`,
+      `    ${chalk.yellowBright('await api.getSummarySnapshot();')}`,
       `    ${chalk.yellowBright('await api.performSyncCheck();')}`,
       `    ${chalk.yellowBright('await api.performKeepAlive();')}`,
       `    ${chalk.yellowBright('      api.isAuthenticated();')}`,
+      `    ${chalk.yellowBright('      api.getMfaChallenge();')}`,
       `    ${chalk.yellowBright('      api.resetSession();')}`,
       '',
       chalk.bold('You may also wrap the above methods with this to see the entire response:'),
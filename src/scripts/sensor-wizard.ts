@@ -0,0 +1,218 @@
+import chalk from 'chalk';
+import { exit } from 'node:process';
+import util from 'node:util';
+
+import { ADTPulse } from '@/lib/api.js';
+import {
+  condenseSensorType,
+  findHomebridgeConfig,
+  getPluralForm,
+} from '@/lib/utility.js';
+import type {
+  ADTPulseSensorWizardApi,
+  ADTPulseSensorWizardDisplayStartupHeaderReturns,
+  ADTPulseSensorWizardGenerateSensorsConfiguredSensors,
+  ADTPulseSensorWizardGenerateSensorsReturns,
+  ADTPulseSensorWizardGenerateSensorsSensorsInfo,
+  ADTPulseSensorWizardPrintSensorsReturns,
+  ADTPulseSensorWizardPrintSensorsSensors,
+  ADTPulseSensorWizardStartWizardReturns,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Sensor Wizard.
+ *
+ * @since 3.3.0
+ */
+class ADTPulseSensorWizard {
+  /**
+   * ADT Pulse Sensor Wizard - Api.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #api: ADTPulseSensorWizardApi;
+
+  /**
+   * ADT Pulse Sensor Wizard - Start wizard.
+   *
+   * @returns {ADTPulseSensorWizardStartWizardReturns}
+   *
+   * @since 3.3.0
+   */
+  public async startWizard(): ADTPulseSensorWizardStartWizardReturns {
+    ADTPulseSensorWizard.displayStartupHeader();
+
+    const foundConfig = findHomebridgeConfig('sensor-wizard.ts');
+
+    if (foundConfig === null) {
+      exit(1);
+    }
+
+    this.#api = new ADTPulse(
+      foundConfig.platform,
+      {
+        debug: false,
+      },
+    );
+
+    const login = await this.#api.login();
+
+    if (!login.success) {
+      console.error(chalk.redBright('Unable to login to the portal. Check the credentials and fingerprint in your config.'));
+      console.error(util.inspect(login.info, false, null, true));
+
+      exit(1);
+    }
+
+    const sensorsInformation = await this.#api.getSensorsInformation();
+
+    // Always sign out, even if the sensors could not be retrieved.
+    await this.#api.logout();
+
+    if (!sensorsInformation.success) {
+      console.error(chalk.redBright('Unable to retrieve the sensors from the portal.'));
+      console.error(util.inspect(sensorsInformation.info, false, null, true));
+
+      exit(1);
+    }
+
+    ADTPulseSensorWizard.printSensors(
+      ADTPulseSensorWizard.generateSensors(sensorsInformation.info.sensors, foundConfig.platform.sensors),
+    );
+
+    exit(0);
+  }
+
+  /**
+   * ADT Pulse Sensor Wizard - Generate sensors.
+   *
+   * @param {ADTPulseSensorWizardGenerateSensorsSensorsInfo}       sensorsInfo       - Sensors info.
+   * @param {ADTPulseSensorWizardGenerateSensorsConfiguredSensors} configuredSensors - Configured sensors.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSensorWizardGenerateSensorsReturns}
+   *
+   * @since 3.3.0
+   */
+  private static generateSensors(sensorsInfo: ADTPulseSensorWizardGenerateSensorsSensorsInfo, configuredSensors: ADTPulseSensorWizardGenerateSensorsConfiguredSensors): ADTPulseSensorWizardGenerateSensorsReturns {
+    const generated: ADTPulseSensorWizardGenerateSensorsReturns = {
+      supported: [],
+      unmatched: [],
+      unsupported: [],
+    };
+
+    for (let i = 0; i < sensorsInfo.length; i += 1) {
+      const { deviceType, name, zone } = sensorsInfo[i];
+      const type = condenseSensorType(deviceType);
+
+      if (type === undefined) {
+        generated.unsupported.push({
+          reason: `device type "${deviceType}" is not supported`,
+          sensor: sensorsInfo[i],
+        });
+
+        continue;
+      }
+
+      if (zone < 1 || zone > 99) {
+        generated.unsupported.push({
+          reason: `zone ${zone} is outside of the supported range (1 through 99)`,
+          sensor: sensorsInfo[i],
+        });
+
+        continue;
+      }
+
+      // Keep the display name and bypass policy the user already chose for this sensor.
+      const configuredSensor = configuredSensors.find((sensor) => sensor.adtName === name && sensor.adtType === type && sensor.adtZone === zone);
+
+      generated.supported.push({
+        ...(configuredSensor?.name !== undefined) ? { name: configuredSensor.name } : {},
+        adtName: name,
+        adtType: type,
+        adtZone: zone,
+        ...(configuredSensor?.bypassPolicy !== undefined) ? { bypassPolicy: configuredSensor.bypassPolicy } : {},
+      });
+    }
+
+    // Configured sensors that match nothing on the portal usually have a typo.
+    generated.unmatched = configuredSensors.filter((configuredSensor) => !generated.supported.some((sensor) => (
+      sensor.adtName === configuredSensor.adtName
+      && sensor.adtType === configuredSensor.adtType
+      && sensor.adtZone === configuredSensor.adtZone
+    )));
+
+    return generated;
+  }
+
+  /**
+   * ADT Pulse Sensor Wizard - Print sensors.
+   *
+   * @param {ADTPulseSensorWizardPrintSensorsSensors} sensors - Sensors.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSensorWizardPrintSensorsReturns}
+   *
+   * @since 3.3.0
+   */
+  private static printSensors(sensors: ADTPulseSensorWizardPrintSensorsSensors): ADTPulseSensorWizardPrintSensorsReturns {
+    console.info([
+      '',
+      chalk.bold(`Found ${sensors.supported.length} supported ${getPluralForm(sensors.supported.length, 'sensor', 'sensors')}. Replace the "sensors" array in your config with the block below:`),
+      '',
+      JSON.stringify({ sensors: sensors.supported }, null, 2),
+    ].join('\n'));
+
+    if (sensors.unsupported.length > 0) {
+      console.info([
+        '',
+        chalk.bold(`Skipped ${sensors.unsupported.length} unsupported ${getPluralForm(sensors.unsupported.length, 'device', 'devices')}:`),
+        ...sensors.unsupported.map(({ reason, sensor }) => `    ${chalk.yellowBright(sensor.name)} (zone ${sensor.zone}) - ${reason}`),
+      ].join('\n'));
+    }
+
+    if (sensors.unmatched.length > 0) {
+      console.info([
+        '',
+        chalk.bold(`Your current config has ${sensors.unmatched.length} ${getPluralForm(sensors.unmatched.length, 'sensor that does', 'sensors that do')} not match the portal:`),
+        ...sensors.unmatched.map((sensor) => `    ${chalk.redBright(sensor.adtName)} (adtType: ${sensor.adtType}, adtZone: ${sensor.adtZone})`),
+      ].join('\n'));
+    }
+
+    console.info('');
+  }
+
+  /**
+   * ADT Pulse Sensor Wizard - Display startup header.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSensorWizardDisplayStartupHeaderReturns}
+   *
+   * @since 3.3.0
+   */
+  private static displayStartupHeader(): ADTPulseSensorWizardDisplayStartupHeaderReturns {
+    console.info([
+      chalk.cyanBright('################################################################'),
+      chalk.cyanBright('####     ADT Pulse for Homebridge Plugin Sensor Wizard      ####'),
+      chalk.cyanBright('####  https://github.com/mrjackyliang/homebridge-adt-pulse  ####'),
+      chalk.cyanBright('####                                                        ####'),
+      chalk.cyanBright('####             Copyright (c) 2024 Jacky Liang             ####'),
+      chalk.cyanBright('################################################################'),
+      '',
+      'This wizard signs in to the portal using your Homebridge config and lists the sensors',
+      'found in the "System" tab, ready to be pasted into the "sensors" array.',
+      '',
+      `${chalk.yellowBright('NOTICE')}: The API gathers anonymous analytics to detect potential bugs or issues.`,
+      '        All personally identifiable information will be redacted.',
+      '',
+    ].join('\n'));
+  }
+}
+
+const instance = new ADTPulseSensorWizard();
+await instance.startWizard();
@@ -0,0 +1,1370 @@
+import _ from 'lodash';
+import { randomInt, randomUUID } from 'node:crypto';
+import http from 'node:http';
+
+import { debugLog } from '@/lib/utility.js';
+import type {
+  ADTPulseSimulatorAdvanceSyncCodeReturns,
+  ADTPulseSimulatorConstructorOptions,
+  ADTPulseSimulatorCredentials,
+  ADTPulseSimulatorDebug,
+  ADTPulseSimulatorDistrustFingerprintsReturns,
+  ADTPulseSimulatorExpireSessionsReturns,
+  ADTPulseSimulatorGenerateArmDisarmPageForm,
+  ADTPulseSimulatorGenerateArmDisarmPageReturns,
+  ADTPulseSimulatorGenerateArmDisarmPageSession,
+  ADTPulseSimulatorGenerateDevicePageReturns,
+  ADTPulseSimulatorGenerateGatewayPageReturns,
+  ADTPulseSimulatorGenerateMfaChallengePageReturns,
+  ADTPulseSimulatorGenerateMfaChallengePageSession,
+  ADTPulseSimulatorGenerateMfaVerifyPageReturns,
+  ADTPulseSimulatorGenerateMfaVerifyPageSession,
+  ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtons,
+  ADTPulseSimulatorGenerateOrbSecurityButtonsReturns,
+  ADTPulseSimulatorGenerateOrbSecurityButtonsSession,
+  ADTPulseSimulatorGenerateOrbTextSummaryReturns,
+  ADTPulseSimulatorGenerateOrbTextSummaryState,
+  ADTPulseSimulatorGenerateOrbTextSummaryStatus,
+  ADTPulseSimulatorGeneratePageBody,
+  ADTPulseSimulatorGeneratePageReturns,
+  ADTPulseSimulatorGeneratePageTitle,
+  ADTPulseSimulatorGenerateSignInPageReturns,
+  ADTPulseSimulatorGenerateSignInPageWarnMessage,
+  ADTPulseSimulatorGenerateSummaryPageReturns,
+  ADTPulseSimulatorGenerateSummaryPageSession,
+  ADTPulseSimulatorGenerateSystemPageReturns,
+  ADTPulseSimulatorGetBaseUrlReturns,
+  ADTPulseSimulatorGetMfaCodeReturns,
+  ADTPulseSimulatorGetSessionRequest,
+  ADTPulseSimulatorGetSessionResponse,
+  ADTPulseSimulatorGetSessionReturns,
+  ADTPulseSimulatorHandleArmDisarmForm,
+  ADTPulseSimulatorHandleArmDisarmReturns,
+  ADTPulseSimulatorHandleArmDisarmSession,
+  ADTPulseSimulatorHandleMfaSignInForm,
+  ADTPulseSimulatorHandleMfaSignInResponse,
+  ADTPulseSimulatorHandleMfaSignInReturns,
+  ADTPulseSimulatorHandleMfaSignInSession,
+  ADTPulseSimulatorHandleMfaSignInWorkflow,
+  ADTPulseSimulatorHandleRequestRequest,
+  ADTPulseSimulatorHandleRequestResponse,
+  ADTPulseSimulatorHandleRequestReturns,
+  ADTPulseSimulatorHandleRunRraCommandForm,
+  ADTPulseSimulatorHandleRunRraCommandReturns,
+  ADTPulseSimulatorHandleRunRraCommandSession,
+  ADTPulseSimulatorHasOpenSensorsReturns,
+  ADTPulseSimulatorReadFormRequest,
+  ADTPulseSimulatorReadFormReturns,
+  ADTPulseSimulatorRefreshStateReturns,
+  ADTPulseSimulatorSendBody,
+  ADTPulseSimulatorSendContentType,
+  ADTPulseSimulatorSendRedirectLocation,
+  ADTPulseSimulatorSendRedirectResponse,
+  ADTPulseSimulatorSendRedirectReturns,
+  ADTPulseSimulatorSendResponse,
+  ADTPulseSimulatorSendReturns,
+  ADTPulseSimulatorSendStatusCode,
+  ADTPulseSimulatorServer,
+  ADTPulseSimulatorSessions,
+  ADTPulseSimulatorSetAccessCodeAccessCode,
+  ADTPulseSimulatorSetAccessCodeReturns,
+  ADTPulseSimulatorSetSensorStatusIcon,
+  ADTPulseSimulatorSetSensorStatusReturns,
+  ADTPulseSimulatorSetSensorStatusStatuses,
+  ADTPulseSimulatorSetSensorStatusZone,
+  ADTPulseSimulatorStartHostname,
+  ADTPulseSimulatorStartPort,
+  ADTPulseSimulatorStartReturns,
+  ADTPulseSimulatorState,
+  ADTPulseSimulatorStopReturns,
+  ADTPulseSimulatorTriggerAlarmAlarm,
+  ADTPulseSimulatorTriggerAlarmReturns,
+  ADTPulseSimulatorUpdateGatewayGateway,
+  ADTPulseSimulatorUpdateGatewayReturns,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Simulator.
+ *
+ * A local stand-in for the ADT Pulse portal. Pages are rendered with the same
+ * markup the parsers in "utility.ts" select on, so "ADTPulse" can be pointed
+ * at it through the "baseUrl" internal config without reaching the real portal.
+ * Set the "isSimulator" internal config as well. The API client only accepts
+ * the "http://" address of the simulator with it, and does not report its
+ * pages as parser anomalies. This module is only used by the "simulator"
+ * script, and is left out of the published package.
+ *
+ * @since 3.3.0
+ */
+export class ADTPulseSimulator {
+  /**
+   * ADT Pulse Simulator - Credentials.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #credentials: ADTPulseSimulatorCredentials;
+
+  /**
+   * ADT Pulse Simulator - Debug.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #debug: ADTPulseSimulatorDebug;
+
+  /**
+   * ADT Pulse Simulator - Server.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #server: ADTPulseSimulatorServer;
+
+  /**
+   * ADT Pulse Simulator - Sessions.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #sessions: ADTPulseSimulatorSessions;
+
+  /**
+   * ADT Pulse Simulator - State.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #state: ADTPulseSimulatorState;
+
+  /**
+   * ADT Pulse Simulator - Constructor.
+   *
+   * @param {ADTPulseSimulatorConstructorOptions} options - Options.
+   *
+   * @since 3.3.0
+   */
+  public constructor(options: ADTPulseSimulatorConstructorOptions = {}) {
+    this.#credentials = {
+      password: options.password ?? 'simulator',
+      username: options.username ?? 'simulator@example.com',
+    };
+
+    this.#debug = options.debug ?? false;
+
+    this.#sessions = new Map();
+
+    this.#state = {
+      accessCode: options.accessCode ?? null,
+      alarm: null,
+      armingDelay: options.armingDelay ?? 0,
+      armingUntil: 0,
+      armValue: 'off',
+      baseUrl: 'http://127.0.0.1',
+      gateway: {
+        broadbandConnectionStatus: 'Active',
+        cellularConnectionStatus: 'Active',
+        cellularSignalStrength: '5 Bars',
+        primaryConnectionType: 'Broadband',
+        status: 'Online',
+      },
+      isAlarmUncleared: false,
+      isMfaRequired: false,
+      mfaCode: null,
+      networkId: options.networkId ?? '1234567890',
+      portalVersion: options.portalVersion ?? '27.0.0-140',
+      sensors: options.sensors ?? [
+        {
+          deviceId: 2,
+          deviceType: 'Door/Window Sensor',
+          icon: 'devStatOK',
+          name: 'Front Door',
+          status: 'Online',
+          statuses: ['Closed'],
+          zone: 1,
+        },
+        {
+          deviceId: 3,
+          deviceType: 'Door/Window Sensor',
+          icon: 'devStatOK',
+          name: 'Back Door',
+          status: 'Online',
+          statuses: ['Closed'],
+          zone: 2,
+        },
+        {
+          deviceId: 4,
+          deviceType: 'Motion Sensor',
+          icon: 'devStatOK',
+          name: 'Living Room Motion',
+          status: 'Online',
+          statuses: ['No Motion'],
+          zone: 3,
+        },
+        {
+          deviceId: 5,
+          deviceType: 'Fire (Smoke/Heat) Detector',
+          icon: 'devStatOK',
+          name: 'Hallway Smoke',
+          status: 'Online',
+          statuses: ['Okay'],
+          zone: 4,
+        },
+        {
+          deviceId: 6,
+          deviceType: 'Carbon Monoxide Detector',
+          icon: 'devStatOK',
+          name: 'Hallway CO',
+          status: 'Online',
+          statuses: ['Okay'],
+          zone: 5,
+        },
+        {
+          deviceId: 7,
+          deviceType: 'Water/Flood Sensor',
+          icon: 'devStatOK',
+          name: 'Basement Water',
+          status: 'Online',
+          statuses: ['Okay'],
+          zone: 6,
+        },
+      ],
+      syncCodeCounter: 1000,
+      trustedFingerprints: [],
+    };
+  }
+
+  /**
+   * ADT Pulse Simulator - Start.
+   *
+   * @param {ADTPulseSimulatorStartPort}     port     - Port.
+   * @param {ADTPulseSimulatorStartHostname} hostname - Hostname.
+   *
+   * @returns {ADTPulseSimulatorStartReturns}
+   *
+   * @since 3.3.0
+   */
+  public async start(port: ADTPulseSimulatorStartPort = 0, hostname: ADTPulseSimulatorStartHostname = '127.0.0.1'): ADTPulseSimulatorStartReturns {
+    this.#server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch((error) => {
+        if (this.#debug) {
+          debugLog(null, 'simulator-portal.ts / ADTPulseSimulator.start()', 'error', `Request failed ➜ ${error}`);
+        }
+
+        ADTPulseSimulator.send(response, 500, 'text/plain', 'Internal Server Error');
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      if (this.#server === undefined) {
+        reject(new Error('The HTTP server was not created'));
+
+        return;
+      }
+
+      this.#server.once('error', reject);
+
+      this.#server.listen(port, hostname, () => {
+        const address = this.#server?.address();
+
+        // A listening TCP server always reports an "AddressInfo" object.
+        if (address === null || address === undefined || typeof address === 'string') {
+          reject(new Error('The HTTP server did not report a listening address'));
+
+          return;
+        }
+
+        this.#state.baseUrl = `http://${hostname}:${address.port}`;
+
+        if (this.#debug) {
+          debugLog(null, 'simulator-portal.ts / ADTPulseSimulator.start()', 'success', `Simulator is listening on "${this.#state.baseUrl}"`);
+        }
+
+        resolve(this.#state.baseUrl);
+      });
+    });
+  }
+
+  /**
+   * ADT Pulse Simulator - Stop.
+   *
+   * @returns {ADTPulseSimulatorStopReturns}
+   *
+   * @since 3.3.0
+   */
+  public async stop(): ADTPulseSimulatorStopReturns {
+    return new Promise((resolve) => {
+      if (this.#server === undefined) {
+        resolve();
+
+        return;
+      }
+
+      this.#server.closeAllConnections();
+      this.#server.close(() => {
+        this.#server = undefined;
+
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * ADT Pulse Simulator - Get base url.
+   *
+   * @returns {ADTPulseSimulatorGetBaseUrlReturns}
+   *
+   * @since 3.3.0
+   */
+  public getBaseUrl(): ADTPulseSimulatorGetBaseUrlReturns {
+    return this.#state.baseUrl;
+  }
+
+  /**
+   * ADT Pulse Simulator - Expire sessions.
+   *
+   * @returns {ADTPulseSimulatorExpireSessionsReturns}
+   *
+   * @since 3.3.0
+   */
+  public expireSessions(): ADTPulseSimulatorExpireSessionsReturns {
+    this.#sessions.clear();
+  }
+
+  /**
+   * ADT Pulse Simulator - Distrust fingerprints.
+   *
+   * @returns {ADTPulseSimulatorDistrustFingerprintsReturns}
+   *
+   * @since 3.3.0
+   */
+  public distrustFingerprints(): ADTPulseSimulatorDistrustFingerprintsReturns {
+    // From now on, fingerprints have to be trusted through the multi-factor authentication challenge first.
+    this.#state.isMfaRequired = true;
+    this.#state.trustedFingerprints = [];
+  }
+
+  /**
+   * ADT Pulse Simulator - Get mfa code.
+   *
+   * @returns {ADTPulseSimulatorGetMfaCodeReturns}
+   *
+   * @since 3.3.0
+   */
+  public getMfaCode(): ADTPulseSimulatorGetMfaCodeReturns {
+    return this.#state.mfaCode;
+  }
+
+  /**
+   * ADT Pulse Simulator - Set access code.
+   *
+   * @param {ADTPulseSimulatorSetAccessCodeAccessCode} accessCode - Access code.
+   *
+   * @returns {ADTPulseSimulatorSetAccessCodeReturns}
+   *
+   * @since 3.3.0
+   */
+  public setAccessCode(accessCode: ADTPulseSimulatorSetAccessCodeAccessCode): ADTPulseSimulatorSetAccessCodeReturns {
+    // Use "null" to arm and disarm without an access code again. The prompt is not taken from a real portal capture, so the API client refuses to submit codes to it.
+    this.#state.accessCode = accessCode;
+  }
+
+  /**
+   * ADT Pulse Simulator - Set sensor status.
+   *
+   * @param {ADTPulseSimulatorSetSensorStatusZone}     zone     - Zone.
+   * @param {ADTPulseSimulatorSetSensorStatusIcon}     icon     - Icon.
+   * @param {ADTPulseSimulatorSetSensorStatusStatuses} statuses - Statuses.
+   *
+   * @returns {ADTPulseSimulatorSetSensorStatusReturns}
+   *
+   * @since 3.3.0
+   */
+  public setSensorStatus(zone: ADTPulseSimulatorSetSensorStatusZone, icon: ADTPulseSimulatorSetSensorStatusIcon, statuses: ADTPulseSimulatorSetSensorStatusStatuses): ADTPulseSimulatorSetSensorStatusReturns {
+    const sensor = this.#state.sensors.find((stateSensor) => stateSensor.zone === zone);
+
+    if (sensor === undefined) {
+      return false;
+    }
+
+    sensor.icon = icon;
+    sensor.statuses = statuses;
+
+    this.advanceSyncCode();
+
+    return true;
+  }
+
+  /**
+   * ADT Pulse Simulator - Trigger alarm.
+   *
+   * @param {ADTPulseSimulatorTriggerAlarmAlarm} alarm - Alarm.
+   *
+   * @returns {ADTPulseSimulatorTriggerAlarmReturns}
+   *
+   * @since 3.3.0
+   */
+  public triggerAlarm(alarm: ADTPulseSimulatorTriggerAlarmAlarm): ADTPulseSimulatorTriggerAlarmReturns {
+    this.#state.alarm = alarm;
+    this.#state.armingUntil = 0;
+
+    this.advanceSyncCode();
+  }
+
+  /**
+   * ADT Pulse Simulator - Update gateway.
+   *
+   * @param {ADTPulseSimulatorUpdateGatewayGateway} gateway - Gateway.
+   *
+   * @returns {ADTPulseSimulatorUpdateGatewayReturns}
+   *
+   * @since 3.3.0
+   */
+  public updateGateway(gateway: ADTPulseSimulatorUpdateGatewayGateway): ADTPulseSimulatorUpdateGatewayReturns {
+    this.#state.gateway = {
+      ...this.#state.gateway,
+      ...gateway,
+    };
+  }
+
+  /**
+   * ADT Pulse Simulator - Handle request.
+   *
+   * @param {ADTPulseSimulatorHandleRequestRequest}  request  - Request.
+   * @param {ADTPulseSimulatorHandleRequestResponse} response - Response.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorHandleRequestReturns}
+   *
+   * @since 3.3.0
+   */
+  private async handleRequest(request: ADTPulseSimulatorHandleRequestRequest, response: ADTPulseSimulatorHandleRequestResponse): ADTPulseSimulatorHandleRequestReturns {
+    const url = new URL(request.url ?? '/', this.#state.baseUrl);
+    const prefix = `/myhome/${this.#state.portalVersion}`;
+    const signInUrl = `${this.#state.baseUrl}${prefix}/access/signin.jsp`;
+    const session = this.getSession(request, response);
+
+    if (this.#debug) {
+      debugLog(null, 'simulator-portal.ts / ADTPulseSimulator.handleRequest()', 'info', `${request.method} ${url.pathname}${url.search}`);
+    }
+
+    this.refreshState();
+
+    // The homepage always sends visitors to the sign-in page.
+    if (url.pathname === '/') {
+      ADTPulseSimulator.sendRedirect(response, signInUrl);
+
+      return;
+    }
+
+    // Every other page is versioned.
+    if (!url.pathname.startsWith(`${prefix}/`)) {
+      ADTPulseSimulator.send(response, 404, 'text/plain', 'Not Found');
+
+      return;
+    }
+
+    const page = url.pathname.slice(prefix.length);
+
+    // Pages that are available without signing in.
+    if (page === '/access/signin.jsp' && request.method === 'POST') {
+      const form = await ADTPulseSimulator.readForm(request);
+      const usernameMatched = form.get('usernameForm') === this.#credentials.username;
+      const passwordMatched = form.get('passwordForm') === this.#credentials.password;
+      const fingerprint = form.get('fingerprint') ?? '';
+      const fingerprintExists = fingerprint !== '';
+
+      if (!usernameMatched || !passwordMatched || !fingerprintExists) {
+        session.isAuthenticated = false;
+        session.warnMessage = 'Sign In unsuccessful. Your username or password is incorrect.';
+
+        ADTPulseSimulator.sendRedirect(response, `${signInUrl}?e=ns&partner=adt`);
+
+        return;
+      }
+
+      // Fingerprints that are not trusted yet have to complete the multi-factor authentication challenge.
+      if (this.#state.isMfaRequired && !this.#state.trustedFingerprints.includes(fingerprint)) {
+        session.isAuthenticated = false;
+        session.mfaCode = null;
+        session.mfaFingerprint = fingerprint;
+        session.warnMessage = null;
+
+        ADTPulseSimulator.sendRedirect(response, `${this.#state.baseUrl}${prefix}/mfa/mfaSignIn.jsp?workflow=challenge`);
+
+        return;
+      }
+
+      session.accessCodePrompt = null;
+      session.isAuthenticated = true;
+      session.isCleanState = true;
+      session.pendingForceArm = null;
+      session.sat = randomUUID();
+      session.warnMessage = null;
+
+      ADTPulseSimulator.sendRedirect(response, `${this.#state.baseUrl}${prefix}/summary/summary.jsp`);
+
+      return;
+    }
+
+    if (page === '/access/signin.jsp') {
+      const warnMessage = (url.searchParams.get('e') === 'ns') ? session.warnMessage : null;
+
+      ADTPulseSimulator.send(response, 200, 'text/html', this.generateSignInPage(warnMessage));
+
+      return;
+    }
+
+    if (page === '/mfa/mfaSignIn.jsp') {
+      this.handleMfaSignIn(session, url.searchParams.get('workflow'), (request.method === 'POST') ? await ADTPulseSimulator.readForm(request) : null, response);
+
+      return;
+    }
+
+    if (page === '/access/signout.jsp') {
+      this.#sessions.delete(session.id);
+
+      ADTPulseSimulator.sendRedirect(response, `${signInUrl}?networkid=${this.#state.networkId}&partner=adt`);
+
+      return;
+    }
+
+    // Signed out sessions are sent back to the sign-in page, like the real portal does.
+    if (!session.isAuthenticated) {
+      ADTPulseSimulator.sendRedirect(response, signInUrl);
+
+      return;
+    }
+
+    switch (page) {
+      case '/summary/summary.jsp':
+        ADTPulseSimulator.send(response, 200, 'text/html', this.generateSummaryPage(session));
+        break;
+      case '/system/system.jsp':
+        ADTPulseSimulator.send(response, 200, 'text/html', this.generateSystemPage());
+        break;
+      case '/system/gateway.jsp':
+        ADTPulseSimulator.send(response, 200, 'text/html', this.generateGatewayPage());
+        break;
+      case '/system/device.jsp':
+        if (url.searchParams.get('id') !== '1') {
+          ADTPulseSimulator.send(response, 404, 'text/plain', 'Not Found');
+          break;
+        }
+
+        ADTPulseSimulator.send(response, 200, 'text/html', this.generateDevicePage());
+        break;
+      case '/Ajax/SyncCheckServ':
+        ADTPulseSimulator.send(response, 200, 'text/plain', `${this.#state.syncCodeCounter}-0-0`);
+        break;
+      case '/KeepAlive':
+        ADTPulseSimulator.send(response, 200, 'text/plain', '');
+        break;
+      case '/quickcontrol/armDisarm.jsp': {
+        const armDisarmForm = await ADTPulseSimulator.readForm(request);
+
+        this.handleArmDisarm(session, armDisarmForm);
+
+        ADTPulseSimulator.send(response, 200, 'text/html', this.generateArmDisarmPage(session, armDisarmForm));
+        break;
+      }
+      case '/quickcontrol/serv/RunRRACommand':
+        ADTPulseSimulator.send(response, 200, 'text/html', this.handleRunRraCommand(session, await ADTPulseSimulator.readForm(request)));
+        break;
+      default:
+        ADTPulseSimulator.send(response, 404, 'text/plain', 'Not Found');
+        break;
+    }
+  }
+
+  /**
+   * ADT Pulse Simulator - Handle mfa sign in.
+   *
+   * @param {ADTPulseSimulatorHandleMfaSignInSession}  session  - Session.
+   * @param {ADTPulseSimulatorHandleMfaSignInWorkflow} workflow - Workflow.
+   * @param {ADTPulseSimulatorHandleMfaSignInForm}     form     - Form.
+   * @param {ADTPulseSimulatorHandleMfaSignInResponse} response - Response.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorHandleMfaSignInReturns}
+   *
+   * @since 3.3.0
+   */
+  private handleMfaSignIn(session: ADTPulseSimulatorHandleMfaSignInSession, workflow: ADTPulseSimulatorHandleMfaSignInWorkflow, form: ADTPulseSimulatorHandleMfaSignInForm, response: ADTPulseSimulatorHandleMfaSignInResponse): ADTPulseSimulatorHandleMfaSignInReturns {
+    const mfaSignInUrl = `${this.#state.baseUrl}/myhome/${this.#state.portalVersion}/mfa/mfaSignIn.jsp`;
+    const { mfaFingerprint } = session;
+
+    // Only sessions that signed in with an untrusted fingerprint are challenged.
+    if (mfaFingerprint === null) {
+      ADTPulseSimulator.sendRedirect(response, `${this.#state.baseUrl}/myhome/${this.#state.portalVersion}/access/signin.jsp`);
+
+      return;
+    }
+
+    // The challenge page lets the user pick where the code is sent to.
+    if (workflow === 'challenge') {
+      const deliveryMethod = form?.get('deliveryMethod');
+
+      if (deliveryMethod === 'email' || deliveryMethod === 'sms') {
+        const mfaCode = randomInt(0, 1000000).toString().padStart(6, '0');
+
+        Object.assign(session, { mfaCode });
+        this.#state.mfaCode = mfaCode;
+
+        if (this.#debug) {
+          debugLog(null, 'simulator-portal.ts / ADTPulseSimulator.handleMfaSignIn()', 'info', `Verification code sent via ${deliveryMethod} ➜ ${mfaCode}`);
+        }
+
+        ADTPulseSimulator.sendRedirect(response, `${mfaSignInUrl}?workflow=verify`);
+
+        return;
+      }
+
+      ADTPulseSimulator.send(response, 200, 'text/html', this.generateMfaChallengePage(session));
+
+      return;
+    }
+
+    // The verify page asks for the code, and whether to trust this device.
+    if (workflow === 'verify' && session.mfaCode !== null) {
+      if (form === null) {
+        ADTPulseSimulator.send(response, 200, 'text/html', this.generateMfaVerifyPage(session));
+
+        return;
+      }
+
+      if (form.get('otpCode') !== session.mfaCode) {
+        Object.assign(session, { warnMessage: 'The verification code you entered is incorrect. Please try again.' });
+
+        ADTPulseSimulator.sendRedirect(response, `${mfaSignInUrl}?workflow=verify`);
+
+        return;
+      }
+
+      if (form.get('trustDevice') === 'true' && !this.#state.trustedFingerprints.includes(mfaFingerprint)) {
+        this.#state.trustedFingerprints.push(mfaFingerprint);
+      }
+
+      Object.assign(session, {
+        accessCodePrompt: null,
+        isAuthenticated: true,
+        isCleanState: true,
+        mfaCode: null,
+        mfaFingerprint: null,
+        pendingForceArm: null,
+        sat: randomUUID(),
+        warnMessage: null,
+      });
+
+      ADTPulseSimulator.sendRedirect(response, `${this.#state.baseUrl}/myhome/${this.#state.portalVersion}/summary/summary.jsp`);
+
+      return;
+    }
+
+    ADTPulseSimulator.sendRedirect(response, `${mfaSignInUrl}?workflow=challenge`);
+  }
+
+  /**
+   * ADT Pulse Simulator - Handle arm disarm.
+   *
+   * @param {ADTPulseSimulatorHandleArmDisarmSession} session - Session.
+   * @param {ADTPulseSimulatorHandleArmDisarmForm}    form    - Form.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorHandleArmDisarmReturns}
+   *
+   * @since 3.3.0
+   */
+  private handleArmDisarm(session: ADTPulseSimulatorHandleArmDisarmSession, form: ADTPulseSimulatorHandleArmDisarmForm): ADTPulseSimulatorHandleArmDisarmReturns {
+    const arm = form.get('arm');
+    const armState = form.get('armstate');
+
+    // The "sat" code is generated on every login, requests from older sessions are ignored.
+    if (form.get('sat') !== session.sat) {
+      return;
+    }
+
+    // Panels that require an access code ask for it before the arm state is updated.
+    if (this.#state.accessCode !== null) {
+      const accessCode = form.get('accessCode');
+
+      if (accessCode === null) {
+        Object.assign(session, { accessCodePrompt: 'required' });
+
+        return;
+      }
+
+      if (accessCode !== this.#state.accessCode) {
+        Object.assign(session, { accessCodePrompt: 'invalid' });
+
+        return;
+      }
+
+      Object.assign(session, { accessCodePrompt: null });
+    }
+
+    // Disarming stops a ringing alarm first, then clears the uncleared alarm.
+    if (arm === 'off') {
+      if (this.#state.alarm !== null) {
+        this.#state.alarm = null;
+        this.#state.isAlarmUncleared = true;
+      } else if (armState === 'disarmed_with_alarm' || armState === 'disarmed+with+alarm') {
+        this.#state.isAlarmUncleared = false;
+      }
+
+      this.#state.armValue = 'off';
+      this.#state.armingUntil = 0;
+      this.#state.sensors.forEach((sensor) => {
+        _.pull(sensor.statuses, 'Bypassed');
+      });
+    } else if (arm === 'away' || arm === 'night' || arm === 'stay') {
+      // The portal only accepts arming from a disarmed system.
+      if (this.#state.armValue !== 'off' || this.#state.isAlarmUncleared || this.#state.alarm !== null) {
+        return;
+      }
+
+      // Open sensors must be acknowledged on the force arm page first.
+      if (this.hasOpenSensors()) {
+        Object.assign(session, { pendingForceArm: arm });
+
+        return;
+      }
+
+      this.#state.armValue = arm;
+      this.#state.armingUntil = (this.#state.armingDelay > 0) ? Date.now() + this.#state.armingDelay : 0;
+    } else {
+      return;
+    }
+
+    // States are synced across an entire site, every signed in session becomes "dirty".
+    this.#sessions.forEach((siteSession) => {
+      Object.assign(siteSession, { isCleanState: false });
+    });
+
+    this.advanceSyncCode();
+  }
+
+  /**
+   * ADT Pulse Simulator - Handle run rra command.
+   *
+   * @param {ADTPulseSimulatorHandleRunRraCommandSession} session - Session.
+   * @param {ADTPulseSimulatorHandleRunRraCommandForm}    form    - Form.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorHandleRunRraCommandReturns}
+   *
+   * @since 3.3.0
+   */
+  private handleRunRraCommand(session: ADTPulseSimulatorHandleRunRraCommandSession, form: ADTPulseSimulatorHandleRunRraCommandForm): ADTPulseSimulatorHandleRunRraCommandReturns {
+    const arm = form.get('arm');
+    const { pendingForceArm } = session;
+
+    if (form.get('sat') !== session.sat || pendingForceArm === null) {
+      return 'Could not process the request!</br></br>Error: Method not allowed.  Allowed methods GET, HEAD';
+    }
+
+    Object.assign(session, { pendingForceArm: null });
+
+    // The "Cancel" button leaves the system disarmed.
+    if (form.get('href') === 'rest/adt/ui/client/security/setCancelProtest') {
+      return 'Could not process the request!</br></br>Error: 1.0-OKAY';
+    }
+
+    if (
+      form.get('href') !== 'rest/adt/ui/client/security/setForceArm'
+      || form.get('armstate') !== 'forcearm'
+      || arm !== pendingForceArm
+    ) {
+      return 'Could not process the request!</br></br>Error: Method not allowed.  Allowed methods GET, HEAD';
+    }
+
+    // Open sensors are bypassed until the system is disarmed.
+    this.#state.sensors.forEach((sensor) => {
+      if (sensor.statuses.includes('Open') && !sensor.statuses.includes('Bypassed')) {
+        sensor.statuses.unshift('Bypassed');
+      }
+    });
+
+    this.#state.armValue = pendingForceArm;
+    this.#state.armingUntil = (this.#state.armingDelay > 0) ? Date.now() + this.#state.armingDelay : 0;
+
+    // States are synced across an entire site, every signed in session becomes "dirty".
+    this.#sessions.forEach((siteSession) => {
+      Object.assign(siteSession, { isCleanState: false });
+    });
+
+    this.advanceSyncCode();
+
+    return 'Could not process the request!</br></br>Error: 1.0-OKAY';
+  }
+
+  /**
+   * ADT Pulse Simulator - Generate arm disarm page.
+   *
+   * @param {ADTPulseSimulatorGenerateArmDisarmPageSession} session - Session.
+   * @param {ADTPulseSimulatorGenerateArmDisarmPageForm}    form    - Form.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGenerateArmDisarmPageReturns}
+   *
+   * @since 3.3.0
+   */
+  private generateArmDisarmPage(session: ADTPulseSimulatorGenerateArmDisarmPageSession, form: ADTPulseSimulatorGenerateArmDisarmPageForm): ADTPulseSimulatorGenerateArmDisarmPageReturns {
+    const relativeUrl = `/myhome/${this.#state.portalVersion}/quickcontrol/serv/RunRRACommand`;
+
+    // The access code prompt posts the arm request again, together with the access code.
+    if (session.accessCodePrompt !== null) {
+      const hiddenFields = ['href', 'armstate', 'arm', 'sat'].map((name) => `<input type="hidden" name="${name}" value="${_.escape(form.get(name) ?? '')}">`);
+
+      return ADTPulseSimulator.generatePage('Arm/Disarm', [
+        '<div class="p_armDisarmWrapper">',
+        `<div>${(session.accessCodePrompt === 'invalid') ? 'The access code you entered is not valid.' : 'Enter your access code to continue.'}</div>`,
+        `<form method="post" action="/myhome/${this.#state.portalVersion}/quickcontrol/armDisarm.jsp">`,
+        ...hiddenFields,
+        '<input type="password" name="accessCode" maxlength="8">',
+        '<input type="submit" value="Submit">',
+        '</form>',
+        '</div>',
+      ].join('\n'));
+    }
+
+    // Nothing to acknowledge, the arm state has already been updated.
+    if (session.pendingForceArm === null) {
+      return ADTPulseSimulator.generatePage('Arm/Disarm', '<div class="p_armDisarmWrapper"></div>');
+    }
+
+    return ADTPulseSimulator.generatePage('Arm/Disarm', [
+      '<div class="p_armDisarmWrapper">',
+      '<div>Some sensors are open or reporting motion. Arm anyway?</div>',
+      `<input type="button" value="Arm Anyway" onclick="doSubmit( '${relativeUrl}?sat=${session.sat}&href=rest\\/adt\\/ui\\/client\\/security\\/setForceArm&armstate=forcearm&arm=${session.pendingForceArm}' )">`,
+      `<input type="button" value="Cancel" onclick="doSubmit( '${relativeUrl}?sat=${session.sat}&href=rest\\/adt\\/ui\\/client\\/security\\/setCancelProtest' )">`,
+      '</div>',
+    ].join('\n'));
+  }
+
+  /**
+   * ADT Pulse Simulator - Generate device page.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGenerateDevicePageReturns}
+   *
+   * @since 3.3.0
+   */
+  private generateDevicePage(): ADTPulseSimulatorGenerateDevicePageReturns {
+    return ADTPulseSimulator.generatePage('Security Panel', [
+      '<table class="p_deviceTable">',
+      '<tr><td>Manufacturer/Provider:</td><td>ADT</td></tr>',
+      '<tr><td>Type/Model:</td><td>Security Panel - Safewatch Pro 3000/3000CN</td></tr>',
+      '<tr><td>Emergency Keys:</td><td><div>Button:&nbsp;Fire&nbsp;Alarm&nbsp;(Zone&nbsp;95)</div><div>Button:&nbsp;Audible&nbsp;Panic&nbsp;Alarm&nbsp;(Zone&nbsp;99)</div></td></tr>',
+      '<tr><td>Security Panel Master Code:</td><td>****</td></tr>',
+      `<tr><td>Status:</td><td>${this.#state.gateway.status}</td></tr>`,
+      '</table>',
+    ].join('\n'));
+  }
+
+  /**
+   * ADT Pulse Simulator - Generate gateway page.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGenerateGatewayPageReturns}
+   *
+   * @since 3.3.0
+   */
+  private generateGatewayPage(): ADTPulseSimulatorGenerateGatewayPageReturns {
+    const lastUpdate = new Date(Date.now() - 60000).toLocaleString('en-US');
+    const nextUpdate = new Date(Date.now() + 86340000).toLocaleString('en-US');
+    const { gateway } = this.#state;
+
+    return ADTPulseSimulator.generatePage('Gateway', [
+      '<table class="p_deviceTable">',
+      `<tr><td>Status:</td><td>${gateway.status}</td></tr>`,
+      '<tr><td>Manufacturer:</td><td>ADT Pulse Gateway</td></tr>',
+      '<tr><td>Model:</td><td>iHub-3001</td></tr>',
+      '<tr><td>Serial Number:</td><td>5U020CN3007E3</td></tr>',
+      '<tr><td>Firmware Version:</td><td>24.0.0-9</td></tr>',
+      '<tr><td>Hardware Version:</td><td>HW=3.4, BL=ICONTROL_CFE 1.3, PL=24.0.0-9, SKU=0YUC0500MY5</td></tr>',
+      `<tr><td>Last Update:</td><td>${lastUpdate}</td></tr>`,
+      `<tr><td>Next Update:</td><td>${nextUpdate}</td></tr>`,
+      `<tr><td>Primary Connection Type:</td><td>${_.escape(gateway.primaryConnectionType)}</td></tr>`,
+      `<tr><td>Broadband Connection Status:</td><td>${_.escape(gateway.broadbandConnectionStatus)}</td></tr>`,
+      `<tr><td>Cellular Connection Status:</td><td>${_.escape(gateway.cellularConnectionStatus)}</td></tr>`,
+      `<tr><td>Cellular Signal Strength:</td><td>${_.escape(gateway.cellularSignalStrength)}</td></tr>`,
+      '<tr><td>Broadband LAN IP Address:</td><td>192.168.1.20</td></tr>',
+      '<tr><td>Broadband LAN MAC:</td><td>a0:b1:c2:d3:e4:f5</td></tr>',
+      '<tr><td>Device LAN IP Address:</td><td>192.168.107.1</td></tr>',
+      '<tr><td>Device LAN MAC:</td><td>a0:b1:c2:d3:e4:f6</td></tr>',
+      '<tr><td>Router LAN IP Address:</td><td>192.168.1.1</td></tr>',
+      '<tr><td>Router WAN IP Address:</td><td>203.0.113.10</td></tr>',
+      '</table>',
+    ].join('\n'));
+  }
+
+  /**
+   * ADT Pulse Simulator - Generate mfa challenge page.
+   *
+   * @param {ADTPulseSimulatorGenerateMfaChallengePageSession} session - Session.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGenerateMfaChallengePageReturns}
+   *
+   * @since 3.3.0
+   */
+  private generateMfaChallengePage(session: ADTPulseSimulatorGenerateMfaChallengePageSession): ADTPulseSimulatorGenerateMfaChallengePageReturns {
+    return ADTPulseSimulator.generatePage('Verify Your Identity', [
+      `<form id="mfaSignIn" name="mfaSignIn" method="post" action="/myhome/${this.#state.portalVersion}/mfa/mfaSignIn.jsp?workflow=challenge">`,
+      `<input type="hidden" id="mfaToken" name="mfaToken" value="${session.sat}">`,
+      '<input type="radio" id="deliveryMethodSms" name="deliveryMethod" value="sms" checked>',
+      '<label for="deliveryMethodSms">Text message to (***) ***-1234</label>',
+      '<input type="radio" id="deliveryMethodEmail" name="deliveryMethod" value="email">',
+      `<label for="deliveryMethodEmail">Email to ${_.escape(this.#credentials.username.replace(/^(.).*@/, '$1***@'))}</label>`,
+      '<input type="submit" id="mfaSendCode" value="Send Code">',
+      '</form>',
+    ].join('\n'));
+  }
+
+  /**
+   * ADT Pulse Simulator - Generate mfa verify page.
+   *
+   * @param {ADTPulseSimulatorGenerateMfaVerifyPageSession} session - Session.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGenerateMfaVerifyPageReturns}
+   *
+   * @since 3.3.0
+   */
+  private generateMfaVerifyPage(session: ADTPulseSimulatorGenerateMfaVerifyPageSession): ADTPulseSimulatorGenerateMfaVerifyPageReturns {
+    const { warnMessage } = session;
+
+    // Warn messages are only shown once.
+    Object.assign(session, { warnMessage: null });
+
+    return ADTPulseSimulator.generatePage('Verify Your Identity', [
+      (warnMessage !== null) ? `<div id="warnMsg"><div id="warnMsgContents">${_.escape(warnMessage)}</div></div>` : '',
+      `<form id="mfaSignIn" name="mfaSignIn" method="post" action="/myhome/${this.#state.portalVersion}/mfa/mfaSignIn.jsp?workflow=verify">`,
+      `<input type="hidden" id="mfaToken" name="mfaToken" value="${session.sat}">`,
+      '<input type="text" id="otpCode" name="otpCode" autocomplete="one-time-code">',
+      '<input type="checkbox" id="trustDevice" name="trustDevice" value="true">',
+      '<label for="trustDevice">Trust this device</label>',
+      '<input type="submit" id="mfaVerify" value="Verify">',
+      '</form>',
+    ].join('\n'));
+  }
+
+  /**
+   * ADT Pulse Simulator - Generate orb security buttons.
+   *
+   * @param {ADTPulseSimulatorGenerateOrbSecurityButtonsSession} session - Session.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGenerateOrbSecurityButtonsReturns}
+   *
+   * @since 3.3.0
+   */
+  private generateOrbSecurityButtons(session: ADTPulseSimulatorGenerateOrbSecurityButtonsSession): ADTPulseSimulatorGenerateOrbSecurityButtonsReturns {
+    const { armValue } = this.#state;
+
+    let readyButtons: ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtons;
+
+    // The system is busy arming, the only button is a disabled (pending) button.
+    if (this.#state.armingUntil !== 0 && armValue !== 'off') {
+      return `<input type="button" id="security_button_0" class="p_armDisarmButton" value="Arming ${_.capitalize(armValue)}" disabled="">`;
+    }
+
+    switch (true) {
+      case this.#state.alarm !== null || armValue !== 'off':
+        readyButtons = [
+          {
+            buttonText: 'Disarm',
+            loadingText: 'Disarming',
+            armState: ((): ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtons[number]['armState'] => {
+              if (armValue === 'off') {
+                return (session.isCleanState) ? 'off' : 'disarmed';
+              }
+
+              if (armValue === 'night' && !session.isCleanState) {
+                return 'night+stay';
+              }
+
+              return armValue;
+            })(),
+            arm: 'off',
+          },
+        ];
+        break;
+      case this.#state.isAlarmUncleared:
+        readyButtons = [
+          {
+            buttonText: 'Clear Alarm',
+            loadingText: 'Disarming',
+            armState: (session.isCleanState) ? 'disarmed_with_alarm' : 'disarmed+with+alarm',
+            arm: 'off',
+          },
+        ];
+        break;
+      default:
+        readyButtons = [
+          {
+            buttonText: 'Arm Away',
+            loadingText: 'Arming Away',
+            armState: (session.isCleanState) ? 'off' : 'disarmed',
+            arm: 'away',
+          },
+          {
+            buttonText: 'Arm Stay',
+            loadingText: 'Arming Stay',
+            armState: (session.isCleanState) ? 'off' : 'disarmed',
+            arm: 'stay',
+          },
+        ];
+        break;
+    }
+
+    return readyButtons.map((readyButton, readyButtonIndex) => [
+      `<input type="button" id="security_button_${readyButtonIndex}" class="p_armDisarmButton" value="${readyButton.buttonText}"`,
+      `onclick="setArmState('quickcontrol/armDisarm.jsp','${readyButton.loadingText}','${readyButtonIndex}','${readyButtons.length}','${this.#state.accessCode !== null}',`,
+      `'href=rest/adt/ui/client/security/setArmState&amp;armstate=${readyButton.armState}&amp;arm=${readyButton.arm}&amp;sat=${session.sat}')">`,
+    ].join(' ')).join('\n');
+  }
+
+  /**
+   * ADT Pulse Simulator - Generate orb text summary.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGenerateOrbTextSummaryReturns}
+   *
+   * @since 3.3.0
+   */
+  private generateOrbTextSummary(): ADTPulseSimulatorGenerateOrbTextSummaryReturns {
+    const bypassedCount = this.#state.sensors.filter((sensor) => sensor.statuses.includes('Bypassed')).length;
+    const openCount = this.#state.sensors.filter((sensor) => sensor.statuses.includes('Open')).length;
+
+    let state: ADTPulseSimulatorGenerateOrbTextSummaryState;
+    let status: ADTPulseSimulatorGenerateOrbTextSummaryStatus;
+
+    switch (this.#state.armValue) {
+      case 'away':
+        state = 'Armed Away';
+        break;
+      case 'night':
+        state = 'Armed Night';
+        break;
+      case 'stay':
+        state = 'Armed Stay';
+        break;
+      default:
+        state = 'Disarmed';
+        break;
+    }
+
+    switch (true) {
+      case this.#state.alarm !== null:
+        status = this.#state.alarm;
+        break;
+      case this.#state.isAlarmUncleared:
+        status = 'Uncleared Alarm';
+        break;
+      case bypassedCount > 0:
+        status = (bypassedCount === 1) ? 'Sensor Bypassed' : 'Sensors Bypassed';
+        break;
+      case openCount > 0:
+        status = (openCount === 1) ? '1 Sensor Open' : `${openCount} Sensors Open`;
+        break;
+      default:
+        status = 'All Quiet';
+        break;
+    }
+
+    // The note is shown while the panel is still working on the arm request.
+    if (this.#state.armingUntil !== 0) {
+      return `<span class="p_boldNormalTextLarge">${state}.</span> ${status}. This may take several minutes.`;
+    }
+
+    return `<span class="p_boldNormalTextLarge">${state}.</span> ${status}.`;
+  }
+
+  /**
+   * ADT Pulse Simulator - Generate sign in page.
+   *
+   * @param {ADTPulseSimulatorGenerateSignInPageWarnMessage} warnMessage - Warn message.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGenerateSignInPageReturns}
+   *
+   * @since 3.3.0
+   */
+  private generateSignInPage(warnMessage: ADTPulseSimulatorGenerateSignInPageWarnMessage): ADTPulseSimulatorGenerateSignInPageReturns {
+    return ADTPulseSimulator.generatePage('Sign In', [
+      (warnMessage !== null) ? `<div id="warnMsg"><div id="warnMsgContents">${_.escape(warnMessage)}</div></div>` : '',
+      `<form id="signin" name="signin" method="post" action="/myhome/${this.#state.portalVersion}/access/signin.jsp?e=ns&amp;partner=adt">`,
+      '<input type="text" id="usernameForm" name="usernameForm">',
+      '<input type="password" id="passwordForm" name="passwordForm">',
+      '<input type="checkbox" id="sun" name="sun" value="yes">',
+      '<input type="hidden" id="networkid" name="networkid" value="">',
+      '<input type="hidden" id="fingerprint" name="fingerprint" value="">',
+      '<input type="submit" id="signin_button" value="Sign In">',
+      '</form>',
+    ].join('\n'));
+  }
+
+  /**
+   * ADT Pulse Simulator - Generate summary page.
+   *
+   * @param {ADTPulseSimulatorGenerateSummaryPageSession} session - Session.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGenerateSummaryPageReturns}
+   *
+   * @since 3.3.0
+   */
+  private generateSummaryPage(session: ADTPulseSimulatorGenerateSummaryPageSession): ADTPulseSimulatorGenerateSummaryPageReturns {
+    const sensorRows = this.#state.sensors.map((sensor) => [
+      '<tr class="p_listRow">',
+      `<td><span><canvas icon="${sensor.icon}" width="13" height="13"></canvas></span></td>`,
+      `<td><img src="/myhome/${this.#state.portalVersion}/images/spacer.gif"></td>`,
+      `<td><a class="p_deviceNameText">${_.escape(sensor.name)}</a>&nbsp;<span class="p_grayNormalText">Zone&nbsp;${sensor.zone}</span></td>`,
+      `<td>${sensor.statuses.join(', ')}&nbsp;</td>`,
+      '</tr>',
+    ].join(''));
+
+    return ADTPulseSimulator.generatePage('Summary', [
+      `<a id="p_signout1" href="/myhome/${this.#state.portalVersion}/access/signout.jsp?networkid=${this.#state.networkId}&amp;partner=adt">Sign Out</a>`,
+      `<div id="divOrbSecurityButtons">${this.generateOrbSecurityButtons(session)}</div>`,
+      `<div id="divOrbTextSummary">${this.generateOrbTextSummary()}</div>`,
+      `<table id="orbSensorsList">${sensorRows.join('\n')}</table>`,
+    ].join('\n'));
+  }
+
+  /**
+   * ADT Pulse Simulator - Generate system page.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGenerateSystemPageReturns}
+   *
+   * @since 3.3.0
+   */
+  private generateSystemPage(): ADTPulseSimulatorGenerateSystemPageReturns {
+    const sensorRows = this.#state.sensors.map((sensor) => [
+      `<tr class="p_listRow" onclick="goToUrl('device.jsp?id=${sensor.deviceId}');">`,
+      `<td><canvas title="${sensor.status}" width="13" height="13"></canvas></td>`,
+      `<td><a>${_.escape(sensor.name)}</a></td>`,
+      `<td> ${sensor.zone}</td>`,
+      '<td>&nbsp;</td>',
+      `<td>${sensor.deviceType}</td>`,
+      '</tr>',
+    ].join(''));
+
+    return ADTPulseSimulator.generatePage('System', [
+      '<table id="systemContentList">',
+      '<tr class="p_row0"><td><table>',
+      '<tr class="p_listRow"><td class="p_listRow"><h2 class="p_boldNormalText">System</h2></td></tr>',
+      `<tr class="p_listRow" onclick="goToUrl('gateway.jsp');"><td><canvas title="${this.#state.gateway.status}" width="13" height="13"></canvas></td><td><a>Gateway</a></td><td>&nbsp;</td><td>&nbsp;</td><td>Gateway</td></tr>`,
+      `<tr class="p_listRow" onclick="goToUrl('device.jsp?id=1');"><td><canvas title="${this.#state.gateway.status}" width="13" height="13"></canvas></td><td><a>Security Panel</a></td><td>&nbsp;</td><td>&nbsp;</td><td>Security Panel</td></tr>`,
+      '<tr class="p_listRow"><td>&nbsp;</td></tr>',
+      '<tr class="p_listRow"><td class="p_listRow"><h2 class="p_boldNormalText">Sensors</h2></td></tr>',
+      ...sensorRows,
+      '<tr class="p_listRow"><td>&nbsp;</td></tr>',
+      '</table></td></tr>',
+      '</table>',
+    ].join('\n'));
+  }
+
+  /**
+   * ADT Pulse Simulator - Get session.
+   *
+   * @param {ADTPulseSimulatorGetSessionRequest}  request  - Request.
+   * @param {ADTPulseSimulatorGetSessionResponse} response - Response.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGetSessionReturns}
+   *
+   * @since 3.3.0
+   */
+  private getSession(request: ADTPulseSimulatorGetSessionRequest, response: ADTPulseSimulatorGetSessionResponse): ADTPulseSimulatorGetSessionReturns {
+    const cookies = (request.headers.cookie ?? '').split(';').map((cookie) => cookie.trim().split('='));
+    const sessionCookie = cookies.find((cookie) => cookie[0] === 'JSESSIONID');
+    const existingSession = (sessionCookie !== undefined) ? this.#sessions.get(sessionCookie[1]) : undefined;
+
+    if (existingSession !== undefined) {
+      return existingSession;
+    }
+
+    const newSession = {
+      accessCodePrompt: null,
+      id: randomUUID().replace(/-/g, '').toUpperCase(),
+      isAuthenticated: false,
+      isCleanState: true,
+      mfaCode: null,
+      mfaFingerprint: null,
+      pendingForceArm: null,
+      sat: randomUUID(),
+      warnMessage: null,
+    };
+
+    this.#sessions.set(newSession.id, newSession);
+
+    response.setHeader('Set-Cookie', `JSESSIONID=${newSession.id}; Path=/; HttpOnly`);
+
+    return newSession;
+  }
+
+  /**
+   * ADT Pulse Simulator - Has open sensors.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorHasOpenSensorsReturns}
+   *
+   * @since 3.3.0
+   */
+  private hasOpenSensors(): ADTPulseSimulatorHasOpenSensorsReturns {
+    return this.#state.sensors.some((sensor) => sensor.statuses.includes('Open') && !sensor.statuses.includes('Bypassed'));
+  }
+
+  /**
+   * ADT Pulse Simulator - Advance sync code.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorAdvanceSyncCodeReturns}
+   *
+   * @since 3.3.0
+   */
+  private advanceSyncCode(): ADTPulseSimulatorAdvanceSyncCodeReturns {
+    this.#state.syncCodeCounter += 1;
+  }
+
+  /**
+   * ADT Pulse Simulator - Refresh state.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorRefreshStateReturns}
+   *
+   * @since 3.3.0
+   */
+  private refreshState(): ADTPulseSimulatorRefreshStateReturns {
+    // Once the arming delay has passed, the panel reports the new arm state.
+    if (this.#state.armingUntil !== 0 && Date.now() >= this.#state.armingUntil) {
+      this.#state.armingUntil = 0;
+
+      this.advanceSyncCode();
+    }
+  }
+
+  /**
+   * ADT Pulse Simulator - Generate page.
+   *
+   * @param {ADTPulseSimulatorGeneratePageTitle} title - Title.
+   * @param {ADTPulseSimulatorGeneratePageBody}  body  - Body.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorGeneratePageReturns}
+   *
+   * @since 3.3.0
+   */
+  private static generatePage(title: ADTPulseSimulatorGeneratePageTitle, body: ADTPulseSimulatorGeneratePageBody): ADTPulseSimulatorGeneratePageReturns {
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>ADT Pulse(TM) Interactive Solutions - ${title}</title>`,
+      '</head>',
+      '<body>',
+      body,
+      '</body>',
+      '</html>',
+    ].join('\n');
+  }
+
+  /**
+   * ADT Pulse Simulator - Read form.
+   *
+   * @param {ADTPulseSimulatorReadFormRequest} request - Request.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorReadFormReturns}
+   *
+   * @since 3.3.0
+   */
+  private static async readForm(request: ADTPulseSimulatorReadFormRequest): ADTPulseSimulatorReadFormReturns {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+
+      request.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+      });
+      request.on('end', () => {
+        resolve(new URLSearchParams(Buffer.concat(chunks).toString('utf-8')));
+      });
+      request.on('error', reject);
+    });
+  }
+
+  /**
+   * ADT Pulse Simulator - Send.
+   *
+   * @param {ADTPulseSimulatorSendResponse}    response    - Response.
+   * @param {ADTPulseSimulatorSendStatusCode}  statusCode  - Status code.
+   * @param {ADTPulseSimulatorSendContentType} contentType - Content type.
+   * @param {ADTPulseSimulatorSendBody}        body        - Body.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorSendReturns}
+   *
+   * @since 3.3.0
+   */
+  private static send(response: ADTPulseSimulatorSendResponse, statusCode: ADTPulseSimulatorSendStatusCode, contentType: ADTPulseSimulatorSendContentType, body: ADTPulseSimulatorSendBody): ADTPulseSimulatorSendReturns {
+    response.writeHead(statusCode, {
+      'Cache-Control': 'no-cache, no-store',
+      'Content-Type': `${contentType};charset=UTF-8`,
+    });
+    response.end(body);
+  }
+
+  /**
+   * ADT Pulse Simulator - Send redirect.
+   *
+   * Locations are always absolute because the HTTP client sends the real
+   * portal "Host" header, which would otherwise be used to resolve them.
+   *
+   * @param {ADTPulseSimulatorSendRedirectResponse} response - Response.
+   * @param {ADTPulseSimulatorSendRedirectLocation} location - Location.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorSendRedirectReturns}
+   *
+   * @since 3.3.0
+   */
+  private static sendRedirect(response: ADTPulseSimulatorSendRedirectResponse, location: ADTPulseSimulatorSendRedirectLocation): ADTPulseSimulatorSendRedirectReturns {
+    response.writeHead(302, {
+      'Cache-Control': 'no-cache, no-store',
+      Location: location,
+    });
+    response.end();
+  }
+}
@@ -0,0 +1,183 @@
+import chalk from 'chalk';
+import repl from 'node:repl';
+
+import { ADTPulse } from '@/lib/api.js';
+import { generateFingerprint } from '@/lib/fingerprint.js';
+import { ADTPulseSimulator } from '@/scripts/simulator-portal.js';
+import type {
+  ADTPulseSimulatorReplApi,
+  ADTPulseSimulatorReplDisplayHelpMenuReturns,
+  ADTPulseSimulatorReplDisplayStartupHeaderBaseUrl,
+  ADTPulseSimulatorReplDisplayStartupHeaderReturns,
+  ADTPulseSimulatorReplReplServer,
+  ADTPulseSimulatorReplSimulator,
+  ADTPulseSimulatorReplStartReplReturns,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Simulator Repl.
+ *
+ * @since 3.3.0
+ */
+class ADTPulseSimulatorRepl {
+  /**
+   * ADT Pulse Simulator Repl - Api.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #api: ADTPulseSimulatorReplApi;
+
+  /**
+   * ADT Pulse Simulator Repl - Repl server.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #replServer: ADTPulseSimulatorReplReplServer;
+
+  /**
+   * ADT Pulse Simulator Repl - Simulator.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #simulator: ADTPulseSimulatorReplSimulator;
+
+  /**
+   * ADT Pulse Simulator Repl - Constructor.
+   *
+   * @since 3.3.0
+   */
+  public constructor() {
+    this.#simulator = new ADTPulseSimulator({
+      armingDelay: 5000,
+      debug: true,
+    });
+  }
+
+  /**
+   * ADT Pulse Simulator Repl - Start repl.
+   *
+   * @returns {ADTPulseSimulatorReplStartReplReturns}
+   *
+   * @since 3.3.0
+   */
+  public async startRepl(): ADTPulseSimulatorReplStartReplReturns {
+    const baseUrl = await this.#simulator.start();
+
+    // The default simulator credentials are accepted with any non-empty fingerprint, but use a well-formed one anyway.
+    this.#api = new ADTPulse({
+      subdomain: 'portal',
+      username: 'simulator@example.com',
+      password: 'simulator',
+      fingerprint: generateFingerprint({
+        fonts: { installedFonts: 'Arial;Helvetica;Times New Roman' },
+        plugins: { installedPlugins: 'PDF Viewer' },
+        timezone: { timezone: '480' },
+        userAgent: { userAgent: 'ADT Pulse Simulator' },
+        video: { screenWidth: '1920', screenHeight: '1080', screenColorDepth: '24' },
+      }),
+    }, {
+      baseUrl,
+      debug: true,
+      isSimulator: true,
+    });
+
+    // Without a vault, the access code is only kept in memory. It is only submitted after "simulator.setAccessCode('1234')" is called.
+    await this.#api.storeAccessCodes([
+      {
+        user: 'Simulator',
+        accessCode: '1234',
+      },
+    ]);
+
+    ADTPulseSimulatorRepl.displayStartupHeader(baseUrl);
+    ADTPulseSimulatorRepl.displayHelpMenu();
+
+    // Start the REPL server.
+    this.#replServer = repl.start({
+      ignoreUndefined: true,
+      prompt: '> ',
+    });
+
+    // Set the REPL server context on start-up.
+    this.#replServer.context.api = this.#api;
+    this.#replServer.context.simulator = this.#simulator;
+
+    // Stop the simulator when the REPL server exits.
+    this.#replServer.on('exit', async () => {
+      await this.#simulator.stop();
+    });
+  }
+
+  /**
+   * ADT Pulse Simulator Repl - Display help menu.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorReplDisplayHelpMenuReturns}
+   *
+   * @since 3.3.0
+   */
+  private static displayHelpMenu(): ADTPulseSimulatorReplDisplayHelpMenuReturns {
+    console.info([
+      '',
+      chalk.bold('Interact with the simulated portal using the API methods, for example:'),
+      `    ${chalk.yellowBright('await api.login();')}`,
+      `    ${chalk.yellowBright('await api.getPanelStatus();')}`,
+      `    ${chalk.yellowBright('await api.setPanelStatus(\'off\', \'away\', false);')}`,
+      `    ${chalk.yellowBright('await api.getSensorsStatus();')}`,
+      `    ${chalk.yellowBright('await api.getSummarySnapshot();')}`,
+      `    ${chalk.yellowBright('await api.performSyncCheck();')}`,
+      `    ${chalk.yellowBright('await api.requestMfaCode();')}`,
+      `    ${chalk.yellowBright(`await api.submitMfaCode(${chalk.magentaBright('code')});`)}`,
+      '',
+      chalk.bold('Change the simulated system using these methods:'),
+      `    ${chalk.yellowBright(`simulator.setSensorStatus(${chalk.magentaBright('zone')}, ${chalk.magentaBright('icon')}, ${chalk.magentaBright('statuses')});`)}`,
+      `    ${chalk.yellowBright(`simulator.triggerAlarm(${chalk.magentaBright('alarm')});`)}`,
+      `    ${chalk.yellowBright(`simulator.updateGateway(${chalk.magentaBright('gateway')});`)}`,
+      `    ${chalk.yellowBright('simulator.expireSessions();')}`,
+      `    ${chalk.yellowBright('simulator.distrustFingerprints();')}`,
+      `    ${chalk.yellowBright('simulator.getMfaCode();')}`,
+      `    ${chalk.yellowBright(`simulator.setAccessCode(${chalk.magentaBright('accessCode')});`)}`,
+      '',
+      chalk.bold('A small reference for REPL commands:'),
+      `    ${chalk.yellowBright('.exit')}`,
+      '',
+    ].join('\n'));
+  }
+
+  /**
+   * ADT Pulse Simulator Repl - Display startup header.
+   *
+   * @param {ADTPulseSimulatorReplDisplayStartupHeaderBaseUrl} baseUrl - Base url.
+   *
+   * @private
+   *
+   * @returns {ADTPulseSimulatorReplDisplayStartupHeaderReturns}
+   *
+   * @since 3.3.0
+   */
+  private static displayStartupHeader(baseUrl: ADTPulseSimulatorReplDisplayStartupHeaderBaseUrl): ADTPulseSimulatorReplDisplayStartupHeaderReturns {
+    console.info([
+      chalk.cyanBright('################################################################'),
+      chalk.cyanBright('####     ADT Pulse for Homebridge Plugin Portal Simulator   ####'),
+      chalk.cyanBright('####  https://github.com/mrjackyliang/homebridge-adt-pulse  ####'),
+      chalk.cyanBright('####                                                        ####'),
+      chalk.cyanBright('####             Copyright (c) 2024 Jacky Liang             ####'),
+      chalk.cyanBright('################################################################'),
+      '',
+      'Welcome to the portal simulator for ADT Pulse for Homebridge. This interface runs a',
+      'local copy of the ADT Pulse portal, so the API can be tested without an account.',
+      '',
+      `${chalk.yellowBright('NOTICE')}: The simulator is listening on "${baseUrl}".`,
+    ].join('\n'));
+  }
+}
+
+const adtPulseSimulatorRepl = new ADTPulseSimulatorRepl();
+await adtPulseSimulatorRepl.startRepl();
@@ -1,26 +1,19 @@
 import chalk from 'chalk';
-import _ from 'lodash';
-import { readFileSync } from 'node:fs';
-import os from 'node:os';
 import { exit, stdin, stdout } from 'node:process';
 import readline from 'node:readline';
 import util from 'node:util';
 
 import { ADTPulse } from '@/lib/api.js';
-import { platformConfig } from '@/lib/schema.js';
-import { debugLog, isForwardSlashOS, stackTracer } from '@/lib/utility.js';
+import { validateFingerprint } from '@/lib/fingerprint.js';
+import { findHomebridgeConfig } from '@/lib/utility.js';
 import type {
   ADTPulseTestAskQuestionMode,
   ADTPulseTestAskQuestionReturns,
-  ADTPulseTestFindConfigParsedFile,
-  ADTPulseTestFindConfigPossibleLocations,
   ADTPulseTestFindConfigReturns,
   ADTPulseTestPrintTestOutputIsSuccess,
   ADTPulseTestPrintTestOutputReturns,
-  ADTPulseTestSelectedConfigLocation,
   ADTPulseTestSelectedPlatform,
   ADTPulseTestStartTestReturns,
-  ADTPulseTestZodParseResponse,
 } from '@/types/index.d.ts';
 
 /**
@@ -29,15 +22,6 @@ import type {
  * @since 1.0.0
  */
 class ADTPulseTest {
-  /**
-   * ADT Pulse Test - Selected config location.
-   *
-   * @private
-   *
-   * @since 1.0.0
-   */
-  #selectedConfigLocation: ADTPulseTestSelectedConfigLocation;
-
   /**
    * ADT Pulse Test - Selected platform.
    *
@@ -47,15 +31,6 @@ class ADTPulseTest {
    */
   #selectedPlatform: ADTPulseTestSelectedPlatform;
 
-  /**
-   * ADT Pulse Test - Zod parse response.
-   *
-   * @private
-   *
-   * @since 1.0.0
-   */
-  #zodParseResponse: ADTPulseTestZodParseResponse;
-
   /**
    * ADT Pulse Test - Start test.
    *
@@ -82,6 +57,25 @@ class ADTPulseTest {
         exit(1);
       }
 
+      const fingerprintReport = validateFingerprint(this.#selectedPlatform.fingerprint);
+
+      // Stop before signing in, because the portal does not say why a sign-in has failed.
+      if (!fingerprintReport.isValid) {
+        console.error(chalk.redBright('The device fingerprint is invalid. Get a new one from the ADT Pulse Device Fingerprint Detector.'));
+
+        fingerprintReport.errors.forEach((error) => {
+          console.error(chalk.redBright(`  - ${error.field}: ${error.message}`));
+        });
+
+        ADTPulseTest.printTestOutput(false);
+
+        exit(1);
+      }
+
+      fingerprintReport.warnings.forEach((warning) => {
+        console.warn(chalk.yellowBright(`Fingerprint field "${warning.field}": ${warning.message}`));
+      });
+
       const instance = new ADTPulse(
         this.#selectedPlatform,
         {
@@ -103,6 +97,7 @@ class ADTPulseTest {
         instance.getSensorsInformation.bind(instance),
         instance.getSensorsStatus.bind(instance),
         instance.getOrbSecurityButtons.bind(instance),
+        instance.getSummarySnapshot.bind(instance),
         instance.performSyncCheck.bind(instance),
         instance.performKeepAlive.bind(instance),
         instance.logout.bind(instance),
@@ -146,61 +141,13 @@ class ADTPulseTest {
    * @since 1.0.0
    */
   private findConfig(): ADTPulseTestFindConfigReturns {
-    const possibleLocations: ADTPulseTestFindConfigPossibleLocations = [
-      ...(isForwardSlashOS()) ? [
-        '/homebridge/config.json', // "homebridge" Docker.
-        '/var/lib/homebridge/config.json', // Debian or Raspbian.
-        `${os.homedir()}/.homebridge/config.json`, // macOS.
-      ] : [],
-      ...(!isForwardSlashOS()) ? [
-        `${os.homedir()}\\.homebridge\\config.json`, // Windows.
-      ] : [],
-    ];
-
-    for (let i = 0; i < possibleLocations.length; i += 1) {
-      // Don't run again if config location and platform have been selected.
-      if (this.#selectedConfigLocation !== undefined && this.#selectedPlatform !== undefined) {
-        break;
-      }
-
-      debugLog(null, 'test-api.ts', 'info', `Attempt ${i + 1}: Finding the Homebridge config file in "${possibleLocations[i]}"`);
-
-      try {
-        const rawFile = readFileSync(possibleLocations[i], 'utf-8');
-        const parsedFile: ADTPulseTestFindConfigParsedFile = JSON.parse(rawFile);
-        const platforms = _.get(parsedFile, ['platforms']);
-        const adtPlatform = _.find(platforms, (platform) => _.get(platform, ['platform']) === 'ADTPulse');
-
-        if (adtPlatform !== undefined) {
-          const validAdtPlatform = platformConfig.safeParse(adtPlatform);
-
-          // Set this to the instance in case "zod" parse failed.
-          this.#zodParseResponse = validAdtPlatform;
-
-          if (validAdtPlatform.success) {
-            this.#selectedConfigLocation = possibleLocations[i];
-            this.#selectedPlatform = validAdtPlatform.data;
-          }
-        }
-      } catch {
-        this.#selectedConfigLocation = undefined;
-        this.#selectedPlatform = undefined;
-      }
-    }
-
-    if (this.#selectedConfigLocation === undefined || this.#selectedPlatform === undefined) {
-      debugLog(null, 'test-api.ts', 'error', 'Unable to find a parsable Homebridge config file with a validated "ADTPulse" platform');
-
-      if (this.#zodParseResponse !== undefined) {
-        debugLog(null, 'test-api.ts', 'warn', 'If you just upgraded from "v2 to v3" or from "v3 to v3.1", please update your configuration');
-        debugLog(null, 'test-api.ts', 'warn', 'Carefully observe the error below. The answer you are looking for is there');
-        stackTracer('zod-error', this.#zodParseResponse);
-      }
+    const foundConfig = findHomebridgeConfig('test-api.ts');
 
+    if (foundConfig === null) {
       return false;
     }
 
-    debugLog(null, 'test-api.ts', 'success', `Found valid Homebridge config in "${this.#selectedConfigLocation}"`);
+    this.#selectedPlatform = foundConfig.platform;
 
     return true;
   }
@@ -0,0 +1,305 @@
+import chalk from 'chalk';
+import { JSDOM } from 'jsdom';
+import _ from 'lodash';
+import {
+  existsSync,
+  readdirSync,
+  readFileSync,
+  writeFileSync,
+} from 'node:fs';
+import { argv, exit } from 'node:process';
+import { fileURLToPath } from 'node:url';
+import util from 'node:util';
+
+import {
+  fetchTableCells,
+  parseDoSubmitHandlers,
+  parseOrbSecurityButtons,
+  parseOrbSensors,
+  parseOrbTextSummary,
+  parseSensorsTable,
+} from '@/lib/utility.js';
+import type {
+  ADTPulseTestParsersCompareSnapshotReturns,
+  ADTPulseTestParsersCompareSnapshotScenario,
+  ADTPulseTestParsersFindScenariosReturns,
+  ADTPulseTestParsersFixturesPath,
+  ADTPulseTestParsersIsUpdateMode,
+  ADTPulseTestParsersParseFixturesReturns,
+  ADTPulseTestParsersParseFixturesScenario,
+  ADTPulseTestParsersPrintTestOutputIsSuccess,
+  ADTPulseTestParsersPrintTestOutputReturns,
+  ADTPulseTestParsersReadFixturePage,
+  ADTPulseTestParsersReadFixtureReturns,
+  ADTPulseTestParsersReadFixtureScenario,
+  ADTPulseTestParsersSnapshot,
+  ADTPulseTestParsersStartTestReturns,
+} from '@/types/index.d.ts';
+
+/**
+ * ADT Pulse Test Parsers.
+ *
+ * Every scenario in "fixtures/simulator" is a set of pages recorded from the simulator in a
+ * different panel state. Because the pages share the markup of the simulator, the snapshots only
+ * guard the parsers against regressions. They say nothing about how a real portal version renders.
+ *
+ * @since 3.3.0
+ */
+class ADTPulseTestParsers {
+  /**
+   * ADT Pulse Test Parsers - Fixtures path.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  static #fixturesPath: ADTPulseTestParsersFixturesPath = fileURLToPath(new URL('../../fixtures/simulator', import.meta.url));
+
+  /**
+   * ADT Pulse Test Parsers - Is update mode.
+   *
+   * @private
+   *
+   * @since 3.3.0
+   */
+  #isUpdateMode: ADTPulseTestParsersIsUpdateMode;
+
+  /**
+   * ADT Pulse Test Parsers - Constructor.
+   *
+   * @since 3.3.0
+   */
+  public constructor() {
+    this.#isUpdateMode = argv.includes('--update');
+  }
+
+  /**
+   * ADT Pulse Test Parsers - Start test.
+   *
+   * @returns {ADTPulseTestParsersStartTestReturns}
+   *
+   * @since 3.3.0
+   */
+  public async startTest(): ADTPulseTestParsersStartTestReturns {
+    const scenarios = ADTPulseTestParsers.findScenarios();
+
+    let failedScenarios = 0;
+
+    if (scenarios.length === 0) {
+      console.error(chalk.redBright(`✖ No scenarios were found in "${ADTPulseTestParsers.#fixturesPath}".`));
+
+      failedScenarios += 1;
+    }
+
+    for (let i = 0; i < scenarios.length; i += 1) {
+      const scenario = scenarios[i];
+
+      if (this.#isUpdateMode) {
+        const snapshot = ADTPulseTestParsers.parseFixtures(scenario);
+
+        writeFileSync(`${ADTPulseTestParsers.#fixturesPath}/${scenario}/snapshot.json`, `${JSON.stringify(snapshot, null, 2)}\n`);
+
+        console.info(chalk.yellowBright(`✎ ${scenario} — Snapshot has been updated.`));
+
+        continue;
+      }
+
+      if (!ADTPulseTestParsers.compareSnapshot(scenario)) {
+        failedScenarios += 1;
+      }
+    }
+
+    ADTPulseTestParsers.printTestOutput(failedScenarios === 0);
+
+    if (failedScenarios > 0) {
+      exit(1);
+    }
+  }
+
+  /**
+   * ADT Pulse Test Parsers - Compare snapshot.
+   *
+   * @param {ADTPulseTestParsersCompareSnapshotScenario} scenario - Scenario.
+   *
+   * @private
+   *
+   * @returns {ADTPulseTestParsersCompareSnapshotReturns}
+   *
+   * @since 3.3.0
+   */
+  private static compareSnapshot(scenario: ADTPulseTestParsersCompareSnapshotScenario): ADTPulseTestParsersCompareSnapshotReturns {
+    const snapshotPath = `${ADTPulseTestParsers.#fixturesPath}/${scenario}/snapshot.json`;
+
+    if (!existsSync(snapshotPath)) {
+      console.error(chalk.redBright(`✖ ${scenario} — Snapshot is missing. Run this tester with "--update" to create it.`));
+
+      return false;
+    }
+
+    const expected: ADTPulseTestParsersSnapshot = JSON.parse(readFileSync(snapshotPath, 'utf-8'));
+
+    // Round-trip through JSON so "undefined" values compare the same way they were stored.
+    const received: ADTPulseTestParsersSnapshot = JSON.parse(JSON.stringify(ADTPulseTestParsers.parseFixtures(scenario)));
+    const changedKeys = _.keys(expected).filter((key) => !_.isEqual(_.get(expected, key), _.get(received, key)));
+
+    if (changedKeys.length === 0) {
+      console.info(chalk.greenBright(`✔ ${scenario}`));
+
+      return true;
+    }
+
+    console.error(chalk.redBright(`✖ ${scenario} — Parser output has changed for ${changedKeys.map((changedKey) => `"${changedKey}"`).join(', ')}.`));
+
+    changedKeys.forEach((changedKey) => {
+      console.error([
+        chalk.bold(`  ${changedKey} (expected):`),
+        util.inspect(_.get(expected, changedKey), false, null, true),
+        chalk.bold(`  ${changedKey} (received):`),
+        util.inspect(_.get(received, changedKey), false, null, true),
+      ].join('\n'));
+    });
+
+    return false;
+  }
+
+  /**
+   * ADT Pulse Test Parsers - Find scenarios.
+   *
+   * @private
+   *
+   * @returns {ADTPulseTestParsersFindScenariosReturns}
+   *
+   * @since 3.3.0
+   */
+  private static findScenarios(): ADTPulseTestParsersFindScenariosReturns {
+    if (!existsSync(ADTPulseTestParsers.#fixturesPath)) {
+      return [];
+    }
+
+    return readdirSync(ADTPulseTestParsers.#fixturesPath, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort();
+  }
+
+  /**
+   * ADT Pulse Test Parsers - Parse fixtures.
+   *
+   * @param {ADTPulseTestParsersParseFixturesScenario} scenario - Scenario.
+   *
+   * @private
+   *
+   * @returns {ADTPulseTestParsersParseFixturesReturns}
+   *
+   * @since 3.3.0
+   */
+  private static parseFixtures(scenario: ADTPulseTestParsersParseFixturesScenario): ADTPulseTestParsersParseFixturesReturns {
+    const jsdomArmDisarm = ADTPulseTestParsers.readFixture(scenario, 'arm-disarm');
+    const jsdomDevice = ADTPulseTestParsers.readFixture(scenario, 'device');
+    const jsdomGateway = ADTPulseTestParsers.readFixture(scenario, 'gateway');
+    const jsdomSummary = ADTPulseTestParsers.readFixture(scenario, 'summary');
+    const jsdomSystem = ADTPulseTestParsers.readFixture(scenario, 'system');
+
+    // The selectors and match items below must stay in sync with the ones used in "api.ts".
+    return {
+      doSubmitHandlers: parseDoSubmitHandlers(jsdomArmDisarm.window.document.querySelectorAll('.p_armDisarmWrapper input')),
+      gatewayTableCells: fetchTableCells(
+        jsdomGateway.window.document.querySelectorAll('td'),
+        [
+          'Broadband Connection Status:',
+          'Broadband LAN IP Address:',
+          'Broadband LAN MAC:',
+          'Cellular Connection Status:',
+          'Cellular Signal Strength:',
+          'Device LAN IP Address:',
+          'Device LAN MAC:',
+          'Firmware Version:',
+          'Hardware Version:',
+          'Last Update:',
+          'Manufacturer:',
+          'Model:',
+          'Next Update:',
+          'Primary Connection Type:',
+          'Router LAN IP Address:',
+          'Router WAN IP Address:',
+          'Serial Number:',
+          'Status:',
+        ],
+        1,
+        1,
+      ),
+      orbSecurityButtons: parseOrbSecurityButtons(jsdomSummary.window.document.querySelectorAll('#divOrbSecurityButtons input')),
+      orbSensors: parseOrbSensors(jsdomSummary.window.document.querySelectorAll('#orbSensorsList tr.p_listRow')),
+      orbTextSummary: parseOrbTextSummary(jsdomSummary.window.document.querySelector('#divOrbTextSummary')),
+      panelTableCells: fetchTableCells(
+        jsdomDevice.window.document.querySelectorAll('td'),
+        [
+          'Emergency Keys:',
+          'Manufacturer/Provider:',
+          'Security Panel Master Code:',
+          'Status:',
+          'Type/Model:',
+        ],
+        1,
+        1,
+      ),
+      sensorsTable: parseSensorsTable(jsdomSystem.window.document.querySelectorAll('#systemContentList tr[class^=\'p_row\'] tr.p_listRow')),
+    };
+  }
+
+  /**
+   * ADT Pulse Test Parsers - Print test output.
+   *
+   * @param {ADTPulseTestParsersPrintTestOutputIsSuccess} isSuccess - Is success.
+   *
+   * @private
+   *
+   * @returns {ADTPulseTestParsersPrintTestOutputReturns}
+   *
+   * @since 3.3.0
+   */
+  private static printTestOutput(isSuccess: ADTPulseTestParsersPrintTestOutputIsSuccess): ADTPulseTestParsersPrintTestOutputReturns {
+    if (!isSuccess) {
+      console.info([
+        '',
+        chalk.redBright('########################################################################'),
+        chalk.redBright('#####   Parser test has failed! If the change was intended, run    #####'),
+        chalk.redBright('#####   this tester again with "--update" to refresh snapshots     #####'),
+        chalk.redBright('########################################################################'),
+      ].join('\n'));
+
+      return;
+    }
+
+    console.info([
+      '',
+      chalk.greenBright('########################################################################'),
+      chalk.greenBright('#####    Parser test has completed! All snapshots have matched     #####'),
+      chalk.greenBright('########################################################################'),
+    ].join('\n'));
+  }
+
+  /**
+   * ADT Pulse Test Parsers - Read fixture.
+   *
+   * @param {ADTPulseTestParsersReadFixtureScenario} scenario - Scenario.
+   * @param {ADTPulseTestParsersReadFixturePage}     page     - Page.
+   *
+   * @private
+   *
+   * @returns {ADTPulseTestParsersReadFixtureReturns}
+   *
+   * @since 3.3.0
+   */
+  private static readFixture(scenario: ADTPulseTestParsersReadFixtureScenario, page: ADTPulseTestParsersReadFixturePage): ADTPulseTestParsersReadFixtureReturns {
+    return new JSDOM(
+      readFileSync(`${ADTPulseTestParsers.#fixturesPath}/${scenario}/${page}.html`, 'utf-8'),
+      {
+        url: 'https://portal.adtpulse.com/myhome/',
+      },
+    );
+  }
+}
+
+const instance = new ADTPulseTestParsers();
+await instance.startTest();
@@ -0,0 +1,445 @@
+import type {
+  PortalDeviceGatewayStatus,
+  PortalDevicePanelStatus,
+  PortalPanelArmValue,
+  PortalSyncCode,
+  PortalVersion,
+} from '@/types/constant.d.ts';
+import type {
+  ApiEventListener,
+  ApiEventName,
+  ApiLogger,
+  ApiResponse,
+  Config,
+  FingerprintComponents,
+  FingerprintReport,
+  GatewayInformation,
+  InternalConfig,
+  JournalEntry,
+  JournalEvent,
+  JournalEventSensorState,
+  MfaFormMethod,
+  MfaFormMethodId,
+  MfaFormMethods,
+  NetworkId,
+  OpenZones,
+  OrbSecurityButtonBase,
+  OrbSecurityButtonReady,
+  OrbSecurityButtons,
+  PanelInformation,
+  PanelStatus,
+  SensorInformation,
+  SensorStatus,
+  UUID,
+} from '@/types/shared.d.ts';
+
+/**
+ * ADT Pulse - Acquire site.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAcquireSiteNetworkId = NetworkId | null;
+
+export type ADTPulseAcquireSiteReturnsInfoNetworkId = NetworkId | null;
+
+export type ADTPulseAcquireSiteReturnsInfo = {
+  networkId: ADTPulseAcquireSiteReturnsInfoNetworkId;
+};
+
+export type ADTPulseAcquireSiteReturns = Promise<ApiResponse<'ACQUIRE_SITE', ADTPulseAcquireSiteReturnsInfo>>;
+
+/**
+ * ADT Pulse - Constructor.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseConstructorConfig = Pick<Config, 'fingerprint' | 'password' | 'subdomain' | 'username'> & Partial<Pick<Config, 'accessCodeUser' | 'sensors' | 'sites' | 'speed'>>;
+
+export type ADTPulseConstructorInternalConfig = InternalConfig;
+
+/**
+ * ADT Pulse - Get gateway information.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseGetGatewayInformationReturnsInfo = GatewayInformation;
+
+export type ADTPulseGetGatewayInformationReturns = Promise<ApiResponse<'GET_GATEWAY_INFORMATION', ADTPulseGetGatewayInformationReturnsInfo>>;
+
+export type ADTPulseGetGatewayInformationReturnsStatus = PortalDeviceGatewayStatus | null;
+
+/**
+ * ADT Pulse - Get mfa challenge.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseGetMfaChallengeReturnsIsCodeRequested = boolean;
+
+export type ADTPulseGetMfaChallengeReturnsMethods = MfaFormMethods;
+
+export type ADTPulseGetMfaChallengeReturns = {
+  isCodeRequested: ADTPulseGetMfaChallengeReturnsIsCodeRequested;
+  methods: ADTPulseGetMfaChallengeReturnsMethods;
+} | null;
+
+/**
+ * ADT Pulse - Get panel information.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseGetPanelInformationReturnsInfo = PanelInformation;
+
+export type ADTPulseGetPanelInformationReturns = Promise<ApiResponse<'GET_PANEL_INFORMATION', ADTPulseGetPanelInformationReturnsInfo>>;
+
+export type ADTPulseGetPanelInformationReturnsStatus = PortalDevicePanelStatus | null;
+
+/**
+ * ADT Pulse - Get panel status.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseGetPanelStatusReturnsInfo = PanelStatus;
+
+export type ADTPulseGetPanelStatusReturns = Promise<ApiResponse<'GET_PANEL_STATUS', ADTPulseGetPanelStatusReturnsInfo>>;
+
+/**
+ * ADT Pulse - Get orb security buttons.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseADTPulseGetOrbSecurityButtonsReturnsInfo = OrbSecurityButtons;
+
+export type ADTPulseGetOrbSecurityButtonsReturns = Promise<ApiResponse<'GET_ORB_SECURITY_BUTTONS', ADTPulseADTPulseGetOrbSecurityButtonsReturnsInfo>>;
+
+/**
+ * ADT Pulse - Get sensors information.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseGetSensorsInformationReturnsInfoSensor = SensorInformation;
+
+export type ADTPulseGetSensorsInformationReturnsInfoSensors = ADTPulseGetSensorsInformationReturnsInfoSensor[];
+
+export type ADTPulseGetSensorsInformationReturnsInfo = {
+  sensors: ADTPulseGetSensorsInformationReturnsInfoSensors;
+};
+
+export type ADTPulseGetSensorsInformationReturns = Promise<ApiResponse<'GET_SENSORS_INFORMATION', ADTPulseGetSensorsInformationReturnsInfo>>;
+
+/**
+ * ADT Pulse - Get sensors status.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseGetSensorsStatusReturnsInfoSensor = SensorStatus;
+
+export type ADTPulseGetSensorsStatusReturnsInfoSensors = ADTPulseGetSensorsStatusReturnsInfoSensor[];
+
+export type ADTPulseGetSensorsStatusReturnsInfo = {
+  sensors: ADTPulseGetSensorsStatusReturnsInfoSensors;
+};
+
+export type ADTPulseGetSensorsStatusReturns = Promise<ApiResponse<'GET_SENSORS_STATUS', ADTPulseGetSensorsStatusReturnsInfo>>;
+
+/**
+ * ADT Pulse - Get summary snapshot.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseGetSummarySnapshotReturnsInfoNetworkId = NetworkId | null;
+
+export type ADTPulseGetSummarySnapshotReturnsInfoOrbSecurityButtons = OrbSecurityButtons;
+
+export type ADTPulseGetSummarySnapshotReturnsInfoPanelStatus = PanelStatus;
+
+export type ADTPulseGetSummarySnapshotReturnsInfoRetrievedOn = number;
+
+export type ADTPulseGetSummarySnapshotReturnsInfoSatCode = UUID | null;
+
+export type ADTPulseGetSummarySnapshotReturnsInfoSensorsStatus = SensorStatus[];
+
+export type ADTPulseGetSummarySnapshotReturnsInfo = {
+  networkId: ADTPulseGetSummarySnapshotReturnsInfoNetworkId;
+  orbSecurityButtons: ADTPulseGetSummarySnapshotReturnsInfoOrbSecurityButtons;
+  panelStatus: ADTPulseGetSummarySnapshotReturnsInfoPanelStatus;
+  retrievedOn: ADTPulseGetSummarySnapshotReturnsInfoRetrievedOn;
+  satCode: ADTPulseGetSummarySnapshotReturnsInfoSatCode;
+  sensorsStatus: ADTPulseGetSummarySnapshotReturnsInfoSensorsStatus;
+};
+
+export type ADTPulseGetSummarySnapshotReturns = Promise<ApiResponse<'GET_SUMMARY_SNAPSHOT', ADTPulseGetSummarySnapshotReturnsInfo>>;
+
+/**
+ * ADT Pulse - Is authenticated.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseIsAuthenticatedReturns = boolean;
+
+/**
+ * ADT Pulse - Login.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseLoginReturnsInfoBackupSatCode = UUID | null;
+
+export type ADTPulseLoginReturnsInfoLastLoginOn = number | null;
+
+export type ADTPulseLoginReturnsInfoNetworkId = NetworkId | null;
+
+export type ADTPulseLoginReturnsInfoPortalVersion = PortalVersion | null;
+
+export type ADTPulseLoginReturnsInfo = {
+  backupSatCode: ADTPulseLoginReturnsInfoBackupSatCode;
+  lastLoginOn: ADTPulseLoginReturnsInfoLastLoginOn;
+  networkId: ADTPulseLoginReturnsInfoNetworkId;
+  portalVersion: ADTPulseLoginReturnsInfoPortalVersion;
+};
+
+export type ADTPulseLoginReturns = Promise<ApiResponse<'LOGIN', ADTPulseLoginReturnsInfo>>;
+
+export type ADTPulseLoginPortalVersion = PortalVersion;
+
+/**
+ * ADT Pulse - Logout.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseLogoutReturnsInfoBackupSatCode = UUID | null;
+
+export type ADTPulseLogoutReturnsInfoNetworkId = NetworkId | null;
+
+export type ADTPulseLogoutReturnsInfoPortalVersion = PortalVersion | null;
+
+export type ADTPulseLogoutReturnsInfo = {
+  backupSatCode: ADTPulseLogoutReturnsInfoBackupSatCode;
+  networkId: ADTPulseLogoutReturnsInfoNetworkId;
+  portalVersion: ADTPulseLogoutReturnsInfoPortalVersion;
+};
+
+export type ADTPulseLogoutReturns = Promise<ApiResponse<'LOGOUT', ADTPulseLogoutReturnsInfo>>;
+
+/**
+ * ADT Pulse - Off.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseOffName = ApiEventName;
+
+export type ADTPulseOffListener<Name extends ADTPulseOffName> = ApiEventListener<Name>;
+
+/**
+ * ADT Pulse - On.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseOnName = ApiEventName;
+
+export type ADTPulseOnListener<Name extends ADTPulseOnName> = ApiEventListener<Name>;
+
+/**
+ * ADT Pulse - Once.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseOnceName = ApiEventName;
+
+export type ADTPulseOnceListener<Name extends ADTPulseOnceName> = ApiEventListener<Name>;
+
+/**
+ * ADT Pulse - Perform keep alive.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePerformKeepAliveReturnsInfo = null;
+
+export type ADTPulsePerformKeepAliveReturns = Promise<ApiResponse<'PERFORM_KEEP_ALIVE', ADTPulsePerformKeepAliveReturnsInfo>>;
+
+/**
+ * ADT Pulse - Perform sync check.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePerformSyncCheckReturnsInfoSyncCode = PortalSyncCode;
+
+export type ADTPulsePerformSyncCheckReturnsInfo = {
+  syncCode: ADTPulsePerformSyncCheckReturnsInfoSyncCode;
+};
+
+export type ADTPulsePerformSyncCheckReturns = Promise<ApiResponse<'PERFORM_SYNC_CHECK', ADTPulsePerformSyncCheckReturnsInfo>>;
+
+/**
+ * ADT Pulse - Release site.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseReleaseSiteReturns = void;
+
+/**
+ * ADT Pulse - Request mfa code.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseRequestMfaCodeMethodId = MfaFormMethodId;
+
+export type ADTPulseRequestMfaCodeReturnsInfoMethod = MfaFormMethod;
+
+export type ADTPulseRequestMfaCodeReturnsInfo = {
+  method: ADTPulseRequestMfaCodeReturnsInfoMethod;
+};
+
+export type ADTPulseRequestMfaCodeReturns = Promise<ApiResponse<'REQUEST_MFA_CODE', ADTPulseRequestMfaCodeReturnsInfo>>;
+
+/**
+ * ADT Pulse - Reset session.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseResetSessionReturns = void;
+
+/**
+ * ADT Pulse - Set panel status.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseSetPanelStatusArmFrom = PortalPanelArmValue;
+
+export type ADTPulseSetPanelStatusArmTo = PortalPanelArmValue;
+
+export type ADTPulseSetPanelStatusIsAlarmActive = boolean;
+
+export type ADTPulseSetPanelStatusReturnsInfoBypassedZones = OpenZones;
+
+export type ADTPulseSetPanelStatusReturnsInfoForceArmRequired = boolean;
+
+export type ADTPulseSetPanelStatusReturnsInfo = {
+  bypassedZones: ADTPulseSetPanelStatusReturnsInfoBypassedZones;
+  forceArmRequired: ADTPulseSetPanelStatusReturnsInfoForceArmRequired;
+};
+
+export type ADTPulseSetPanelStatusReturns = Promise<ApiResponse<'SET_PANEL_STATUS', ADTPulseSetPanelStatusReturnsInfo>>;
+
+export type ADTPulseSetPanelStatusReadyButton = OrbSecurityButtonBase & OrbSecurityButtonReady;
+
+export type ADTPulseSetPanelStatusBypassedZones = OpenZones;
+
+/**
+ * ADT Pulse - Store access codes.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseStoreAccessCodesAccessCodes = Config['accessCodes'];
+
+export type ADTPulseStoreAccessCodesReturns = Promise<boolean>;
+
+/**
+ * ADT Pulse - Submit mfa code.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSubmitMfaCodeCode = string;
+
+export type ADTPulseSubmitMfaCodeReturnsInfoFingerprint = string;
+
+export type ADTPulseSubmitMfaCodeReturnsInfo = ADTPulseLoginReturnsInfo & {
+  fingerprint: ADTPulseSubmitMfaCodeReturnsInfoFingerprint;
+};
+
+export type ADTPulseSubmitMfaCodeReturns = Promise<ApiResponse<'SUBMIT_MFA_CODE', ADTPulseSubmitMfaCodeReturnsInfo>>;
+
+/**
+ * ADT Pulse - Switch site.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSwitchSiteNetworkId = NetworkId;
+
+export type ADTPulseSwitchSiteReturnsInfoNetworkId = NetworkId;
+
+export type ADTPulseSwitchSiteReturnsInfo = {
+  networkId: ADTPulseSwitchSiteReturnsInfoNetworkId;
+};
+
+export type ADTPulseSwitchSiteReturns = Promise<ApiResponse<'SWITCH_SITE', ADTPulseSwitchSiteReturnsInfo>>;
+
+/**
+ * ADT Pulse Journal - Constructor.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseJournalConstructorFilePath = string;
+
+export type ADTPulseJournalConstructorLog = ApiLogger | null;
+
+/**
+ * ADT Pulse Journal - Get file path.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseJournalGetFilePathReturns = string;
+
+/**
+ * ADT Pulse Journal - Get zone openings.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseJournalGetZoneOpeningsZone = number;
+
+export type ADTPulseJournalGetZoneOpeningsSince = number;
+
+export type ADTPulseJournalGetZoneOpeningsEntry = JournalEntry & JournalEventSensorState;
+
+export type ADTPulseJournalGetZoneOpeningsReturns = Promise<ADTPulseJournalGetZoneOpeningsEntry[]>;
+
+/**
+ * ADT Pulse Journal - Query.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseJournalQueryFilterSince = number;
+
+export type ADTPulseJournalQueryFilterUntil = number;
+
+export type ADTPulseJournalQueryFilterTypes = JournalEvent['type'][];
+
+export type ADTPulseJournalQueryFilterZone = number;
+
+export type ADTPulseJournalQueryFilter = {
+  since?: ADTPulseJournalQueryFilterSince;
+  until?: ADTPulseJournalQueryFilterUntil;
+  types?: ADTPulseJournalQueryFilterTypes;
+  zone?: ADTPulseJournalQueryFilterZone;
+};
+
+export type ADTPulseJournalQueryEntry = JournalEntry;
+
+export type ADTPulseJournalQueryEntries = JournalEntry[];
+
+export type ADTPulseJournalQueryReturns = Promise<JournalEntry[]>;
+
+/**
+ * ADT Pulse Journal - Record.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseJournalRecordEvent = JournalEvent;
+
+export type ADTPulseJournalRecordReturns = Promise<void>;
+
+/**
+ * Generate fingerprint.
+ *
+ * @since 3.3.0
+ */
+export type GenerateFingerprintComponents = FingerprintComponents;
+
+export type GenerateFingerprintReturns = string;
+
+/**
+ * Validate fingerprint.
+ *
+ * @since 3.3.0
+ */
+export type ValidateFingerprintFingerprint = string;
+
+export type ValidateFingerprintReturns = FingerprintReport;
@@ -12,13 +12,29 @@ import type {
   Service,
 } from 'homebridge';
 import type { JSDOM } from 'jsdom';
+import type { MqttClient } from 'mqtt';
+import type { EventEmitter } from 'node:events';
+import type http from 'node:http';
 import type repl from 'node:repl';
 import type { ErrorObject } from 'serialize-error';
+import type { CookieJar } from 'tough-cookie';
 import type z from 'zod';
 
 import type { ADTPulseAccessory } from '@/lib/accessory.js';
+import type { ADTPulseAlerts } from '@/lib/alerts.js';
 import type { ADTPulse } from '@/lib/api.js';
+import type { ADTPulseJournal } from '@/lib/journal.js';
+import type { ADTPulseMqtt } from '@/lib/mqtt.js';
+import type { ADTPulseScheduler } from '@/lib/scheduler.js';
 import type { platformConfig } from '@/lib/schema.js';
+import type { ADTPulseServer } from '@/lib/server.js';
+import type { ADTPulseVault } from '@/lib/vault.js';
+import type { ADTPulseWebhooks } from '@/lib/webhooks.js';
+import type { ADTPulseSimulator } from '@/scripts/simulator-portal.js';
+import type {
+  ADTPulseLoginReturns,
+  ADTPulseSetPanelStatusReturns,
+} from '@/types/client.d.ts';
 import type {
   PluginDeviceCategory,
   PluginDeviceId,
@@ -49,6 +65,14 @@ import type {
   PortalVersion,
 } from '@/types/constant.d.ts';
 import type {
+  AccessCodeForm,
+  AccessCodeFormCodeField,
+  AccessCodeVault,
+  AccessCodeVaultUsers,
+  ApiEventName,
+  ApiEventParserAnomalyType,
+  ApiEvents,
+  ApiLogger,
   ApiResponse,
   ApiResponseFail,
   AxiosResponseNodeJs,
@@ -57,23 +81,84 @@ import type {
   Device,
   Devices,
   DoSubmitHandlers,
+  GatewayAlertChange,
+  GatewayAlertChanges,
+  GatewayAlertMessage,
+  GatewayAlertSite,
+  GatewayAlertState,
+  GatewayAlertType,
+  GatewayAlertTypes,
   GatewayInformation,
-  InternalConfig,
+  HomeKitArmMode,
+  HomeKitArmModes,
+  JournalEntry,
+  JournalEventArmRequestArmTo,
+  MfaChallenge,
+  MfaForm,
   NetworkId,
+  OpenZones,
   OrbSecurityButtonBase,
   OrbSecurityButtonReady,
   OrbSecurityButtons,
+  PanelAlarmTypes,
   PanelInformation,
   PanelStatus,
+  PanelStatusNotes,
   PanelStatusStates,
   PanelStatusStatuses,
+  PanelTransition,
+  PlatformEventListener,
+  PlatformEventName,
+  PlatformEventSource,
+  PlatformEvents,
   PortalVersionContent,
+  RefetchPlan,
   SensorInformation,
   SensorStatus,
-  Sessions,
   UUID,
+  WebhookEvent,
+  WebhookEventInitiator,
+  WebhookEventType,
 } from '@/types/shared.d.ts';
 
+/**
+ * ADT Pulse - Access code handler.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAccessCodeHandlerResponse = AxiosResponseNodeJs<unknown>;
+
+export type ADTPulseAccessCodeHandlerRelativeUrl = PortalPanelArmButtonRelativeUrl;
+
+export type ADTPulseAccessCodeHandlerReturnsInfoAccessCodeRequired = boolean;
+
+export type ADTPulseAccessCodeHandlerReturnsInfoResponse = AxiosResponseNodeJs<unknown>;
+
+export type ADTPulseAccessCodeHandlerReturnsInfo = {
+  accessCodeRequired: ADTPulseAccessCodeHandlerReturnsInfoAccessCodeRequired;
+  response: ADTPulseAccessCodeHandlerReturnsInfoResponse;
+};
+
+export type ADTPulseAccessCodeHandlerReturns = Promise<ApiResponse<'ACCESS_CODE_HANDLER', ADTPulseAccessCodeHandlerReturnsInfo>>;
+
+export type ADTPulseAccessCodeHandlerSessions = Sessions<{
+  axiosAccessCode?: AxiosResponseNodeJs<unknown>;
+}>;
+
+/**
+ * ADT Pulse - Access code vault.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAccessCodeVault = ADTPulseVault<AccessCodeVault> | null;
+
+/**
+ * ADT Pulse - Access codes.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAccessCodes = AccessCodeVaultUsers | null;
+
 /**
  * ADT Pulse - Arm disarm handler.
  *
@@ -91,14 +176,19 @@ export type ADTPulseArmDisarmHandlerOptionsArm = PortalPanelArmValue;
 
 export type ADTPulseArmDisarmHandlerOptionsSat = UUID;
 
+export type ADTPulseArmDisarmHandlerOptionsChangeAccessCode = boolean;
+
 export type ADTPulseArmDisarmHandlerOptions = {
   relativeUrl: ADTPulseArmDisarmHandlerOptionsRelativeUrl;
   href: ADTPulseArmDisarmHandlerOptionsHref;
   armState: ADTPulseArmDisarmHandlerOptionsArmState;
   arm: ADTPulseArmDisarmHandlerOptionsArm;
   sat: ADTPulseArmDisarmHandlerOptionsSat;
+  changeAccessCode: ADTPulseArmDisarmHandlerOptionsChangeAccessCode;
 };
 
+export type ADTPulseArmDisarmHandlerReturnsInfoBypassedZones = OpenZones;
+
 export type ADTPulseArmDisarmHandlerReturnsInfoForceArmRequired = boolean;
 
 export type ADTPulseArmDisarmHandlerReturnsInfoReadyButton = OrbSecurityButtonBase & OrbSecurityButtonReady;
@@ -106,6 +196,7 @@ export type ADTPulseArmDisarmHandlerReturnsInfoReadyButton = OrbSecurityButtonBa
 export type ADTPulseArmDisarmHandlerReturnsInfoReadyButtons = ADTPulseArmDisarmHandlerReturnsInfoReadyButton[];
 
 export type ADTPulseArmDisarmHandlerReturnsInfo = {
+  bypassedZones: ADTPulseArmDisarmHandlerReturnsInfoBypassedZones;
   forceArmRequired: ADTPulseArmDisarmHandlerReturnsInfoForceArmRequired;
   readyButtons: ADTPulseArmDisarmHandlerReturnsInfoReadyButtons;
 };
@@ -118,20 +209,15 @@ export type ADTPulseArmDisarmHandlerSessions = Sessions<{
 
 export type ADTPulseArmDisarmHandlerReadyButton = OrbSecurityButtonBase & OrbSecurityButtonReady;
 
-/**
- * ADT Pulse - Constructor.
- *
- * @since 1.0.0
- */
-export type ADTPulseConstructorConfig = Config;
-
-export type ADTPulseConstructorInternalConfig = InternalConfig;
+export type ADTPulseArmDisarmHandlerBypassedZones = OpenZones;
 
 /**
  * ADT Pulse - Credentials.
  *
  * @since 1.0.0
  */
+export type ADTPulseCredentialsAccessCodeUser = string | null;
+
 export type ADTPulseCredentialsFingerprint = string;
 
 export type ADTPulseCredentialsPassword = string;
@@ -141,12 +227,55 @@ export type ADTPulseCredentialsSubdomain = PortalSubdomain;
 export type ADTPulseCredentialsUsername = string;
 
 export type ADTPulseCredentials = {
+  accessCodeUser: ADTPulseCredentialsAccessCodeUser;
   fingerprint: ADTPulseCredentialsFingerprint;
   password: ADTPulseCredentialsPassword;
   subdomain: ADTPulseCredentialsSubdomain;
   username: ADTPulseCredentialsUsername;
 };
 
+/**
+ * ADT Pulse - Emit.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseEmitName = ApiEventName;
+
+export type ADTPulseEmitEvent<Name extends ADTPulseEmitName> = ApiEvents[Name];
+
+export type ADTPulseEmitReturns = boolean;
+
+/**
+ * ADT Pulse - Emit status changes.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseEmitStatusChangesNetworkId = NetworkId | null;
+
+export type ADTPulseEmitStatusChangesObservationGatewayInfo = GatewayInformation;
+
+export type ADTPulseEmitStatusChangesObservationPanelStatus = PanelStatus;
+
+export type ADTPulseEmitStatusChangesObservationSensorsStatus = SensorStatus[];
+
+export type ADTPulseEmitStatusChangesObservationSyncCode = PortalSyncCode;
+
+export type ADTPulseEmitStatusChangesObservation = {
+  gatewayInfo?: ADTPulseEmitStatusChangesObservationGatewayInfo;
+  panelStatus?: ADTPulseEmitStatusChangesObservationPanelStatus;
+  sensorsStatus?: ADTPulseEmitStatusChangesObservationSensorsStatus;
+  syncCode?: ADTPulseEmitStatusChangesObservationSyncCode;
+};
+
+export type ADTPulseEmitStatusChangesReturns = void;
+
+/**
+ * ADT Pulse - Emitter.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseEmitter = EventEmitter;
+
 /**
  * ADT Pulse - Force arm handler.
  *
@@ -156,14 +285,19 @@ export type ADTPulseForceArmHandlerResponse = AxiosResponseNodeJs<unknown>;
 
 export type ADTPulseForceArmHandlerRelativeUrl = PortalPanelArmButtonRelativeUrl;
 
+export type ADTPulseForceArmHandlerReturnsInfoBypassedZones = OpenZones;
+
 export type ADTPulseForceArmHandlerReturnsInfoForceArmRequired = boolean;
 
 export type ADTPulseForceArmHandlerReturnsInfo = {
+  bypassedZones: ADTPulseForceArmHandlerReturnsInfoBypassedZones;
   forceArmRequired: ADTPulseForceArmHandlerReturnsInfoForceArmRequired;
 };
 
 export type ADTPulseForceArmHandlerReturns = Promise<ApiResponse<'FORCE_ARM_HANDLER', ADTPulseForceArmHandlerReturnsInfo>>;
 
+export type ADTPulseForceArmHandlerCancelMessage = string | null;
+
 export type ADTPulseForceArmHandlerSessions = Sessions<{
   axiosForceArm?: AxiosResponseNodeJs<unknown>;
   jsdomArmDisarm?: JSDOM;
@@ -182,46 +316,39 @@ export type ADTPulseForceArmHandlerTracker = {
 };
 
 /**
- * ADT Pulse - Get gateway information.
+ * ADT Pulse - Get access code.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseGetGatewayInformationReturnsInfo = GatewayInformation;
+export type ADTPulseGetAccessCodeUser = string | null;
 
-export type ADTPulseGetGatewayInformationReturns = Promise<ApiResponse<'GET_GATEWAY_INFORMATION', ADTPulseGetGatewayInformationReturnsInfo>>;
+export type ADTPulseGetAccessCodeReturns = Promise<string | null>;
 
+/**
+ * ADT Pulse - Get gateway information.
+ *
+ * @since 1.0.0
+ */
 export type ADTPulseGetGatewayInformationSessions = Sessions<{
   axiosSystemGateway?: AxiosResponseNodeJs<unknown>;
   jsdomSystemGateway?: JSDOM;
 }>;
 
-export type ADTPulseGetGatewayInformationReturnsStatus = PortalDeviceGatewayStatus | null;
-
 /**
  * ADT Pulse - Get panel information.
  *
  * @since 1.0.0
  */
-export type ADTPulseGetPanelInformationReturnsInfo = PanelInformation;
-
-export type ADTPulseGetPanelInformationReturns = Promise<ApiResponse<'GET_PANEL_INFORMATION', ADTPulseGetPanelInformationReturnsInfo>>;
-
 export type ADTPulseGetPanelInformationSessions = Sessions<{
   axiosSystemDeviceId1?: AxiosResponseNodeJs<unknown>;
   jsdomSystemDeviceId1?: JSDOM;
 }>;
 
-export type ADTPulseGetPanelInformationReturnsStatus = PortalDevicePanelStatus | null;
-
 /**
  * ADT Pulse - Get panel status.
  *
  * @since 1.0.0
  */
-export type ADTPulseGetPanelStatusReturnsInfo = PanelStatus;
-
-export type ADTPulseGetPanelStatusReturns = Promise<ApiResponse<'GET_PANEL_STATUS', ADTPulseGetPanelStatusReturnsInfo>>;
-
 export type ADTPulseGetPanelStatusSessions = Sessions<{
   axiosSummary?: AxiosResponseNodeJs<unknown>;
   jsdomSummary?: JSDOM;
@@ -239,14 +366,31 @@ export type ADTPulseGetRequestConfigReturns = AxiosRequestConfig;
 export type ADTPulseGetRequestConfigDefaultConfig = AxiosRequestConfig;
 
 /**
- * ADT Pulse - Get orb security buttons.
+ * ADT Pulse - Get open zones.
  *
- * @since 1.0.0
+ * @since 3.3.0
+ */
+export type ADTPulseGetOpenZonesReturns = Promise<OpenZones | null>;
+
+/**
+ * ADT Pulse - Get site config.
+ *
+ * @since 3.3.0
  */
-export type ADTPulseADTPulseGetOrbSecurityButtonsReturnsInfo = OrbSecurityButtons;
+export type ADTPulseGetSiteConfigReturnsAccessCodeUser = string | null;
+
+export type ADTPulseGetSiteConfigReturnsSensors = ADTPulseSensors;
 
-export type ADTPulseGetOrbSecurityButtonsReturns = Promise<ApiResponse<'GET_ORB_SECURITY_BUTTONS', ADTPulseADTPulseGetOrbSecurityButtonsReturnsInfo>>;
+export type ADTPulseGetSiteConfigReturns = {
+  accessCodeUser: ADTPulseGetSiteConfigReturnsAccessCodeUser;
+  sensors: ADTPulseGetSiteConfigReturnsSensors;
+};
 
+/**
+ * ADT Pulse - Get orb security buttons.
+ *
+ * @since 1.0.0
+ */
 export type ADTPulseGetOrbSecurityButtonsSessions = Sessions<{
   axiosSummary?: AxiosResponseNodeJs<unknown>;
   jsdomSummary?: JSDOM;
@@ -257,16 +401,6 @@ export type ADTPulseGetOrbSecurityButtonsSessions = Sessions<{
  *
  * @since 1.0.0
  */
-export type ADTPulseGetSensorsInformationReturnsInfoSensor = SensorInformation;
-
-export type ADTPulseGetSensorsInformationReturnsInfoSensors = ADTPulseGetSensorsInformationReturnsInfoSensor[];
-
-export type ADTPulseGetSensorsInformationReturnsInfo = {
-  sensors: ADTPulseGetSensorsInformationReturnsInfoSensors;
-};
-
-export type ADTPulseGetSensorsInformationReturns = Promise<ApiResponse<'GET_SENSORS_INFORMATION', ADTPulseGetSensorsInformationReturnsInfo>>;
-
 export type ADTPulseGetSensorsInformationSessions = Sessions<{
   axiosSystem?: AxiosResponseNodeJs<unknown>;
   jsdomSystem?: JSDOM;
@@ -277,21 +411,21 @@ export type ADTPulseGetSensorsInformationSessions = Sessions<{
  *
  * @since 1.0.0
  */
-export type ADTPulseGetSensorsStatusReturnsInfoSensor = SensorStatus;
-
-export type ADTPulseGetSensorsStatusReturnsInfoSensors = ADTPulseGetSensorsStatusReturnsInfoSensor[];
-
-export type ADTPulseGetSensorsStatusReturnsInfo = {
-  sensors: ADTPulseGetSensorsStatusReturnsInfoSensors;
-};
-
-export type ADTPulseGetSensorsStatusReturns = Promise<ApiResponse<'GET_SENSORS_STATUS', ADTPulseGetSensorsStatusReturnsInfo>>;
-
 export type ADTPulseGetSensorsStatusSessions = Sessions<{
   axiosSummary?: AxiosResponseNodeJs<unknown>;
   jsdomSummary?: JSDOM;
 }>;
 
+/**
+ * ADT Pulse - Get summary snapshot.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseGetSummarySnapshotSessions = Sessions<{
+  axiosSummary?: AxiosResponseNodeJs<unknown>;
+  jsdomSummary?: JSDOM;
+}>;
+
 /**
  * ADT Pulse - Handle login failure.
  *
@@ -308,11 +442,19 @@ export type ADTPulseHandleLoginFailureReturns = void;
  *
  * @since 1.0.0
  */
-export type ADTPulseInternalBaseUrl = `https://${string}`;
+export type ADTPulseInternalBaseUrl = `http://${string}` | `https://${string}`;
 
 export type ADTPulseInternalDebug = boolean;
 
-export type ADTPulseInternalLogger = Logger | null;
+export type ADTPulseInternalIsSessionResumable = boolean;
+
+export type ADTPulseInternalIsSimulator = boolean;
+
+export type ADTPulseInternalLogger = ApiLogger | null;
+
+export type ADTPulseInternalMfaChallengeLifetime = number;
+
+export type ADTPulseInternalNetworkId = NetworkId | null;
 
 export type ADTPulseInternalReportedHash = string;
 
@@ -332,64 +474,31 @@ export type ADTPulseInternalWaitTimeAfterArm = number;
 export type ADTPulseInternal = {
   baseUrl: ADTPulseInternalBaseUrl;
   debug: ADTPulseInternalDebug;
+  isSessionResumable: ADTPulseInternalIsSessionResumable;
+  isSimulator: ADTPulseInternalIsSimulator;
   logger: ADTPulseInternalLogger;
+  mfaChallengeLifetime: ADTPulseInternalMfaChallengeLifetime;
+  networkId: ADTPulseInternalNetworkId;
   reportedHashes: ADTPulseInternalReportedHashes;
   testMode: ADTPulseInternalTestMode;
   waitTimeAfterArm: ADTPulseInternalWaitTimeAfterArm;
 };
 
-/**
- * ADT Pulse - Is authenticated.
- *
- * @since 1.0.0
- */
-export type ADTPulseIsAuthenticatedReturns = boolean;
-
 /**
  * ADT Pulse - Login.
  *
  * @since 1.0.0
  */
-export type ADTPulseLoginReturnsInfoBackupSatCode = UUID | null;
-
-export type ADTPulseLoginReturnsInfoNetworkId = NetworkId | null;
-
-export type ADTPulseLoginReturnsInfoPortalVersion = PortalVersion | null;
-
-export type ADTPulseLoginReturnsInfo = {
-  backupSatCode: ADTPulseLoginReturnsInfoBackupSatCode;
-  networkId: ADTPulseLoginReturnsInfoNetworkId;
-  portalVersion: ADTPulseLoginReturnsInfoPortalVersion;
-};
-
-export type ADTPulseLoginReturns = Promise<ApiResponse<'LOGIN', ADTPulseLoginReturnsInfo>>;
-
 export type ADTPulseLoginSessions = Sessions<{
   axiosIndex?: AxiosResponseNodeJs<unknown>;
   axiosSignin?: AxiosResponseNodeJs<unknown>;
 }>;
 
-export type ADTPulseLoginPortalVersion = PortalVersion;
-
 /**
  * ADT Pulse - Logout.
  *
  * @since 1.0.0
  */
-export type ADTPulseLogoutReturnsInfoBackupSatCode = UUID | null;
-
-export type ADTPulseLogoutReturnsInfoNetworkId = NetworkId | null;
-
-export type ADTPulseLogoutReturnsInfoPortalVersion = PortalVersion | null;
-
-export type ADTPulseLogoutReturnsInfo = {
-  backupSatCode: ADTPulseLogoutReturnsInfoBackupSatCode;
-  networkId: ADTPulseLogoutReturnsInfoNetworkId;
-  portalVersion: ADTPulseLogoutReturnsInfoPortalVersion;
-};
-
-export type ADTPulseLogoutReturns = Promise<ApiResponse<'LOGOUT', ADTPulseLogoutReturnsInfo>>;
-
 export type ADTPulseLogoutSessions = Sessions<{
   axiosSignout?: AxiosResponseNodeJs<unknown>;
 }>;
@@ -399,7 +508,7 @@ export type ADTPulseLogoutSessions = Sessions<{
  *
  * @since 1.0.0
  */
-export type ADTPulseNewInformationDispatcherType = 'debug-parser' | 'do-submit-handlers' | 'gateway-information' | 'orb-security-buttons' | 'panel-information' | 'panel-status' | 'portal-version' | 'sensors-information' | 'sensors-status';
+export type ADTPulseNewInformationDispatcherType = ApiEventParserAnomalyType;
 
 export type ADTPulseNewInformationDispatcherData<Type extends ADTPulseNewInformationDispatcherType> =
   Type extends 'debug-parser' ? DebugParser<'forceArmHandler'> | DebugParser<'getGatewayInformation'> | DebugParser<'getOrbSecurityButtons'> | DebugParser<'getPanelInformation'> | DebugParser<'getPanelStatus'> | DebugParser<'getSensorsInformation'> | DebugParser<'getSensorsStatus'>
@@ -416,14 +525,32 @@ export type ADTPulseNewInformationDispatcherData<Type extends ADTPulseNewInforma
 export type ADTPulseNewInformationDispatcherReturns = Promise<void>;
 
 /**
- * ADT Pulse - Perform keep alive.
+ * ADT Pulse - Observed.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePerformKeepAliveReturnsInfo = null;
+export type ADTPulseObservedSiteGatewayInfo = GatewayInformation | null;
+
+export type ADTPulseObservedSitePanelStatus = PanelStatus | null;
 
-export type ADTPulsePerformKeepAliveReturns = Promise<ApiResponse<'PERFORM_KEEP_ALIVE', ADTPulsePerformKeepAliveReturnsInfo>>;
+export type ADTPulseObservedSiteSensorsStatus = SensorStatus[] | null;
 
+export type ADTPulseObservedSiteSyncCode = PortalSyncCode | null;
+
+export type ADTPulseObservedSite = {
+  gatewayInfo: ADTPulseObservedSiteGatewayInfo;
+  panelStatus: ADTPulseObservedSitePanelStatus;
+  sensorsStatus: ADTPulseObservedSiteSensorsStatus;
+  syncCode: ADTPulseObservedSiteSyncCode;
+};
+
+export type ADTPulseObserved = Partial<Record<NetworkId, ADTPulseObservedSite>>;
+
+/**
+ * ADT Pulse - Perform keep alive.
+ *
+ * @since 1.0.0
+ */
 export type ADTPulsePerformKeepAliveSessions = Sessions<{
   axiosKeepAlive?: AxiosResponseNodeJs<unknown>;
 }>;
@@ -433,24 +560,76 @@ export type ADTPulsePerformKeepAliveSessions = Sessions<{
  *
  * @since 1.0.0
  */
-export type ADTPulsePerformSyncCheckReturnsInfoSyncCode = PortalSyncCode;
+export type ADTPulsePerformSyncCheckSessions = Sessions<{
+  axiosSyncCheck?: AxiosResponseNodeJs<unknown>;
+}>;
 
-export type ADTPulsePerformSyncCheckReturnsInfo = {
-  syncCode: ADTPulsePerformSyncCheckReturnsInfoSyncCode;
-};
+/**
+ * ADT Pulse - Process orb security buttons.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseProcessOrbSecurityButtonsJsdomSummary = JSDOM;
 
-export type ADTPulsePerformSyncCheckReturns = Promise<ApiResponse<'PERFORM_SYNC_CHECK', ADTPulsePerformSyncCheckReturnsInfo>>;
+export type ADTPulseProcessOrbSecurityButtonsRawHtml = string;
 
-export type ADTPulsePerformSyncCheckSessions = Sessions<{
-  axiosSyncCheck?: AxiosResponseNodeJs<unknown>;
+export type ADTPulseProcessOrbSecurityButtonsReturns = Promise<OrbSecurityButtons>;
+
+/**
+ * ADT Pulse - Process panel status.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseProcessPanelStatusJsdomSummary = JSDOM;
+
+export type ADTPulseProcessPanelStatusRawHtml = string;
+
+export type ADTPulseProcessPanelStatusReturns = Promise<PanelStatus>;
+
+/**
+ * ADT Pulse - Process sensors status.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseProcessSensorsStatusJsdomSummary = JSDOM;
+
+export type ADTPulseProcessSensorsStatusRawHtml = string;
+
+export type ADTPulseProcessSensorsStatusReturns = Promise<SensorStatus[]>;
+
+/**
+ * ADT Pulse - Request mfa code.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseRequestMfaCodeSessions = Sessions<{
+  axiosRequest?: AxiosResponseNodeJs<unknown>;
 }>;
 
 /**
- * ADT Pulse - Reset session.
+ * ADT Pulse - Resume session.
  *
- * @since 1.0.0
+ * @since 3.3.0
+ */
+export type ADTPulseResumeSessionReturns = Promise<boolean>;
+
+export type ADTPulseResumeSessionSessions = Sessions<{
+  axiosSummary?: AxiosResponseNodeJs<unknown>;
+}>;
+
+/**
+ * ADT Pulse - Save session.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSaveSessionReturns = Promise<void>;
+
+/**
+ * ADT Pulse - Sensors.
+ *
+ * @since 3.3.0
  */
-export type ADTPulseResetSessionReturns = void;
+export type ADTPulseSensors = Config['sensors'];
 
 /**
  * ADT Pulse - Session.
@@ -465,39 +644,73 @@ export type ADTPulseSessionIsAuthenticated = boolean;
 
 export type ADTPulseSessionIsCleanState = boolean;
 
+export type ADTPulseSessionLastLoginOn = number | null;
+
+export type ADTPulseSessionHomeNetworkId = NetworkId | null;
+
+export type ADTPulseSessionMfaChallenge = MfaChallenge | null;
+
 export type ADTPulseSessionNetworkId = NetworkId | null;
 
 export type ADTPulseSessionPortalVersion = PortalVersion | null;
 
 export type ADTPulseSession = {
   backupSatCode: ADTPulseSessionBackupSatCode;
+  homeNetworkId: ADTPulseSessionHomeNetworkId;
   httpClient: ADTPulseSessionHttpClient;
   isAuthenticated: ADTPulseSessionIsAuthenticated;
   isCleanState: ADTPulseSessionIsCleanState;
+  lastLoginOn: ADTPulseSessionLastLoginOn;
+  mfaChallenge: ADTPulseSessionMfaChallenge;
   networkId: ADTPulseSessionNetworkId;
   portalVersion: ADTPulseSessionPortalVersion;
 };
 
 /**
- * ADT Pulse - Set panel status.
+ * ADT Pulse - Session vault.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseSetPanelStatusArmFrom = PortalPanelArmValue;
+export type ADTPulseSessionVault = ADTPulseVault<SessionVault> | null;
 
-export type ADTPulseSetPanelStatusArmTo = PortalPanelArmValue;
-
-export type ADTPulseSetPanelStatusIsAlarmActive = boolean;
+/**
+ * ADT Pulse - Site lock.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSiteLockQueue = Promise<void>;
 
-export type ADTPulseSetPanelStatusReturnsInfoForceArmRequired = boolean;
+export type ADTPulseSiteLockRelease = (() => void) | null;
 
-export type ADTPulseSetPanelStatusReturnsInfo = {
-  forceArmRequired: ADTPulseSetPanelStatusReturnsInfoForceArmRequired;
+export type ADTPulseSiteLock = {
+  queue: ADTPulseSiteLockQueue;
+  release: ADTPulseSiteLockRelease;
 };
 
-export type ADTPulseSetPanelStatusReturns = Promise<ApiResponse<'SET_PANEL_STATUS', ADTPulseSetPanelStatusReturnsInfo>>;
+/**
+ * ADT Pulse - Sites.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSites = Config['sites'];
+
+/**
+ * ADT Pulse - Submit mfa code.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSubmitMfaCodeSessions = Sessions<{
+  axiosVerify?: AxiosResponseNodeJs<unknown>;
+}>;
 
-export type ADTPulseSetPanelStatusReadyButton = OrbSecurityButtonBase & OrbSecurityButtonReady;
+/**
+ * ADT Pulse - Switch site.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSwitchSiteSessions = Sessions<{
+  axiosSummary?: AxiosResponseNodeJs<unknown>;
+}>;
 
 /**
  * ADT Pulse Accessory - Accessory.
@@ -513,15 +726,12 @@ export type ADTPulseAccessoryAccessory = PlatformAccessory<Device>;
  */
 export type ADTPulseAccessoryActivityIsBusy = boolean;
 
-export type ADTPulseAccessoryActivitySetCurrentValue = Nullable<CharacteristicValue>;
-
 export type ADTPulseAccessoryActivitySetTargetValue = Nullable<CharacteristicValue>;
 
 export type ADTPulseAccessoryActivitySetValue = Nullable<CharacteristicValue>;
 
 export type ADTPulseAccessoryActivity = {
   isBusy: ADTPulseAccessoryActivityIsBusy;
-  setCurrentValue: ADTPulseAccessoryActivitySetCurrentValue;
   setTargetValue: ADTPulseAccessoryActivitySetTargetValue;
   setValue: ADTPulseAccessoryActivitySetValue;
 };
@@ -533,6 +743,13 @@ export type ADTPulseAccessoryActivity = {
  */
 export type ADTPulseAccessoryApi = API;
 
+/**
+ * ADT Pulse Accessory - Arm mode.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAccessoryArmMode = HomeKitArmMode | null;
+
 /**
  * ADT Pulse Accessory - Characteristic.
  *
@@ -554,7 +771,7 @@ export type ADTPulseAccessoryConfig = ADTPulsePlatformConfig;
  */
 export type ADTPulseAccessoryConstructorAccessory = PlatformAccessory<Device>;
 
-export type ADTPulseAccessoryConstructorState = ADTPulsePlatformState;
+export type ADTPulseAccessoryConstructorState = Pick<ADTPulsePlatformState, 'data'>;
 
 export type ADTPulseAccessoryConstructorConfig = ADTPulsePlatformConfig;
 
@@ -568,12 +785,50 @@ export type ADTPulseAccessoryConstructorApi = API;
 
 export type ADTPulseAccessoryConstructorLog = Logger;
 
+export type ADTPulseAccessoryConstructorJournal = ADTPulseJournal;
+
+/**
+ * ADT Pulse Accessory - Get arm mode value.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAccessoryGetArmModeValueMode = 'current' | 'target';
+
+export type ADTPulseAccessoryGetArmModeValueArmValue = PortalPanelArmValue;
+
+export type ADTPulseAccessoryGetArmModeValueReturns = CharacteristicValue;
+
+/**
+ * ADT Pulse Accessory - Get arm modes.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAccessoryGetArmModesReturns = HomeKitArmModes;
+
+/**
+ * ADT Pulse Accessory - Get gateway status.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAccessoryGetGatewayStatusMode = 'active' | 'broadband' | 'cellular' | 'cellularFault' | 'fault';
+
+export type ADTPulseAccessoryGetGatewayStatusReturns = HapStatusError | Error | Nullable<CharacteristicValue>;
+
+/**
+ * ADT Pulse Accessory - Get home kit arm mode.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAccessoryGetHomeKitArmModeValue = CharacteristicValue;
+
+export type ADTPulseAccessoryGetHomeKitArmModeReturns = HomeKitArmMode | null;
+
 /**
  * ADT Pulse Accessory - Get panel status.
  *
  * @since 1.0.0
  */
-export type ADTPulseAccessoryGetPanelStatusMode = 'alarmType' | 'current' | 'fault' | 'tamper' | 'target';
+export type ADTPulseAccessoryGetPanelStatusMode = 'alarmType' | 'burglaryAlarm' | 'carbonMonoxideAlarm' | 'current' | 'entryDelay' | 'fault' | 'fireAlarm' | 'tamper' | 'target' | 'waterAlarm';
 
 export type ADTPulseAccessoryGetPanelStatusReturns = HapStatusError | Error | Nullable<CharacteristicValue>;
 
@@ -600,8 +855,12 @@ export type ADTPulseAccessoryGetSensorStatusReturns = HapStatusError | Error | N
  */
 export type ADTPulseAccessorySetPanelStatusArm = CharacteristicValue;
 
+export type ADTPulseAccessorySetPanelStatusArmTo = JournalEventArmRequestArmTo | null;
+
 export type ADTPulseAccessorySetPanelStatusReturns = Promise<void>;
 
+export type ADTPulseAccessorySetPanelStatusResult = Awaited<ADTPulseSetPanelStatusReturns>;
+
 /**
  * ADT Pulse Accessory - Set panel switch status.
  *
@@ -618,6 +877,13 @@ export type ADTPulseAccessorySetPanelSwitchStatusReturns = Promise<void>;
  */
 export type ADTPulseAccessoryInstance = ADTPulse;
 
+/**
+ * ADT Pulse Accessory - Journal.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAccessoryJournal = ADTPulseJournal;
+
 /**
  * ADT Pulse Accessory - Log.
  *
@@ -637,7 +903,7 @@ export type ADTPulseAccessoryServices = Record<string, Service | undefined>;
  *
  * @since 1.0.0
  */
-export type ADTPulseAccessoryState = ADTPulsePlatformState;
+export type ADTPulseAccessoryState = Pick<ADTPulsePlatformState, 'data'>;
 
 /**
  * ADT Pulse Accessory - Updater.
@@ -647,90 +913,422 @@ export type ADTPulseAccessoryState = ADTPulsePlatformState;
 export type ADTPulseAccessoryUpdaterReturns = void;
 
 /**
- * ADT Pulse Platform.
+ * ADT Pulse Alerts - Active alerts.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformPlugin = DynamicPlatformPlugin;
+export type ADTPulseAlertsActiveAlerts = GatewayAlertTypes;
 
 /**
- * ADT Pulse Platform - Accessories.
+ * ADT Pulse Alerts - Config.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformAccessory = PlatformAccessory<Device>;
-
-export type ADTPulsePlatformAccessories = ADTPulsePlatformAccessory[];
+export type ADTPulseAlertsConfig = Config;
 
 /**
- * ADT Pulse Platform - Add accessory.
+ * ADT Pulse Alerts - Constructor.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformAddAccessoryDevice = Device;
+export type ADTPulseAlertsConstructorConfig = Config;
 
-export type ADTPulsePlatformAddAccessoryReturns = void;
+export type ADTPulseAlertsConstructorName = GatewayAlertSite;
 
-export type ADTPulsePlatformAddAccessoryTypedAccessory = PlatformAccessory<Device>;
+export type ADTPulseAlertsConstructorLog = Logger;
 
 /**
- * ADT Pulse Platform - Api.
+ * ADT Pulse Alerts - Dispatch.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformApi = API;
+export type ADTPulseAlertsDispatchType = GatewayAlertType;
+
+export type ADTPulseAlertsDispatchState = GatewayAlertState;
+
+export type ADTPulseAlertsDispatchGatewayInfo = GatewayInformation;
+
+export type ADTPulseAlertsDispatchReturns = GatewayAlertChange;
 
 /**
- * ADT Pulse Platform - Characteristic.
+ * ADT Pulse Alerts - Evaluate.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformCharacteristic = typeof Characteristic;
+export type ADTPulseAlertsEvaluateGatewayInfo = GatewayInformation;
+
+export type ADTPulseAlertsEvaluateReturns = GatewayAlertChanges;
+
+export type ADTPulseAlertsEvaluateChanges = GatewayAlertChanges;
+
+export type ADTPulseAlertsEvaluateConditions = Record<GatewayAlertType, boolean>;
+
+export type ADTPulseAlertsEvaluateTypes = GatewayAlertTypes;
 
 /**
- * ADT Pulse Platform - Config.
+ * ADT Pulse Alerts - Get active alerts.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformConfig = z.infer<typeof platformConfig> | null;
+export type ADTPulseAlertsGetActiveAlertsReturns = GatewayAlertTypes;
 
 /**
- * ADT Pulse Platform - Configure accessory.
+ * ADT Pulse Alerts - Get message.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformConfigureAccessoryAccessory = PlatformAccessory<Device>;
+export type ADTPulseAlertsGetMessageType = GatewayAlertType;
 
-export type ADTPulsePlatformConfigureAccessoryReturns = void;
+export type ADTPulseAlertsGetMessageState = GatewayAlertState;
+
+export type ADTPulseAlertsGetMessageGatewayInfo = GatewayInformation;
+
+export type ADTPulseAlertsGetMessageReturns = GatewayAlertMessage;
 
 /**
- * ADT Pulse Platform - Constants.
+ * ADT Pulse Alerts - Is check in overdue.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
+export type ADTPulseAlertsIsCheckInOverdueGatewayInfo = GatewayInformation;
+
+export type ADTPulseAlertsIsCheckInOverdueReturns = boolean;
+
+/**
+ * ADT Pulse Alerts - Log.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAlertsLog = Logger;
+
+/**
+ * ADT Pulse Alerts - Name.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseAlertsName = GatewayAlertSite;
+
+/**
+ * ADT Pulse Journal - File path.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseJournalFilePath = string;
+
+/**
+ * ADT Pulse Journal - Is entry.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseJournalIsEntryEntry = unknown;
+
+export type ADTPulseJournalIsEntryTypeGuard = JournalEntry;
+
+/**
+ * ADT Pulse Journal - Log.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseJournalLog = ApiLogger | null;
+
+/**
+ * ADT Pulse Journal - Read from end.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseJournalReadFromEndFilePath = string;
+
+export type ADTPulseJournalReadFromEndSince = number | undefined;
+
+export type ADTPulseJournalReadFromEndEntries = JournalEntry[];
+
+export type ADTPulseJournalReadFromEndReturnsEntries = JournalEntry[];
+
+export type ADTPulseJournalReadFromEndReturnsIsComplete = boolean;
+
+export type ADTPulseJournalReadFromEndReturns = Promise<{
+  entries: ADTPulseJournalReadFromEndReturnsEntries;
+  isComplete: ADTPulseJournalReadFromEndReturnsIsComplete;
+}>;
+
+/**
+ * ADT Pulse Journal - Rotate.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseJournalRotateReturns = Promise<void>;
+
+/**
+ * ADT Pulse Mfa Wizard - Api.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMfaWizardApi = ADTPulse | undefined;
+
+/**
+ * ADT Pulse Mfa Wizard - Display startup header.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMfaWizardDisplayStartupHeaderReturns = void;
+
+/**
+ * ADT Pulse Mfa Wizard - Prompt.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMfaWizardPromptQuestion = string;
+
+export type ADTPulseMfaWizardPromptReturns = Promise<string>;
+
+/**
+ * ADT Pulse Mfa Wizard - Start wizard.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMfaWizardStartWizardReturns = Promise<void>;
+
+/**
+ * ADT Pulse Mqtt - Characteristic.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttCharacteristic = typeof Characteristic;
+
+/**
+ * ADT Pulse Mqtt - Client.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttClient = MqttClient | undefined;
+
+/**
+ * ADT Pulse Mqtt - Config.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttConfig = Config;
+
+/**
+ * ADT Pulse Mqtt - Connect.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttConnectReturns = void;
+
+/**
+ * ADT Pulse Mqtt - Constructor.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttConstructorConfig = Config;
+
+export type ADTPulseMqttConstructorState = ADTPulsePlatformState;
+
+export type ADTPulseMqttConstructorInstance = ADTPulse;
+
+export type ADTPulseMqttConstructorJournal = ADTPulseJournal;
+
+export type ADTPulseMqttConstructorCharacteristic = typeof Characteristic;
+
+export type ADTPulseMqttConstructorLog = Logger;
+
+export type ADTPulseMqttConstructorDebugMode = boolean;
+
+/**
+ * ADT Pulse Mqtt - Debug mode.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttDebugMode = boolean;
+
+/**
+ * ADT Pulse Mqtt - Disconnect.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttDisconnectReturns = Promise<void>;
+
+/**
+ * ADT Pulse Mqtt - Generate messages.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttGenerateMessagesMessages = Record<string, string>;
+
+export type ADTPulseMqttGenerateMessagesReturns = Record<string, string>;
+
+/**
+ * ADT Pulse Mqtt - Get device class.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttGetDeviceClassType = PluginDeviceSensorType;
+
+export type ADTPulseMqttGetDeviceClassReturns = 'carbon_monoxide' | 'door' | 'heat' | 'moisture' | 'motion' | 'problem' | 'smoke' | 'tamper' | 'vibration';
+
+/**
+ * ADT Pulse Mqtt - Handle command.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttHandleCommandPayload = string;
+
+export type ADTPulseMqttHandleCommandReturns = Promise<void>;
+
+export type ADTPulseMqttHandleCommandArmTo = PortalPanelArmValue | undefined;
+
+export type ADTPulseMqttHandleCommandResult = Awaited<ADTPulseSetPanelStatusReturns>;
+
+/**
+ * ADT Pulse Mqtt - Instance.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttInstance = ADTPulse;
+
+/**
+ * ADT Pulse Mqtt - Is arming.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttIsArming = boolean;
+
+/**
+ * ADT Pulse Mqtt - Is command topic enabled.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttIsCommandTopicEnabledReturns = boolean;
+
+/**
+ * ADT Pulse Mqtt - Journal.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttJournal = ADTPulseJournal;
+
+/**
+ * ADT Pulse Mqtt - Log.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttLog = Logger;
+
+/**
+ * ADT Pulse Mqtt - Publish state.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttPublishStateReturns = Promise<void>;
+
+/**
+ * ADT Pulse Mqtt - Published messages.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttPublishedMessages = Map<string, string>;
+
+/**
+ * ADT Pulse Mqtt - State.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseMqttState = ADTPulsePlatformState;
+
+/**
+ * ADT Pulse Platform.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformPlugin = DynamicPlatformPlugin;
+
+/**
+ * ADT Pulse Platform - Accessories.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformAccessory = PlatformAccessory<Device>;
+
+export type ADTPulsePlatformAccessories = ADTPulsePlatformAccessory[];
+
+/**
+ * ADT Pulse Platform - Add accessory.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformAddAccessoryDevice = Device;
+
+export type ADTPulsePlatformAddAccessorySite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformAddAccessoryReturns = void;
+
+export type ADTPulsePlatformAddAccessoryTypedAccessory = PlatformAccessory<Device>;
+
+/**
+ * ADT Pulse Platform - Api.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformApi = API;
+
+/**
+ * ADT Pulse Platform - Characteristic.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformCharacteristic = typeof Characteristic;
+
+/**
+ * ADT Pulse Platform - Config.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformConfig = z.infer<typeof platformConfig> | null;
+
+/**
+ * ADT Pulse Platform - Configure accessory.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformConfigureAccessoryAccessory = PlatformAccessory<Device>;
+
+export type ADTPulsePlatformConfigureAccessoryReturns = void;
+
+/**
+ * ADT Pulse Platform - Constants.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformConstantsTimestampsAdtFullRefetch = number;
+
 export type ADTPulsePlatformConstantsTimestampsAdtKeepAlive = number;
 
 export type ADTPulsePlatformConstantsTimestampsAdtSessionLifespan = number;
 
-export type ADTPulsePlatformConstantsTimestampsAdtSyncCheck = number;
+export type ADTPulsePlatformConstantsTimestampsGatewayCheckIn = number;
 
 export type ADTPulsePlatformConstantsTimestampsSuspendSyncing = number;
 
 export type ADTPulsePlatformConstantsTimestampsSynchronize = number;
 
 export type ADTPulsePlatformConstantsTimestamps = {
+  adtFullRefetch: ADTPulsePlatformConstantsTimestampsAdtFullRefetch;
   adtKeepAlive: ADTPulsePlatformConstantsTimestampsAdtKeepAlive;
   adtSessionLifespan: ADTPulsePlatformConstantsTimestampsAdtSessionLifespan;
-  adtSyncCheck: ADTPulsePlatformConstantsTimestampsAdtSyncCheck;
+  gatewayCheckIn: ADTPulsePlatformConstantsTimestampsGatewayCheckIn;
   suspendSyncing: ADTPulsePlatformConstantsTimestampsSuspendSyncing;
   synchronize: ADTPulsePlatformConstantsTimestampsSynchronize;
 };
 
 export type ADTPulsePlatformConstantsMaxLoginRetries = number;
 
+export type ADTPulsePlatformConstantsMaxMissingSensorsSyncs = number;
+
 export type ADTPulsePlatformConstants = {
   intervalTimestamps: ADTPulsePlatformConstantsTimestamps;
   maxLoginRetries: ADTPulsePlatformConstantsMaxLoginRetries;
+  maxMissingSensorsSyncs: ADTPulsePlatformConstantsMaxMissingSensorsSyncs;
 };
 
 /**
@@ -752,80 +1350,308 @@ export type ADTPulsePlatformConstructorApi = API;
 export type ADTPulsePlatformDebugMode = boolean | null;
 
 /**
- * ADT Pulse Platform - Fetch updated information.
+ * ADT Pulse Platform - Discover sensors.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformFetchUpdatedInformationReturns = Promise<void>;
+export type ADTPulsePlatformDiscoverSensorsSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformDiscoverSensorsReturns = Config['sensors'];
 
 /**
- * ADT Pulse Platform - Handlers.
+ * ADT Pulse Platform - Emit.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformHandlers = Record<string, ADTPulseAccessory>;
+export type ADTPulsePlatformEmitName = PlatformEventName;
+
+export type ADTPulsePlatformEmitEvent<Name extends ADTPulsePlatformEmitName> = PlatformEvents[Name];
+
+export type ADTPulsePlatformEmitReturns = boolean;
 
 /**
- * ADT Pulse Platform - Instance.
+ * ADT Pulse Platform - Emitter.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformInstance = ADTPulse | null;
+export type ADTPulsePlatformEmitter = EventEmitter;
 
 /**
- * ADT Pulse Platform - Log.
+ * ADT Pulse Platform - Evaluate gateway alerts.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformLog = Logger;
+export type ADTPulsePlatformEvaluateGatewayAlertsSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformEvaluateGatewayAlertsReturns = void;
 
 /**
- * ADT Pulse Platform - Log status changes.
+ * ADT Pulse Platform - Expire panel transition.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformExpirePanelTransitionSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformExpirePanelTransitionReturns = Promise<void>;
+
+/**
+ * ADT Pulse Platform - Fetch updated information.
  *
  * @since 1.0.0
  */
-export type ADTPulsePlatformLogStatusChangesOldCache = ADTPulsePlatformStateData;
+export type ADTPulsePlatformFetchUpdatedInformationSite = ADTPulsePlatformSite;
 
-export type ADTPulsePlatformLogStatusChangesNewCache = ADTPulsePlatformStateData;
+export type ADTPulsePlatformFetchUpdatedInformationRefetchPlan = RefetchPlan;
 
-export type ADTPulsePlatformLogStatusChangesReturns = Promise<void>;
+export type ADTPulsePlatformFetchUpdatedInformationReturns = Promise<void>;
 
 /**
- * ADT Pulse Platform - Poll accessories.
+ * ADT Pulse Platform - Forward events.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformPollAccessoriesDevices = Devices;
+export type ADTPulsePlatformForwardEventsSite = ADTPulsePlatformSite;
 
-export type ADTPulsePlatformPollAccessoriesReturns = Promise<void>;
+export type ADTPulsePlatformForwardEventsSource = PlatformEventSource;
+
+export type ADTPulsePlatformForwardEventsNetworkId = NetworkId;
+
+export type ADTPulsePlatformForwardEventsReturns = void;
 
 /**
- * ADT Pulse Platform - Print system information.
+ * ADT Pulse Platform - Get arm initiator.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformPrintSystemInformationReturns = void;
+export type ADTPulsePlatformGetArmInitiatorSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformGetArmInitiatorArmTo = PortalPanelArmValue;
+
+export type ADTPulsePlatformGetArmInitiatorChangedAt = number;
+
+export type ADTPulsePlatformGetArmInitiatorReturns = Promise<WebhookEventInitiator>;
 
 /**
- * ADT Pulse Platform - Remove accessory.
+ * ADT Pulse Platform - Get site label.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformRemoveAccessoryAccessory = PlatformAccessory<Device>;
+export type ADTPulsePlatformGetSiteLabelSite = ADTPulsePlatformSite;
 
-export type ADTPulsePlatformRemoveAccessoryReason = string;
+export type ADTPulsePlatformGetSiteLabelReturns = string;
 
-export type ADTPulsePlatformRemoveAccessoryReturns = void;
+/**
+ * ADT Pulse Platform - Handle mfa challenge.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformHandleMfaChallengeSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformHandleMfaChallengeReturns = Promise<void>;
 
 /**
- * ADT Pulse Platform - Service.
+ * ADT Pulse Platform - Handlers.
  *
  * @since 1.0.0
  */
-export type ADTPulsePlatformService = typeof Service;
+export type ADTPulsePlatformHandlers = Record<string, ADTPulseAccessory>;
 
 /**
- * ADT Pulse Platform - State.
+ * ADT Pulse Platform - Instance.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformInstance = ADTPulse | null;
+
+/**
+ * ADT Pulse Platform - Is site accessory.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformIsSiteAccessoryAccessory = PlatformAccessory<Device>;
+
+export type ADTPulsePlatformIsSiteAccessorySite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformIsSiteAccessoryReturns = boolean;
+
+/**
+ * ADT Pulse Platform - Journal.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformJournal = ADTPulseJournal;
+
+/**
+ * ADT Pulse Platform - Log.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformLog = Logger;
+
+/**
+ * ADT Pulse Platform - Log status changes.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformLogStatusChangesSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformLogStatusChangesOldCache = ADTPulsePlatformStateData;
+
+export type ADTPulsePlatformLogStatusChangesNewCache = ADTPulsePlatformStateData;
+
+export type ADTPulsePlatformLogStatusChangesReturns = Promise<void>;
+
+export type ADTPulsePlatformLogStatusChangesCommunicationChange = [string, string | null, string | null];
+
+export type ADTPulsePlatformLogStatusChangesCommunicationChanges = ADTPulsePlatformLogStatusChangesCommunicationChange[];
+
+export type ADTPulsePlatformLogStatusChangesSensorEvent = [PortalSensorStatusText, WebhookEventType, string];
+
+export type ADTPulsePlatformLogStatusChangesSensorEvents = ADTPulsePlatformLogStatusChangesSensorEvent[];
+
+/**
+ * ADT Pulse Platform - Mqtt.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformMqtt = ADTPulseMqtt | null;
+
+/**
+ * ADT Pulse Platform - Notify arm webhooks.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformNotifyArmWebhooksSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformNotifyArmWebhooksArmFrom = PortalPanelArmValue;
+
+export type ADTPulsePlatformNotifyArmWebhooksArmTo = PortalPanelArmValue;
+
+export type ADTPulsePlatformNotifyArmWebhooksReturns = void;
+
+/**
+ * ADT Pulse Platform - Notify webhooks.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformNotifyWebhooksSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformNotifyWebhooksEvent = Omit<WebhookEvent, 'networkId' | 'site'>;
+
+export type ADTPulsePlatformNotifyWebhooksReturns = void;
+
+/**
+ * ADT Pulse Platform - Off.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformOffName = PlatformEventName;
+
+export type ADTPulsePlatformOffListener<Name extends ADTPulsePlatformOffName> = PlatformEventListener<Name>;
+
+/**
+ * ADT Pulse Platform - On.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformOnName = PlatformEventName;
+
+export type ADTPulsePlatformOnListener<Name extends ADTPulsePlatformOnName> = PlatformEventListener<Name>;
+
+/**
+ * ADT Pulse Platform - Once.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformOnceName = PlatformEventName;
+
+export type ADTPulsePlatformOnceListener<Name extends ADTPulsePlatformOnceName> = PlatformEventListener<Name>;
+
+/**
+ * ADT Pulse Platform - Poll accessories.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformPollAccessoriesDevices = Devices;
+
+export type ADTPulsePlatformPollAccessoriesSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformPollAccessoriesReturns = Promise<void>;
+
+/**
+ * ADT Pulse Platform - Print system information.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformPrintSystemInformationReturns = void;
+
+/**
+ * ADT Pulse Platform - Remove accessory.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformRemoveAccessoryAccessory = PlatformAccessory<Device>;
+
+export type ADTPulsePlatformRemoveAccessoryReason = string;
+
+export type ADTPulsePlatformRemoveAccessoryReturns = void;
+
+/**
+ * ADT Pulse Platform - Server.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformServer = ADTPulseServer | null;
+
+/**
+ * ADT Pulse Platform - Service.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformService = typeof Service;
+
+/**
+ * ADT Pulse Platform - Sites.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformSiteActivity = ADTPulsePlatformStateActivity;
+
+export type ADTPulsePlatformSiteAlerts = ADTPulseAlerts;
+
+export type ADTPulsePlatformSiteConfig = Config;
+
+export type ADTPulsePlatformSiteData = ADTPulsePlatformStateData;
+
+export type ADTPulsePlatformSiteEventCounters = ADTPulsePlatformStateEventCounters;
+
+export type ADTPulsePlatformSiteInstance = ADTPulse;
+
+export type ADTPulsePlatformSiteLastRunOn = ADTPulsePlatformStateLastRunOn;
+
+export type ADTPulsePlatformSiteName = string | null;
+
+export type ADTPulsePlatformSiteNetworkId = NetworkId | null;
+
+export type ADTPulsePlatformSiteScheduler = ADTPulseScheduler;
+
+export type ADTPulsePlatformSite = {
+  activity: ADTPulsePlatformSiteActivity;
+  alerts: ADTPulsePlatformSiteAlerts;
+  config: ADTPulsePlatformSiteConfig;
+  data: ADTPulsePlatformSiteData;
+  eventCounters: ADTPulsePlatformSiteEventCounters;
+  instance: ADTPulsePlatformSiteInstance;
+  lastRunOn: ADTPulsePlatformSiteLastRunOn;
+  name: ADTPulsePlatformSiteName;
+  networkId: ADTPulsePlatformSiteNetworkId;
+  scheduler: ADTPulsePlatformSiteScheduler;
+};
+
+export type ADTPulsePlatformSites = ADTPulsePlatformSite[];
+
+/**
+ * ADT Pulse Platform - State.
  *
  * @since 1.0.0
  */
@@ -833,6 +1659,8 @@ export type ADTPulsePlatformStateActivityIsAdtKeepingAlive = boolean;
 
 export type ADTPulsePlatformStateActivityIsAdtSyncChecking = boolean;
 
+export type ADTPulsePlatformStateActivityIsAwaitingMfaCode = boolean;
+
 export type ADTPulsePlatformStateActivityIsLoggingIn = boolean;
 
 export type ADTPulsePlatformStateActivityIsSyncing = boolean;
@@ -840,18 +1668,25 @@ export type ADTPulsePlatformStateActivityIsSyncing = boolean;
 export type ADTPulsePlatformStateActivity = {
   isAdtKeepingAlive: ADTPulsePlatformStateActivityIsAdtKeepingAlive;
   isAdtSyncChecking: ADTPulsePlatformStateActivityIsAdtSyncChecking;
+  isAwaitingMfaCode: ADTPulsePlatformStateActivityIsAwaitingMfaCode;
   isLoggingIn: ADTPulsePlatformStateActivityIsLoggingIn;
   isSyncing: ADTPulsePlatformStateActivityIsSyncing;
 };
 
+export type ADTPulsePlatformStateDataGatewayAlerts = GatewayAlertTypes;
+
 export type ADTPulsePlatformStateDataGatewayInfo = GatewayInformation | null;
 
 export type ADTPulsePlatformStateDataOrbSecurityButtons = OrbSecurityButtons;
 
+export type ADTPulsePlatformStateDataPanelAlarms = PanelAlarmTypes;
+
 export type ADTPulsePlatformStateDataPanelInfo = PanelInformation | null;
 
 export type ADTPulsePlatformStateDataPanelStatus = PanelStatus | null;
 
+export type ADTPulsePlatformStateDataPanelTransition = PanelTransition | null;
+
 export type ADTPulsePlatformStateDataSensorInfo = SensorInformation;
 
 export type ADTPulsePlatformStateDataSensorsInfo = ADTPulsePlatformStateDataSensorInfo[];
@@ -863,226 +1698,1493 @@ export type ADTPulsePlatformStateDataSensorsStatus = ADTPulsePlatformStateDataSe
 export type ADTPulsePlatformStateDataSyncCode = PortalSyncCode;
 
 export type ADTPulsePlatformStateData = {
+  gatewayAlerts: ADTPulsePlatformStateDataGatewayAlerts;
   gatewayInfo: ADTPulsePlatformStateDataGatewayInfo;
   orbSecurityButtons: ADTPulsePlatformStateDataOrbSecurityButtons;
+  panelAlarms: ADTPulsePlatformStateDataPanelAlarms;
   panelInfo: ADTPulsePlatformStateDataPanelInfo;
   panelStatus: ADTPulsePlatformStateDataPanelStatus;
+  panelTransition: ADTPulsePlatformStateDataPanelTransition;
   sensorsInfo: ADTPulsePlatformStateDataSensorsInfo;
   sensorsStatus: ADTPulsePlatformStateDataSensorsStatus;
   syncCode: ADTPulsePlatformStateDataSyncCode;
 };
 
-export type ADTPulsePlatformStateEventCountersFailedLogins = number;
+export type ADTPulsePlatformStateEventCountersFailedLogins = number;
+
+export type ADTPulsePlatformStateEventCountersMissingSensorsSyncs = number;
+
+export type ADTPulsePlatformStateEventCounters = {
+  failedLogins: ADTPulsePlatformStateEventCountersFailedLogins;
+  missingSensorsSyncs: ADTPulsePlatformStateEventCountersMissingSensorsSyncs;
+};
+
+export type ADTPulsePlatformStateIntervalsSynchronize = NodeJS.Timeout | undefined;
+
+export type ADTPulsePlatformStateIntervals = {
+  synchronize: ADTPulsePlatformStateIntervalsSynchronize;
+};
+
+export type ADTPulsePlatformStateLastRunOnAdtFullRefetch = number;
+
+export type ADTPulsePlatformStateLastRunOnAdtKeepAlive = number;
+
+export type ADTPulsePlatformStateLastRunOnAdtLastLogin = number;
+
+export type ADTPulsePlatformStateLastRunOnAdtSyncCheck = number;
+
+export type ADTPulsePlatformStateLastRunOnGatewayCheckIn = number;
+
+export type ADTPulsePlatformStateLastRunOnSuspendSyncing = number;
+
+export type ADTPulsePlatformStateLastRunOn = {
+  adtFullRefetch: ADTPulsePlatformStateLastRunOnAdtFullRefetch;
+  adtKeepAlive: ADTPulsePlatformStateLastRunOnAdtKeepAlive;
+  adtLastLogin: ADTPulsePlatformStateLastRunOnAdtLastLogin;
+  adtSyncCheck: ADTPulsePlatformStateLastRunOnAdtSyncCheck;
+  gatewayCheckIn: ADTPulsePlatformStateLastRunOnGatewayCheckIn;
+  suspendSyncing: ADTPulsePlatformStateLastRunOnSuspendSyncing;
+};
+
+export type ADTPulsePlatformStateReportedHash = string;
+
+export type ADTPulsePlatformStateReportedHashes = ADTPulsePlatformStateReportedHash[];
+
+export type ADTPulsePlatformState = {
+  activity: ADTPulsePlatformStateActivity;
+  data: ADTPulsePlatformStateData;
+  eventCounters: ADTPulsePlatformStateEventCounters;
+  intervals: ADTPulsePlatformStateIntervals;
+  lastRunOn: ADTPulsePlatformStateLastRunOn;
+  reportedHashes: ADTPulsePlatformStateReportedHashes;
+};
+
+/**
+ * ADT Pulse Platform - Synchronize.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformSynchronizeReturns = void;
+
+/**
+ * ADT Pulse Platform - Synchronize gateway check in.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformSynchronizeGatewayCheckInSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformSynchronizeGatewayCheckInReturns = Promise<void>;
+
+/**
+ * ADT Pulse Platform - Synchronize keep alive.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformSynchronizeKeepAliveSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformSynchronizeKeepAliveReturns = void;
+
+/**
+ * ADT Pulse Platform - Synchronize site.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformSynchronizeSiteSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformSynchronizeSiteReturns = Promise<void>;
+
+export type ADTPulsePlatformSynchronizeSiteLogin = Awaited<ADTPulseLoginReturns>;
+
+/**
+ * ADT Pulse Platform - Synchronize sync check.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformSynchronizeSyncCheckSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformSynchronizeSyncCheckReturns = void;
+
+/**
+ * ADT Pulse Platform - Track panel transition.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformTrackPanelTransitionSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformTrackPanelTransitionOldCache = ADTPulsePlatformStateData;
+
+export type ADTPulsePlatformTrackPanelTransitionNewCache = ADTPulsePlatformStateData;
+
+export type ADTPulsePlatformTrackPanelTransitionReturns = void;
+
+/**
+ * ADT Pulse Platform - Unify devices.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformUnifyDevicesSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformUnifyDevicesIsSensorsInfoFresh = boolean;
+
+export type ADTPulsePlatformUnifyDevicesReturns = Promise<void>;
+
+export type ADTPulsePlatformUnifyDevicesDevices = Devices;
+
+export type ADTPulsePlatformUnifyDevicesId = PluginDeviceId;
+
+export type ADTPulsePlatformUnifyDevicesSensors = Config['sensors'];
+
+/**
+ * ADT Pulse Platform - Unknown information dispatcher.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformUnknownInformationDispatcherSite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformUnknownInformationDispatcherReturns = Promise<void>;
+
+/**
+ * ADT Pulse Platform - Update accessory.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulsePlatformUpdateAccessoryDevice = Device;
+
+export type ADTPulsePlatformUpdateAccessorySite = ADTPulsePlatformSite;
+
+export type ADTPulsePlatformUpdateAccessoryReturns = void;
+
+/**
+ * ADT Pulse Platform - Webhooks.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulsePlatformWebhooks = ADTPulseWebhooks | null;
+
+/**
+ * ADT Pulse Repl - Api.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseReplApi = ADTPulse | undefined;
+
+/**
+ * ADT Pulse Repl - Color log.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseReplColorLogType = Extract<PluginLogLevel, 'error' | 'info'>;
+
+export type ADTPulseReplColorLogMessage = string;
+
+export type ADTPulseReplColorLogReturns = void;
+
+/**
+ * ADT Pulse Repl - Display help header.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseDisplayHelpHeaderReturns = void;
+
+/**
+ * ADT Pulse Repl - Display help menu.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseDisplayHelpMenuReturns = void;
+
+/**
+ * ADT Pulse Repl - Display startup header.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseDisplayStartupHeaderReturns = void;
+
+/**
+ * ADT Pulse Repl - Repl server.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseReplReplServer = repl.REPLServer | undefined;
+
+/**
+ * ADT Pulse Repl - Set instance.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseReplSetInstanceSubdomain = unknown;
+
+export type ADTPulseReplSetInstanceUsername = unknown;
+
+export type ADTPulseReplSetInstancePassword = unknown;
+
+export type ADTPulseReplSetInstanceFingerprint = unknown;
+
+export type ADTPulseReplSetInstanceReturns = void;
+
+/**
+ * ADT Pulse Repl - Start repl.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseReplStartReplReturns = Promise<void>;
+
+/**
+ * ADT Pulse Scheduler - Config.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerConfig = Config;
+
+/**
+ * ADT Pulse Scheduler - Constants.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerConstantsActiveDuration = number;
+
+export type ADTPulseSchedulerConstantsBudgetWindow = number;
+
+export type ADTPulseSchedulerConstantsIntervalsActive = number;
+
+export type ADTPulseSchedulerConstantsIntervalsMaxBackoff = number;
+
+export type ADTPulseSchedulerConstantsIntervalsNormal = number;
+
+export type ADTPulseSchedulerConstantsIntervalsQuiet = number;
+
+export type ADTPulseSchedulerConstantsIntervals = {
+  active: ADTPulseSchedulerConstantsIntervalsActive;
+  maxBackoff: ADTPulseSchedulerConstantsIntervalsMaxBackoff;
+  normal: ADTPulseSchedulerConstantsIntervalsNormal;
+  quiet: ADTPulseSchedulerConstantsIntervalsQuiet;
+};
+
+export type ADTPulseSchedulerConstantsQuietAfter = number;
+
+export type ADTPulseSchedulerConstants = {
+  activeDuration: ADTPulseSchedulerConstantsActiveDuration;
+  budgetWindow: ADTPulseSchedulerConstantsBudgetWindow;
+  intervals: ADTPulseSchedulerConstantsIntervals;
+  quietAfter: ADTPulseSchedulerConstantsQuietAfter;
+};
+
+/**
+ * ADT Pulse Scheduler - Constructor.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerConstructorConfig = Config;
+
+export type ADTPulseSchedulerConstructorName = string | null;
+
+export type ADTPulseSchedulerConstructorLog = Logger;
+
+/**
+ * ADT Pulse Scheduler - Get sync check interval.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerGetSyncCheckIntervalReturns = number;
+
+/**
+ * ADT Pulse Scheduler - Is sync check due.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerIsSyncCheckDueLastRunOn = number;
+
+export type ADTPulseSchedulerIsSyncCheckDueReturns = boolean;
+
+/**
+ * ADT Pulse Scheduler - Is within budget.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerIsWithinBudgetReturns = boolean;
+
+/**
+ * ADT Pulse Scheduler - Log.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerLog = Logger;
+
+/**
+ * ADT Pulse Scheduler - Name.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerName = string | null;
+
+/**
+ * ADT Pulse Scheduler - Record activity.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerRecordActivityReturns = void;
+
+/**
+ * ADT Pulse Scheduler - Record change.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerRecordChangeReturns = void;
+
+/**
+ * ADT Pulse Scheduler - Record connection failure.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerRecordConnectionFailureReturns = void;
+
+/**
+ * ADT Pulse Scheduler - Record connection success.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerRecordConnectionSuccessReturns = void;
+
+/**
+ * ADT Pulse Scheduler - Record requests.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerRecordRequestsCount = number;
+
+export type ADTPulseSchedulerRecordRequestsReturns = void;
+
+/**
+ * ADT Pulse Scheduler - State.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSchedulerStateConnectionFailures = number;
+
+export type ADTPulseSchedulerStateIsBudgetExhausted = boolean;
+
+export type ADTPulseSchedulerStateLastActivityOn = number;
+
+export type ADTPulseSchedulerStateLastChangeOn = number;
+
+export type ADTPulseSchedulerStateRequests = number[];
+
+export type ADTPulseSchedulerState = {
+  connectionFailures: ADTPulseSchedulerStateConnectionFailures;
+  isBudgetExhausted: ADTPulseSchedulerStateIsBudgetExhausted;
+  lastActivityOn: ADTPulseSchedulerStateLastActivityOn;
+  lastChangeOn: ADTPulseSchedulerStateLastChangeOn;
+  requests: ADTPulseSchedulerStateRequests;
+};
+
+/**
+ * ADT Pulse Sensor Wizard - Api.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSensorWizardApi = ADTPulse | undefined;
+
+/**
+ * ADT Pulse Sensor Wizard - Display startup header.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSensorWizardDisplayStartupHeaderReturns = void;
+
+/**
+ * ADT Pulse Sensor Wizard - Generate sensors.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSensorWizardGenerateSensorsSensorsInfo = SensorInformation[];
+
+export type ADTPulseSensorWizardGenerateSensorsConfiguredSensors = Config['sensors'];
+
+export type ADTPulseSensorWizardGenerateSensorsReturnsSupported = Config['sensors'];
+
+export type ADTPulseSensorWizardGenerateSensorsReturnsUnmatched = Config['sensors'];
+
+export type ADTPulseSensorWizardGenerateSensorsReturnsUnsupportedReason = string;
+
+export type ADTPulseSensorWizardGenerateSensorsReturnsUnsupportedSensor = SensorInformation;
+
+export type ADTPulseSensorWizardGenerateSensorsReturnsUnsupportedItem = {
+  reason: ADTPulseSensorWizardGenerateSensorsReturnsUnsupportedReason;
+  sensor: ADTPulseSensorWizardGenerateSensorsReturnsUnsupportedSensor;
+};
+
+export type ADTPulseSensorWizardGenerateSensorsReturnsUnsupported = ADTPulseSensorWizardGenerateSensorsReturnsUnsupportedItem[];
+
+export type ADTPulseSensorWizardGenerateSensorsReturns = {
+  supported: ADTPulseSensorWizardGenerateSensorsReturnsSupported;
+  unmatched: ADTPulseSensorWizardGenerateSensorsReturnsUnmatched;
+  unsupported: ADTPulseSensorWizardGenerateSensorsReturnsUnsupported;
+};
+
+/**
+ * ADT Pulse Sensor Wizard - Print sensors.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSensorWizardPrintSensorsSensors = ADTPulseSensorWizardGenerateSensorsReturns;
+
+export type ADTPulseSensorWizardPrintSensorsReturns = void;
+
+/**
+ * ADT Pulse Sensor Wizard - Start wizard.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSensorWizardStartWizardReturns = Promise<void>;
+
+/**
+ * ADT Pulse Server - Characteristic.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerCharacteristic = typeof Characteristic;
+
+/**
+ * ADT Pulse Server - Config.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerConfig = Config;
+
+/**
+ * ADT Pulse Server - Constructor.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerConstructorConfig = Config;
+
+export type ADTPulseServerConstructorState = ADTPulsePlatformState;
+
+export type ADTPulseServerConstructorInstance = ADTPulse;
+
+export type ADTPulseServerConstructorJournal = ADTPulseJournal;
+
+export type ADTPulseServerConstructorCharacteristic = typeof Characteristic;
+
+export type ADTPulseServerConstructorLog = Logger;
+
+export type ADTPulseServerConstructorDebugMode = boolean;
+
+/**
+ * ADT Pulse Server - Debug mode.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerDebugMode = boolean;
+
+/**
+ * ADT Pulse Server - Handle request.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerHandleRequestRequest = http.IncomingMessage;
+
+export type ADTPulseServerHandleRequestResponse = http.ServerResponse;
+
+export type ADTPulseServerHandleRequestReturns = Promise<void>;
+
+/**
+ * ADT Pulse Server - Handle set panel status.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerHandleSetPanelStatusRequest = http.IncomingMessage;
+
+export type ADTPulseServerHandleSetPanelStatusResponse = http.ServerResponse;
+
+export type ADTPulseServerHandleSetPanelStatusReturns = Promise<void>;
+
+export type ADTPulseServerHandleSetPanelStatusResult = Awaited<ADTPulseSetPanelStatusReturns>;
+
+export type ADTPulseServerHandleSetPanelStatusArmTo = SetPanelArmModeReturnsArmTo;
+
+/**
+ * ADT Pulse Server - Instance.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerInstance = ADTPulse;
+
+/**
+ * ADT Pulse Server - Is arming.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerIsArming = boolean;
+
+/**
+ * ADT Pulse Server - Is authorized.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerIsAuthorizedRequest = http.IncomingMessage;
+
+export type ADTPulseServerIsAuthorizedReturns = boolean;
+
+/**
+ * ADT Pulse Server - Journal.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerJournal = ADTPulseJournal;
+
+/**
+ * ADT Pulse Server - Log.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerLog = Logger;
+
+/**
+ * ADT Pulse Server - Read json.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerReadJsonRequest = http.IncomingMessage;
+
+export type ADTPulseServerReadJsonReturns = Promise<unknown>;
+
+/**
+ * ADT Pulse Server - Send json.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerSendJsonResponse = http.ServerResponse;
+
+export type ADTPulseServerSendJsonStatusCode = number;
+
+export type ADTPulseServerSendJsonBodySuccess = boolean;
+
+export type ADTPulseServerSendJsonBodyData = unknown;
+
+export type ADTPulseServerSendJsonBodyError = string;
+
+export type ADTPulseServerSendJsonBody = {
+  success: ADTPulseServerSendJsonBodySuccess;
+  data?: ADTPulseServerSendJsonBodyData;
+  error?: ADTPulseServerSendJsonBodyError;
+};
+
+export type ADTPulseServerSendJsonReturns = void;
+
+/**
+ * ADT Pulse Server - Server.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerServer = http.Server | undefined;
+
+/**
+ * ADT Pulse Server - Start.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerStartReturns = Promise<void>;
+
+/**
+ * ADT Pulse Server - State.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerState = ADTPulsePlatformState;
+
+/**
+ * ADT Pulse Server - Stop.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseServerStopReturns = Promise<void>;
+
+/**
+ * ADT Pulse Simulator - Advance sync code.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorAdvanceSyncCodeReturns = void;
+
+/**
+ * ADT Pulse Simulator - Constructor.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorConstructorOptionsAccessCode = string;
+
+export type ADTPulseSimulatorConstructorOptionsArmingDelay = number;
+
+export type ADTPulseSimulatorConstructorOptionsDebug = boolean;
+
+export type ADTPulseSimulatorConstructorOptionsNetworkId = string;
+
+export type ADTPulseSimulatorConstructorOptionsPassword = string;
+
+export type ADTPulseSimulatorConstructorOptionsPortalVersion = PortalVersion;
+
+export type ADTPulseSimulatorConstructorOptionsSensors = ADTPulseSimulatorStateSensors;
+
+export type ADTPulseSimulatorConstructorOptionsUsername = string;
+
+export type ADTPulseSimulatorConstructorOptions = {
+  accessCode?: ADTPulseSimulatorConstructorOptionsAccessCode;
+  armingDelay?: ADTPulseSimulatorConstructorOptionsArmingDelay;
+  debug?: ADTPulseSimulatorConstructorOptionsDebug;
+  networkId?: ADTPulseSimulatorConstructorOptionsNetworkId;
+  password?: ADTPulseSimulatorConstructorOptionsPassword;
+  portalVersion?: ADTPulseSimulatorConstructorOptionsPortalVersion;
+  sensors?: ADTPulseSimulatorConstructorOptionsSensors;
+  username?: ADTPulseSimulatorConstructorOptionsUsername;
+};
+
+/**
+ * ADT Pulse Simulator - Credentials.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorCredentialsPassword = string;
+
+export type ADTPulseSimulatorCredentialsUsername = string;
+
+export type ADTPulseSimulatorCredentials = {
+  password: ADTPulseSimulatorCredentialsPassword;
+  username: ADTPulseSimulatorCredentialsUsername;
+};
+
+/**
+ * ADT Pulse Simulator - Debug.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorDebug = boolean;
+
+/**
+ * ADT Pulse Simulator - Distrust fingerprints.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorDistrustFingerprintsReturns = void;
+
+/**
+ * ADT Pulse Simulator - Expire sessions.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorExpireSessionsReturns = void;
+
+/**
+ * ADT Pulse Simulator - Generate arm disarm page.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGenerateArmDisarmPageSession = ADTPulseSimulatorSession;
+
+export type ADTPulseSimulatorGenerateArmDisarmPageForm = URLSearchParams;
+
+export type ADTPulseSimulatorGenerateArmDisarmPageReturns = string;
+
+/**
+ * ADT Pulse Simulator - Generate device page.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGenerateDevicePageReturns = string;
+
+/**
+ * ADT Pulse Simulator - Generate gateway page.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGenerateGatewayPageReturns = string;
+
+/**
+ * ADT Pulse Simulator - Generate mfa challenge page.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGenerateMfaChallengePageSession = ADTPulseSimulatorSession;
+
+export type ADTPulseSimulatorGenerateMfaChallengePageReturns = string;
+
+/**
+ * ADT Pulse Simulator - Generate mfa verify page.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGenerateMfaVerifyPageSession = ADTPulseSimulatorSession;
+
+export type ADTPulseSimulatorGenerateMfaVerifyPageReturns = string;
+
+/**
+ * ADT Pulse Simulator - Generate orb security buttons.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGenerateOrbSecurityButtonsSession = ADTPulseSimulatorSession;
+
+export type ADTPulseSimulatorGenerateOrbSecurityButtonsReturns = string;
+
+export type ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtonButtonText = PortalPanelArmButtonText;
+
+export type ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtonLoadingText = PortalPanelArmButtonLoadingText;
+
+export type ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtonArmState = PortalPanelArmStateClean | PortalPanelArmStateDirty;
+
+export type ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtonArm = PortalPanelArmValue;
+
+export type ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButton = {
+  buttonText: ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtonButtonText;
+  loadingText: ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtonLoadingText;
+  armState: ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtonArmState;
+  arm: ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtonArm;
+};
+
+export type ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButtons = ADTPulseSimulatorGenerateOrbSecurityButtonsReadyButton[];
+
+/**
+ * ADT Pulse Simulator - Generate orb text summary.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGenerateOrbTextSummaryReturns = string;
+
+export type ADTPulseSimulatorGenerateOrbTextSummaryState = PortalPanelState;
+
+export type ADTPulseSimulatorGenerateOrbTextSummaryStatus = PortalPanelStatus;
+
+/**
+ * ADT Pulse Simulator - Generate page.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGeneratePageTitle = string;
+
+export type ADTPulseSimulatorGeneratePageBody = string;
+
+export type ADTPulseSimulatorGeneratePageReturns = string;
+
+/**
+ * ADT Pulse Simulator - Generate sign in page.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGenerateSignInPageWarnMessage = string | null;
+
+export type ADTPulseSimulatorGenerateSignInPageReturns = string;
+
+/**
+ * ADT Pulse Simulator - Generate summary page.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGenerateSummaryPageSession = ADTPulseSimulatorSession;
+
+export type ADTPulseSimulatorGenerateSummaryPageReturns = string;
+
+/**
+ * ADT Pulse Simulator - Generate system page.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGenerateSystemPageReturns = string;
+
+/**
+ * ADT Pulse Simulator - Get base url.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGetBaseUrlReturns = ADTPulseSimulatorStateBaseUrl;
+
+/**
+ * ADT Pulse Simulator - Get mfa code.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGetMfaCodeReturns = ADTPulseSimulatorStateMfaCode;
+
+/**
+ * ADT Pulse Simulator - Get session.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorGetSessionRequest = http.IncomingMessage;
+
+export type ADTPulseSimulatorGetSessionResponse = http.ServerResponse;
+
+export type ADTPulseSimulatorGetSessionReturns = ADTPulseSimulatorSession;
+
+/**
+ * ADT Pulse Simulator - Handle arm disarm.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorHandleArmDisarmSession = ADTPulseSimulatorSession;
+
+export type ADTPulseSimulatorHandleArmDisarmForm = URLSearchParams;
+
+export type ADTPulseSimulatorHandleArmDisarmReturns = void;
+
+/**
+ * ADT Pulse Simulator - Handle mfa sign in.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorHandleMfaSignInSession = ADTPulseSimulatorSession;
+
+export type ADTPulseSimulatorHandleMfaSignInWorkflow = string | null;
+
+export type ADTPulseSimulatorHandleMfaSignInForm = URLSearchParams | null;
+
+export type ADTPulseSimulatorHandleMfaSignInResponse = http.ServerResponse;
+
+export type ADTPulseSimulatorHandleMfaSignInReturns = void;
+
+/**
+ * ADT Pulse Simulator - Handle request.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorHandleRequestRequest = http.IncomingMessage;
+
+export type ADTPulseSimulatorHandleRequestResponse = http.ServerResponse;
+
+export type ADTPulseSimulatorHandleRequestReturns = Promise<void>;
+
+/**
+ * ADT Pulse Simulator - Handle run rra command.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorHandleRunRraCommandSession = ADTPulseSimulatorSession;
+
+export type ADTPulseSimulatorHandleRunRraCommandForm = URLSearchParams;
+
+export type ADTPulseSimulatorHandleRunRraCommandReturns = string;
+
+/**
+ * ADT Pulse Simulator - Has open sensors.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorHasOpenSensorsReturns = boolean;
+
+/**
+ * ADT Pulse Simulator - Read form.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorReadFormRequest = http.IncomingMessage;
+
+export type ADTPulseSimulatorReadFormReturns = Promise<URLSearchParams>;
+
+/**
+ * ADT Pulse Simulator - Refresh state.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorRefreshStateReturns = void;
+
+/**
+ * ADT Pulse Simulator - Send.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorSendResponse = http.ServerResponse;
+
+export type ADTPulseSimulatorSendStatusCode = number;
+
+export type ADTPulseSimulatorSendContentType = 'text/html' | 'text/plain';
+
+export type ADTPulseSimulatorSendBody = string;
+
+export type ADTPulseSimulatorSendReturns = void;
+
+/**
+ * ADT Pulse Simulator - Send redirect.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorSendRedirectResponse = http.ServerResponse;
+
+export type ADTPulseSimulatorSendRedirectLocation = string;
+
+export type ADTPulseSimulatorSendRedirectReturns = void;
+
+/**
+ * ADT Pulse Simulator - Server.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorServer = http.Server | undefined;
+
+/**
+ * ADT Pulse Simulator - Session.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorSessionAccessCodePrompt = 'invalid' | 'required' | null;
+
+export type ADTPulseSimulatorSessionId = string;
+
+export type ADTPulseSimulatorSessionIsAuthenticated = boolean;
+
+export type ADTPulseSimulatorSessionIsCleanState = boolean;
+
+export type ADTPulseSimulatorSessionMfaCode = string | null;
+
+export type ADTPulseSimulatorSessionMfaFingerprint = string | null;
+
+export type ADTPulseSimulatorSessionPendingForceArm = Exclude<PortalPanelArmValue, 'off'> | null;
+
+export type ADTPulseSimulatorSessionSat = UUID;
+
+export type ADTPulseSimulatorSessionWarnMessage = string | null;
+
+export type ADTPulseSimulatorSession = {
+  accessCodePrompt: ADTPulseSimulatorSessionAccessCodePrompt;
+  id: ADTPulseSimulatorSessionId;
+  isAuthenticated: ADTPulseSimulatorSessionIsAuthenticated;
+  isCleanState: ADTPulseSimulatorSessionIsCleanState;
+  mfaCode: ADTPulseSimulatorSessionMfaCode;
+  mfaFingerprint: ADTPulseSimulatorSessionMfaFingerprint;
+  pendingForceArm: ADTPulseSimulatorSessionPendingForceArm;
+  sat: ADTPulseSimulatorSessionSat;
+  warnMessage: ADTPulseSimulatorSessionWarnMessage;
+};
+
+/**
+ * ADT Pulse Simulator - Sessions.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorSessions = Map<ADTPulseSimulatorSessionId, ADTPulseSimulatorSession>;
+
+/**
+ * ADT Pulse Simulator - Set access code.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorSetAccessCodeAccessCode = string | null;
+
+export type ADTPulseSimulatorSetAccessCodeReturns = void;
+
+/**
+ * ADT Pulse Simulator - Set sensor status.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorSetSensorStatusZone = number;
+
+export type ADTPulseSimulatorSetSensorStatusIcon = PortalSensorStatusIcon;
+
+export type ADTPulseSimulatorSetSensorStatusStatuses = PortalSensorStatusText[];
+
+export type ADTPulseSimulatorSetSensorStatusReturns = boolean;
+
+/**
+ * ADT Pulse Simulator - Start.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorStartPort = number;
+
+export type ADTPulseSimulatorStartHostname = string;
+
+export type ADTPulseSimulatorStartReturns = Promise<ADTPulseSimulatorStateBaseUrl>;
+
+/**
+ * ADT Pulse Simulator - State.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorStateAccessCode = string | null;
+
+export type ADTPulseSimulatorStateAlarm = Extract<PortalPanelStatus, 'BURGLARY ALARM' | 'Carbon Monoxide Alarm' | 'FIRE ALARM' | 'WATER ALARM'> | null;
+
+export type ADTPulseSimulatorStateArmingDelay = number;
+
+export type ADTPulseSimulatorStateArmingUntil = number;
+
+export type ADTPulseSimulatorStateArmValue = PortalPanelArmValue;
+
+export type ADTPulseSimulatorStateBaseUrl = `http://${string}`;
+
+export type ADTPulseSimulatorStateGatewayBroadbandConnectionStatus = string;
+
+export type ADTPulseSimulatorStateGatewayCellularConnectionStatus = string;
+
+export type ADTPulseSimulatorStateGatewayCellularSignalStrength = string;
+
+export type ADTPulseSimulatorStateGatewayPrimaryConnectionType = string;
+
+export type ADTPulseSimulatorStateGatewayStatus = PortalDeviceGatewayStatus;
+
+export type ADTPulseSimulatorStateGateway = {
+  broadbandConnectionStatus: ADTPulseSimulatorStateGatewayBroadbandConnectionStatus;
+  cellularConnectionStatus: ADTPulseSimulatorStateGatewayCellularConnectionStatus;
+  cellularSignalStrength: ADTPulseSimulatorStateGatewayCellularSignalStrength;
+  primaryConnectionType: ADTPulseSimulatorStateGatewayPrimaryConnectionType;
+  status: ADTPulseSimulatorStateGatewayStatus;
+};
+
+export type ADTPulseSimulatorStateIsAlarmUncleared = boolean;
+
+export type ADTPulseSimulatorStateIsMfaRequired = boolean;
+
+export type ADTPulseSimulatorStateMfaCode = string | null;
+
+export type ADTPulseSimulatorStateNetworkId = NetworkId;
+
+export type ADTPulseSimulatorStatePortalVersion = PortalVersion;
+
+export type ADTPulseSimulatorStateSensorDeviceId = number;
+
+export type ADTPulseSimulatorStateSensorDeviceType = PortalSensorDeviceType;
+
+export type ADTPulseSimulatorStateSensorIcon = PortalSensorStatusIcon;
+
+export type ADTPulseSimulatorStateSensorName = string;
+
+export type ADTPulseSimulatorStateSensorStatus = PortalDeviceSensorStatus;
+
+export type ADTPulseSimulatorStateSensorStatuses = PortalSensorStatusText[];
+
+export type ADTPulseSimulatorStateSensorZone = number;
+
+export type ADTPulseSimulatorStateSensor = {
+  deviceId: ADTPulseSimulatorStateSensorDeviceId;
+  deviceType: ADTPulseSimulatorStateSensorDeviceType;
+  icon: ADTPulseSimulatorStateSensorIcon;
+  name: ADTPulseSimulatorStateSensorName;
+  status: ADTPulseSimulatorStateSensorStatus;
+  statuses: ADTPulseSimulatorStateSensorStatuses;
+  zone: ADTPulseSimulatorStateSensorZone;
+};
+
+export type ADTPulseSimulatorStateSensors = ADTPulseSimulatorStateSensor[];
+
+export type ADTPulseSimulatorStateSyncCodeCounter = number;
+
+export type ADTPulseSimulatorStateTrustedFingerprints = string[];
+
+export type ADTPulseSimulatorState = {
+  accessCode: ADTPulseSimulatorStateAccessCode;
+  alarm: ADTPulseSimulatorStateAlarm;
+  armingDelay: ADTPulseSimulatorStateArmingDelay;
+  armingUntil: ADTPulseSimulatorStateArmingUntil;
+  armValue: ADTPulseSimulatorStateArmValue;
+  baseUrl: ADTPulseSimulatorStateBaseUrl;
+  gateway: ADTPulseSimulatorStateGateway;
+  isAlarmUncleared: ADTPulseSimulatorStateIsAlarmUncleared;
+  isMfaRequired: ADTPulseSimulatorStateIsMfaRequired;
+  mfaCode: ADTPulseSimulatorStateMfaCode;
+  networkId: ADTPulseSimulatorStateNetworkId;
+  portalVersion: ADTPulseSimulatorStatePortalVersion;
+  sensors: ADTPulseSimulatorStateSensors;
+  syncCodeCounter: ADTPulseSimulatorStateSyncCodeCounter;
+  trustedFingerprints: ADTPulseSimulatorStateTrustedFingerprints;
+};
+
+/**
+ * ADT Pulse Simulator - Stop.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorStopReturns = Promise<void>;
+
+/**
+ * ADT Pulse Simulator - Trigger alarm.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorTriggerAlarmAlarm = Exclude<ADTPulseSimulatorStateAlarm, null>;
+
+export type ADTPulseSimulatorTriggerAlarmReturns = void;
+
+/**
+ * ADT Pulse Simulator - Update gateway.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorUpdateGatewayGateway = Partial<ADTPulseSimulatorStateGateway>;
+
+export type ADTPulseSimulatorUpdateGatewayReturns = void;
+
+/**
+ * ADT Pulse Simulator Repl - Api.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorReplApi = ADTPulse | undefined;
+
+/**
+ * ADT Pulse Simulator Repl - Display help menu.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorReplDisplayHelpMenuReturns = void;
+
+/**
+ * ADT Pulse Simulator Repl - Display startup header.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorReplDisplayStartupHeaderBaseUrl = ADTPulseSimulatorStateBaseUrl;
+
+export type ADTPulseSimulatorReplDisplayStartupHeaderReturns = void;
+
+/**
+ * ADT Pulse Simulator Repl - Repl server.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorReplReplServer = repl.REPLServer | undefined;
+
+/**
+ * ADT Pulse Simulator Repl - Simulator.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorReplSimulator = ADTPulseSimulator;
+
+/**
+ * ADT Pulse Simulator Repl - Start repl.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseSimulatorReplStartReplReturns = Promise<void>;
+
+/**
+ * ADT Pulse Test - Ask question.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseTestAskQuestionMode = 'disclaimer';
+
+export type ADTPulseTestAskQuestionReturns = Promise<boolean>;
+
+/**
+ * ADT Pulse Test - Find config.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseTestFindConfigReturns = boolean;
+
+/**
+ * ADT Pulse Test - Print test output.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseTestPrintTestOutputIsSuccess = boolean;
+
+export type ADTPulseTestPrintTestOutputReturns = void;
+
+/**
+ * ADT Pulse Test - Selected platform.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseTestSelectedPlatform = Config | undefined;
+
+/**
+ * ADT Pulse Test - Start test.
+ *
+ * @since 1.0.0
+ */
+export type ADTPulseTestStartTestReturns = Promise<void>;
+
+/**
+ * ADT Pulse Test Parsers - Compare snapshot.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseTestParsersCompareSnapshotScenario = string;
+
+export type ADTPulseTestParsersCompareSnapshotReturns = boolean;
+
+/**
+ * ADT Pulse Test Parsers - Find scenarios.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseTestParsersFindScenariosReturns = string[];
+
+/**
+ * ADT Pulse Test Parsers - Fixtures path.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseTestParsersFixturesPath = string;
+
+/**
+ * ADT Pulse Test Parsers - Is update mode.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseTestParsersIsUpdateMode = boolean;
+
+/**
+ * ADT Pulse Test Parsers - Parse fixtures.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseTestParsersParseFixturesScenario = string;
+
+export type ADTPulseTestParsersParseFixturesReturns = ADTPulseTestParsersSnapshot;
 
-export type ADTPulsePlatformStateEventCounters = {
-  failedLogins: ADTPulsePlatformStateEventCountersFailedLogins;
-};
+/**
+ * ADT Pulse Test Parsers - Print test output.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseTestParsersPrintTestOutputIsSuccess = boolean;
 
-export type ADTPulsePlatformStateIntervalsSynchronize = NodeJS.Timeout | undefined;
+export type ADTPulseTestParsersPrintTestOutputReturns = void;
 
-export type ADTPulsePlatformStateIntervals = {
-  synchronize: ADTPulsePlatformStateIntervalsSynchronize;
-};
+/**
+ * ADT Pulse Test Parsers - Read fixture.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseTestParsersReadFixtureScenario = string;
 
-export type ADTPulsePlatformStateLastRunOnAdtKeepAlive = number;
+export type ADTPulseTestParsersReadFixturePage = 'arm-disarm' | 'device' | 'gateway' | 'summary' | 'system';
 
-export type ADTPulsePlatformStateLastRunOnAdtLastLogin = number;
+export type ADTPulseTestParsersReadFixtureReturns = JSDOM;
 
-export type ADTPulsePlatformStateLastRunOnAdtSyncCheck = number;
+/**
+ * ADT Pulse Test Parsers - Snapshot.
+ *
+ * @since 3.3.0
+ */
+export type ADTPulseTestParsersSnapshotDoSubmitHandlers = ParseDoSubmitHandlersReturns;
 
-export type ADTPulsePlatformStateLastRunOn = {
-  adtKeepAlive: ADTPulsePlatformStateLastRunOnAdtKeepAlive;
-  adtLastLogin: ADTPulsePlatformStateLastRunOnAdtLastLogin;
-  adtSyncCheck: ADTPulsePlatformStateLastRunOnAdtSyncCheck;
-};
+export type ADTPulseTestParsersSnapshotGatewayTableCells = FetchTableCellsReturns;
 
-export type ADTPulsePlatformStateReportedHash = string;
+export type ADTPulseTestParsersSnapshotOrbSecurityButtons = ParseOrbSecurityButtonsReturns;
 
-export type ADTPulsePlatformStateReportedHashes = ADTPulsePlatformStateReportedHash[];
+export type ADTPulseTestParsersSnapshotOrbSensors = ParseOrbSensorsReturns;
 
-export type ADTPulsePlatformState = {
-  activity: ADTPulsePlatformStateActivity;
-  data: ADTPulsePlatformStateData;
-  eventCounters: ADTPulsePlatformStateEventCounters;
-  intervals: ADTPulsePlatformStateIntervals;
-  lastRunOn: ADTPulsePlatformStateLastRunOn;
-  reportedHashes: ADTPulsePlatformStateReportedHashes;
+export type ADTPulseTestParsersSnapshotOrbTextSummary = ParseOrbTextSummaryReturns;
+
+export type ADTPulseTestParsersSnapshotPanelTableCells = FetchTableCellsReturns;
+
+export type ADTPulseTestParsersSnapshotSensorsTable = ParseOrbSensorsTableReturns;
+
+export type ADTPulseTestParsersSnapshot = {
+  doSubmitHandlers: ADTPulseTestParsersSnapshotDoSubmitHandlers;
+  gatewayTableCells: ADTPulseTestParsersSnapshotGatewayTableCells;
+  orbSecurityButtons: ADTPulseTestParsersSnapshotOrbSecurityButtons;
+  orbSensors: ADTPulseTestParsersSnapshotOrbSensors;
+  orbTextSummary: ADTPulseTestParsersSnapshotOrbTextSummary;
+  panelTableCells: ADTPulseTestParsersSnapshotPanelTableCells;
+  sensorsTable: ADTPulseTestParsersSnapshotSensorsTable;
 };
 
 /**
- * ADT Pulse Platform - Synchronize.
+ * ADT Pulse Test Parsers - Start test.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformSynchronizeReturns = void;
+export type ADTPulseTestParsersStartTestReturns = Promise<void>;
 
 /**
- * ADT Pulse Platform - Synchronize keep alive.
+ * ADT Pulse Vault - Clear.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformSynchronizeKeepAliveReturns = void;
+export type ADTPulseVaultClearReturns = Promise<void>;
 
 /**
- * ADT Pulse Platform - Synchronize sync check.
+ * ADT Pulse Vault - Constructor.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformSynchronizeSyncCheckReturns = void;
+export type ADTPulseVaultConstructorFilePath = string;
+
+export type ADTPulseVaultConstructorSecret = string;
 
 /**
- * ADT Pulse Platform - Unify devices.
+ * ADT Pulse Vault - Derive key.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformUnifyDevicesReturns = Promise<void>;
+export type ADTPulseVaultDeriveKeySecret = string;
 
-export type ADTPulsePlatformUnifyDevicesDevices = Devices;
+export type ADTPulseVaultDeriveKeyKey = Buffer;
 
-export type ADTPulsePlatformUnifyDevicesId = PluginDeviceId;
+export type ADTPulseVaultDeriveKeySalt = Buffer;
+
+export type ADTPulseVaultDeriveKeyReturns = Promise<Buffer>;
 
 /**
- * ADT Pulse Platform - Unknown information dispatcher.
+ * ADT Pulse Vault - File path.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformUnknownInformationDispatcherReturns = Promise<void>;
+export type ADTPulseVaultFilePath = string;
 
 /**
- * ADT Pulse Platform - Update accessory.
+ * ADT Pulse Vault - Is envelope.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulsePlatformUpdateAccessoryDevice = Device;
+export type ADTPulseVaultIsEnvelopeEnvelope = unknown;
 
-export type ADTPulsePlatformUpdateAccessoryReturns = void;
+export type ADTPulseVaultIsEnvelopeTypeGuardVersion = 1;
+
+export type ADTPulseVaultIsEnvelopeTypeGuardSalt = string;
+
+export type ADTPulseVaultIsEnvelopeTypeGuardIv = string;
+
+export type ADTPulseVaultIsEnvelopeTypeGuardTag = string;
+
+export type ADTPulseVaultIsEnvelopeTypeGuardData = string;
+
+export type ADTPulseVaultIsEnvelopeTypeGuard = {
+  version: ADTPulseVaultIsEnvelopeTypeGuardVersion;
+  salt: ADTPulseVaultIsEnvelopeTypeGuardSalt;
+  iv: ADTPulseVaultIsEnvelopeTypeGuardIv;
+  tag: ADTPulseVaultIsEnvelopeTypeGuardTag;
+  data: ADTPulseVaultIsEnvelopeTypeGuardData;
+};
 
 /**
- * ADT Pulse Repl - Api.
+ * ADT Pulse Vault - Key file path.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseReplApi = ADTPulse | undefined;
+export type ADTPulseVaultKeyFilePath = string;
 
 /**
- * ADT Pulse Repl - Color log.
+ * ADT Pulse Vault - Load.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseReplColorLogType = Extract<PluginLogLevel, 'error' | 'info'>;
-
-export type ADTPulseReplColorLogMessage = string;
-
-export type ADTPulseReplColorLogReturns = void;
+export type ADTPulseVaultLoadReturns<Contents> = Promise<Contents | null>;
 
 /**
- * ADT Pulse Repl - Display help header.
+ * ADT Pulse Vault - Read key.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseDisplayHelpHeaderReturns = void;
+export type ADTPulseVaultReadKeyCreate = boolean;
+
+export type ADTPulseVaultReadKeyReturns = Promise<Buffer | null>;
 
 /**
- * ADT Pulse Repl - Display help menu.
+ * ADT Pulse Vault - Save.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseDisplayHelpMenuReturns = void;
+export type ADTPulseVaultSaveContents<Contents> = Contents;
+
+export type ADTPulseVaultSaveReturns = Promise<boolean>;
 
 /**
- * ADT Pulse Repl - Display startup header.
+ * ADT Pulse Vault - Secret.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseDisplayStartupHeaderReturns = void;
+export type ADTPulseVaultSecret = string;
 
 /**
- * ADT Pulse Repl - Repl server.
+ * ADT Pulse Webhooks - Config.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseReplReplServer = repl.REPLServer | undefined;
+export type ADTPulseWebhooksConfig = Config;
 
 /**
- * ADT Pulse Repl - Set instance.
+ * ADT Pulse Webhooks - Constructor.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseReplSetInstanceSubdomain = unknown;
-
-export type ADTPulseReplSetInstanceUsername = unknown;
+export type ADTPulseWebhooksConstructorConfig = Config;
 
-export type ADTPulseReplSetInstancePassword = unknown;
-
-export type ADTPulseReplSetInstanceFingerprint = unknown;
-
-export type ADTPulseReplSetInstanceReturns = void;
+export type ADTPulseWebhooksConstructorLog = Logger;
 
 /**
- * ADT Pulse Repl - Start repl.
+ * ADT Pulse Webhooks - Deliver.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseReplStartReplReturns = Promise<void>;
+export type ADTPulseWebhooksDeliverWebhook = Config['webhooks'][number];
+
+export type ADTPulseWebhooksDeliverEvent = WebhookEvent;
+
+export type ADTPulseWebhooksDeliverReturns = Promise<void>;
 
 /**
- * ADT Pulse Test - Ask question.
+ * ADT Pulse Webhooks - Fill template.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseTestAskQuestionMode = 'disclaimer';
+export type ADTPulseWebhooksFillTemplateTemplate = string;
 
-export type ADTPulseTestAskQuestionReturns = Promise<boolean>;
+export type ADTPulseWebhooksFillTemplateValues = Record<string, string>;
+
+export type ADTPulseWebhooksFillTemplateReturns = string;
 
 /**
- * ADT Pulse Test - Find config.
+ * ADT Pulse Webhooks - Generate payload.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseTestFindConfigReturns = boolean;
+export type ADTPulseWebhooksGeneratePayloadWebhook = Config['webhooks'][number];
 
-export type ADTPulseTestFindConfigPossibleLocation = string;
+export type ADTPulseWebhooksGeneratePayloadEvent = WebhookEvent;
 
-export type ADTPulseTestFindConfigPossibleLocations = ADTPulseTestFindConfigPossibleLocation[];
+export type ADTPulseWebhooksGeneratePayloadValues = Record<string, string>;
 
-export type ADTPulseTestFindConfigParsedFile = unknown;
+export type ADTPulseWebhooksGeneratePayloadReturnsBody = string | Record<string, string> | WebhookEvent;
 
-/**
- * ADT Pulse Test - Print test output.
- *
- * @since 1.0.0
- */
-export type ADTPulseTestPrintTestOutputIsSuccess = boolean;
+export type ADTPulseWebhooksGeneratePayloadReturnsContentType = 'application/json' | 'application/x-www-form-urlencoded';
 
-export type ADTPulseTestPrintTestOutputReturns = void;
+export type ADTPulseWebhooksGeneratePayloadReturns = {
+  body: ADTPulseWebhooksGeneratePayloadReturnsBody;
+  contentType: ADTPulseWebhooksGeneratePayloadReturnsContentType;
+};
 
 /**
- * ADT Pulse Test - Selected config location.
+ * ADT Pulse Webhooks - Get placeholder values.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseTestSelectedConfigLocation = string | undefined;
+export type ADTPulseWebhooksGetPlaceholderValuesEvent = WebhookEvent;
+
+export type ADTPulseWebhooksGetPlaceholderValuesReturns = Record<string, string>;
 
 /**
- * ADT Pulse Test - Selected platform.
+ * ADT Pulse Webhooks - Log.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseTestSelectedPlatform = Config | undefined;
+export type ADTPulseWebhooksLog = Logger;
 
 /**
- * ADT Pulse Test - Start test.
+ * ADT Pulse Webhooks - Notify.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseTestStartTestReturns = Promise<void>;
+export type ADTPulseWebhooksNotifyEvent = WebhookEvent;
+
+export type ADTPulseWebhooksNotifyReturns = Promise<void>;
 
 /**
- * ADT Pulse Test - Zod parse response.
+ * Classify panel alarms.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type ADTPulseTestZodParseResponse = z.SafeParseReturnType<any, any> | undefined;
+export type ClassifyPanelAlarmsPanelStatuses = PanelStatusStatuses;
+
+export type ClassifyPanelAlarmsOrbSecurityButtons = OrbSecurityButtons;
+
+export type ClassifyPanelAlarmsIgnoreSensorProblem = boolean;
+
+export type ClassifyPanelAlarmsReturns = PanelAlarmTypes;
 
 /**
  * Clear html line break.
@@ -1102,6 +3204,28 @@ export type ClearWhitespaceData = string;
 
 export type ClearWhitespaceReturns = string;
 
+/**
+ * Collection access code forms.
+ *
+ * @since 3.3.0
+ */
+export type CollectionAccessCodeFormDescription = string;
+
+export type CollectionAccessCodeFormAction = string;
+
+export type CollectionAccessCodeFormCodeField = AccessCodeFormCodeField;
+
+export type CollectionAccessCodeFormFields = string[];
+
+export type CollectionAccessCodeForm = {
+  description: CollectionAccessCodeFormDescription;
+  action: CollectionAccessCodeFormAction;
+  codeField: CollectionAccessCodeFormCodeField;
+  fields: CollectionAccessCodeFormFields;
+};
+
+export type CollectionAccessCodeForms = CollectionAccessCodeForm[];
+
 /**
  * Collection do submit handlers.
  *
@@ -1170,6 +3294,22 @@ export type CollectionSensorAction = {
 
 export type CollectionSensorActions = CollectionSensorAction[];
 
+/**
+ * Collection sync code segments.
+ *
+ * @since 3.3.0
+ */
+export type CollectionSyncCodeSegmentSegment = number;
+
+export type CollectionSyncCodeSegmentInvalidates = RefetchPlan;
+
+export type CollectionSyncCodeSegment = {
+  segment: CollectionSyncCodeSegmentSegment;
+  invalidates: CollectionSyncCodeSegmentInvalidates;
+};
+
+export type CollectionSyncCodeSegments = CollectionSyncCodeSegment[];
+
 /**
  * Condense panel states.
  *
@@ -1226,7 +3366,7 @@ export type ConvertPanelCharacteristicValueReturns = CharacteristicValue | undef
  *
  * @since 1.0.0
  */
-export type DebugLogLogger = Logger | null;
+export type DebugLogLogger = ApiLogger | null;
 
 export type DebugLogCaller = string;
 
@@ -1243,7 +3383,7 @@ export type DebugLogReturns = void;
  */
 export type DetectApiDebugParserData = DebugParser<'forceArmHandler'> | DebugParser<'getGatewayInformation'> | DebugParser<'getOrbSecurityButtons'> | DebugParser<'getPanelInformation'> | DebugParser<'getPanelStatus'> | DebugParser<'getSensorsInformation'> | DebugParser<'getSensorsStatus'>;
 
-export type DetectApiDebugParserLogger = Logger | null;
+export type DetectApiDebugParserLogger = ApiLogger | null;
 
 export type DetectApiDebugParserDebugMode = boolean | null;
 
@@ -1256,7 +3396,7 @@ export type DetectApiDebugParserReturns = Promise<boolean>;
  */
 export type DetectApiDoSubmitHandlersHandlers = DoSubmitHandlers;
 
-export type DetectApiDoSubmitHandlersLogger = Logger | null;
+export type DetectApiDoSubmitHandlersLogger = ApiLogger | null;
 
 export type DetectApiDoSubmitHandlersDebugMode = boolean | null;
 
@@ -1269,7 +3409,7 @@ export type DetectApiDoSubmitHandlersReturns = Promise<boolean>;
  */
 export type DetectApiGatewayInformationDevice = GatewayInformation;
 
-export type DetectApiGatewayInformationLogger = Logger | null;
+export type DetectApiGatewayInformationLogger = ApiLogger | null;
 
 export type DetectApiGatewayInformationDebugMode = boolean | null;
 
@@ -1282,7 +3422,7 @@ export type DetectApiGatewayInformationReturns = Promise<boolean>;
  */
 export type DetectApiOrbSecurityButtonsButtons = OrbSecurityButtons;
 
-export type DetectApiOrbSecurityButtonsLogger = Logger | null;
+export type DetectApiOrbSecurityButtonsLogger = ApiLogger | null;
 
 export type DetectApiOrbSecurityButtonsDebugMode = boolean | null;
 
@@ -1295,7 +3435,7 @@ export type DetectApiOrbSecurityButtonsReturns = Promise<boolean>;
  */
 export type DetectApiPanelInformationDevice = PanelInformation;
 
-export type DetectApiPanelInformationLogger = Logger | null;
+export type DetectApiPanelInformationLogger = ApiLogger | null;
 
 export type DetectApiPanelInformationDebugMode = boolean | null;
 
@@ -1308,7 +3448,7 @@ export type DetectApiPanelInformationReturns = Promise<boolean>;
  */
 export type DetectApiPanelStatusSummary = PanelStatus;
 
-export type DetectApiPanelStatusLogger = Logger | null;
+export type DetectApiPanelStatusLogger = ApiLogger | null;
 
 export type DetectApiPanelStatusDebugMode = boolean | null;
 
@@ -1321,7 +3461,7 @@ export type DetectApiPanelStatusReturns = Promise<boolean>;
  */
 export type DetectApiPortalVersionVersion = PortalVersionContent;
 
-export type DetectApiPortalVersionLogger = Logger | null;
+export type DetectApiPortalVersionLogger = ApiLogger | null;
 
 export type DetectApiPortalVersionDebugMode = boolean | null;
 
@@ -1336,7 +3476,7 @@ export type DetectApiSensorsInformationSensor = SensorInformation;
 
 export type DetectApiSensorsInformationSensors = DetectApiSensorsInformationSensor[];
 
-export type DetectApiSensorsInformationLogger = Logger | null;
+export type DetectApiSensorsInformationLogger = ApiLogger | null;
 
 export type DetectApiSensorsInformationDebugMode = boolean | null;
 
@@ -1351,7 +3491,7 @@ export type DetectApiSensorsStatusSensor = SensorStatus;
 
 export type DetectApiSensorsStatusSensors = DetectApiSensorsStatusSensor[];
 
-export type DetectApiSensorsStatusLogger = Logger | null;
+export type DetectApiSensorsStatusLogger = ApiLogger | null;
 
 export type DetectApiSensorsStatusDebugMode = boolean | null;
 
@@ -1511,6 +3651,43 @@ export type FindGatewayManufacturerModelModel = string | null;
 
 export type FindGatewayManufacturerModelReturns = string | null;
 
+/**
+ * Find home kit arm mode.
+ *
+ * @since 3.3.0
+ */
+export type FindHomeKitArmModeArmModes = HomeKitArmModes;
+
+export type FindHomeKitArmModeArmValue = HomeKitArmMode;
+
+export type FindHomeKitArmModePreferredMode = HomeKitArmMode | null;
+
+export type FindHomeKitArmModeReturns = HomeKitArmMode;
+
+/**
+ * Find homebridge config.
+ *
+ * @since 3.3.0
+ */
+export type FindHomebridgeConfigCaller = string;
+
+export type FindHomebridgeConfigReturnsLocation = string;
+
+export type FindHomebridgeConfigReturnsPlatform = Config;
+
+export type FindHomebridgeConfigReturns = {
+  location: FindHomebridgeConfigReturnsLocation;
+  platform: FindHomebridgeConfigReturnsPlatform;
+} | null;
+
+export type FindHomebridgeConfigPossibleLocation = string;
+
+export type FindHomebridgeConfigPossibleLocations = FindHomebridgeConfigPossibleLocation[];
+
+export type FindHomebridgeConfigParsedFile = unknown;
+
+export type FindHomebridgeConfigZodParseResponse = z.SafeParseReturnType<any, any> | undefined;
+
 /**
  * Find index with value.
  *
@@ -1673,6 +3850,15 @@ export type IsEmptyOrbTextSummaryMatch = PanelStatus;
  */
 export type IsForwardSlashOSReturns = boolean;
 
+/**
+ * Is gateway on cellular backup.
+ *
+ * @since 3.3.0
+ */
+export type IsGatewayOnCellularBackupCommunication = GatewayInformation['communication'];
+
+export type IsGatewayOnCellularBackupReturns = boolean;
+
 /**
  * Is panel alarm active.
  *
@@ -1686,6 +3872,17 @@ export type IsPanelAlarmActiveIgnoreSensorProblem = boolean;
 
 export type IsPanelAlarmActiveReturns = boolean;
 
+/**
+ * Is panel transitioning.
+ *
+ * @since 3.3.0
+ */
+export type IsPanelTransitioningPanelNotes = PanelStatusNotes;
+
+export type IsPanelTransitioningOrbSecurityButtons = OrbSecurityButtons;
+
+export type IsPanelTransitioningReturns = boolean;
+
 /**
  * Is plugin outdated.
  *
@@ -1713,6 +3910,15 @@ export type IsSessionCleanStateReturns = boolean;
 
 export type IsSessionCleanStateReadyButton = OrbSecurityButtonBase & OrbSecurityButtonReady;
 
+/**
+ * Is unknown access code form.
+ *
+ * @since 3.3.0
+ */
+export type IsUnknownAccessCodeFormForm = AccessCodeForm;
+
+export type IsUnknownAccessCodeFormReturns = boolean;
+
 /**
  * Is unknown do submit handler collection.
  *
@@ -1794,6 +4000,15 @@ export type ItemDoSubmitHandlerUrlParamsHref = PortalPanelForceArmButtonHref;
 
 export type ItemDoSubmitHandlerUrlParamsHrefs = ItemDoSubmitHandlerUrlParamsHref[];
 
+/**
+ * Item fingerprint components.
+ *
+ * @since 3.3.0
+ */
+export type ItemFingerprintComponent = string;
+
+export type ItemFingerprintComponents = ItemFingerprintComponent[];
+
 /**
  * Item gateway information statuses.
  *
@@ -1803,6 +4018,15 @@ export type ItemGatewayInformationStatus = PortalDeviceGatewayStatus;
 
 export type ItemGatewayInformationStatuses = ItemGatewayInformationStatus[];
 
+/**
+ * Item home kit arm modes.
+ *
+ * @since 3.3.0
+ */
+export type ItemHomeKitArmMode = HomeKitArmMode;
+
+export type ItemHomeKitArmModes = ItemHomeKitArmMode[];
+
 /**
  * Item orb security button button texts.
  *
@@ -1940,6 +4164,19 @@ export type ItemSensorStatusStatus = PortalSensorStatusText;
 
 export type ItemSensorStatusStatuses = ItemSensorStatusStatus[];
 
+/**
+ * Parse access code form.
+ *
+ * @since 3.3.0
+ */
+export type ParseAccessCodeFormData = string;
+
+export type ParseAccessCodeFormPageUrl = string;
+
+export type ParseAccessCodeFormReturns = AccessCodeForm | null;
+
+export type ParseAccessCodeFormParsed = AccessCodeForm;
+
 /**
  * Parse arm disarm message.
  *
@@ -1968,6 +4205,19 @@ export type ParseDoSubmitHandlersUrlParamsArmState = PortalPanelArmStateForce |
 
 export type ParseDoSubmitHandlersUrlParamsArm = Exclude<PortalPanelArmValue, 'off'> | '';
 
+/**
+ * Parse mfa form.
+ *
+ * @since 3.3.0
+ */
+export type ParseMfaFormData = string;
+
+export type ParseMfaFormPageUrl = string;
+
+export type ParseMfaFormReturns = MfaForm | null;
+
+export type ParseMfaFormParsed = MfaForm;
+
 /**
  * Parse orb sensors.
  *
@@ -2029,6 +4279,23 @@ export type ParseOrbSecurityButtonsArmState = PortalPanelArmStateClean | PortalP
 
 export type ParseOrbSecurityButtonsArm = PortalPanelArmValue;
 
+/**
+ * Parse portal date time.
+ *
+ * @since 3.3.0
+ */
+export type ParsePortalDateTimeValue = string;
+
+export type ParsePortalDateTimeNow = number;
+
+export type ParsePortalDateTimeReturns = number | null;
+
+export type ParsePortalDateTimeDayOffsets = Record<string, number>;
+
+export type ParsePortalDateTimeDate = Date;
+
+export type ParsePortalDateTimeTime = (string | undefined)[];
+
 /**
  * Parse sensors table.
  *
@@ -2044,6 +4311,19 @@ export type ParseOrbSensorsTableDeviceType = PortalSensorDeviceType;
 
 export type ParseOrbSensorsTableStatus = PortalDeviceSensorStatus;
 
+/**
+ * Plan refetch.
+ *
+ * @since 3.3.0
+ */
+export type PlanRefetchCachedSyncCode = PortalSyncCode;
+
+export type PlanRefetchFetchedSyncCode = PortalSyncCode;
+
+export type PlanRefetchIsFullRefetch = boolean;
+
+export type PlanRefetchReturns = RefetchPlan;
+
 /**
  * Remove personal identifiable information.
  *
@@ -2059,6 +4339,65 @@ export type RemovePersonalIdentifiableInformationReplaceValueObject = RemovePers
 
 export type RemovePersonalIdentifiableInformationReplaceValueReturns = RemovePersonalIdentifiableInformationModifiedObject;
 
+/**
+ * Session vault.
+ *
+ * @since 3.3.0
+ */
+export type SessionVaultBackupSatCode = UUID | null;
+
+export type SessionVaultCookies = CookieJar.Serialized;
+
+export type SessionVaultLastLoginOn = number | null;
+
+export type SessionVaultMfaChallenge = MfaChallenge | null;
+
+export type SessionVaultNetworkId = NetworkId | null;
+
+export type SessionVaultPortalVersion = PortalVersion | null;
+
+export type SessionVault = {
+  backupSatCode: SessionVaultBackupSatCode;
+  cookies: SessionVaultCookies;
+  lastLoginOn: SessionVaultLastLoginOn;
+  mfaChallenge: SessionVaultMfaChallenge;
+  networkId: SessionVaultNetworkId;
+  portalVersion: SessionVaultPortalVersion;
+};
+
+/**
+ * Sessions.
+ *
+ * @since 1.0.0
+ */
+export type Sessions<Shape extends Record<string, AxiosResponseNodeJs<unknown, unknown> | JSDOM>> = Shape;
+
+/**
+ * Set panel arm mode.
+ *
+ * @since 3.3.0
+ */
+export type SetPanelArmModeInstance = ADTPulse;
+
+export type SetPanelArmModeNetworkId = NetworkId | null;
+
+export type SetPanelArmModeArmModes = HomeKitArmModes;
+
+export type SetPanelArmModeArmFrom = PortalPanelArmValue;
+
+export type SetPanelArmModeArmMode = HomeKitArmMode | 'off';
+
+export type SetPanelArmModeIsAlarmActive = boolean;
+
+export type SetPanelArmModeReturnsArmTo = PortalPanelArmValue | null;
+
+export type SetPanelArmModeReturnsResult = Awaited<ADTPulseSetPanelStatusReturns>;
+
+export type SetPanelArmModeReturns = Promise<{
+  armTo: SetPanelArmModeReturnsArmTo;
+  result: SetPanelArmModeReturnsResult;
+}>;
+
 /**
  * Sleep.
  *
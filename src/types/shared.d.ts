@@ -1,7 +1,5 @@
 import type { AxiosResponse } from 'axios';
-import type { Logger } from 'homebridge';
 import type http from 'http';
-import type { JSDOM } from 'jsdom';
 import type { ErrorObject } from 'serialize-error';
 import z from 'zod';
 
@@ -32,16 +30,160 @@ import type {
   PortalSensorDeviceType,
   PortalSensorStatusIcon,
   PortalSensorStatusText,
+  PortalSyncCode,
   PortalVersion,
 } from '@/types/constant.d.ts';
 
+/**
+ * Access code form.
+ *
+ * @since 3.3.0
+ */
+export type AccessCodeFormAction = string;
+
+export type AccessCodeFormCodeField = string;
+
+export type AccessCodeFormFields = Record<string, string>;
+
+export type AccessCodeFormMessage = string | null;
+
+export type AccessCodeForm = {
+  action: AccessCodeFormAction;
+  codeField: AccessCodeFormCodeField;
+  fields: AccessCodeFormFields;
+  message: AccessCodeFormMessage;
+};
+
+/**
+ * Access code vault.
+ *
+ * @since 3.3.0
+ */
+export type AccessCodeVaultUserAccessCode = string;
+
+export type AccessCodeVaultUserName = string;
+
+export type AccessCodeVaultUser = {
+  accessCode: AccessCodeVaultUserAccessCode;
+  name: AccessCodeVaultUserName;
+};
+
+export type AccessCodeVaultUsers = AccessCodeVaultUser[];
+
+export type AccessCodeVault = {
+  users: AccessCodeVaultUsers;
+};
+
+/**
+ * Api event.
+ *
+ * @since 3.3.0
+ */
+export type ApiEventGatewayStatusChangedNetworkId = NetworkId;
+
+export type ApiEventGatewayStatusChangedOld = GatewayInformation;
+
+export type ApiEventGatewayStatusChangedNew = GatewayInformation;
+
+export type ApiEventGatewayStatusChanged = {
+  networkId: ApiEventGatewayStatusChangedNetworkId;
+  old: ApiEventGatewayStatusChangedOld;
+  new: ApiEventGatewayStatusChangedNew;
+};
+
+export type ApiEventLoginFailedInfo = ApiResponseFailInfo;
+
+export type ApiEventLoginFailed = {
+  info: ApiEventLoginFailedInfo;
+};
+
+export type ApiEventPanelStateChangedNetworkId = NetworkId;
+
+export type ApiEventPanelStateChangedOld = PanelStatus;
+
+export type ApiEventPanelStateChangedNew = PanelStatus;
+
+export type ApiEventPanelStateChanged = {
+  networkId: ApiEventPanelStateChangedNetworkId;
+  old: ApiEventPanelStateChangedOld;
+  new: ApiEventPanelStateChangedNew;
+};
+
+export type ApiEventParserAnomalyType = 'debug-parser' | 'do-submit-handlers' | 'gateway-information' | 'orb-security-buttons' | 'panel-information' | 'panel-status' | 'portal-version' | 'sensors-information' | 'sensors-status';
+
+export type ApiEventParserAnomalyData = unknown;
+
+export type ApiEventParserAnomaly = {
+  type: ApiEventParserAnomalyType;
+  data: ApiEventParserAnomalyData;
+};
+
+export type ApiEventSensorStatusChangedNetworkId = NetworkId;
+
+export type ApiEventSensorStatusChangedOld = SensorStatus;
+
+export type ApiEventSensorStatusChangedNew = SensorStatus;
+
+export type ApiEventSensorStatusChanged = {
+  networkId: ApiEventSensorStatusChangedNetworkId;
+  old: ApiEventSensorStatusChangedOld;
+  new: ApiEventSensorStatusChangedNew;
+};
+
+export type ApiEventSessionResetWasAuthenticated = boolean;
+
+export type ApiEventSessionReset = {
+  wasAuthenticated: ApiEventSessionResetWasAuthenticated;
+};
+
+export type ApiEventSyncCodeChangedNetworkId = NetworkId;
+
+export type ApiEventSyncCodeChangedOld = PortalSyncCode;
+
+export type ApiEventSyncCodeChangedNew = PortalSyncCode;
+
+export type ApiEventSyncCodeChanged = {
+  networkId: ApiEventSyncCodeChangedNetworkId;
+  old: ApiEventSyncCodeChangedOld;
+  new: ApiEventSyncCodeChangedNew;
+};
+
+export type ApiEvents = {
+  gatewayStatusChanged: ApiEventGatewayStatusChanged;
+  loginFailed: ApiEventLoginFailed;
+  panelStateChanged: ApiEventPanelStateChanged;
+  parserAnomaly: ApiEventParserAnomaly;
+  sensorStatusChanged: ApiEventSensorStatusChanged;
+  sessionReset: ApiEventSessionReset;
+  syncCodeChanged: ApiEventSyncCodeChanged;
+};
+
+export type ApiEventName = keyof ApiEvents;
+
+export type ApiEventListener<Name extends ApiEventName> = (event: ApiEvents[Name]) => void;
+
+/**
+ * Api logger.
+ *
+ * @since 3.3.0
+ */
+export type ApiLoggerMethod = (message: string, ...parameters: unknown[]) => void;
+
+export type ApiLogger = {
+  error: ApiLoggerMethod;
+  info: ApiLoggerMethod;
+  warn: ApiLoggerMethod;
+};
+
 /**
  * Api response.
  *
  * @since 1.0.0
  */
 export type ApiResponseAction =
-  'ARM_DISARM_HANDLER'
+  'ACCESS_CODE_HANDLER'
+  | 'ACQUIRE_SITE'
+  | 'ARM_DISARM_HANDLER'
   | 'FORCE_ARM_HANDLER'
   | 'GET_GATEWAY_INFORMATION'
   | 'GET_ORB_SECURITY_BUTTONS'
@@ -49,11 +191,15 @@ export type ApiResponseAction =
   | 'GET_PANEL_STATUS'
   | 'GET_SENSORS_INFORMATION'
   | 'GET_SENSORS_STATUS'
+  | 'GET_SUMMARY_SNAPSHOT'
   | 'LOGIN'
   | 'LOGOUT'
   | 'PERFORM_KEEP_ALIVE'
   | 'PERFORM_SYNC_CHECK'
-  | 'SET_PANEL_STATUS';
+  | 'REQUEST_MFA_CODE'
+  | 'SET_PANEL_STATUS'
+  | 'SUBMIT_MFA_CODE'
+  | 'SWITCH_SITE';
 
 export type ApiResponseSuccessSuccess = true;
 
@@ -172,6 +318,8 @@ export type DeviceSoftware = string | null;
 
 export type DeviceUuid = UUID;
 
+export type DeviceNetworkId = NetworkId | null;
+
 export type Device = {
   id: DeviceId;
   name: DeviceName;
@@ -186,6 +334,7 @@ export type Device = {
   hardware: DeviceHardware;
   software: DeviceSoftware;
   uuid: DeviceUuid;
+  networkId: DeviceNetworkId;
 };
 
 export type Devices = Device[];
@@ -219,6 +368,64 @@ export type DoSubmitHandler = {
 
 export type DoSubmitHandlers = DoSubmitHandler[];
 
+/**
+ * Fingerprint components.
+ *
+ * @since 3.3.0
+ */
+export type FingerprintComponentValue = boolean | number | string | null;
+
+export type FingerprintComponent = FingerprintComponentValue | Record<string, FingerprintComponentValue>;
+
+export type FingerprintComponents = Record<string, FingerprintComponent>;
+
+/**
+ * Fingerprint report.
+ *
+ * @since 3.3.0
+ */
+export type FingerprintReportIssueField = string;
+
+export type FingerprintReportIssueMessage = string;
+
+export type FingerprintReportIssue = {
+  field: FingerprintReportIssueField;
+  message: FingerprintReportIssueMessage;
+};
+
+export type FingerprintReportIssues = FingerprintReportIssue[];
+
+export type FingerprintReportIsValid = boolean;
+
+export type FingerprintReport = {
+  errors: FingerprintReportIssues;
+  isValid: FingerprintReportIsValid;
+  warnings: FingerprintReportIssues;
+};
+
+/**
+ * Gateway alert.
+ *
+ * @since 3.3.0
+ */
+export type GatewayAlertType = 'cellularBackup' | 'checkInMissed' | 'gatewayOffline';
+
+export type GatewayAlertTypes = GatewayAlertType[];
+
+export type GatewayAlertState = 'cleared' | 'raised';
+
+export type GatewayAlertSite = string | null;
+
+export type GatewayAlertMessage = string;
+
+export type GatewayAlertChange = {
+  type: GatewayAlertType;
+  state: GatewayAlertState;
+  message: GatewayAlertMessage;
+};
+
+export type GatewayAlertChanges = GatewayAlertChange[];
+
 /**
  * Gateway information.
  *
@@ -309,16 +516,33 @@ export type GatewayInformation = {
   versions: GatewayInformationVersions;
 };
 
+/**
+ * Home kit arm mode.
+ *
+ * @since 3.3.0
+ */
+export type HomeKitArmMode = 'away' | 'night' | 'stay';
+
+export type HomeKitArmModes = Config['armModes'];
+
 /**
  * Internal config.
  *
  * @since 1.0.0
  */
+export type InternalConfigAccessCodesFilePath = string;
+
 export type InternalConfigBaseUrl = `https://${string}`;
 
 export type InternalConfigDebug = boolean;
 
-export type InternalConfigLogger = Logger | null;
+export type InternalConfigIsSimulator = false;
+
+export type InternalConfigLogger = ApiLogger | null;
+
+export type InternalConfigNetworkId = NetworkId | null;
+
+export type InternalConfigSessionFilePath = string;
 
 export type InternalConfigTestModeEnabled = boolean;
 
@@ -329,13 +553,166 @@ export type InternalConfigTestMode = {
   isSystemDisarmedBeforeTest?: InternalConfigTestModeIsSystemDisarmedBeforeTest;
 };
 
-export type InternalConfig = {
+export type InternalConfigPortal = {
+  accessCodesFilePath?: InternalConfigAccessCodesFilePath;
   baseUrl?: InternalConfigBaseUrl;
   debug?: InternalConfigDebug;
+  isSimulator?: InternalConfigIsSimulator;
   logger?: InternalConfigLogger;
+  networkId?: InternalConfigNetworkId;
+  sessionFilePath?: InternalConfigSessionFilePath;
   testMode?: InternalConfigTestMode;
 };
 
+export type InternalConfigSimulatorBaseUrl = `http://${string}`;
+
+export type InternalConfigSimulatorIsSimulator = true;
+
+export type InternalConfigSimulator = Omit<InternalConfigPortal, 'baseUrl' | 'isSimulator'> & {
+  baseUrl: InternalConfigSimulatorBaseUrl;
+  isSimulator: InternalConfigSimulatorIsSimulator;
+};
+
+export type InternalConfig = InternalConfigPortal | InternalConfigSimulator;
+
+/**
+ * Journal entry.
+ *
+ * @since 3.3.0
+ */
+export type JournalEventArmRequestType = 'armRequest';
+
+export type JournalEventArmRequestSource = 'controlApi' | 'homekit' | 'mqtt';
+
+export type JournalEventArmRequestArmFrom = PortalPanelArmValue;
+
+export type JournalEventArmRequestArmTo = PortalPanelArmValue;
+
+export type JournalEventArmRequestSuccess = boolean;
+
+export type JournalEventArmRequest = {
+  type: JournalEventArmRequestType;
+  source: JournalEventArmRequestSource;
+  armFrom: JournalEventArmRequestArmFrom;
+  armTo: JournalEventArmRequestArmTo;
+  success: JournalEventArmRequestSuccess;
+};
+
+export type JournalEventDeviceStatusType = 'gatewayStatus' | 'panelState' | 'panelStatus';
+
+export type JournalEventDeviceStatusOld = string;
+
+export type JournalEventDeviceStatusNew = string;
+
+export type JournalEventDeviceStatus = {
+  type: JournalEventDeviceStatusType;
+  old: JournalEventDeviceStatusOld;
+  new: JournalEventDeviceStatusNew;
+};
+
+export type JournalEventSensorStateType = 'sensorState';
+
+export type JournalEventSensorStateName = string;
+
+export type JournalEventSensorStateZone = number;
+
+export type JournalEventSensorStateOld = PortalSensorStatusText[];
+
+export type JournalEventSensorStateNew = PortalSensorStatusText[];
+
+export type JournalEventSensorState = {
+  type: JournalEventSensorStateType;
+  name: JournalEventSensorStateName;
+  zone: JournalEventSensorStateZone;
+  old: JournalEventSensorStateOld;
+  new: JournalEventSensorStateNew;
+};
+
+export type JournalEventSensorStatusType = 'sensorStatus';
+
+export type JournalEventSensorStatusName = string;
+
+export type JournalEventSensorStatusZone = number;
+
+export type JournalEventSensorStatusOld = PortalDeviceSensorStatus;
+
+export type JournalEventSensorStatusNew = PortalDeviceSensorStatus;
+
+export type JournalEventSensorStatus = {
+  type: JournalEventSensorStatusType;
+  name: JournalEventSensorStatusName;
+  zone: JournalEventSensorStatusZone;
+  old: JournalEventSensorStatusOld;
+  new: JournalEventSensorStatusNew;
+};
+
+export type JournalEvent = JournalEventArmRequest | JournalEventDeviceStatus | JournalEventSensorState | JournalEventSensorStatus;
+
+export type JournalEntryTimestamp = number;
+
+export type JournalEntry = JournalEvent & {
+  timestamp: JournalEntryTimestamp;
+};
+
+/**
+ * Mfa challenge.
+ *
+ * @since 3.3.0
+ */
+export type MfaChallengeCreatedOn = number;
+
+export type MfaChallengeRequestForm = MfaForm;
+
+export type MfaChallengeVerifyForm = MfaForm | null;
+
+export type MfaChallenge = {
+  createdOn: MfaChallengeCreatedOn;
+  requestForm: MfaChallengeRequestForm;
+  verifyForm: MfaChallengeVerifyForm;
+};
+
+/**
+ * Mfa form.
+ *
+ * @since 3.3.0
+ */
+export type MfaFormAction = string;
+
+export type MfaFormCodeField = string | null;
+
+export type MfaFormFields = Record<string, string>;
+
+export type MfaFormMethodField = string | null;
+
+export type MfaFormMethodId = string;
+
+export type MfaFormMethodLabel = string;
+
+export type MfaFormMethod = {
+  id: MfaFormMethodId;
+  label: MfaFormMethodLabel;
+};
+
+export type MfaFormMethods = MfaFormMethod[];
+
+export type MfaFormTrustFieldName = string;
+
+export type MfaFormTrustFieldValue = string;
+
+export type MfaFormTrustField = {
+  name: MfaFormTrustFieldName;
+  value: MfaFormTrustFieldValue;
+} | null;
+
+export type MfaForm = {
+  action: MfaFormAction;
+  codeField: MfaFormCodeField;
+  fields: MfaFormFields;
+  methodField: MfaFormMethodField;
+  methods: MfaFormMethods;
+  trustField: MfaFormTrustField;
+};
+
 /**
  * Network id.
  *
@@ -343,6 +720,27 @@ export type InternalConfig = {
  */
 export type NetworkId = string;
 
+/**
+ * Open zone.
+ *
+ * @since 3.3.0
+ */
+export type OpenZoneName = string;
+
+export type OpenZoneStatus = PortalSensorStatusText;
+
+export type OpenZoneStatuses = OpenZoneStatus[];
+
+export type OpenZoneZone = number;
+
+export type OpenZone = {
+  name: OpenZoneName;
+  statuses: OpenZoneStatuses;
+  zone: OpenZoneZone;
+};
+
+export type OpenZones = OpenZone[];
+
 /**
  * Orb security buttons.
  *
@@ -407,6 +805,15 @@ export type OrbSecurityButton = (OrbSecurityButtonBase & OrbSecurityButtonReady)
 
 export type OrbSecurityButtons = OrbSecurityButton[];
 
+/**
+ * Panel alarm.
+ *
+ * @since 3.3.0
+ */
+export type PanelAlarmType = 'burglary' | 'carbonMonoxide' | 'fire' | 'sensorProblem' | 'uncleared' | 'water';
+
+export type PanelAlarmTypes = PanelAlarmType[];
+
 /**
  * Panel information.
  *
@@ -471,6 +878,45 @@ export type PanelStatus = {
   rawData: PanelStatusRawData;
 };
 
+/**
+ * Panel transition.
+ *
+ * @since 3.3.0
+ */
+export type PanelTransitionEndsAt = number | null;
+
+export type PanelTransitionPreviousPanelStates = PanelStatusStates;
+
+export type PanelTransitionType = 'arming' | 'pending';
+
+export type PanelTransition = {
+  endsAt: PanelTransitionEndsAt;
+  previousPanelStates: PanelTransitionPreviousPanelStates;
+  type: PanelTransitionType;
+};
+
+/**
+ * Platform event.
+ *
+ * @since 3.3.0
+ */
+export type PlatformEventSite = string | null;
+
+export type PlatformEventNetworkId = NetworkId | null;
+
+export type PlatformEventSource = {
+  site: PlatformEventSite;
+  networkId: PlatformEventNetworkId;
+};
+
+export type PlatformEvents = {
+  [Name in ApiEventName]: ApiEvents[Name] & PlatformEventSource;
+};
+
+export type PlatformEventName = keyof PlatformEvents;
+
+export type PlatformEventListener<Name extends PlatformEventName> = (event: PlatformEvents[Name]) => void;
+
 /**
  * Portal version content.
  *
@@ -480,6 +926,15 @@ export type PortalVersionContent = {
   version: PortalVersion | null;
 };
 
+/**
+ * Refetch plan.
+ *
+ * @since 3.3.0
+ */
+export type RefetchPlanItem = 'gatewayInfo' | 'orbSecurityButtons' | 'panelInfo' | 'panelStatus' | 'sensorsInfo' | 'sensorsStatus';
+
+export type RefetchPlan = RefetchPlanItem[];
+
 /**
  * Sensor information.
  *
@@ -526,15 +981,70 @@ export type SensorStatus = {
 };
 
 /**
- * Sessions.
+ * UUID.
  *
  * @since 1.0.0
  */
-export type Sessions<Shape extends Record<string, AxiosResponseNodeJs<unknown, unknown> | JSDOM>> = Shape;
+export type UUID = string;
 
 /**
- * UUID.
+ * Webhook event.
  *
- * @since 1.0.0
+ * @since 3.3.0
  */
-export type UUID = string;
+export type WebhookEventType =
+  'alarmCleared'
+  | 'alarmStarted'
+  | 'armed'
+  | 'disarmed'
+  | 'gatewayAlertCleared'
+  | 'gatewayAlertRaised'
+  | 'loginSuspended'
+  | 'sensorBypassed'
+  | 'sensorLowBattery'
+  | 'sensorOffline'
+  | 'sensorTampered';
+
+export type WebhookEventSite = string | null;
+
+export type WebhookEventNetworkId = NetworkId | null;
+
+export type WebhookEventMessage = string;
+
+export type WebhookEventTimestamp = number;
+
+export type WebhookEventAlarms = PanelAlarmTypes;
+
+export type WebhookEventArmFrom = PortalPanelArmValue;
+
+export type WebhookEventArmTo = PortalPanelArmValue;
+
+export type WebhookEventInitiator = JournalEventArmRequestSource | null;
+
+export type WebhookEventGatewayAlert = GatewayAlertType;
+
+export type WebhookEventGateway = Pick<GatewayInformation, 'communication' | 'status' | 'update'>;
+
+export type WebhookEventSensorName = string;
+
+export type WebhookEventSensorZone = number;
+
+export type WebhookEventSensor = {
+  name: WebhookEventSensorName;
+  zone: WebhookEventSensorZone;
+};
+
+export type WebhookEvent = {
+  type: WebhookEventType;
+  site: WebhookEventSite;
+  networkId: WebhookEventNetworkId;
+  message: WebhookEventMessage;
+  timestamp: WebhookEventTimestamp;
+  alarms?: WebhookEventAlarms;
+  armFrom?: WebhookEventArmFrom;
+  armTo?: WebhookEventArmTo;
+  gateway?: WebhookEventGateway;
+  gatewayAlert?: WebhookEventGatewayAlert;
+  initiator?: WebhookEventInitiator;
+  sensor?: WebhookEventSensor;
+};